@@ -1,5 +1,5 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { MultiLevelCacheService } from './multi-level-cache.service';
+import { MultiLevelCacheConfig, MultiLevelCacheService } from './multi-level-cache.service';
 import { Document } from '../../models/document.model';
 
 // Mock Redis client
@@ -7,26 +7,47 @@ class MockRedisClient {
   private store = new Map<string, string>();
 
   async get(key: string): Promise<string | null> {
-    return this.store.get(key) || null;
+    return this.store.get(key) ?? null;
   }
 
   async set(key: string, value: string): Promise<void> {
     this.store.set(key, value);
   }
 
-  async del(key: string): Promise<void> {
-    this.store.delete(key);
+  async setex(key: string, _seconds: number, value: string): Promise<string> {
+    this.store.set(key, value);
+    return 'OK';
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    return keys.filter(key => this.store.delete(key)).length;
   }
 
   async flushdb(): Promise<void> {
     this.store.clear();
   }
 
-  async keys(): Promise<string[]> {
-    return Array.from(this.store.keys());
+  // 仅支持服务使用的前缀通配（prefix*）
+  async keys(pattern: string): Promise<string[]> {
+    const prefix = pattern.replace(/\*$/, '');
+    return Array.from(this.store.keys()).filter(key => key.startsWith(prefix));
   }
 }
 
+// Helper function to create a service backed by the given Redis mock
+function createService(redis: MockRedisClient, config: Partial<MultiLevelCacheConfig> = {}): MultiLevelCacheService {
+  return new MultiLevelCacheService(
+    {
+      l1TTL: 1000,
+      l2TTL: 2000,
+      l1MaxSize: 100,
+      enableL2: true,
+      ...config,
+    },
+    redis as any
+  );
+}
+
 // Helper function to create test documents
 function createDocs(content: string): Document[] {
   return [{ pageContent: content, metadata: {} }] as any;
@@ -43,17 +64,7 @@ describe('MultiLevelCacheService', () => {
       providers: [
         {
           provide: MultiLevelCacheService,
-          useFactory: () => {
-            return new MultiLevelCacheService(
-              {
-                l1TTL: 1000,
-                l2TTL: 2000,
-                l1MaxSize: 100,
-                enableL2: true,
-              },
-              mockRedis as any
-            );
-          },
+          useFactory: () => createService(mockRedis),
         },
       ],
     }).compile();
@@ -62,6 +73,7 @@ describe('MultiLevelCacheService', () => {
   });
 
   afterEach(async () => {
+    jest.restoreAllMocks();
     await service.clear();
   });
 
@@ -115,6 +127,10 @@ describe('MultiLevelCacheService', () => {
         mockRedis as any
       );
 
+      // 固定时钟递增，避免同一毫秒内访问时间相同
+      let now = 0;
+      jest.spyOn(Date, 'now').mockImplementation(() => ++now);
+
       await smallCacheService.set('key1', createDocs('value1'));
       await smallCacheService.set('key2', createDocs('value2'));
       await smallCacheService.set('key3', createDocs('value3'));
@@ -134,34 +150,34 @@ describe('MultiLevelCacheService', () => {
 
   describe('L2 Cache (Redis)', () => {
     it('should store and retrieve from L2 cache', async () => {
-      const docs = createDocs('value1');
-      await service.set('key1', docs);
-
-      // 清除 L1 缓存
-      await service.clear();
+      await service.set('key1', createDocs('value1'));
 
-      // 应该从 L2 获取
-      const value = await service.get('key1');
-      expect(value).toBeTruthy();
+      // 共享 Redis 的新实例 L1 为空，应该从 L2 获取
+      const other = createService(mockRedis);
+      const value = await other.get('key1');
+      expect(value!.map(doc => doc.pageContent)).toEqual(['value1']);
+      other.destroy();
     });
 
     it('should backfill L1 from L2', async () => {
       const docs = createDocs('value1');
       await service.set('key1', docs);
 
-      // 清除 L1 缓存（但保留 L2）
-      await service.clear();
+      // 共享 Redis 的新实例（L1 为空，L2 保留）
+      const other = createService(mockRedis);
 
       // 第一次从 L2 获取
-      const value1 = await service.get('key1');
+      const value1 = await other.get('key1');
       expect(value1).toBeTruthy();
 
       // 第二次应该从 L1 获取（已回填）
-      const value2 = await service.get('key1');
+      const value2 = await other.get('key1');
       expect(value2).toBeTruthy();
 
-      const stats = service.getStats();
-      expect(stats.l1.hits).toBeGreaterThan(0);
+      const stats = other.getStats();
+      expect(stats.l1.hits).toBe(1);
+      expect(stats.l2!.hits).toBe(1);
+      other.destroy();
     });
   });
 
@@ -181,7 +197,7 @@ describe('MultiLevelCacheService', () => {
     it('should fall back to L2 when L1 misses', async () => {
       // 直接写入 L2
       const docs = createDocs('value1');
-      await mockRedis.set('cache:key1', JSON.stringify({ value: docs }));
+      await mockRedis.set('document:cache:key1', JSON.stringify(docs));
 
       // 从 L2 获取
       const value = await service.get('key1');
@@ -243,8 +259,8 @@ describe('MultiLevelCacheService', () => {
 
     it('should track L2 hit rate', async () => {
       // 直接写入 L2
-      await mockRedis.set('cache:key1', JSON.stringify({ value: createDocs('value1') }));
-      await mockRedis.set('cache:key2', JSON.stringify({ value: createDocs('value2') }));
+      await mockRedis.set('document:cache:key1', JSON.stringify(createDocs('value1')));
+      await mockRedis.set('document:cache:key2', JSON.stringify(createDocs('value2')));
 
       // L1 未命中，L2 命中
       await service.get('key1');
@@ -0,0 +1,42 @@
+import { InMemoryDocStore } from './in-memory-docstore';
+import { Document } from '../../models/document.model';
+
+describe('InMemoryDocStore', () => {
+  let docstore: InMemoryDocStore;
+  const first = new Document({ pageContent: 'first', id: 'a' });
+  const second = new Document({ pageContent: 'second', id: 'b' });
+
+  beforeEach(async () => {
+    docstore = new InMemoryDocStore();
+    await docstore.mset([
+      ['a', first],
+      ['b', second],
+    ]);
+  });
+
+  it('should return documents in the order of the requested ids', async () => {
+    expect(await docstore.mget(['b', 'a'])).toEqual([second, first]);
+    expect(docstore.size).toBe(2);
+  });
+
+  it('should return undefined for missing ids', async () => {
+    expect(await docstore.mget(['a', 'missing'])).toEqual([first, undefined]);
+    expect(await docstore.mget([])).toEqual([]);
+  });
+
+  it('should overwrite documents with the same id', async () => {
+    const replaced = new Document({ pageContent: 'replaced', id: 'a' });
+
+    await docstore.mset([['a', replaced]]);
+
+    expect(await docstore.mget(['a'])).toEqual([replaced]);
+    expect(docstore.size).toBe(2);
+  });
+
+  it('should delete documents and ignore missing ids', async () => {
+    await docstore.mdelete(['a', 'missing']);
+
+    expect(await docstore.mget(['a', 'b'])).toEqual([undefined, second]);
+    expect(docstore.size).toBe(1);
+  });
+});
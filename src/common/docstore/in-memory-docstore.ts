@@ -0,0 +1,34 @@
+import { Document } from '../../models/document.model';
+import { IDocStore } from '../interfaces/docstore.interface';
+
+/**
+ * 内存文档存储
+ *
+ * 适用于单进程和测试场景，进程重启后数据丢失
+ */
+export class InMemoryDocStore implements IDocStore {
+  private readonly store = new Map<string, Document>();
+
+  async mget(ids: string[]): Promise<Array<Document | undefined>> {
+    return ids.map(id => this.store.get(id));
+  }
+
+  async mset(entries: Array<[string, Document]>): Promise<void> {
+    for (const [id, doc] of entries) {
+      this.store.set(id, doc);
+    }
+  }
+
+  async mdelete(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.store.delete(id);
+    }
+  }
+
+  /**
+   * 当前存储的文档数量
+   */
+  get size(): number {
+    return this.store.size;
+  }
+}
@@ -0,0 +1,2 @@
+export * from './in-memory-docstore';
+export * from './redis-docstore';
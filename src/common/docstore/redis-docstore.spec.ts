@@ -0,0 +1,65 @@
+import { RedisDocStore } from './redis-docstore';
+import { Document } from '../../models/document.model';
+
+// Mock Redis client
+class MockRedisClient {
+  readonly store = new Map<string, string>();
+  readonly ttls = new Map<string, number>();
+
+  async get(key: string): Promise<string | null> {
+    return this.store.get(key) ?? null;
+  }
+
+  async setex(key: string, seconds: number, value: string): Promise<string> {
+    this.store.set(key, value);
+    this.ttls.set(key, seconds);
+    return 'OK';
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    return keys.filter(key => this.store.delete(key)).length;
+  }
+}
+
+describe('RedisDocStore', () => {
+  let redis: MockRedisClient;
+  let docstore: RedisDocStore;
+  const doc = new Document({ pageContent: '父块内容', metadata: { source: 'a.md' }, id: 'p1' });
+
+  beforeEach(() => {
+    redis = new MockRedisClient();
+    docstore = new RedisDocStore(redis as any, { keyPrefix: 'test:docstore', ttl: 60 });
+  });
+
+  it('should store documents as JSON under the key prefix with the TTL', async () => {
+    await docstore.mset([['p1', doc]]);
+
+    expect(JSON.parse(redis.store.get('test:docstore:p1')!)).toEqual({
+      id: 'p1',
+      pageContent: '父块内容',
+      metadata: { source: 'a.md' },
+    });
+    expect(redis.ttls.get('test:docstore:p1')).toBe(60);
+  });
+
+  it('should restore documents and return undefined for missing or invalid entries', async () => {
+    await docstore.mset([['p1', doc]]);
+    redis.store.set('test:docstore:broken', '{not json');
+
+    const [restored, missing, broken] = await docstore.mget(['p1', 'missing', 'broken']);
+
+    expect(restored).toBeInstanceOf(Document);
+    expect(restored).toEqual(doc);
+    expect(missing).toBeUndefined();
+    expect(broken).toBeUndefined();
+  });
+
+  it('should delete documents', async () => {
+    await docstore.mset([['p1', doc]]);
+
+    await docstore.mdelete(['p1']);
+    await docstore.mdelete([]);
+
+    expect(await docstore.mget(['p1'])).toEqual([undefined]);
+  });
+});
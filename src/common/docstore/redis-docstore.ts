@@ -0,0 +1,82 @@
+import { Logger } from '@nestjs/common';
+import { Document } from '../../models/document.model';
+import { IDocStore } from '../interfaces/docstore.interface';
+import { IRedisClient } from '../interfaces/redis-client.interface';
+
+/**
+ * RedisDocStore 配置选项
+ */
+export interface RedisDocStoreOptions {
+  /**
+   * 键前缀
+   * @default "document:docstore"
+   */
+  keyPrefix?: string;
+
+  /**
+   * 过期时间（秒）
+   * @default 604800（7 天）
+   */
+  ttl?: number;
+}
+
+/**
+ * Redis 文档存储
+ *
+ * 每个文档以 JSON 形式保存在 `${keyPrefix}:${id}`，用于分布式环境下的父块存储
+ */
+export class RedisDocStore implements IDocStore {
+  private readonly logger = new Logger(RedisDocStore.name);
+  private readonly keyPrefix: string;
+  private readonly ttl: number;
+
+  constructor(
+    private readonly redis: IRedisClient,
+    options: RedisDocStoreOptions = {},
+  ) {
+    this.keyPrefix = options.keyPrefix ?? 'document:docstore';
+    this.ttl = options.ttl ?? 86400 * 7;
+  }
+
+  async mget(ids: string[]): Promise<Array<Document | undefined>> {
+    return Promise.all(
+      ids.map(async id => {
+        const data = await this.redis.get(this.getKey(id));
+        if (!data) {
+          return undefined;
+        }
+
+        try {
+          return new Document(JSON.parse(data));
+        } catch (error) {
+          this.logger.error(`Failed to parse document ${id}`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return undefined;
+        }
+      })
+    );
+  }
+
+  async mset(entries: Array<[string, Document]>): Promise<void> {
+    await Promise.all(
+      entries.map(([id, doc]) =>
+        this.redis.setex(
+          this.getKey(id),
+          this.ttl,
+          JSON.stringify({ id: doc.id, pageContent: doc.pageContent, metadata: doc.metadata })
+        )
+      )
+    );
+  }
+
+  async mdelete(ids: string[]): Promise<void> {
+    if (ids.length > 0) {
+      await this.redis.del(...ids.map(id => this.getKey(id)));
+    }
+  }
+
+  private getKey(id: string): string {
+    return `${this.keyPrefix}:${id}`;
+  }
+}
@@ -96,3 +96,50 @@ export class DocumentLoadError extends DocumentError {
     this.name = 'DocumentLoadError';
   }
 }
+
+/**
+ * 压缩包超出安全限制错误（条目数、解压后总大小、压缩比）
+ *
+ * 用于防御 zip bomb，属于确定性错误，加载器不会重试
+ */
+export class ArchiveLimitError extends DocumentError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, 'ARCHIVE_LIMIT_EXCEEDED', details);
+    this.name = 'ArchiveLimitError';
+  }
+}
+
+/**
+ * 加密文档错误：未提供密码或密码错误
+ *
+ * 属于确定性错误，加载器不会重试；调用方可根据 reason 提示用户输入或重新输入密码
+ */
+export class EncryptedDocumentError extends DocumentError {
+  constructor(
+    public readonly reason: 'password_required' | 'incorrect_password',
+    details?: Record<string, any>
+  ) {
+    super(
+      reason === 'password_required' ? '文档已加密，需要提供密码' : '文档密码错误',
+      'ENCRYPTED_DOCUMENT',
+      { reason, ...details }
+    );
+    this.name = 'EncryptedDocumentError';
+  }
+}
+
+/**
+ * JSON Lines 行解析错误
+ *
+ * 属于确定性错误，加载器不会重试；details.line 为出错的行号（从 1 开始）
+ */
+export class InvalidJsonLineError extends DocumentError {
+  constructor(
+    public readonly line: number,
+    reason: string,
+    details?: Record<string, any>
+  ) {
+    super(`第 ${line} 行不是合法的 JSON: ${reason}`, 'INVALID_JSON_LINE', { line, reason, ...details });
+    this.name = 'InvalidJsonLineError';
+  }
+}
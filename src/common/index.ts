@@ -8,6 +8,9 @@ export * from './interfaces';
 // ========== 缓存 ==========
 export * from './cache';
 
+// ========== 文档存储 ==========
+export * from './docstore';
+
 // ========== 监控 ==========
 export * from './monitoring';
 
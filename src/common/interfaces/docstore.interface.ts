@@ -0,0 +1,32 @@
+import { Document } from '../../models/document.model';
+
+/**
+ * 文档存储接口
+ *
+ * 按 ID 存取 Document，用于父子块检索（ParentDocumentSplitter）：
+ * 检索命中子块后，通过 metadata.parentId 取回完整的父块。
+ * 可由外部模块自定义实现（数据库、对象存储等），或使用内置的 InMemoryDocStore / RedisDocStore
+ */
+export interface IDocStore {
+  /**
+   * 批量获取文档
+   *
+   * @param ids - 文档 ID 数组
+   * @returns 与 ids 一一对应的文档，不存在时为 undefined
+   */
+  mget(ids: string[]): Promise<Array<Document | undefined>>;
+
+  /**
+   * 批量保存文档（已存在的 ID 会被覆盖）
+   *
+   * @param entries - [ID, 文档] 数组
+   */
+  mset(entries: Array<[string, Document]>): Promise<void>;
+
+  /**
+   * 批量删除文档
+   *
+   * @param ids - 文档 ID 数组
+   */
+  mdelete(ids: string[]): Promise<void>;
+}
@@ -1,5 +1,6 @@
 export { IRedisClient } from './redis-client.interface';
-export { IOCRService, IOCRResult } from './ocr-service.interface';
+export { IOCRService, IOCRInput, IOCRResult } from './ocr-service.interface';
 export { IDocumentProcessor } from './processor.interface';
 export { IDocumentTransformer } from './transformer.interface';
 export { IEmbeddingService } from './embedding-service.interface';
+export { IDocStore } from './docstore.interface';
@@ -9,14 +9,14 @@ export interface IOCRService {
    * 处理文档（OCR 识别）
    *
    * @param taskId - 任务标识
-   * @param input - 输入数据（如 PDF Buffer）
+   * @param input - 输入数据（PDF Buffer 或图片 Buffer）
    * @param options - 处理选项
    * @param callbacks - 页面级回调
    * @returns OCR 处理结果
    */
   processDocument(
     taskId: string,
-    input: { pdfBuffer: Buffer },
+    input: IOCRInput,
     options?: {
       processOnlyPages?: number[];
       ocrPrompt?: string;
@@ -45,6 +45,24 @@ export interface IOCRService {
   healthCheck?(): Promise<void>;
 }
 
+/**
+ * OCR 输入
+ *
+ * - pdfBuffer: PDF 文件，逐页渲染为图片后识别；加密 PDF 需同时提供 password
+ * - imageBuffer: 图片文件（JPEG / PNG / GIF / WEBP / TIFF），多帧 TIFF 的每一帧作为一页识别
+ */
+export type IOCRInput =
+  | {
+      pdfBuffer: Buffer;
+      /** 加密 PDF 的打开密码 */
+      password?: string;
+    }
+  | {
+      imageBuffer: Buffer;
+      /** 图片 MIME 类型（未提供时按文件头识别） */
+      mimeType?: string;
+    };
+
 /**
  * OCR 页面处理结果
  */
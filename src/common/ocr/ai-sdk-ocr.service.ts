@@ -1,9 +1,12 @@
 import { Logger } from '@nestjs/common';
+import type { SubClass } from 'gm';
 import {
   IOCRService,
+  IOCRInput,
   IOCRResult,
   IOCRPageResult,
 } from '../interfaces/ocr-service.interface';
+import { getTiffFrameCount, isTiff } from './tiff';
 
 /**
  * AI SDK OCR 服务配置
@@ -41,6 +44,7 @@ const DEFAULT_OCR_PROMPT =
  *
  * 使用 `ai` + `@ai-sdk/openai-compatible` 调用视觉模型进行 OCR 识别。
  * 使用 `pdf-lib` 获取页数，`pdf2pic` 将每页渲染为图片后发送给视觉模型。
+ * 图片输入直接发送给视觉模型；多帧 TIFF 按帧拆分（同样由 `pdf2pic` / GraphicsMagick 转换），每帧作为一页。
  *
  * 当外部未传递 ocrService 时，模块会自动使用此默认实现。
  *
@@ -98,6 +102,8 @@ export class AiSdkOcrService implements IOCRService {
 
   /**
    * 获取 PDF 页数（pdf-lib）
+   *
+   * 页面树不加密，加密 PDF 无需密码即可统计页数
    */
   private async getPageCount(pdfBuffer: Buffer): Promise<number> {
     try {
@@ -115,7 +121,11 @@ export class AiSdkOcrService implements IOCRService {
   /**
    * 将 PDF 单页渲染为图片（pdf2pic）
    */
-  private async convertPageToImage(pdfBuffer: Buffer, pageIndex: number): Promise<Buffer> {
+  private async convertPageToImage(pdfBuffer: Buffer, pageIndex: number, password?: string): Promise<Buffer> {
+    if (password) {
+      return this.convertEncryptedPageToImage(pdfBuffer, pageIndex, password);
+    }
+
     try {
       const { fromBuffer } = await import('pdf2pic');
 
@@ -147,6 +157,101 @@ export class AiSdkOcrService implements IOCRService {
     }
   }
 
+  /**
+   * 将加密 PDF 单页渲染为图片
+   *
+   * pdf2pic 不支持传入密码，直接使用其底层的 gm（GraphicsMagick -authenticate，可选 peer 依赖），渲染参数与 pdf2pic 一致
+   */
+  private async convertEncryptedPageToImage(
+    pdfBuffer: Buffer,
+    pageIndex: number,
+    password: string,
+  ): Promise<Buffer> {
+    let gm: SubClass;
+    try {
+      const { subClass } = await import('gm');
+      gm = subClass({ imageMagick: false });
+    } catch {
+      throw new Error(
+        '需要安装 gm 依赖才能渲染加密 PDF。\n' +
+        '请运行: npm install gm\n' +
+        '注意: gm 依赖 GraphicsMagick 和 Ghostscript，请确保系统已安装。',
+      );
+    }
+
+    return new Promise<Buffer>((resolve, reject) => {
+      // gm 帧序号从 0 开始
+      gm(pdfBuffer, `document.pdf[${pageIndex - 1}]`)
+        .in('-authenticate', password)
+        .density(this.density, this.density)
+        .resize(this.imageWidth, this.imageHeight, '!')
+        .quality(this.imageQuality)
+        .toBuffer(this.imageFormat.toUpperCase(), (error, buffer) =>
+          error ? reject(error) : resolve(buffer),
+        );
+    });
+  }
+
+  /**
+   * 解析 OCR 输入：返回总页数和按页获取图片的函数
+   */
+  private async resolvePages(
+    input: IOCRInput,
+  ): Promise<{ totalPages: number; getPageImage: (pageIndex: number) => Promise<Buffer> }> {
+    if ('pdfBuffer' in input) {
+      return {
+        totalPages: await this.getPageCount(input.pdfBuffer),
+        getPageImage: pageIndex => this.convertPageToImage(input.pdfBuffer, pageIndex, input.password),
+      };
+    }
+
+    const { imageBuffer, mimeType } = input;
+    const tiff = mimeType ? mimeType === 'image/tiff' : isTiff(imageBuffer);
+    const frameCount = tiff ? getTiffFrameCount(imageBuffer) : 1;
+
+    // 单帧图片可直接发送给视觉模型；TIFF 大多数模型不支持，需要转换格式
+    return {
+      totalPages: frameCount,
+      getPageImage: async pageIndex =>
+        tiff ? this.convertTiffFrameToImage(imageBuffer, pageIndex) : imageBuffer,
+    };
+  }
+
+  /**
+   * 将 TIFF 单帧转换为图片（pdf2pic / GraphicsMagick）
+   */
+  private async convertTiffFrameToImage(tiffBuffer: Buffer, pageIndex: number): Promise<Buffer> {
+    try {
+      const { fromBuffer } = await import('pdf2pic');
+
+      const converter = fromBuffer(tiffBuffer, {
+        format: this.imageFormat,
+        width: this.imageWidth,
+        height: this.imageHeight,
+        quality: this.imageQuality,
+        preserveAspectRatio: true,
+      });
+
+      // pdf2pic 帧序号从 1 开始
+      const result = await converter(pageIndex, { responseType: 'buffer' });
+
+      if (!result?.buffer) {
+        throw new Error(`pdf2pic 未返回第 ${pageIndex} 帧的图片数据`);
+      }
+
+      return result.buffer as Buffer;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('pdf2pic')) {
+        throw error;
+      }
+      throw new Error(
+        '需要安装 pdf2pic 依赖才能转换 TIFF 图片。\n' +
+        '请运行: npm install pdf2pic\n' +
+        '注意: pdf2pic 依赖 GraphicsMagick，请确保系统已安装。',
+      );
+    }
+  }
+
   /**
    * 对单张图片调用视觉模型 OCR
    */
@@ -177,11 +282,12 @@ export class AiSdkOcrService implements IOCRService {
    * 处理文档（OCR 识别）
    *
    * 流程：pdf-lib 获取页数 → pdf2pic 按页转图 → 视觉模型 OCR → 收集结果
+   * 图片输入跳过渲染步骤，多帧 TIFF 每帧作为一页
    * 支持并发控制，避免同时发送过多请求
    */
   async processDocument(
     taskId: string,
-    input: { pdfBuffer: Buffer },
+    input: IOCRInput,
     options?: {
       processOnlyPages?: number[];
       ocrPrompt?: string;
@@ -194,7 +300,7 @@ export class AiSdkOcrService implements IOCRService {
     await this.ensureModel();
 
     const prompt = options?.ocrPrompt || this.defaultPrompt;
-    const totalPages = await this.getPageCount(input.pdfBuffer);
+    const { totalPages, getPageImage } = await this.resolvePages(input);
 
     const pagesToProcess = options?.processOnlyPages
       || Array.from({ length: totalPages }, (_, i) => i + 1);
@@ -212,8 +318,8 @@ export class AiSdkOcrService implements IOCRService {
       const startTime = Date.now();
 
       try {
-        // 1. PDF 页 → 图片
-        const imageBuffer = await this.convertPageToImage(input.pdfBuffer, pageIndex);
+        // 1. PDF 页 / TIFF 帧 → 图片
+        const imageBuffer = await getPageImage(pageIndex);
 
         // 2. 图片 → OCR 文本
         const text = await this.recognizePage(imageBuffer, prompt, pageIndex, totalPages);
@@ -0,0 +1,58 @@
+import { getTiffFrameCount, isTiff } from './tiff';
+
+// Helper function to build a TIFF whose IFD chain has the given number of frames
+function createTiff(frames: number, littleEndian = true): Buffer {
+  const ifdSize = 2 + 12 + 4; // entry count + one entry + next IFD offset
+  const buffer = Buffer.alloc(8 + frames * ifdSize);
+  const writeUInt16 = (value: number, offset: number) =>
+    littleEndian ? buffer.writeUInt16LE(value, offset) : buffer.writeUInt16BE(value, offset);
+  const writeUInt32 = (value: number, offset: number) =>
+    littleEndian ? buffer.writeUInt32LE(value, offset) : buffer.writeUInt32BE(value, offset);
+
+  buffer.write(littleEndian ? 'II' : 'MM', 0, 'latin1');
+  writeUInt16(42, 2);
+  writeUInt32(8, 4);
+
+  for (let i = 0; i < frames; i++) {
+    const offset = 8 + i * ifdSize;
+    writeUInt16(1, offset);
+    writeUInt32(i === frames - 1 ? 0 : offset + ifdSize, offset + 2 + 12);
+  }
+
+  return buffer;
+}
+
+describe('TIFF helpers', () => {
+  describe('isTiff', () => {
+    it('should recognise both byte orders', () => {
+      expect(isTiff(createTiff(1))).toBe(true);
+      expect(isTiff(createTiff(1, false))).toBe(true);
+      expect(isTiff(Buffer.from([0x89, 0x50, 0x4e, 0x47]))).toBe(false);
+      expect(isTiff(Buffer.from('II'))).toBe(false);
+    });
+  });
+
+  describe('getTiffFrameCount', () => {
+    it('should count frames along the IFD chain', () => {
+      expect(getTiffFrameCount(createTiff(1))).toBe(1);
+      expect(getTiffFrameCount(createTiff(3))).toBe(3);
+      expect(getTiffFrameCount(createTiff(4, false))).toBe(4);
+    });
+
+    it('should stop at cycles in the IFD chain', () => {
+      const tiff = createTiff(2);
+      // 第二个 IFD 指回第一个
+      tiff.writeUInt32LE(8, 8 + 18 + 2 + 12);
+
+      expect(getTiffFrameCount(tiff)).toBe(2);
+    });
+
+    it('should return the frames read so far for truncated files', () => {
+      expect(getTiffFrameCount(createTiff(3).subarray(0, 8 + 18 + 10))).toBe(2);
+    });
+
+    it('should treat non-TIFF buffers as a single frame', () => {
+      expect(getTiffFrameCount(Buffer.from('not a tiff'))).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * 判断是否为 TIFF（II*\0 / MM\0*）
+ */
+export function isTiff(buffer: Buffer): boolean {
+  return buffer.length >= 4 && (
+    buffer.subarray(0, 4).equals(Buffer.from([0x49, 0x49, 0x2a, 0x00])) ||
+    buffer.subarray(0, 4).equals(Buffer.from([0x4d, 0x4d, 0x00, 0x2a]))
+  );
+}
+
+/**
+ * 统计 TIFF 帧数（沿 IFD 链计数）
+ *
+ * 结构异常时返回已读取的帧数（至少 1）
+ */
+export function getTiffFrameCount(buffer: Buffer): number {
+  if (!isTiff(buffer) || buffer.length < 8) {
+    return 1;
+  }
+
+  const littleEndian = buffer[0] === 0x49;
+  const readUInt16 = (offset: number) => littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset);
+  const readUInt32 = (offset: number) => littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset);
+
+  const visited = new Set<number>();
+  let offset = readUInt32(4);
+  let frames = 0;
+
+  while (offset > 0 && offset + 2 <= buffer.length && !visited.has(offset)) {
+    visited.add(offset);
+    frames++;
+
+    const nextOffsetPosition = offset + 2 + readUInt16(offset) * 12;
+    if (nextOffsetPosition + 4 > buffer.length) {
+      break;
+    }
+    offset = readUInt32(nextOffsetPosition);
+  }
+
+  return Math.max(frames, 1);
+}
@@ -36,6 +36,31 @@ export const DocumentModuleOptionsSchema = z
      */
     processors: z.array(z.any()).optional(),
 
+    /**
+     * 自定义 Loader 注册项
+     */
+    loaders: z
+      .array(
+        z
+          .object({
+            name: z.string(),
+            extensions: z.array(z.string()).optional(),
+            mimeTypes: z.array(z.string()).optional(),
+            priority: z.number().optional(),
+            factory: z.custom<(...args: any[]) => any>(
+              (value) => typeof value === 'function',
+              { message: 'factory 必须是函数' },
+            ),
+          })
+          .passthrough(),
+      )
+      .optional(),
+
+    /**
+     * 是否根据文件内容选择 Loader
+     */
+    detectContentType: z.boolean().optional().default(true),
+
     /**
      * 元数据增强函数
      */
@@ -56,6 +81,16 @@ export const DocumentModuleOptionsSchema = z
      */
     autoDetectScannedPdf: z.boolean().optional().default(true),
 
+    /**
+     * 是否将表格额外输出为独立的 Document
+     */
+    extractTables: z.boolean().optional().default(false),
+
+    /**
+     * 表格 Document 是否使用线性化文本
+     */
+    linearizeTables: z.boolean().optional().default(false),
+
     /**
      * OCR 提示词
      */
@@ -1,6 +1,8 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, Optional } from '@nestjs/common';
 import { FileTooLargeError, UnsupportedFormatError } from '../errors/document.errors';
-import { EXTENSION_TO_MIME } from '../../loaders/constants/mime-types';
+import { EXTENSION_TO_MIME, MIME_TO_EXTENSION } from '../../loaders/constants/mime-types';
+import { ContentTypeDetector } from '../../loaders/detection/content-type-detector';
+import { LoaderRegistry } from '../../loaders/registry/loader-registry';
 
 /**
  * 文件验证配置
@@ -29,6 +31,8 @@ export interface FileValidationResult {
     size: number;
     extension: string;
     mimeType?: string;
+    /** 通过文件内容检测到的 MIME 类型 */
+    detectedMimeType?: string;
   };
 }
 
@@ -38,22 +42,22 @@ export interface FileValidationResult {
 @Injectable()
 export class FileValidatorService {
   private readonly logger = new Logger(FileValidatorService.name);
+  private readonly registry: LoaderRegistry;
 
-  // 默认配置
-  private readonly defaultConfig: FileValidationConfig = {
-    maxSize: 100 * 1024 * 1024, // 100MB
-    allowedExtensions: [
-      'txt', 'md', 'markdown',
-      'pdf',
-      'doc', 'docx',
-      'xls', 'xlsx',
-      'html', 'htm',
-      'json',
-      'csv',
-    ],
-    strictMimeValidation: false,
-  };
+  constructor(@Optional() loaderRegistry?: LoaderRegistry) {
+    this.registry = loaderRegistry ?? LoaderRegistry.createDefault();
+  }
 
+  /**
+   * 默认配置（允许的扩展名取自 LoaderRegistry，注册新格式后自动放行）
+   */
+  private get defaultConfig(): FileValidationConfig {
+    return {
+      maxSize: 100 * 1024 * 1024, // 100MB
+      allowedExtensions: this.registry.getSupportedExtensions(),
+      strictMimeValidation: false,
+    };
+  }
 
   /**
    * 验证文件
@@ -70,6 +74,7 @@ export class FileValidatorService {
     const extension = this.getExtension(filename);
     const size = buffer.length;
     const mimeType = this.getMimeType(extension);
+    const detection = ContentTypeDetector.detect(buffer);
 
     // 验证文件大小
     if (mergedConfig.maxSize && size > mergedConfig.maxSize) {
@@ -78,9 +83,16 @@ export class FileValidatorService {
       this.logger.warn(error, { filename, size, maxSize: mergedConfig.maxSize });
     }
 
-    // 验证文件扩展名
+    // 验证文件扩展名（扩展名错误或缺失时，可靠的内容检测结果也可通过）
     if (mergedConfig.allowedExtensions && mergedConfig.allowedExtensions.length > 0) {
-      if (!mergedConfig.allowedExtensions.includes(extension)) {
+      const detectedExtension = detection?.confident
+        ? MIME_TO_EXTENSION[detection.mimeType]?.slice(1)
+        : undefined;
+      const extensionAllowed =
+        mergedConfig.allowedExtensions.includes(extension) ||
+        (!!detectedExtension && mergedConfig.allowedExtensions.includes(detectedExtension));
+
+      if (!extensionAllowed) {
         const error = `不支持的文件格式: .${extension}`;
         errors.push(error);
         this.logger.warn(error, {
@@ -106,7 +118,7 @@ export class FileValidatorService {
 
     // 验证文件内容（魔数验证）
     if (mergedConfig.strictMimeValidation) {
-      const detectedMimeType = this.detectMimeType(buffer);
+      const detectedMimeType = detection?.mimeType;
       if (detectedMimeType && detectedMimeType !== mimeType) {
         const error = `文件内容与扩展名不匹配: 检测到 ${detectedMimeType}，但扩展名为 .${extension}`;
         errors.push(error);
@@ -129,6 +141,7 @@ export class FileValidatorService {
         size,
         extension,
         mimeType,
+        detectedMimeType: detection?.mimeType,
       },
     };
   }
@@ -182,53 +195,6 @@ export class FileValidatorService {
     return EXTENSION_TO_MIME[`.${extension}`];
   }
 
-  /**
-   * 检测文件的实际 MIME 类型（通过魔数）
-   */
-  private detectMimeType(buffer: Buffer): string | undefined {
-    if (buffer.length < 4) {
-      return undefined;
-    }
-
-    // PDF
-    if (buffer[0] === 0x25 && buffer[1] === 0x50 && buffer[2] === 0x44 && buffer[3] === 0x46) {
-      return 'application/pdf';
-    }
-
-    // ZIP (DOCX, XLSX 都是 ZIP 格式)
-    if (buffer[0] === 0x50 && buffer[1] === 0x4B && buffer[2] === 0x03 && buffer[3] === 0x04) {
-      // 进一步检测是否是 Office 文档
-      const content = buffer.toString('utf8', 0, Math.min(buffer.length, 1000));
-      if (content.includes('word/')) {
-        return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
-      }
-      if (content.includes('xl/')) {
-        return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
-      }
-      return 'application/zip';
-    }
-
-    // DOC (老版本 Word)
-    if (buffer[0] === 0xD0 && buffer[1] === 0xCF && buffer[2] === 0x11 && buffer[3] === 0xE0) {
-      return 'application/msword';
-    }
-
-    // HTML
-    const htmlStart = buffer.toString('utf8', 0, Math.min(buffer.length, 100)).toLowerCase();
-    if (htmlStart.includes('<!doctype html') || htmlStart.includes('<html')) {
-      return 'text/html';
-    }
-
-    // JSON
-    const jsonStart = buffer.toString('utf8', 0, Math.min(buffer.length, 10)).trim();
-    if (jsonStart.startsWith('{') || jsonStart.startsWith('[')) {
-      return 'application/json';
-    }
-
-    // 默认为文本
-    return 'text/plain';
-  }
-
   /**
    * 格式化文件大小
    */
@@ -3,6 +3,7 @@ import { Document } from './models/document.model';
 import { IRedisClient } from './common/interfaces/redis-client.interface';
 import { IOCRService } from './common/interfaces/ocr-service.interface';
 import { IEmbeddingService } from './common/interfaces/embedding-service.interface';
+import { LoaderRegistration } from './loaders/registry/loader-registry';
 
 /**
  * AI 模型配置（用于内置 OCR / Embedding 默认实现）
@@ -71,6 +72,40 @@ export interface DocumentModuleOptions {
    */
   processors?: IDocumentProcessor[];
 
+  /**
+   * 自定义 Loader 注册项
+   *
+   * 追加到内置 LoaderRegistry 中，可注册新格式或通过更高优先级覆盖内置 Loader。
+   * 注册表由 DocumentService、FileValidatorService（允许的扩展名）共享，
+   * 也可注入 LoaderRegistry 传给 DirectoryLoader
+   *
+   * @example
+   * ```typescript
+   * DocumentModule.register({
+   *   loaders: [
+   *     {
+   *       name: 'rtf',
+   *       extensions: ['rtf'],
+   *       mimeTypes: ['application/rtf'],
+   *       factory: (source) => new RtfLoader(source),
+   *     },
+   *   ],
+   * })
+   * ```
+   */
+  loaders?: LoaderRegistration[];
+
+  /**
+   * 是否根据文件内容（魔数 / 容器结构）选择 Loader
+   *
+   * 启用后 processBuffer 会检测 Buffer 的实际类型：
+   * 命中可靠的二进制签名时优先按检测结果路由，忽略错误或缺失的扩展名；
+   * 同时在 metadata 中记录 declaredMimeType 和 detectedMimeType
+   *
+   * @default true
+   */
+  detectContentType?: boolean;
+
   /**
    * 元数据增强函数
    *
@@ -109,6 +144,21 @@ export interface DocumentModuleOptions {
    */
   autoDetectScannedPdf?: boolean;
 
+  /**
+   * 是否将表格额外输出为独立的 Document（PDF / DOCX / XLSX / HTML）
+   *
+   * 表格 Document 的 metadata 包含 elementType: 'table' 和结构化的 table: { headers, rows }
+   * @default false
+   */
+  extractTables?: boolean;
+
+  /**
+   * 表格 Document 是否使用自然语言线性化文本（"表头: 值"）作为 pageContent，
+   * 否则使用 Markdown 表格
+   * @default false
+   */
+  linearizeTables?: boolean;
+
   /**
    * OCR 提示词（用于扫描 PDF 识别）
    */
@@ -22,6 +22,7 @@ import { safeValidateDocumentModuleOptions } from './common/validation/config.sc
 import { ConfigValidationError } from './common/errors/document.errors';
 import { AiSdkOcrService } from './common/ocr/ai-sdk-ocr.service';
 import { AiSdkEmbeddingService } from './common/embedding/ai-sdk-embedding.service';
+import { LoaderRegistry } from './loaders/registry/loader-registry';
 import type { IRedisClient } from './common/interfaces/redis-client.interface';
 import type { IOCRService } from './common/interfaces/ocr-service.interface';
 
@@ -153,6 +154,13 @@ export class DocumentModule extends ConfigurableModuleClass {
       FileValidatorService,
     ];
 
+    // Loader 注册表（内置 Loader + 自定义注册项）
+    providers.push({
+      provide: LoaderRegistry,
+      useFactory: () => LoaderRegistry.createDefault(opts.loaders),
+    });
+    moduleExports.push(LoaderRegistry);
+
     // OCR 服务（外部传入或自动创建的）
     if (opts.ocrService) {
       providers.push({
@@ -262,6 +270,14 @@ export class DocumentModule extends ConfigurableModuleClass {
       inject: [DOCUMENT_MODULE_OPTIONS],
     });
 
+    // Loader 注册表（内置 Loader + 自定义注册项）
+    providers.push({
+      provide: LoaderRegistry,
+      useFactory: (opts: DocumentModuleOptions) => LoaderRegistry.createDefault(opts.loaders),
+      inject: ['VALIDATED_OPTIONS'],
+    });
+    moduleExports.push(LoaderRegistry);
+
     // Redis 客户端（条件注册）
     providers.push({
       provide: REDIS_CLIENT_TOKEN,
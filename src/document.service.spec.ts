@@ -0,0 +1,25 @@
+import { DocumentService } from './document.service';
+import { DocumentModuleOptions } from './document-module-options.interface';
+import { UnsupportedFormatError } from './common/errors/document.errors';
+
+describe('DocumentService', () => {
+  const service = new DocumentService({} as DocumentModuleOptions);
+
+  describe('processBuffer routing', () => {
+    it.each(['notes.rtf', 'data.foo'])(
+      'should reject unknown extension %s even when the content looks like text',
+      async filename => {
+        await expect(service.processBuffer(Buffer.from('{\\rtf1 hello}'), filename)).rejects.toBeInstanceOf(
+          UnsupportedFormatError
+        );
+      }
+    );
+
+    it('should use text detection for files without an extension', async () => {
+      const docs = await service.processBuffer(Buffer.from('plain text'), 'README');
+
+      expect(docs.map(doc => doc.pageContent.trim())).toEqual(['plain text']);
+      expect(docs[0].metadata).toMatchObject({ source: 'README', detectedMimeType: 'text/plain' });
+    });
+  });
+});
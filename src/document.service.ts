@@ -3,14 +3,11 @@ import { Document } from './models/document.model';
 import { DOCUMENT_MODULE_OPTIONS } from './document.module-definition';
 import { DocumentModuleOptions } from './document-module-options.interface';
 import { BaseDocumentLoader } from './loaders/base/base-loader';
-import { MarkdownLoader } from './loaders/markdown.loader';
-import { PDFLoader } from './loaders/pdf.loader';
-import { TextLoader } from './loaders/text.loader';
-import { HTMLLoader } from './loaders/html.loader';
-import { DocxLoader } from './loaders/docx.loader';
-import { XLSXLoader } from './loaders/xlsx.loader';
-import { JSONLoader } from './loaders/json.loader';
-import { CSVLoader } from './loaders/csv.loader';
+import { LoaderRegistry } from './loaders/registry/loader-registry';
+import {
+  ContentTypeDetector,
+  ContentTypeDetectionResult,
+} from './loaders/detection/content-type-detector';
 import { EXTENSION_TO_MIME } from './loaders/constants/mime-types';
 import { CacheKeyGenerator } from './common/cache/document-cache.service';
 import { IDocumentCacheService, CACHE_SERVICE_TOKEN } from './common/cache/cache.interface';
@@ -20,6 +17,18 @@ import { CircuitBreakerService } from './common/resilience/circuit-breaker.servi
 import { FileValidatorService } from './common/validation/file-validator.service';
 import { DocumentValidationError } from './common/errors/document.errors';
 
+/**
+ * processBuffer 单次调用选项
+ */
+export interface ProcessBufferOptions {
+  /**
+   * 加密文档（PDF）的打开密码
+   *
+   * 仅对本次调用有效；提供密码时跳过缓存，避免解密后的内容被无密码的调用读取
+   */
+  password?: string;
+}
+
 /**
  * Document 服务
  *
@@ -28,6 +37,7 @@ import { DocumentValidationError } from './common/errors/document.errors';
 @Injectable()
 export class DocumentService {
   private readonly logger = new Logger(DocumentService.name);
+  private readonly registry: LoaderRegistry;
 
   constructor(
     @Inject(DOCUMENT_MODULE_OPTIONS)
@@ -37,7 +47,9 @@ export class DocumentService {
     @Optional() private readonly fileValidator?: FileValidatorService,
     @Optional() private readonly rateLimiter?: RateLimiterService,
     @Optional() private readonly circuitBreaker?: CircuitBreakerService,
+    @Optional() loaderRegistry?: LoaderRegistry,
   ) {
+    this.registry = loaderRegistry ?? LoaderRegistry.createDefault(this.options.loaders);
     this.logger.log('DocumentService initialized', {
       cacheEnabled: !!this.cacheService,
       monitoringEnabled: !!this.performanceMonitor,
@@ -53,6 +65,11 @@ export class DocumentService {
     return this.options;
   }
 
+  /** 获取 Loader 注册表 */
+  getLoaderRegistry(): LoaderRegistry {
+    return this.registry;
+  }
+
   /**
    * 完整流程：加载文档并应用处理器管道
    */
@@ -94,8 +111,10 @@ export class DocumentService {
    * 处理 Buffer（从 MinIO 等对象存储下载的文件）
    *
    * 集成限流、熔断、缓存和性能监控
+   *
+   * @throws EncryptedDocumentError 加密文档未提供密码或密码错误
    */
-  async processBuffer(buffer: Buffer, filename: string): Promise<Document[]> {
+  async processBuffer(buffer: Buffer, filename: string, options: ProcessBufferOptions = {}): Promise<Document[]> {
     // 限流检查
     if (this.rateLimiter && this.options.rateLimit) {
       const result = await this.rateLimiter.checkLimit('documentService', {
@@ -115,7 +134,7 @@ export class DocumentService {
     const operation = 'processBuffer';
 
     // 熔断器包装
-    const execute = () => this._processBufferInternal(buffer, filename);
+    const execute = () => this._processBufferInternal(buffer, filename, options);
 
     if (this.circuitBreaker && this.options.circuitBreaker) {
       const wrappedFn = () =>
@@ -143,25 +162,21 @@ export class DocumentService {
   }
 
   /** 内部 Buffer 处理方法 */
-  private async _processBufferInternal(buffer: Buffer, filename: string): Promise<Document[]> {
+  private async _processBufferInternal(
+    buffer: Buffer,
+    filename: string,
+    options: ProcessBufferOptions,
+  ): Promise<Document[]> {
     const startTime = Date.now();
 
     try {
       this.logger.debug(`开始处理 Buffer`, { filename, size: buffer.length });
 
       // 步骤 0: 文件验证（始终使用默认规则，用户配置可覆盖）
-      if (this.fileValidator) {
-        const validation = this.fileValidator.validate(buffer, filename, this.options.fileValidation);
-        if (!validation.valid) {
-          throw new DocumentValidationError(
-            `文件验证失败: ${validation.errors?.join('; ')}`,
-            { filename, errors: validation.errors },
-          );
-        }
-      }
+      this.validateBuffer(buffer, filename);
 
-      // 预计算缓存 key（避免对大文件重复 SHA-256）
-      const cacheKey = (this.cacheService && this.options.enableCache)
+      // 预计算缓存 key（避免对大文件重复 SHA-256）；带密码的调用不读写缓存
+      const cacheKey = (this.cacheService && this.options.enableCache && !options.password)
         ? CacheKeyGenerator.forBuffer(buffer, filename)
         : null;
 
@@ -174,24 +189,24 @@ export class DocumentService {
         }
       }
 
-      // 步骤 2: 从 Buffer 创建 Blob（使用 ArrayBuffer 视图避免额外内存拷贝）
-      const blob = new Blob(
-        [new Uint8Array(buffer.buffer as ArrayBuffer, buffer.byteOffset, buffer.byteLength)],
-        { type: this.getMimeType(filename) },
-      );
-
-      // 步骤 3: 根据文件扩展名自动选择 Loader
-      const loader = this.getLoaderForFile(blob, filename);
+      // 步骤 2-3: 内容检测 + 通过注册表选择 Loader（不支持的格式抛出 UnsupportedFormatError）
+      const { loader, declaredMimeType, detection } = this.createBufferLoader(buffer, filename, options.password);
 
       // 步骤 4: 加载并应用处理器管道
       const processedDocs = await this.loadAndProcess(loader);
 
-      // 步骤 5: 添加文件名到元数据
+      // 步骤 5: 添加文件名和 MIME 类型到元数据（内嵌文件的子文档保留自身的 MIME 类型）
       const result = processedDocs.map(
         doc =>
           new Document({
+            id: doc.id,
             pageContent: doc.pageContent,
-            metadata: { ...doc.metadata, source: filename },
+            metadata: {
+              declaredMimeType,
+              ...(detection ? { detectedMimeType: detection.mimeType } : {}),
+              ...doc.metadata,
+              source: filename,
+            },
           }),
       );
 
@@ -219,11 +234,89 @@ export class DocumentService {
     }
   }
 
+  /**
+   * 处理容器内嵌文件（邮件附件等）
+   *
+   * 复用文件验证和内容检测；不经过缓存和处理器管道（由外层 processBuffer 统一处理，避免重复分块）
+   */
+  private async processAttachment(buffer: Buffer, filename: string, depth?: number): Promise<Document[]> {
+    this.validateBuffer(buffer, filename);
+
+    const { loader, declaredMimeType, detection } = this.createBufferLoader(buffer, filename, undefined, depth);
+    const docs = await loader.load();
+
+    return docs.map(
+      doc =>
+        new Document({
+          id: doc.id,
+          pageContent: doc.pageContent,
+          metadata: {
+            ...doc.metadata,
+            source: filename,
+            declaredMimeType,
+            ...(detection ? { detectedMimeType: detection.mimeType } : {}),
+          },
+        }),
+    );
+  }
+
+  /**
+   * 文件验证（未注入 FileValidatorService 时跳过）
+   */
+  private validateBuffer(buffer: Buffer, filename: string): void {
+    if (!this.fileValidator) {
+      return;
+    }
+
+    const validation = this.fileValidator.validate(buffer, filename, this.options.fileValidation);
+    if (!validation.valid) {
+      throw new DocumentValidationError(
+        `文件验证失败: ${validation.errors?.join('; ')}`,
+        { filename, errors: validation.errors },
+      );
+    }
+  }
+
+  /**
+   * 检测内容类型（魔数 / 容器结构）并创建 Loader，可靠的检测结果优先于扩展名
+   */
+  private createBufferLoader(
+    buffer: Buffer,
+    filename: string,
+    password?: string,
+    attachmentDepth?: number,
+  ): { loader: BaseDocumentLoader; declaredMimeType: string; detection?: ContentTypeDetectionResult } {
+    const declaredMimeType = this.getMimeType(filename);
+    const detection = this.options.detectContentType !== false
+      ? ContentTypeDetector.detect(buffer)
+      : undefined;
+    const effectiveMimeType = detection?.confident ? detection.mimeType : declaredMimeType;
+
+    if (detection?.confident && detection.mimeType !== declaredMimeType) {
+      this.logger.debug(`文件内容与扩展名不一致，按检测结果路由`, {
+        filename,
+        declaredMimeType,
+        detectedMimeType: detection.mimeType,
+        evidence: detection.evidence,
+      });
+    }
+
+    // 从 Buffer 创建 Blob（使用 ArrayBuffer 视图避免额外内存拷贝）
+    const blob = new Blob(
+      [new Uint8Array(buffer.buffer as ArrayBuffer, buffer.byteOffset, buffer.byteLength)],
+      { type: effectiveMimeType },
+    );
+
+    const loader = this.getLoaderForFile(blob, filename, detection, password, attachmentDepth);
+
+    return { loader, declaredMimeType, detection };
+  }
+
   /**
    * 批量处理多个 Buffer
    */
   async processBuffers(
-    files: Array<{ buffer: Buffer; filename: string }>,
+    files: Array<{ buffer: Buffer; filename: string; password?: string }>,
     options?: { concurrency?: number; continueOnError?: boolean },
   ): Promise<Document[]> {
     const startTime = Date.now();
@@ -240,7 +333,7 @@ export class DocumentService {
       for (let i = 0; i < files.length; i += concurrency) {
         const batch = files.slice(i, i + concurrency);
         const batchResults = await Promise.allSettled(
-          batch.map(file => this.processBuffer(file.buffer, file.filename)),
+          batch.map(file => this.processBuffer(file.buffer, file.filename, { password: file.password })),
         );
 
         for (let j = 0; j < batchResults.length; j++) {
@@ -283,10 +376,10 @@ export class DocumentService {
    * 流式处理多个 Buffer
    */
   async *streamProcessBuffers(
-    files: Array<{ buffer: Buffer; filename: string }>,
+    files: Array<{ buffer: Buffer; filename: string; password?: string }>,
   ): AsyncGenerator<Document> {
     for (const file of files) {
-      const docs = await this.processBuffer(file.buffer, file.filename);
+      const docs = await this.processBuffer(file.buffer, file.filename, { password: file.password });
       for (const doc of docs) {
         yield doc;
       }
@@ -345,41 +438,30 @@ export class DocumentService {
     return documents.map(doc => this.options.metadataEnhancer!(doc));
   }
 
-  /** 根据文件扩展名自动选择对应的 Loader */
-  private getLoaderForFile(blob: Blob, filename: string): BaseDocumentLoader {
-    const ext = filename.split('.').pop()?.toLowerCase();
-
-    switch (ext) {
-      case 'md':
-      case 'markdown':
-        return new MarkdownLoader(blob);
-      case 'pdf':
-        return new PDFLoader(blob, {
-          autoDetectScanned: this.options.autoDetectScannedPdf,
-          scannedPdfOptions: {
-            ocrService: this.options.ocrService,
-            ocrPrompt: this.options.defaultOcrPrompt,
-          },
-        });
-      case 'docx':
-        return new DocxLoader(blob);
-      case 'doc':
-        return new DocxLoader(blob, { type: 'doc' });
-      case 'xlsx':
-      case 'xls':
-        return new XLSXLoader(blob);
-      case 'html':
-      case 'htm':
-        return new HTMLLoader(blob);
-      case 'json':
-        return new JSONLoader(blob);
-      case 'csv':
-        return new CSVLoader(blob);
-      case 'txt':
-      case 'text':
-      default:
-        return new TextLoader(blob);
-    }
+  /**
+   * 通过注册表选择对应的 Loader
+   *
+   * - 可靠的内容检测结果（魔数命中）优先按 MIME 类型匹配
+   * - 低可信度的文本特征检测仅在文件名没有扩展名时作为补充
+   */
+  private getLoaderForFile(
+    blob: Blob,
+    filename: string,
+    detection?: ContentTypeDetectionResult,
+    password?: string,
+    attachmentDepth?: number,
+  ): BaseDocumentLoader {
+    return this.registry.createLoader(blob, LoaderRegistry.lookupFor(filename, detection), {
+      autoDetectScannedPdf: this.options.autoDetectScannedPdf,
+      extractTables: this.options.extractTables,
+      linearizeTables: this.options.linearizeTables,
+      ocrService: this.options.ocrService,
+      ocrPrompt: this.options.defaultOcrPrompt,
+      password,
+      attachmentDepth,
+      processAttachment: (attachment, attachmentName, depth) =>
+        this.processAttachment(attachment, attachmentName, depth),
+    });
   }
 
   /** 根据文件名获取 MIME 类型 */
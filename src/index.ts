@@ -13,7 +13,7 @@ export * from './processors';
 // ========== NestJS 模块 ==========
 export { DocumentModule, REDIS_CLIENT_TOKEN, OCR_SERVICE_TOKEN, EMBEDDING_SERVICE_TOKEN } from './document.module';
 export { DocumentModuleOptions, AiModelConfig } from './document-module-options.interface';
-export { DocumentService } from './document.service';
+export { DocumentService, ProcessBufferOptions } from './document.service';
 
 // ========== 任务管理 ==========
 export * from './progress';
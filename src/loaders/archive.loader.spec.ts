@@ -0,0 +1,212 @@
+import JSZip = require('jszip');
+import { gzipSync } from 'zlib';
+import { ArchiveLoader } from './archive.loader';
+import { ArchiveLimitError } from '../common/errors/document.errors';
+
+// Helper function to build a zip archive in memory
+async function createZip(files: Record<string, string | Buffer>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(name, content);
+  }
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+// Helper function to build a ustar archive in memory
+function createTar(files: Record<string, string>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.from(content);
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100);
+    header.write('0000644\0', 100);
+    header.write('0000000\0', 108);
+    header.write('0000000\0', 116);
+    header.write(`${data.length.toString(8).padStart(11, '0')}\0`, 124);
+    header.write('00000000000\0', 136);
+    header.write('0', 156);
+    header.write('ustar\0', 257);
+    header.write('00', 263);
+    header.fill(' ', 148, 156);
+    let checksum = 0;
+    for (const byte of header) {
+      checksum += byte;
+    }
+    header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148);
+    blocks.push(header, data, Buffer.alloc(Math.ceil(data.length / 512) * 512 - data.length));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+// Helper function to forge the declared uncompressed size of an entry (local header + central directory)
+function forgeDeclaredSize(zip: Buffer, name: string, size: number): Buffer {
+  const forged = Buffer.from(zip);
+  for (let offset = 0; offset + 4 <= forged.length; offset++) {
+    const signature = forged.readUInt32LE(offset);
+    if (signature === 0x04034b50) {
+      const nameLength = forged.readUInt16LE(offset + 26);
+      if (forged.toString('utf8', offset + 30, offset + 30 + nameLength) === name) {
+        forged.writeUInt32LE(size, offset + 22);
+      }
+    } else if (signature === 0x02014b50) {
+      const nameLength = forged.readUInt16LE(offset + 28);
+      if (forged.toString('utf8', offset + 46, offset + 46 + nameLength) === name) {
+        forged.writeUInt32LE(size, offset + 24);
+      }
+    }
+  }
+  return forged;
+}
+
+// Helper function to overwrite the compressed data of an entry with an invalid deflate block
+function corruptEntry(zip: Buffer, name: string): Buffer {
+  const corrupted = Buffer.from(zip);
+  for (let offset = 0; offset + 30 <= corrupted.length; offset++) {
+    if (corrupted.readUInt32LE(offset) !== 0x04034b50) {
+      continue;
+    }
+    const nameLength = corrupted.readUInt16LE(offset + 26);
+    const extraLength = corrupted.readUInt16LE(offset + 28);
+    if (corrupted.toString('utf8', offset + 30, offset + 30 + nameLength) === name) {
+      const dataStart = offset + 30 + nameLength + extraLength;
+      corrupted.fill(0xff, dataStart, dataStart + corrupted.readUInt32LE(offset + 18));
+    }
+  }
+  return corrupted;
+}
+
+function parse(loader: ArchiveLoader, raw: Buffer) {
+  return loader.parse(raw, { source: 'test.zip' });
+}
+
+describe('ArchiveLoader', () => {
+  it('should load every entry with its archive path', async () => {
+    const zip = await createZip({ 'a.txt': 'alpha', 'docs/b.md': '# Beta' });
+
+    const docs = await parse(new ArchiveLoader('test.zip'), zip);
+
+    expect(docs.map(doc => [doc.metadata.archivePath, doc.pageContent.trim()])).toEqual([
+      ['a.txt', 'alpha'],
+      ['docs/b.md', '# Beta'],
+    ]);
+  });
+
+  it('should apply glob and exclude to entry paths', async () => {
+    const zip = await createZip({ 'a.txt': 'alpha', 'b.md': 'beta', 'drafts/c.md': 'gamma' });
+
+    const docs = await parse(new ArchiveLoader('test.zip', { glob: '**/*.md', exclude: ['drafts/**'] }), zip);
+
+    expect(docs.map(doc => doc.metadata.archivePath)).toEqual(['b.md']);
+  });
+
+  it('should load entries from tar.gz archives', async () => {
+    const tgz = gzipSync(createTar({ 'a.txt': 'alpha', 'docs/b.txt': 'beta' }));
+
+    const docs = await new ArchiveLoader('test.tar.gz').parse(tgz, { source: 'test.tar.gz' });
+
+    expect(docs.map(doc => [doc.metadata.archivePath, doc.pageContent.trim()])).toEqual([
+      ['a.txt', 'alpha'],
+      ['docs/b.txt', 'beta'],
+    ]);
+  });
+
+  describe('Nested archives', () => {
+    it('should expand nested archives with their full entry path', async () => {
+      const inner = await createZip({ 'c.txt': 'gamma' });
+      const zip = await createZip({ 'a.txt': 'alpha', 'inner.zip': inner });
+
+      const docs = await parse(new ArchiveLoader('test.zip'), zip);
+
+      expect(docs.map(doc => [doc.metadata.archivePath, doc.pageContent.trim()])).toEqual([
+        ['a.txt', 'alpha'],
+        ['inner.zip/c.txt', 'gamma'],
+      ]);
+    });
+
+    it('should skip nested archives beyond maxDepth', async () => {
+      const innermost = await createZip({ 'd.txt': 'delta' });
+      const inner = await createZip({ 'c.txt': 'gamma', 'innermost.zip': innermost });
+      const zip = await createZip({ 'a.txt': 'alpha', 'inner.zip': inner });
+
+      const docs = await parse(new ArchiveLoader('test.zip', { maxDepth: 1 }), zip);
+
+      expect(docs.map(doc => doc.metadata.archivePath)).toEqual(['a.txt', 'inner.zip/c.txt']);
+    });
+
+    it('should not expand nested archives when maxDepth is 0', async () => {
+      const inner = await createZip({ 'c.txt': 'gamma' });
+      const zip = await createZip({ 'a.txt': 'alpha', 'inner.zip': inner });
+
+      const docs = await parse(new ArchiveLoader('test.zip', { maxDepth: 0 }), zip);
+
+      expect(docs.map(doc => doc.metadata.archivePath)).toEqual(['a.txt']);
+    });
+  });
+
+  describe('Limits', () => {
+    it('should reject archives with too many entries', async () => {
+      const zip = await createZip({ 'a.txt': 'a', 'b.txt': 'b', 'c.txt': 'c' });
+
+      await expect(parse(new ArchiveLoader('test.zip', { maxEntries: 2 }), zip)).rejects.toBeInstanceOf(
+        ArchiveLimitError
+      );
+    });
+
+    it('should reject archives exceeding the total size limit', async () => {
+      const zip = await createZip({ 'a.txt': 'x'.repeat(600), 'b.txt': 'y'.repeat(600) });
+
+      await expect(
+        parse(new ArchiveLoader('test.zip', { maxTotalSize: 1000, maxCompressionRatio: 1e6 }), zip)
+      ).rejects.toBeInstanceOf(ArchiveLimitError);
+    });
+
+    it('should reject entries exceeding the compression ratio', async () => {
+      const zip = await createZip({ 'bomb.txt': 'a'.repeat(1024 * 1024) });
+
+      await expect(parse(new ArchiveLoader('test.zip'), zip)).rejects.toThrow('压缩比超出限制');
+    });
+
+    it('should count decompressed bytes instead of trusting forged declared sizes', async () => {
+      const zip = forgeDeclaredSize(await createZip({ 'bomb.txt': 'a'.repeat(1024 * 1024) }), 'bomb.txt', 10);
+
+      const error = await parse(
+        new ArchiveLoader('test.zip', { maxTotalSize: 64 * 1024, maxCompressionRatio: 1e6 }),
+        zip
+      ).catch(e => e);
+
+      expect(error).toBeInstanceOf(ArchiveLimitError);
+      expect(error.message).toBe('压缩包解压后超出大小限制');
+    });
+
+    it('should map entries larger than their declared size to ArchiveLimitError', async () => {
+      const zip = forgeDeclaredSize(await createZip({ 'a.txt': 'hello world' }), 'a.txt', 5);
+
+      await expect(parse(new ArchiveLoader('test.zip'), zip)).rejects.toBeInstanceOf(ArchiveLimitError);
+    });
+
+    it('should enforce limits even when ignoreErrors is enabled', async () => {
+      const zip = await createZip({ 'a.txt': 'a', 'b.txt': 'b' });
+
+      await expect(
+        parse(new ArchiveLoader('test.zip', { maxEntries: 1, ignoreErrors: true }), zip)
+      ).rejects.toBeInstanceOf(ArchiveLimitError);
+    });
+  });
+
+  describe('Corrupt entries', () => {
+    it('should skip entries that fail to decompress when ignoreErrors is enabled', async () => {
+      const zip = corruptEntry(await createZip({ 'a.txt': 'alpha '.repeat(20), 'b.txt': 'beta' }), 'a.txt');
+
+      const docs = await parse(new ArchiveLoader('test.zip'), zip);
+
+      expect(docs.map(doc => doc.metadata.archivePath)).toEqual(['b.txt']);
+    });
+
+    it('should fail on corrupt entries when ignoreErrors is disabled', async () => {
+      const zip = corruptEntry(await createZip({ 'a.txt': 'alpha '.repeat(20), 'b.txt': 'beta' }), 'a.txt');
+
+      await expect(parse(new ArchiveLoader('test.zip', { ignoreErrors: false }), zip)).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,566 @@
+import { Logger } from '@nestjs/common';
+import { minimatch } from 'minimatch';
+import * as path from 'path';
+import { gunzipSync } from 'zlib';
+import { Document } from '../models/document.model';
+import { ArchiveLimitError } from '../common/errors/document.errors';
+import { BufferLoader } from './base/buffer.loader';
+import { LoaderOptions } from './base/base-loader';
+import { MIME_TYPES } from './constants/mime-types';
+import { ContentTypeDetector } from './detection/content-type-detector';
+import type { DirectoryLoaderOptions } from './directory.loader';
+import { AttachmentProcessor, LoaderRegistry } from './registry/loader-registry';
+
+/**
+ * ArchiveLoader 配置选项
+ *
+ * glob / recursive / exclude 的语义与 DirectoryLoader 相同，匹配对象为压缩包内的相对路径
+ */
+export interface ArchiveLoaderOptions
+  extends LoaderOptions,
+    Pick<DirectoryLoaderOptions, 'glob' | 'recursive' | 'exclude' | 'loaderRegistry' | 'loaderContextOptions'> {
+  /**
+   * 是否忽略单个条目的加载错误（如不支持的格式）
+   *
+   * 安全限制（ArchiveLimitError）始终抛出，不受此选项影响
+   * @default true
+   */
+  ignoreErrors?: boolean;
+
+  /**
+   * 最大条目数（包含嵌套压缩包中的条目）
+   * @default 1000
+   */
+  maxEntries?: number;
+
+  /**
+   * 解压后的最大总大小（字节）
+   * @default 524288000 (500MB)
+   */
+  maxTotalSize?: number;
+
+  /**
+   * 最大压缩比（解压后大小 / 压缩后大小），按单个条目和整个压缩包分别检查
+   * @default 100
+   */
+  maxCompressionRatio?: number;
+
+  /**
+   * 嵌套压缩包的最大展开深度，超出的嵌套压缩包将被跳过
+   * @default 2
+   */
+  maxDepth?: number;
+
+  /**
+   * 压缩包文件名（来源为 Blob 时用于推断单文件 .gz 解压后的文件名）
+   */
+  sourceName?: string;
+}
+
+/**
+ * 压缩包条目
+ */
+interface ArchiveEntry {
+  /** 压缩包内的相对路径 */
+  path: string;
+  /** 声明的解压后大小（不可信，仅用于提前拒绝；未知时为 undefined） */
+  size?: number;
+  /** 压缩后大小（未知时为 undefined） */
+  compressedSize?: number;
+  /**
+   * 读取条目内容
+   *
+   * @param check - 每解压出一块数据时以累计字节数调用，超出限制时抛出 ArchiveLimitError 中止读取
+   */
+  read(check: (size: number) => void): Promise<Buffer>;
+}
+
+/**
+ * 单次加载的资源计数（嵌套压缩包共享）
+ */
+interface ArchiveBudget {
+  entries: number;
+  totalSize: number;
+}
+
+type ArchiveFormat = 'zip' | 'tar' | 'gzip';
+
+/**
+ * 使用到的 jszip 条目接口（internalStream 为 jszip 公开 API，但未包含在类型声明中）
+ */
+interface JSZipObject {
+  dir: boolean;
+  internalStream(type: 'nodebuffer'): JSZipStreamHelper;
+}
+
+interface JSZipStreamHelper {
+  on(event: 'data', callback: (chunk: Buffer) => void): JSZipStreamHelper;
+  on(event: 'error', callback: (error: Error) => void): JSZipStreamHelper;
+  on(event: 'end', callback: () => void): JSZipStreamHelper;
+  resume(): JSZipStreamHelper;
+  pause(): JSZipStreamHelper;
+}
+
+/** 压缩包中常见的系统垃圾文件 */
+const DEFAULT_EXCLUDE = ['**/node_modules/**', '**/.git/**', '__MACOSX/**', '**/.DS_Store'];
+
+/**
+ * ArchiveLoader - 处理 ZIP / TAR / TAR.GZ 压缩包
+ *
+ * 在内存中遍历压缩包条目（不落盘），按 glob / exclude 过滤后，
+ * 将每个条目交给对应的 Loader 解析，并在 metadata.archivePath 中记录条目路径。
+ *
+ * 安全限制（防御 zip bomb，超出时抛出 ArchiveLimitError）：
+ * - 条目数：maxEntries
+ * - 解压后总大小：maxTotalSize（按声明大小提前拒绝，解压时按实际字节数累计检查）
+ * - 压缩比：maxCompressionRatio
+ * - 嵌套深度：maxDepth（嵌套压缩包在同一预算内展开）
+ *
+ * 依赖: npm install jszip minimatch
+ *
+ * @example
+ * ```typescript
+ * const loader = new ArchiveLoader('docs.zip', {
+ *   glob: '**\/*.{pdf,md}',
+ *   exclude: ['drafts/**'],
+ *   maxEntries: 200,
+ * });
+ * const docs = await loader.load();
+ * // metadata: { archivePath: 'guides/install.md', ... }
+ * ```
+ */
+export class ArchiveLoader extends BufferLoader {
+  protected static readonly logger = new Logger(ArchiveLoader.name);
+  private readonly registry: LoaderRegistry;
+  private readonly archiveOptions: ArchiveLoaderOptions &
+    Required<Pick<ArchiveLoaderOptions, 'glob' | 'recursive' | 'exclude' | 'ignoreErrors' | 'maxEntries' | 'maxTotalSize' | 'maxCompressionRatio' | 'maxDepth'>>;
+
+  constructor(
+    filePathOrBlob: string | Blob,
+    options: ArchiveLoaderOptions = {}
+  ) {
+    super(filePathOrBlob, options);
+    this.archiveOptions = {
+      ...options,
+      glob: options.glob ?? '**/*',
+      recursive: options.recursive ?? true,
+      exclude: options.exclude ?? DEFAULT_EXCLUDE,
+      ignoreErrors: options.ignoreErrors ?? true,
+      maxEntries: options.maxEntries ?? 1000,
+      maxTotalSize: options.maxTotalSize ?? 500 * 1024 * 1024,
+      maxCompressionRatio: options.maxCompressionRatio ?? 100,
+      maxDepth: options.maxDepth ?? 2,
+    };
+    this.registry = options.loaderRegistry ?? LoaderRegistry.createDefault();
+  }
+
+  /**
+   * 解析压缩包 buffer 并返回所有条目的文档
+   *
+   * @param raw - 压缩包 buffer
+   * @param metadata - 文档元数据
+   * @returns Promise that resolves with an array of Document instances
+   */
+  public async parse(
+    raw: Buffer,
+    metadata: Document['metadata']
+  ): Promise<Document[]> {
+    const budget: ArchiveBudget = { entries: 0, totalSize: 0 };
+    const documents = await this.parseArchive(raw, metadata, '', 0, budget);
+
+    ArchiveLoader.logger.debug('Archive parsed', {
+      entries: budget.entries,
+      totalSize: budget.totalSize,
+      documentCount: documents.length,
+    });
+
+    return documents;
+  }
+
+  /**
+   * 解析单层压缩包（嵌套压缩包递归调用）
+   */
+  private async parseArchive(
+    raw: Buffer,
+    metadata: Document['metadata'],
+    prefix: string,
+    depth: number,
+    budget: ArchiveBudget
+  ): Promise<Document[]> {
+    const format = ArchiveLoader.detectFormat(raw);
+    if (!format) {
+      throw new Error(`Unrecognized archive format${prefix ? `: ${prefix}` : ''}`);
+    }
+
+    const entries = await this.listEntries(raw, format, prefix);
+    const documents: Document[] = [];
+    let archiveSize = 0;
+
+    for (const entry of entries) {
+      if (!this.matches(entry.path)) {
+        continue;
+      }
+
+      const entryPath = prefix + entry.path;
+      this.reserve(entry, entryPath, budget);
+
+      let content: Buffer;
+      try {
+        content = await entry.read(size => {
+          this.checkTotalSize(budget.totalSize + size, entryPath);
+          if (entry.compressedSize !== undefined) {
+            this.checkRatio(size, entry.compressedSize, entryPath);
+          }
+          this.checkRatio(archiveSize + size, raw.length, prefix || 'archive');
+        });
+      } catch (error) {
+        this.skipEntry(error, entryPath);
+        continue;
+      }
+      budget.totalSize += content.length;
+      archiveSize += content.length;
+
+      if (ArchiveLoader.detectFormat(content)) {
+        if (depth + 1 > this.archiveOptions.maxDepth) {
+          ArchiveLoader.logger.warn(`Skipping nested archive beyond max depth: ${entryPath}`, {
+            maxDepth: this.archiveOptions.maxDepth,
+          });
+          continue;
+        }
+        documents.push(...(await this.parseArchive(content, metadata, `${entryPath}/`, depth + 1, budget)));
+        continue;
+      }
+
+      const docs = await this.loadEntry(content, entryPath);
+      documents.push(
+        ...docs.map(
+          doc =>
+            new Document({
+              id: doc.id,
+              pageContent: doc.pageContent,
+              metadata: {
+                ...metadata,
+                ...doc.metadata,
+                archivePath: entryPath,
+              },
+            })
+        )
+      );
+    }
+
+    return documents;
+  }
+
+  /**
+   * 将条目交给对应的 Loader 解析
+   */
+  private async loadEntry(content: Buffer, entryPath: string): Promise<Document[]> {
+    const contextOptions = this.archiveOptions.loaderContextOptions ?? {};
+    const process: AttachmentProcessor =
+      contextOptions.processAttachment ??
+      ((buffer, filename, depth) =>
+        this.registry.loadBuffer(buffer, filename, { ...contextOptions, attachmentDepth: depth }));
+
+    try {
+      return await process(content, entryPath, (contextOptions.attachmentDepth ?? 0) + 1);
+    } catch (error) {
+      this.skipEntry(error, entryPath);
+      return [];
+    }
+  }
+
+  /**
+   * 跳过读取或解析失败的条目（安全限制和 ignoreErrors=false 时重新抛出）
+   */
+  private skipEntry(error: unknown, entryPath: string): void {
+    if (error instanceof ArchiveLimitError || !this.archiveOptions.ignoreErrors) {
+      throw error;
+    }
+    ArchiveLoader.logger.warn(`Skipping archive entry: ${entryPath}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  /**
+   * 列出压缩包中的文件条目（不含目录）
+   */
+  private async listEntries(raw: Buffer, format: ArchiveFormat, prefix: string): Promise<ArchiveEntry[]> {
+    if (format === 'zip') {
+      return this.listZipEntries(raw);
+    }
+
+    if (format === 'tar') {
+      return ArchiveLoader.listTarEntries(raw);
+    }
+
+    // gzip: 先整体解压（限制输出大小），再按 tar 或单文件处理
+    let inflated: Buffer;
+    try {
+      inflated = gunzipSync(raw, { maxOutputLength: this.archiveOptions.maxTotalSize + 1 });
+    } catch (error) {
+      if (error instanceof RangeError) {
+        throw new ArchiveLimitError('压缩包解压后超出大小限制', {
+          archivePath: prefix || undefined,
+          maxTotalSize: this.archiveOptions.maxTotalSize,
+        });
+      }
+      throw error;
+    }
+    this.checkRatio(inflated.length, raw.length, prefix || 'archive');
+
+    if (ArchiveLoader.detectFormat(inflated) === 'tar') {
+      return ArchiveLoader.listTarEntries(inflated);
+    }
+
+    const name = path.basename(prefix.replace(/\/$/, '') || this.getSourceName()).replace(/\.gz$/i, '') || 'content';
+    return [{ path: name, size: inflated.length, read: async check => ArchiveLoader.readBuffer(inflated, check) }];
+  }
+
+  /**
+   * 读取 ZIP 条目（jszip 只解析目录，读取条目时才解压）
+   *
+   * 声明的大小从中央目录读取，仅用于提前拒绝；实际大小在解压时逐块累计
+   */
+  private async listZipEntries(raw: Buffer): Promise<ArchiveEntry[]> {
+    const JSZip = await ArchiveLoader.importsJSZip();
+    const zip = await JSZip.loadAsync(raw);
+    const directory = new Map(
+      ContentTypeDetector.listZipDirectory(raw).map(entry => [ArchiveLoader.normalizePath(entry.name), entry])
+    );
+    const entries: ArchiveEntry[] = [];
+
+    zip.forEach((relativePath: string, file: JSZipObject) => {
+      if (file.dir) {
+        return;
+      }
+      const entryPath = ArchiveLoader.normalizePath(relativePath);
+      const declared = directory.get(entryPath);
+      entries.push({
+        path: entryPath,
+        size: declared?.uncompressedSize,
+        compressedSize: declared?.compressedSize,
+        read: check => ArchiveLoader.readZipEntry(file, entryPath, declared?.uncompressedSize, check),
+      });
+    });
+
+    return entries;
+  }
+
+  /**
+   * 流式解压 ZIP 条目，逐块累计实际大小
+   *
+   * 超出限制时暂停解压并丢弃后续数据块。jszip 校验出大小不符时：实际大小超过声明（伪造的声明大小）
+   * 转换为 ArchiveLimitError，小于声明则是数据损坏（按普通错误处理，受 ignoreErrors 控制）
+   */
+  private static readZipEntry(
+    file: JSZipObject,
+    entryPath: string,
+    declaredSize: number | undefined,
+    check: (size: number) => void
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      let failed = false;
+
+      const stream = file.internalStream('nodebuffer');
+      const fail = (error: unknown) => {
+        if (failed) {
+          return;
+        }
+        failed = true;
+        stream.pause();
+        reject(error);
+      };
+
+      stream
+        .on('data', (chunk: Buffer) => {
+          if (failed) {
+            return;
+          }
+          size += chunk.length;
+          try {
+            check(size);
+          } catch (error) {
+            fail(error);
+            return;
+          }
+          chunks.push(chunk);
+        })
+        .on('error', (error: Error) => {
+          if (!/size mismatch/i.test(error.message)) {
+            fail(error);
+          } else if (declaredSize === undefined || size > declaredSize) {
+            fail(new ArchiveLimitError('条目实际大小超过声明大小，压缩包可能被篡改', {
+              archivePath: entryPath,
+              declaredSize,
+              size,
+            }));
+          } else {
+            fail(new Error(`Corrupted archive entry: ${entryPath} (${size} of ${declaredSize} bytes decompressed)`));
+          }
+        })
+        .on('end', () => {
+          if (!failed) {
+            resolve(Buffer.concat(chunks, size));
+          }
+        })
+        .resume();
+    });
+  }
+
+  /**
+   * 读取已在内存中的条目（TAR / 单文件 GZIP）
+   */
+  private static readBuffer(data: Buffer, check: (size: number) => void): Buffer {
+    check(data.length);
+    return data;
+  }
+
+  /**
+   * 解析 TAR 条目（ustar / GNU 长文件名 / PAX path）
+   */
+  private static listTarEntries(raw: Buffer): ArchiveEntry[] {
+    const entries: ArchiveEntry[] = [];
+    let offset = 0;
+    let longName: string | undefined;
+
+    while (offset + 512 <= raw.length) {
+      const header = raw.subarray(offset, offset + 512);
+      // 连续的全零块表示归档结束
+      if (header.every(byte => byte === 0)) {
+        break;
+      }
+
+      const readString = (start: number, length: number) =>
+        header.toString('utf8', start, start + length).replace(/\0.*$/s, '');
+      const size = parseInt(readString(124, 12).trim() || '0', 8);
+      const type = readString(156, 1) || '0';
+      const dataStart = offset + 512;
+      const data = raw.subarray(dataStart, dataStart + size);
+      offset = dataStart + Math.ceil(size / 512) * 512;
+
+      if (type === 'L') {
+        longName = data.toString('utf8').replace(/\0.*$/s, '');
+        continue;
+      }
+      if (type === 'x') {
+        longName = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(data.toString('utf8'))?.[1] ?? longName;
+        continue;
+      }
+      if (type !== '0' && type !== '7') {
+        longName = undefined;
+        continue;
+      }
+
+      const prefix = readString(345, 155);
+      const name = longName ?? (prefix ? `${prefix}/${readString(0, 100)}` : readString(0, 100));
+      longName = undefined;
+
+      entries.push({
+        path: ArchiveLoader.normalizePath(name),
+        size,
+        read: async check => ArchiveLoader.readBuffer(data, check),
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * 判断条目路径是否匹配 glob 且未被排除
+   */
+  private matches(entryPath: string): boolean {
+    const { glob, recursive, exclude } = this.archiveOptions;
+    const pattern = recursive ? glob : glob.replace('**/', '');
+    return minimatch(entryPath, pattern) && !exclude.some(ignore => minimatch(entryPath, ignore, { dot: true }));
+  }
+
+  /**
+   * 在读取条目前计数，并按声明大小提前拒绝
+   */
+  private reserve(entry: ArchiveEntry, entryPath: string, budget: ArchiveBudget): void {
+    budget.entries++;
+    if (budget.entries > this.archiveOptions.maxEntries) {
+      throw new ArchiveLimitError('压缩包条目数超出限制', {
+        maxEntries: this.archiveOptions.maxEntries,
+      });
+    }
+
+    if (entry.size !== undefined) {
+      this.checkTotalSize(budget.totalSize + entry.size, entryPath);
+      if (entry.compressedSize !== undefined) {
+        this.checkRatio(entry.size, entry.compressedSize, entryPath);
+      }
+    }
+  }
+
+  private checkTotalSize(totalSize: number, entryPath: string): void {
+    if (totalSize > this.archiveOptions.maxTotalSize) {
+      throw new ArchiveLimitError('压缩包解压后超出大小限制', {
+        archivePath: entryPath,
+        totalSize,
+        maxTotalSize: this.archiveOptions.maxTotalSize,
+      });
+    }
+  }
+
+  private checkRatio(uncompressed: number, compressed: number, entryPath: string): void {
+    const ratio = uncompressed / Math.max(compressed, 1);
+    if (ratio > this.archiveOptions.maxCompressionRatio) {
+      throw new ArchiveLimitError('压缩比超出限制，疑似 zip bomb', {
+        archivePath: entryPath,
+        ratio: Math.round(ratio),
+        maxCompressionRatio: this.archiveOptions.maxCompressionRatio,
+      });
+    }
+  }
+
+  /**
+   * 当前 Loader 的来源名称（sourceName、文件路径或 'blob'）
+   */
+  private getSourceName(): string {
+    if (this.archiveOptions.sourceName) {
+      return this.archiveOptions.sourceName;
+    }
+    return typeof this.filePathOrBlob === 'string' ? this.filePathOrBlob : 'blob';
+  }
+
+  /**
+   * 通过魔数识别压缩包格式
+   */
+  private static detectFormat(buffer: Buffer): ArchiveFormat | undefined {
+    switch (ContentTypeDetector.detect(buffer)?.mimeType) {
+      case MIME_TYPES.OTHER.ZIP:
+        return 'zip';
+      case MIME_TYPES.OTHER.TAR:
+        return 'tar';
+      case MIME_TYPES.OTHER.GZIP:
+        return 'gzip';
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * 规范化条目路径（去掉开头的 '/' 和 './'，统一分隔符）
+   */
+  private static normalizePath(entryPath: string): string {
+    return path.posix.normalize(entryPath.replace(/\\/g, '/')).replace(/^(\.\/|\/)+/, '');
+  }
+
+  /**
+   * 动态导入 jszip 库
+   */
+  private static async importsJSZip() {
+    try {
+      const module = await import('jszip');
+      return (module as any).default ?? module;
+    } catch (e) {
+      ArchiveLoader.logger.error('Failed to load jszip', { error: e instanceof Error ? e.message : String(e) });
+      throw new Error(
+        'Failed to load jszip. Please install it with: npm install jszip'
+      );
+    }
+  }
+}
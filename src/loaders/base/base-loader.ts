@@ -1,5 +1,17 @@
 import { Document } from '../../models/document.model';
-import { DocumentLoadError } from '../../common/errors/document.errors';
+import { DocumentElement } from '../../models/document-element.model';
+import { ElementPartitioner } from '../elements/element-partitioner';
+import {
+  ArchiveLimitError,
+  DocumentLoadError,
+  EncryptedDocumentError,
+  InvalidJsonLineError,
+} from '../../common/errors/document.errors';
+
+/**
+ * 确定性错误：重试不会改变结果，直接抛出
+ */
+const NON_RETRYABLE_ERRORS = [ArchiveLimitError, EncryptedDocumentError, InvalidJsonLineError];
 
 /**
  * 加载器配置选项
@@ -205,6 +217,24 @@ export abstract class BaseDocumentLoader implements DocumentLoader {
     return splitter.splitDocuments(docs);
   }
 
+  /**
+   * 加载并切分为文档元素（标题、段落、列表项、表格、图片、代码块）
+   *
+   * @returns Promise that resolves with an array of DocumentElement
+   *
+   * @example
+   * ```typescript
+   * const elements = await new DocxLoader('manual.docx').loadElements();
+   * const titles = elements.filter(el => el.type === ElementType.TITLE);
+   *
+   * // 按元素边界切块
+   * const chunks = await new RecursiveCharacterTextSplitter().splitElements(elements);
+   * ```
+   */
+  async loadElements(): Promise<DocumentElement[]> {
+    return ElementPartitioner.partition(await this.load());
+  }
+
   /**
    * 带重试机制的执行函数
    *
@@ -221,6 +251,10 @@ export abstract class BaseDocumentLoader implements DocumentLoader {
       } catch (error) {
         lastError = error as Error;
 
+        if (NON_RETRYABLE_ERRORS.some(ErrorClass => error instanceof ErrorClass)) {
+          throw error;
+        }
+
         // 最后一次尝试失败，直接抛出
         if (attempt === maxRetries - 1) {
           break;
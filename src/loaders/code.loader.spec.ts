@@ -0,0 +1,48 @@
+import { CodeLoader } from './code.loader';
+import { LoaderRegistry } from './registry/loader-registry';
+import { MIME_TYPES } from './constants/mime-types';
+
+const SOURCE = 'def add(a, b):\n    return a + b\n';
+
+describe('CodeLoader', () => {
+  it('should detect the language from the file extension', async () => {
+    const [doc] = await new CodeLoader('math.py').parse(Buffer.from(SOURCE), { source: 'math.py' });
+
+    expect(doc.pageContent).toBe(SOURCE);
+    expect(doc.metadata).toMatchObject({ format: 'code', language: 'python', lineCount: 3 });
+  });
+
+  it('should prefer the language option', async () => {
+    const [doc] = await new CodeLoader(new Blob([SOURCE]), { language: 'python' }).load();
+
+    expect(doc.metadata.language).toBe('python');
+  });
+
+  it('should leave the language undefined when it cannot be detected', async () => {
+    const [doc] = await new CodeLoader(new Blob([SOURCE])).load();
+
+    expect(doc.metadata).not.toHaveProperty('language');
+  });
+
+  describe('LoaderRegistry', () => {
+    it('should not assume JavaScript for text/javascript sources without a code extension', async () => {
+      const loader = LoaderRegistry.createDefault().createLoader(
+        new Blob([SOURCE], { type: MIME_TYPES.TEXT.JAVASCRIPT }),
+        { filename: 'script', mimeType: MIME_TYPES.TEXT.JAVASCRIPT },
+      );
+
+      const [doc] = await loader.load();
+
+      expect(loader).toBeInstanceOf(CodeLoader);
+      expect(doc.metadata).not.toHaveProperty('language');
+    });
+
+    it('should detect the language from the filename', async () => {
+      const loader = LoaderRegistry.createDefault().createLoader(new Blob([SOURCE]), { filename: 'src/math.py' });
+
+      const [doc] = await loader.load();
+
+      expect(doc.metadata.language).toBe('python');
+    });
+  });
+});
@@ -14,6 +14,11 @@ export const MIME_TYPES = {
     PDF: 'application/pdf',
     DOC: 'application/msword',
     DOCX: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    EPUB: 'application/epub+zip',
+  },
+  PRESENTATION: {
+    PPT: 'application/vnd.ms-powerpoint',
+    PPTX: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
   },
   SPREADSHEET: {
     XLS: 'application/vnd.ms-excel',
@@ -22,10 +27,14 @@ export const MIME_TYPES = {
   },
   DATA: {
     JSON: 'application/json',
-    JSONL: 'application/json',
+    JSONL: 'application/x-ndjson',
     XML: 'application/xml',
     YAML: 'application/x-yaml',
   },
+  EMAIL: {
+    EML: 'message/rfc822',
+    MBOX: 'application/mbox',
+  },
   IMAGE: {
     JPEG: 'image/jpeg',
     PNG: 'image/png',
@@ -36,6 +45,8 @@ export const MIME_TYPES = {
   },
   OTHER: {
     ZIP: 'application/zip',
+    GZIP: 'application/gzip',
+    TAR: 'application/x-tar',
     OCTET_STREAM: 'application/octet-stream',
   },
 } as const;
@@ -57,12 +68,22 @@ export const EXTENSION_TO_MIME: Record<string, string> = {
   // JSON
   '.json': MIME_TYPES.DATA.JSON,
   '.jsonl': MIME_TYPES.DATA.JSONL,
+  '.ndjson': MIME_TYPES.DATA.JSONL,
 
   // Office
   '.doc': MIME_TYPES.DOCUMENT.DOC,
   '.docx': MIME_TYPES.DOCUMENT.DOCX,
   '.xls': MIME_TYPES.SPREADSHEET.XLS,
   '.xlsx': MIME_TYPES.SPREADSHEET.XLSX,
+  '.ppt': MIME_TYPES.PRESENTATION.PPT,
+  '.pptx': MIME_TYPES.PRESENTATION.PPTX,
+
+  // 电子书
+  '.epub': MIME_TYPES.DOCUMENT.EPUB,
+
+  // 邮件
+  '.eml': MIME_TYPES.EMAIL.EML,
+  '.mbox': MIME_TYPES.EMAIL.MBOX,
 
   // PDF
   '.pdf': MIME_TYPES.DOCUMENT.PDF,
@@ -74,6 +95,14 @@ export const EXTENSION_TO_MIME: Record<string, string> = {
   '.gif': MIME_TYPES.IMAGE.GIF,
   '.svg': MIME_TYPES.IMAGE.SVG,
   '.webp': MIME_TYPES.IMAGE.WEBP,
+  '.tif': MIME_TYPES.IMAGE.TIFF,
+  '.tiff': MIME_TYPES.IMAGE.TIFF,
+
+  // 压缩包
+  '.zip': MIME_TYPES.OTHER.ZIP,
+  '.gz': MIME_TYPES.OTHER.GZIP,
+  '.tgz': MIME_TYPES.OTHER.GZIP,
+  '.tar': MIME_TYPES.OTHER.TAR,
 };
 
 /**
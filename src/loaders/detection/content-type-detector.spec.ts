@@ -0,0 +1,142 @@
+import JSZip = require('jszip');
+import { ContentTypeDetector } from './content-type-detector';
+import { MIME_TYPES } from '../constants/mime-types';
+import { LoaderRegistry } from '../registry/loader-registry';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const OLE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+// Helper function to build a zip container in memory (entries are added in order)
+async function createZip(files: Record<string, string>, storeFirst = false): Promise<Buffer> {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([name, content], index) => {
+    zip.file(name, content, { compression: storeFirst && index === 0 ? 'STORE' : 'DEFLATE' });
+  });
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+// Helper function to build an OLE compound file header followed by a directory entry name
+function createOle(stream: string): Buffer {
+  return Buffer.concat([OLE_SIGNATURE, Buffer.alloc(504), Buffer.from(`${stream}\0`, 'utf16le')]);
+}
+
+// Helper function to resolve the loader name the way DocumentService does
+function resolveLoader(buffer: Buffer, filename: string): string | undefined {
+  return LoaderRegistry.createDefault().find(LoaderRegistry.lookupFor(filename, ContentTypeDetector.detect(buffer)))
+    ?.name;
+}
+
+describe('ContentTypeDetector', () => {
+  describe('Magic bytes', () => {
+    it('should detect PDF and PNG signatures', () => {
+      expect(ContentTypeDetector.detect(Buffer.from('%PDF-1.7\n%âãÏÓ'))).toEqual({
+        mimeType: MIME_TYPES.DOCUMENT.PDF,
+        confident: true,
+        evidence: 'magic:pdf',
+      });
+      expect(ContentTypeDetector.detect(Buffer.concat([PNG_SIGNATURE, Buffer.alloc(16)]))).toMatchObject({
+        mimeType: MIME_TYPES.IMAGE.PNG,
+        confident: true,
+      });
+    });
+
+    it('should return undefined for empty and unknown binary buffers', () => {
+      expect(ContentTypeDetector.detect(Buffer.alloc(0))).toBeUndefined();
+      expect(ContentTypeDetector.detect(Buffer.from([0x00, 0x01, 0x02, 0x03, 0xfe]))).toBeUndefined();
+    });
+
+    it('should detect text formats with low confidence', () => {
+      expect(ContentTypeDetector.detect(Buffer.from('<!DOCTYPE html><html></html>'))).toMatchObject({
+        mimeType: MIME_TYPES.TEXT.HTML,
+        confident: false,
+      });
+      expect(ContentTypeDetector.detect(Buffer.from('\uFEFF {"a": 1}'))).toMatchObject({
+        mimeType: MIME_TYPES.DATA.JSON,
+        confident: false,
+      });
+      expect(ContentTypeDetector.detect(Buffer.from('plain text'))).toMatchObject({
+        mimeType: MIME_TYPES.TEXT.PLAIN,
+        confident: false,
+      });
+    });
+  });
+
+  describe('ZIP containers', () => {
+    it.each([
+      [{ '[Content_Types].xml': '<Types/>', 'word/document.xml': '<w:document/>' }, MIME_TYPES.DOCUMENT.DOCX],
+      [{ '[Content_Types].xml': '<Types/>', 'xl/workbook.xml': '<workbook/>' }, MIME_TYPES.SPREADSHEET.XLSX],
+      [{ '[Content_Types].xml': '<Types/>', 'ppt/presentation.xml': '<p:presentation/>' }, MIME_TYPES.PRESENTATION.PPTX],
+      [{ 'META-INF/container.xml': '<container/>', 'OEBPS/content.opf': '<package/>' }, MIME_TYPES.DOCUMENT.EPUB],
+      [{ 'a.txt': 'alpha' }, MIME_TYPES.OTHER.ZIP],
+    ])('should detect %j from the central directory', async (files, mimeType) => {
+      expect(ContentTypeDetector.detect(await createZip(files))).toMatchObject({ mimeType, confident: true });
+    });
+
+    it('should detect EPUB from the leading mimetype entry', async () => {
+      const epub = await createZip({ mimetype: MIME_TYPES.DOCUMENT.EPUB, 'OEBPS/content.opf': '<package/>' }, true);
+
+      expect(ContentTypeDetector.detect(epub)).toEqual({
+        mimeType: MIME_TYPES.DOCUMENT.EPUB,
+        confident: true,
+        evidence: 'zip:mimetype',
+      });
+    });
+
+    it('should fall back to local headers when the central directory is truncated', async () => {
+      const docx = await createZip({ 'word/document.xml': '<w:document/>', 'docProps/app.xml': '<Properties/>' });
+      const truncated = docx.subarray(0, docx.lastIndexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])));
+
+      expect(ContentTypeDetector.listZipEntries(truncated)).toContain('word/document.xml');
+      expect(ContentTypeDetector.detect(truncated)?.mimeType).toBe(MIME_TYPES.DOCUMENT.DOCX);
+    });
+  });
+
+  describe('OLE containers', () => {
+    it.each([
+      ['WordDocument', MIME_TYPES.DOCUMENT.DOC],
+      ['Workbook', MIME_TYPES.SPREADSHEET.XLS],
+      ['PowerPoint Document', MIME_TYPES.PRESENTATION.PPT],
+    ])('should detect the %s stream', (stream, mimeType) => {
+      expect(ContentTypeDetector.detect(createOle(stream))).toEqual({
+        mimeType,
+        confident: true,
+        evidence: `ole:${stream}`,
+      });
+    });
+
+    it('should treat OLE files without a known stream as DOC', () => {
+      expect(ContentTypeDetector.detect(createOle('Unknown'))).toMatchObject({
+        mimeType: MIME_TYPES.DOCUMENT.DOC,
+        evidence: 'magic:ole',
+      });
+    });
+  });
+
+  describe('Loader routing', () => {
+    it('should route misnamed files by their content', async () => {
+      const pptx = await createZip({ 'ppt/presentation.xml': '<p:presentation/>' });
+
+      expect(resolveLoader(Buffer.from('%PDF-1.7\n'), 'report.txt')).toBe('pdf');
+      expect(resolveLoader(pptx, 'slides.docx')).toBe('pptx');
+      expect(resolveLoader(Buffer.from('plain text'), 'notes.md')).toBe('markdown');
+    });
+
+    it('should route reliable signatures despite an unknown extension', () => {
+      expect(resolveLoader(Buffer.from('%PDF-1.7\n'), 'report.foo')).toBe('pdf');
+    });
+
+    it('should use text detection only for files without an extension', () => {
+      expect(resolveLoader(Buffer.from('plain text'), 'notes.rtf')).toBeUndefined();
+      expect(resolveLoader(Buffer.from('{"a": 1}'), 'upload')).toBe('json');
+      expect(resolveLoader(Buffer.from('plain text'), 'upload')).toBe('text');
+    });
+
+    it('should fall back to the type declared by the filename for unknown buffers', () => {
+      const unknown = Buffer.from([0x00, 0x01, 0x02, 0x03]);
+
+      expect(ContentTypeDetector.detect(unknown)).toBeUndefined();
+      expect(resolveLoader(unknown, 'scan.pdf')).toBe('pdf');
+      expect(resolveLoader(unknown, 'upload')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,323 @@
+import { MIME_TYPES } from '../constants/mime-types';
+
+/**
+ * 内容类型检测结果
+ */
+export interface ContentTypeDetectionResult {
+  /**
+   * 检测到的 MIME 类型
+   */
+  mimeType: string;
+
+  /**
+   * 是否为可靠检测
+   *
+   * - true: 命中二进制签名（魔数 / 容器结构），可覆盖文件扩展名
+   * - false: 基于文本特征的推测（HTML、JSON、纯文本），仅在扩展名无法识别时使用
+   */
+  confident: boolean;
+
+  /**
+   * 检测依据（用于日志和调试）
+   * @example 'magic:pdf', 'zip:word/', 'ole:WordDocument', 'text:json'
+   */
+  evidence: string;
+}
+
+/**
+ * ZIP 中央目录（或本地文件头）中的条目信息
+ */
+export interface ZipDirectoryEntry {
+  /** 条目名称（按 UTF-8 解码） */
+  name: string;
+
+  /** 压缩后大小（ZIP64 或使用数据描述符时未知） */
+  compressedSize?: number;
+
+  /** 声明的解压后大小（ZIP64 或使用数据描述符时未知） */
+  uncompressedSize?: number;
+}
+
+/**
+ * ZIP 容器内的特征路径 → MIME 类型（按顺序匹配）
+ */
+const ZIP_CONTAINER_SIGNATURES: Array<{ prefix: string; mimeType: string }> = [
+  { prefix: 'word/', mimeType: MIME_TYPES.DOCUMENT.DOCX },
+  { prefix: 'xl/', mimeType: MIME_TYPES.SPREADSHEET.XLSX },
+  { prefix: 'ppt/', mimeType: MIME_TYPES.PRESENTATION.PPTX },
+  { prefix: 'META-INF/container.xml', mimeType: MIME_TYPES.DOCUMENT.EPUB },
+];
+
+/**
+ * OLE 复合文档中的特征流名称 → MIME 类型（按顺序匹配）
+ */
+const OLE_STREAM_SIGNATURES: Array<{ stream: string; mimeType: string }> = [
+  { stream: 'WordDocument', mimeType: MIME_TYPES.DOCUMENT.DOC },
+  { stream: 'Workbook', mimeType: MIME_TYPES.SPREADSHEET.XLS },
+  { stream: 'Book', mimeType: MIME_TYPES.SPREADSHEET.XLS },
+  { stream: 'PowerPoint Document', mimeType: MIME_TYPES.PRESENTATION.PPT },
+];
+
+/** ZIP 中央目录最多读取的条目数（防止畸形文件导致长时间扫描） */
+const MAX_ZIP_ENTRIES = 10000;
+
+/** 文本特征检测的采样字节数 */
+const TEXT_SAMPLE_SIZE = 8192;
+
+/**
+ * 内容类型检测工具
+ *
+ * 通过检查 Buffer 内容（而非文件名）判断文件的实际类型：
+ * - 魔数签名：PDF、ZIP、OLE、GZIP、TAR、常见图片格式
+ * - ZIP 容器：读取中央目录的条目名称，区分 DOCX / XLSX / PPTX / EPUB（不解压）
+ * - OLE 容器：查找特征流名称，区分 DOC / XLS / PPT
+ * - 文本特征：HTML、JSON、纯文本（低可信度）
+ *
+ * @example
+ * ```typescript
+ * const result = ContentTypeDetector.detect(buffer);
+ * // { mimeType: 'application/pdf', confident: true, evidence: 'magic:pdf' }
+ * ```
+ */
+export class ContentTypeDetector {
+  /**
+   * 检测 Buffer 的内容类型
+   *
+   * @param buffer - 文件内容
+   * @returns 检测结果；空内容或无法识别的二进制数据返回 undefined
+   */
+  static detect(buffer: Buffer): ContentTypeDetectionResult | undefined {
+    if (!buffer || buffer.length === 0) {
+      return undefined;
+    }
+
+    return ContentTypeDetector.detectBinary(buffer) ?? ContentTypeDetector.detectText(buffer);
+  }
+
+  /**
+   * 列出 ZIP 容器中的条目名称（仅读取目录结构，不解压）
+   *
+   * 优先读取中央目录；文件被截断导致找不到中央目录时，退回到顺序扫描本地文件头
+   */
+  static listZipEntries(buffer: Buffer): string[] {
+    return ContentTypeDetector.listZipDirectory(buffer).map(entry => entry.name);
+  }
+
+  /**
+   * 列出 ZIP 容器中的条目名称和大小（仅读取目录结构，不解压）
+   *
+   * 大小来自压缩包自身的声明，不可信，只能用于提前拒绝
+   */
+  static listZipDirectory(buffer: Buffer): ZipDirectoryEntry[] {
+    const fromCentralDirectory = ContentTypeDetector.readCentralDirectory(buffer);
+    if (fromCentralDirectory) {
+      return fromCentralDirectory;
+    }
+    return ContentTypeDetector.readLocalHeaders(buffer);
+  }
+
+  /**
+   * 基于魔数的二进制格式检测
+   */
+  private static detectBinary(buffer: Buffer): ContentTypeDetectionResult | undefined {
+    const startsWith = (...bytes: number[]) =>
+      buffer.length >= bytes.length && bytes.every((b, i) => buffer[i] === b);
+
+    // PDF: %PDF
+    if (startsWith(0x25, 0x50, 0x44, 0x46)) {
+      return { mimeType: MIME_TYPES.DOCUMENT.PDF, confident: true, evidence: 'magic:pdf' };
+    }
+
+    // ZIP: PK\x03\x04（空压缩包为 PK\x05\x06）
+    if (startsWith(0x50, 0x4b, 0x03, 0x04) || startsWith(0x50, 0x4b, 0x05, 0x06)) {
+      return ContentTypeDetector.detectZipContainer(buffer);
+    }
+
+    // OLE 复合文档（DOC / XLS / PPT）
+    if (startsWith(0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1)) {
+      return ContentTypeDetector.detectOleContainer(buffer);
+    }
+
+    // GZIP
+    if (startsWith(0x1f, 0x8b)) {
+      return { mimeType: MIME_TYPES.OTHER.GZIP, confident: true, evidence: 'magic:gzip' };
+    }
+
+    // TAR: 偏移 257 处的 ustar 标识（POSIX / GNU）
+    if (buffer.length >= 262 && buffer.toString('ascii', 257, 262) === 'ustar') {
+      return { mimeType: MIME_TYPES.OTHER.TAR, confident: true, evidence: 'magic:tar' };
+    }
+
+    // 图片
+    if (startsWith(0xff, 0xd8, 0xff)) {
+      return { mimeType: MIME_TYPES.IMAGE.JPEG, confident: true, evidence: 'magic:jpeg' };
+    }
+    if (startsWith(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)) {
+      return { mimeType: MIME_TYPES.IMAGE.PNG, confident: true, evidence: 'magic:png' };
+    }
+    if (startsWith(0x47, 0x49, 0x46, 0x38)) {
+      return { mimeType: MIME_TYPES.IMAGE.GIF, confident: true, evidence: 'magic:gif' };
+    }
+    if (startsWith(0x49, 0x49, 0x2a, 0x00) || startsWith(0x4d, 0x4d, 0x00, 0x2a)) {
+      return { mimeType: MIME_TYPES.IMAGE.TIFF, confident: true, evidence: 'magic:tiff' };
+    }
+    if (
+      startsWith(0x52, 0x49, 0x46, 0x46) &&
+      buffer.length >= 12 &&
+      buffer.toString('ascii', 8, 12) === 'WEBP'
+    ) {
+      return { mimeType: MIME_TYPES.IMAGE.WEBP, confident: true, evidence: 'magic:webp' };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 识别 ZIP 容器的具体格式
+   */
+  private static detectZipContainer(buffer: Buffer): ContentTypeDetectionResult {
+    // EPUB 规范要求首个条目为未压缩的 mimetype 文件
+    if (buffer.length >= 58 && buffer.toString('ascii', 30, 38) === 'mimetype') {
+      const declared = buffer.toString('ascii', 38, 58);
+      if (declared === MIME_TYPES.DOCUMENT.EPUB) {
+        return { mimeType: MIME_TYPES.DOCUMENT.EPUB, confident: true, evidence: 'zip:mimetype' };
+      }
+    }
+
+    const entries = ContentTypeDetector.listZipEntries(buffer);
+    for (const { prefix, mimeType } of ZIP_CONTAINER_SIGNATURES) {
+      if (entries.some(name => name.startsWith(prefix))) {
+        return { mimeType, confident: true, evidence: `zip:${prefix}` };
+      }
+    }
+
+    return { mimeType: MIME_TYPES.OTHER.ZIP, confident: true, evidence: 'magic:zip' };
+  }
+
+  /**
+   * 识别 OLE 复合文档的具体格式
+   *
+   * 目录项名称以 UTF-16LE 存储，直接在 Buffer 中查找特征流名称
+   */
+  private static detectOleContainer(buffer: Buffer): ContentTypeDetectionResult {
+    for (const { stream, mimeType } of OLE_STREAM_SIGNATURES) {
+      // 目录项名称以 \0\0 结尾，避免 'Book' 误匹配其他流名称的片段
+      const needle = Buffer.from(`${stream}\0`, 'utf16le');
+      if (buffer.indexOf(needle) !== -1) {
+        return { mimeType, confident: true, evidence: `ole:${stream}` };
+      }
+    }
+
+    // 无法细分时按 DOC 处理（与历史行为一致）
+    return { mimeType: MIME_TYPES.DOCUMENT.DOC, confident: true, evidence: 'magic:ole' };
+  }
+
+  /**
+   * 基于文本特征的检测（低可信度）
+   */
+  private static detectText(buffer: Buffer): ContentTypeDetectionResult | undefined {
+    const sample = buffer.subarray(0, Math.min(buffer.length, TEXT_SAMPLE_SIZE));
+
+    // 包含 NUL 字节视为二进制（UTF-16 BOM 除外）
+    const hasUtf16Bom =
+      (sample[0] === 0xff && sample[1] === 0xfe) || (sample[0] === 0xfe && sample[1] === 0xff);
+    if (!hasUtf16Bom && sample.includes(0x00)) {
+      return undefined;
+    }
+
+    const head = sample.toString('utf8').replace(/^\uFEFF/, '').trimStart();
+    const lowerHead = head.slice(0, 512).toLowerCase();
+
+    if (lowerHead.startsWith('<!doctype html') || lowerHead.includes('<html')) {
+      return { mimeType: MIME_TYPES.TEXT.HTML, confident: false, evidence: 'text:html' };
+    }
+
+    if (head.startsWith('{') || head.startsWith('[')) {
+      return { mimeType: MIME_TYPES.DATA.JSON, confident: false, evidence: 'text:json' };
+    }
+
+    return { mimeType: MIME_TYPES.TEXT.PLAIN, confident: false, evidence: 'text:plain' };
+  }
+
+  /**
+   * 读取 ZIP 中央目录中的条目
+   *
+   * @returns 条目数组；找不到中央目录时返回 undefined
+   */
+  private static readCentralDirectory(buffer: Buffer): ZipDirectoryEntry[] | undefined {
+    // End of Central Directory 记录位于文件末尾（最小 22 字节，注释最长 65535 字节）
+    const minOffset = Math.max(0, buffer.length - 22 - 0xffff);
+    let eocd = -1;
+    for (let i = buffer.length - 22; i >= minOffset; i--) {
+      if (buffer.readUInt32LE(i) === 0x06054b50) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) {
+      return undefined;
+    }
+
+    const entryCount = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+    const entries: ZipDirectoryEntry[] = [];
+
+    for (let i = 0; i < Math.min(entryCount, MAX_ZIP_ENTRIES); i++) {
+      if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) {
+        break;
+      }
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      entries.push({
+        name: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+        compressedSize: ContentTypeDetector.readZipSize(buffer, offset + 20),
+        uncompressedSize: ContentTypeDetector.readZipSize(buffer, offset + 24),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  }
+
+  /**
+   * 顺序扫描 ZIP 本地文件头中的条目（用于截断的文件）
+   */
+  private static readLocalHeaders(buffer: Buffer): ZipDirectoryEntry[] {
+    const entries: ZipDirectoryEntry[] = [];
+    let offset = 0;
+
+    while (entries.length < MAX_ZIP_ENTRIES && offset + 30 <= buffer.length) {
+      if (buffer.readUInt32LE(offset) !== 0x04034b50) {
+        break;
+      }
+      const flags = buffer.readUInt16LE(offset + 6);
+      const compressedSize = buffer.readUInt32LE(offset + 18);
+      const nameLength = buffer.readUInt16LE(offset + 26);
+      const extraLength = buffer.readUInt16LE(offset + 28);
+      const name = buffer.toString('utf8', offset + 30, offset + 30 + nameLength);
+
+      // 使用数据描述符（bit 3）时本地头中没有大小信息，无法继续定位下一个条目
+      if (flags & 0x08) {
+        entries.push({ name });
+        break;
+      }
+      entries.push({
+        name,
+        compressedSize: ContentTypeDetector.readZipSize(buffer, offset + 18),
+        uncompressedSize: ContentTypeDetector.readZipSize(buffer, offset + 22),
+      });
+      offset += 30 + nameLength + extraLength + compressedSize;
+    }
+
+    return entries;
+  }
+
+  /**
+   * 读取 32 位大小字段（0xFFFFFFFF 表示实际大小在 ZIP64 扩展字段中，视为未知）
+   */
+  private static readZipSize(buffer: Buffer, offset: number): number | undefined {
+    const size = buffer.readUInt32LE(offset);
+    return size === 0xffffffff ? undefined : size;
+  }
+}
@@ -2,15 +2,8 @@ import { glob } from 'glob';
 import { Logger } from '@nestjs/common';
 import * as path from 'path';
 import { BaseDocumentLoader, LoaderOptions } from './base/base-loader';
-import { CSVLoader } from './csv.loader';
-import { DocxLoader } from './docx.loader';
-import { HTMLLoader } from './html.loader';
-import { JSONLoader } from './json.loader';
-import { MarkdownLoader } from './markdown.loader';
 import { Document } from '../models/document.model';
-import { PDFLoader } from './pdf.loader';
-import { TextLoader } from './text.loader';
-import { XLSXLoader } from './xlsx.loader';
+import { LoaderRegistry, LoaderContextOptions } from './registry/loader-registry';
 
 /**
  * DirectoryLoader 配置选项
@@ -44,6 +37,21 @@ export interface DirectoryLoaderOptions extends LoaderOptions {
    */
   loaderMap?: Record<string, new (path: string, options?: any) => BaseDocumentLoader>;
 
+  /**
+   * Loader 注册表
+   *
+   * 未在 loaderMap 中命中的文件通过注册表选择加载器，
+   * 注册表中也不支持的格式（如 .DS_Store）直接跳过并记录 debug 日志
+   *
+   * @default LoaderRegistry.createDefault()
+   */
+  loaderRegistry?: LoaderRegistry;
+
+  /**
+   * 传递给注册表 Loader 工厂的上下文选项（如 OCR 服务）
+   */
+  loaderContextOptions?: LoaderContextOptions;
+
   /**
    * 是否显示加载进度
    * @default false
@@ -57,7 +65,7 @@ export interface DirectoryLoaderOptions extends LoaderOptions {
   maxConcurrency?: number;
 
   /**
-   * 是否忽略加载错误
+   * 是否忽略加载错误（不影响不支持的格式，这类文件总是跳过）
    * @default false
    */
   ignoreErrors?: boolean;
@@ -75,7 +83,7 @@ export interface DirectoryLoaderOptions extends LoaderOptions {
  * 批量加载目录中的文档
  *
  * 特性：
- * - 自动根据文件扩展名选择合适的加载器
+ * - 通过 LoaderRegistry 根据文件扩展名选择合适的加载器
  * - 支持 Glob 模式过滤文件
  * - 支持并发加载
  * - 支持进度显示
@@ -98,12 +106,19 @@ export interface DirectoryLoaderOptions extends LoaderOptions {
  *     '.custom': CustomLoader
  *   }
  * });
+ *
+ * // 共享 DocumentService 的注册表
+ * const loader = new DirectoryLoader('./docs', {
+ *   loaderRegistry: registry,
+ *   ignoreErrors: true
+ * });
  * ```
  */
 export class DirectoryLoader extends BaseDocumentLoader {
   private static readonly logger = new Logger(DirectoryLoader.name);
   private readonly dirPath: string;
   private readonly dirOptions: DirectoryLoaderOptions;
+  private readonly registry: LoaderRegistry;
 
   constructor(dirPath: string, options: DirectoryLoaderOptions = {}) {
     super(options);
@@ -116,6 +131,7 @@ export class DirectoryLoader extends BaseDocumentLoader {
       showProgress: false,
       ...options,
     };
+    this.registry = options.loaderRegistry ?? LoaderRegistry.createDefault();
   }
 
   /**
@@ -131,8 +147,13 @@ export class DirectoryLoader extends BaseDocumentLoader {
     // 逐个文件加载并 yield，真正的懒加载
     let loaded = 0;
     for (const file of files) {
+      const loader = this.getLoaderForFile(file);
+      if (!loader) {
+        DirectoryLoader.logger.debug(`Skipping unsupported file: ${file}`);
+        continue;
+      }
+
       try {
-        const loader = this.getLoaderForFile(file);
         for await (const doc of loader.lazyLoad()) {
           yield doc;
         }
@@ -170,9 +191,9 @@ export class DirectoryLoader extends BaseDocumentLoader {
   }
 
   /**
-   * 根据文件扩展名获取合适的加载器
+   * 根据文件扩展名获取合适的加载器，不支持的格式返回 undefined
    */
-  private getLoaderForFile(filePath: string): BaseDocumentLoader {
+  private getLoaderForFile(filePath: string): BaseDocumentLoader | undefined {
     const ext = path.extname(filePath).toLowerCase();
 
     // 优先使用自定义映射
@@ -181,33 +202,10 @@ export class DirectoryLoader extends BaseDocumentLoader {
       return new LoaderClass(filePath);
     }
 
-    // 使用默认映射
-    switch (ext) {
-      case '.pdf':
-        return new PDFLoader(filePath);
-      case '.csv':
-        return new CSVLoader(filePath);
-      case '.json':
-        return new JSONLoader(filePath);
-      case '.md':
-      case '.markdown':
-        return new MarkdownLoader(filePath);
-      case '.html':
-      case '.htm':
-        return new HTMLLoader(filePath);
-      case '.xlsx':
-      case '.xls':
-        return new XLSXLoader(filePath);
-      case '.docx':
-        return new DocxLoader(filePath);
-      case '.doc':
-        return new DocxLoader(filePath, { type: 'doc' });
-      case '.txt':
-      case '.text':
-        return new TextLoader(filePath);
-      default:
-        // 默认使用 TextLoader
-        return new TextLoader(filePath);
+    // 使用注册表
+    if (!this.registry.isSupported({ filename: filePath })) {
+      return undefined;
     }
+    return this.registry.createLoader(filePath, {}, this.dirOptions.loaderContextOptions);
   }
 }
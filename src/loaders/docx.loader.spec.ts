@@ -0,0 +1,93 @@
+import JSZip = require('jszip');
+import { DocxLoader } from './docx.loader';
+
+// Helper function to build a minimal DOCX with the given paragraphs and table rows
+async function createDocx(paragraphs: string[], tableRows: string[][]): Promise<Buffer> {
+  const cell = (text: string) => `<w:tc><w:p><w:r><w:t>${text}</w:t></w:r></w:p></w:tc>`;
+  const body = [
+    ...paragraphs.map(text => `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`),
+    `<w:tbl>${tableRows.map(row => `<w:tr>${row.map(cell).join('')}</w:tr>`).join('')}</w:tbl>`,
+  ].join('');
+
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+      '</Types>'
+  );
+  zip.file(
+    '_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+      '</Relationships>'
+  );
+  zip.file(
+    'word/document.xml',
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+      `<w:body>${body}</w:body></w:document>`
+  );
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+const ROWS = [
+  ['Name', 'Price'],
+  ['Apple', '5'],
+  ['Pear', '3'],
+];
+
+describe('DocxLoader', () => {
+  it('should append table documents with headers and rows after the body', async () => {
+    const raw = await createDocx(['Price list'], ROWS);
+
+    const docs = await new DocxLoader('prices.docx', { extractTables: true }).parse(raw, { source: 'prices.docx' });
+
+    expect(docs).toHaveLength(2);
+    expect(docs[0].pageContent).toContain('Price list');
+    expect(docs[1].metadata).toMatchObject({
+      source: 'prices.docx',
+      elementType: 'table',
+      format: 'markdown',
+      tableIndex: 1,
+      table: { headers: ['Name', 'Price'], rows: [['Apple', '5'], ['Pear', '3']] },
+    });
+    expect(docs[1].pageContent).toContain('| Apple | 5 |');
+  });
+
+  it('should linearize tables when linearizeTables is set', async () => {
+    const raw = await createDocx(['Price list'], ROWS);
+
+    const docs = await new DocxLoader('prices.docx', { extractTables: true, linearizeTables: true }).parse(raw, {});
+
+    expect(docs[1].metadata.format).toBe('text');
+    expect(docs[1].pageContent).toBe('Row 1: Name: Apple; Price: 5.\nRow 2: Name: Pear; Price: 3.');
+  });
+
+  it('should not extract tables by default', async () => {
+    const raw = await createDocx(['Price list'], ROWS);
+
+    const docs = await new DocxLoader('prices.docx').parse(raw, {});
+
+    expect(docs.every(doc => doc.metadata.elementType !== 'table')).toBe(true);
+  });
+
+  it('should keep the body when table extraction fails', async () => {
+    const raw = await createDocx(['Price list'], ROWS);
+    const mammoth = await import('mammoth');
+    const spy = jest.spyOn(mammoth, 'convertToHtml').mockRejectedValue(new Error('corrupt table'));
+
+    try {
+      const docs = await new DocxLoader('prices.docx', { extractTables: true }).parse(raw, {});
+
+      expect(docs).toHaveLength(1);
+      expect(docs[0].pageContent).toContain('Price list');
+    } finally {
+      spy.mockRestore();
+    }
+  });
+});
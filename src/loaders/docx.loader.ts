@@ -4,11 +4,12 @@ import { BufferLoader } from './base/buffer.loader';
 import { LoaderOptions } from './base/base-loader';
 import { MarkdownConverterParser } from './parsers/markdown-converter.parser';
 import { Blob as BlobData } from './base/blob-parser';
+import { TableExtractionOptions, createTableDocuments, extractHtmlTables } from './utils/table';
 
 /**
  * DOCX 加载器配置选项
  */
-export interface DocxLoaderOptions extends LoaderOptions {
+export interface DocxLoaderOptions extends LoaderOptions, TableExtractionOptions {
   /**
    * 文档类型
    */
@@ -37,11 +38,17 @@ export interface DocxLoaderOptions extends LoaderOptions {
  * // 加载 DOC
  * const loader = new DocxLoader('document.doc', { type: 'doc' });
  * const docs = await loader.load();
+ *
+ * // 额外输出结构化表格（仅 DOCX，需要 mammoth）
+ * const loader = new DocxLoader('document.docx', { extractTables: true });
+ * const docs = await loader.load();
+ * // 返回: [Document(markdown格式), Document(table1), ...]
  * ```
  */
 export class DocxLoader extends BufferLoader {
   protected static readonly logger = new Logger(DocxLoader.name);
   private docType: 'docx' | 'doc';
+  private tableOptions: TableExtractionOptions;
 
   constructor(
     filePathOrBlob: string | Blob,
@@ -49,12 +56,16 @@ export class DocxLoader extends BufferLoader {
   ) {
     super(filePathOrBlob, options);
     this.docType = options.type ?? 'docx';
+    this.tableOptions = {
+      extractTables: options.extractTables ?? false,
+      linearizeTables: options.linearizeTables ?? false,
+    };
   }
 
   /**
    * 解析 Word buffer 并返回文档数组
    *
-   * 优先尝试 Markdown 转换，失败则自动降级
+   * 优先尝试 Markdown 转换，失败则自动降级；开启 extractTables 时在正文之后追加表格 Document
    *
    * @param raw - Word buffer
    * @param metadata - 文档元数据
@@ -63,6 +74,22 @@ export class DocxLoader extends BufferLoader {
   public async parse(
     raw: Buffer,
     metadata: Document['metadata']
+  ): Promise<Document[]> {
+    const documents = await this.parseContent(raw, metadata);
+
+    if (this.tableOptions.extractTables) {
+      documents.push(...await this.extractTables(raw, metadata));
+    }
+
+    return documents;
+  }
+
+  /**
+   * 解析正文：优先尝试 Markdown 转换，失败则自动降级
+   */
+  private async parseContent(
+    raw: Buffer,
+    metadata: Document['metadata']
   ): Promise<Document[]> {
     // 优先尝试 markitdown-ts 转换为 Markdown
     try {
@@ -77,6 +104,33 @@ export class DocxLoader extends BufferLoader {
     }
   }
 
+  /**
+   * 使用 mammoth 将 DOCX 转换为 HTML 后提取表格
+   *
+   * DOC 格式无法获取表格结构，返回空数组；表格识别失败时记录警告并返回空数组，不影响正文输出
+   */
+  private async extractTables(
+    raw: Buffer,
+    metadata: Document['metadata']
+  ): Promise<Document[]> {
+    if (this.docType === 'doc') {
+      DocxLoader.logger.debug('Table extraction is not supported for DOC files');
+      return [];
+    }
+
+    try {
+      const { convertToHtml } = await DocxLoader.importsDocx();
+      const { value: html } = await convertToHtml({ buffer: raw });
+
+      return createTableDocuments(extractHtmlTables(html), metadata, this.tableOptions);
+    } catch (error) {
+      DocxLoader.logger.warn('Failed to extract DOCX tables', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
   /**
    * 使用 markitdown-ts 转换为 Markdown
    */
@@ -169,8 +223,8 @@ export class DocxLoader extends BufferLoader {
    */
   private static async importsDocx() {
     try {
-      const { extractRawText } = await import('mammoth');
-      return { extractRawText };
+      const { extractRawText, convertToHtml } = await import('mammoth');
+      return { extractRawText, convertToHtml };
     } catch (e) {
       DocxLoader.logger.error('Failed to load mammoth', { error: e instanceof Error ? e.message : String(e) });
       throw new Error(
@@ -0,0 +1,130 @@
+import { ElementPartitioner } from './element-partitioner';
+import { Document } from '../../models/document.model';
+import { ElementType } from '../../models/document-element.model';
+
+const MARKDOWN = [
+  '# Guide',
+  '',
+  'Intro paragraph',
+  'continues here.',
+  '',
+  '## Install',
+  '',
+  '- first step',
+  '  wrapped',
+  '1. numbered',
+  '',
+  '| Name | Price |',
+  '| --- | --- |',
+  '| Apple | 5 |',
+  '',
+  '![Diagram](img/diagram.png)',
+  '',
+  '```ts',
+  'const a = 1;',
+  '```',
+].join('\n');
+
+describe('ElementPartitioner', () => {
+  describe('partition', () => {
+    it('should split markdown into typed elements with line locations', () => {
+      const doc = new Document({ id: 'doc-1', pageContent: MARKDOWN, metadata: { source: 'guide.md' } });
+
+      const elements = ElementPartitioner.partition([doc]);
+
+      expect(elements.map(element => [element.type, element.text])).toEqual([
+        [ElementType.TITLE, 'Guide'],
+        [ElementType.NARRATIVE_TEXT, 'Intro paragraph\ncontinues here.'],
+        [ElementType.TITLE, 'Install'],
+        [ElementType.LIST_ITEM, 'first step\nwrapped'],
+        [ElementType.LIST_ITEM, 'numbered'],
+        [ElementType.TABLE, '| Name | Price |\n| --- | --- |\n| Apple | 5 |'],
+        [ElementType.IMAGE, 'Diagram'],
+        [ElementType.CODE, 'const a = 1;'],
+      ]);
+      expect(elements[1].location).toEqual({ source: 'guide.md', documentId: 'doc-1', startLine: 3, endLine: 4 });
+      expect(elements[4].metadata).toEqual({ ordered: true });
+      expect(elements[5].metadata.table).toEqual({ headers: ['Name', 'Price'], rows: [['Apple', '5']] });
+      expect(elements[6].metadata).toEqual({ src: 'img/diagram.png', alt: 'Diagram' });
+      expect(elements[7].metadata).toEqual({ language: 'ts' });
+    });
+
+    it('should link elements to their enclosing heading', () => {
+      const elements = ElementPartitioner.partition([new Document({ pageContent: MARKDOWN })]);
+      const [guide, intro, install, ...rest] = elements;
+
+      expect(guide.parentId).toBeUndefined();
+      expect(guide.level).toBe(1);
+      expect(intro.parentId).toBe(guide.id);
+      expect(install.parentId).toBe(guide.id);
+      expect(install.level).toBe(2);
+      expect(rest.every(element => element.parentId === install.id)).toBe(true);
+    });
+
+    it('should carry the heading hierarchy across pages of the same source only', () => {
+      const elements = ElementPartitioner.partition([
+        new Document({ pageContent: '# Chapter\n\nPage one', metadata: { source: 'a.pdf', pageNumber: 1 } }),
+        new Document({ pageContent: 'Page two', metadata: { source: 'a.pdf', pageNumber: 2 } }),
+        new Document({ pageContent: 'Other file', metadata: { source: 'b.pdf', pageNumber: 1 } }),
+      ]);
+
+      expect(elements[2].parentId).toBe(elements[0].id);
+      expect(elements[2].location.pageNumber).toBe(2);
+      expect(elements[3].parentId).toBeUndefined();
+    });
+
+    it('should keep documents that already declare elementType as a single element', () => {
+      const table = { headers: ['a'], rows: [['1']] };
+      const elements = ElementPartitioner.partition([
+        new Document({ pageContent: 'Overview', metadata: { elementType: 'title', level: 2 } }),
+        new Document({ pageContent: '# not a heading\n\n- not a list', metadata: { elementType: 'narrative_text' } }),
+        new Document({ pageContent: '| a |\n| --- |\n| 1 |', metadata: { elementType: 'table', table, sheet: 'S1' } }),
+      ]);
+
+      expect(elements.map(element => element.type)).toEqual([
+        ElementType.TITLE,
+        ElementType.NARRATIVE_TEXT,
+        ElementType.TABLE,
+      ]);
+      expect(elements[0].level).toBe(2);
+      expect(elements[1].text).toBe('# not a heading\n\n- not a list');
+      expect(elements[1].parentId).toBe(elements[0].id);
+      expect(elements[2].metadata).toEqual({ table });
+      expect(elements[2].location.sheet).toBe('S1');
+    });
+
+    it('should treat code, csv and json documents as single elements', () => {
+      const elements = ElementPartitioner.partition([
+        new Document({ pageContent: 'def f():\n    pass', metadata: { format: 'code', language: 'python' } }),
+        new Document({ pageContent: 'a,b\n1,2', metadata: { format: 'csv' } }),
+        new Document({ pageContent: '{"a": 1}', metadata: { format: 'json' } }),
+      ]);
+
+      expect(elements.map(element => element.type)).toEqual([
+        ElementType.CODE,
+        ElementType.NARRATIVE_TEXT,
+        ElementType.NARRATIVE_TEXT,
+      ]);
+      expect(elements[0].metadata).toEqual({ language: 'python' });
+    });
+  });
+
+  describe('toDocuments', () => {
+    it('should expose element type, hierarchy and location in metadata', () => {
+      const elements = ElementPartitioner.partition([
+        new Document({ pageContent: '## Setup\n\nRun it', metadata: { source: 'a.md' } }),
+      ]);
+
+      const [title, text] = ElementPartitioner.toDocuments(elements);
+
+      expect(title.metadata).toMatchObject({ elementType: 'title', level: 2, source: 'a.md', startLine: 1 });
+      expect(text.id).toBe(elements[1].id);
+      expect(text.metadata).toMatchObject({
+        elementType: 'narrative_text',
+        elementId: elements[1].id,
+        parentId: elements[0].id,
+        startLine: 3,
+      });
+    });
+  });
+});
@@ -0,0 +1,330 @@
+import { randomUUID } from 'crypto';
+import { Document } from '../../models/document.model';
+import { DocumentElement, ElementLocation, ElementType } from '../../models/document-element.model';
+import { TableData } from '../../models/table.model';
+
+/**
+ * Markdown 块（分区过程中的中间结果）
+ */
+interface Block {
+  type: ElementType;
+  text: string;
+  startLine: number;
+  endLine: number;
+  level?: number;
+  metadata: Record<string, any>;
+}
+
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+•]|\d+[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const IMAGE_PATTERN = /^\s*!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"']*["'])?\s*\)\s*$/;
+
+/**
+ * 文档元素分区器
+ *
+ * 将加载器输出的 Document 切分为带类型的 {@link DocumentElement}：
+ * - Markdown / 纯文本内容按块识别标题、段落、列表项、表格、图片和代码块
+ * - 已带 metadata.elementType 的 Document（如 extractTables 输出的表格、
+ *   HTMLLoader 按元素分割的结果、XLSXLoader 的 CSV 输出）整体作为一个对应类型的元素，
+ *   标题层级取自 metadata.level
+ * - CSV / JSON 等结构化数据整体作为一个正文元素
+ *
+ * 同一来源（metadata.source）的连续 Document 共享标题层级，
+ * 因此按页输出时下一页的段落仍归属于上一页的标题
+ *
+ * @example
+ * ```typescript
+ * const docs = await new DocxLoader('manual.docx').load();
+ * const elements = ElementPartitioner.partition(docs);
+ * const tables = elements.filter(el => el.type === ElementType.TABLE);
+ * ```
+ */
+export class ElementPartitioner {
+  /**
+   * 将 Document 数组切分为元素
+   *
+   * @param documents - 加载器输出的 Document
+   * @returns 按文档顺序排列的元素
+   */
+  static partition(documents: Document[]): DocumentElement[] {
+    const elements: DocumentElement[] = [];
+    let titleStack: DocumentElement[] = [];
+    let currentSource: unknown;
+
+    for (const doc of documents) {
+      if (doc.metadata?.source !== currentSource) {
+        currentSource = doc.metadata?.source;
+        titleStack = [];
+      }
+
+      for (const block of ElementPartitioner.toBlocks(doc)) {
+        // 弹出同级及更低级的标题，栈顶即为当前元素的上级标题
+        if (block.type === ElementType.TITLE) {
+          while (titleStack.length > 0 && (titleStack[titleStack.length - 1].level ?? 0) >= (block.level ?? 1)) {
+            titleStack.pop();
+          }
+        }
+
+        const element: DocumentElement = {
+          id: randomUUID(),
+          type: block.type,
+          text: block.text,
+          parentId: titleStack[titleStack.length - 1]?.id,
+          ...(block.level !== undefined && { level: block.level }),
+          location: ElementPartitioner.locate(doc, block),
+          metadata: block.metadata,
+        };
+        elements.push(element);
+
+        if (element.type === ElementType.TITLE) {
+          titleStack.push(element);
+        }
+      }
+    }
+
+    return elements;
+  }
+
+  /**
+   * 将元素转换回 Document（每个元素一个），便于接入处理器和向量存储
+   *
+   * metadata 包含 elementType、elementId、parentId、位置信息和元素专属元数据
+   */
+  static toDocuments(elements: DocumentElement[]): Document[] {
+    return elements.map(
+      element =>
+        new Document({
+          id: element.id,
+          pageContent: element.text,
+          metadata: {
+            ...element.location,
+            ...element.metadata,
+            elementType: element.type,
+            elementId: element.id,
+            ...(element.parentId && { parentId: element.parentId }),
+            ...(element.level !== undefined && { level: element.level }),
+          },
+        })
+    );
+  }
+
+  /**
+   * 按 Document 的格式选择分块方式
+   */
+  private static toBlocks(doc: Document): Block[] {
+    const text = doc.pageContent;
+    const lineCount = text.split('\n').length;
+    const elementType = doc.metadata?.elementType as ElementType | undefined;
+
+    if (elementType && Object.values(ElementType).includes(elementType)) {
+      if (!text.trim()) {
+        return [];
+      }
+      return [{
+        type: elementType,
+        text: text.trim(),
+        startLine: 1,
+        endLine: lineCount,
+        ...(elementType === ElementType.TITLE && { level: ElementPartitioner.headingLevel(doc.metadata.level) }),
+        metadata: elementType === ElementType.TABLE && doc.metadata.table ? { table: doc.metadata.table } : {},
+      }];
+    }
+
+    if (doc.metadata?.format === 'code') {
+      return text.trim()
+        ? [{
+          type: ElementType.CODE,
+          text: text.trim(),
+          startLine: 1,
+          endLine: lineCount,
+          metadata: doc.metadata.language ? { language: doc.metadata.language } : {},
+        }]
+        : [];
+    }
+
+    if (doc.metadata?.format === 'csv' || doc.metadata?.format === 'json') {
+      return text.trim()
+        ? [{ type: ElementType.NARRATIVE_TEXT, text: text.trim(), startLine: 1, endLine: lineCount, metadata: {} }]
+        : [];
+    }
+
+    return ElementPartitioner.parseMarkdown(text);
+  }
+
+  /**
+   * 按行解析 Markdown / 纯文本块
+   */
+  private static parseMarkdown(text: string): Block[] {
+    const lines = text.split('\n');
+    const blocks: Block[] = [];
+    let paragraph: { lines: string[]; start: number } | null = null;
+    let listItem: { lines: string[]; start: number; ordered: boolean } | null = null;
+
+    const flush = (endIndex: number) => {
+      if (paragraph) {
+        blocks.push({
+          type: ElementType.NARRATIVE_TEXT,
+          text: paragraph.lines.join('\n').trim(),
+          startLine: paragraph.start + 1,
+          endLine: endIndex,
+          metadata: {},
+        });
+        paragraph = null;
+      }
+      if (listItem) {
+        blocks.push({
+          type: ElementType.LIST_ITEM,
+          text: listItem.lines.join('\n').trim(),
+          startLine: listItem.start + 1,
+          endLine: endIndex,
+          metadata: { ordered: listItem.ordered },
+        });
+        listItem = null;
+      }
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+      const line = lines[i];
+
+      if (!line.trim()) {
+        flush(i);
+        i++;
+        continue;
+      }
+
+      // 围栏代码块
+      const fence = FENCE_PATTERN.exec(line);
+      if (fence) {
+        flush(i);
+        const marker = fence[1];
+        let end = i + 1;
+        while (end < lines.length && !lines[end].trim().startsWith(marker)) {
+          end++;
+        }
+        blocks.push({
+          type: ElementType.CODE,
+          text: lines.slice(i + 1, end).join('\n'),
+          startLine: i + 1,
+          endLine: Math.min(end, lines.length - 1) + 1,
+          metadata: fence[2] ? { language: fence[2] } : {},
+        });
+        i = end + 1;
+        continue;
+      }
+
+      const heading = HEADING_PATTERN.exec(line);
+      if (heading) {
+        flush(i);
+        blocks.push({
+          type: ElementType.TITLE,
+          text: heading[2],
+          startLine: i + 1,
+          endLine: i + 1,
+          level: heading[1].length,
+          metadata: {},
+        });
+        i++;
+        continue;
+      }
+
+      // GFM 表格：表头行 + 分隔行
+      if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_PATTERN.test(lines[i + 1])) {
+        flush(i);
+        let end = i + 2;
+        while (end < lines.length && lines[end].includes('|') && lines[end].trim()) {
+          end++;
+        }
+        const tableLines = lines.slice(i, end);
+        blocks.push({
+          type: ElementType.TABLE,
+          text: tableLines.join('\n').trim(),
+          startLine: i + 1,
+          endLine: end,
+          metadata: { table: ElementPartitioner.parseMarkdownTable(tableLines) },
+        });
+        i = end;
+        continue;
+      }
+
+      const image = IMAGE_PATTERN.exec(line);
+      if (image) {
+        flush(i);
+        blocks.push({
+          type: ElementType.IMAGE,
+          text: image[1],
+          startLine: i + 1,
+          endLine: i + 1,
+          metadata: { src: image[2], alt: image[1] },
+        });
+        i++;
+        continue;
+      }
+
+      const item = LIST_ITEM_PATTERN.exec(line);
+      if (item) {
+        flush(i);
+        listItem = { lines: [item[3]], start: i, ordered: /\d/.test(item[2]) };
+        i++;
+        continue;
+      }
+
+      // 列表项的续行或段落行
+      if (listItem) {
+        listItem.lines.push(line.trim());
+      } else {
+        paragraph ??= { lines: [], start: i };
+        paragraph.lines.push(line);
+      }
+      i++;
+    }
+
+    flush(lines.length);
+    return blocks.filter(block => block.text.trim() || block.type === ElementType.CODE);
+  }
+
+  /**
+   * 解析 GFM 表格行为 TableData（第二行为分隔行）
+   */
+  private static parseMarkdownTable(lines: string[]): TableData {
+    const splitRow = (line: string) =>
+      line
+        .trim()
+        .replace(/^\|/, '')
+        .replace(/(?<!\\)\|$/, '')
+        .split(/(?<!\\)\|/)
+        .map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+    const headers = splitRow(lines[0]);
+    const rows = lines.slice(2).map(line => {
+      const cells = splitRow(line);
+      return headers.map((_, i) => cells[i] ?? '');
+    });
+
+    return { headers, rows };
+  }
+
+  /**
+   * 取 metadata.level 作为标题层级，缺失或越界时视为一级标题
+   */
+  private static headingLevel(level: unknown): number {
+    return typeof level === 'number' && level >= 1 && level <= 6 ? level : 1;
+  }
+
+  /**
+   * 组装元素位置
+   */
+  private static locate(doc: Document, block: Block): ElementLocation {
+    const { source, pageNumber, sheet } = doc.metadata ?? {};
+    return {
+      ...(typeof source === 'string' && { source }),
+      documentId: doc.id,
+      ...(typeof pageNumber === 'number' && { pageNumber }),
+      ...(typeof sheet === 'string' && { sheet }),
+      startLine: block.startLine,
+      endLine: block.endLine,
+    };
+  }
+}
@@ -0,0 +1,191 @@
+import { EmailLoader, MboxLoader } from './email.loader';
+import { LoaderRegistry } from './registry/loader-registry';
+import { Document } from '../models/document.model';
+
+interface EmailFixture {
+  messageId?: string;
+  subject?: string;
+  text?: string;
+  html?: string;
+  attachments?: Array<{ filename: string; contentType: string; content: string }>;
+}
+
+// Helper function to build an RFC 822 message (multipart when it has several parts)
+function createEmail({ messageId, subject = 'Hello', text, html, attachments = [] }: EmailFixture): string {
+  const headers = [
+    'From: Alice <alice@example.com>',
+    'To: Bob <bob@example.com>',
+    `Subject: ${subject}`,
+    'Date: Tue, 02 Jan 2024 10:00:00 +0000',
+    ...(messageId ? [`Message-ID: ${messageId}`] : []),
+    'MIME-Version: 1.0',
+  ];
+  const parts = [
+    ...(text !== undefined ? [{ type: 'text/plain; charset=utf-8', body: text }] : []),
+    ...(html !== undefined ? [{ type: 'text/html; charset=utf-8', body: html }] : []),
+    ...attachments.map(attachment => ({
+      type: attachment.contentType,
+      disposition: `attachment; filename="${attachment.filename}"`,
+      body: Buffer.from(attachment.content).toString('base64'),
+    })),
+  ];
+
+  const boundary = `b-${subject.replace(/\W/g, '')}-${parts.length}`;
+  const body = parts.flatMap(part => [
+    `--${boundary}`,
+    `Content-Type: ${part.type}`,
+    ...('disposition' in part ? [`Content-Disposition: ${part.disposition}`, 'Content-Transfer-Encoding: base64'] : []),
+    '',
+    part.body,
+  ]);
+  const multipart = attachments.length > 0 ? 'mixed' : 'alternative';
+  return [...headers, `Content-Type: multipart/${multipart}; boundary="${boundary}"`, '', ...body, `--${boundary}--`, ''].join(
+    '\r\n'
+  );
+}
+
+function parse(loader: EmailLoader, raw: string): Promise<Document[]> {
+  return loader.parse(Buffer.from(raw), { source: 'mail.eml' });
+}
+
+describe('EmailLoader', () => {
+  it('should prefix the body with headers and record header metadata', async () => {
+    const [doc] = await parse(new EmailLoader('mail.eml'), createEmail({ messageId: '<1@example.com>', text: 'Hi Bob' }));
+
+    expect(doc.pageContent).toBe(
+      'Subject: Hello\nFrom: "Alice" <alice@example.com>\nTo: "Bob" <bob@example.com>\nDate: 2024-01-02T10:00:00.000Z\n\nHi Bob'
+    );
+    expect(doc.metadata).toMatchObject({
+      source: 'mail.eml',
+      subject: 'Hello',
+      messageId: '<1@example.com>',
+      threadId: '<1@example.com>',
+      format: 'text',
+      originalFormat: 'eml',
+    });
+  });
+
+  describe('Body', () => {
+    const raw = createEmail({ text: 'plain body', html: '<p><strong>html</strong> body</p>' });
+
+    it('should prefer text/plain over HTML by default', async () => {
+      const [doc] = await parse(new EmailLoader('mail.eml'), raw);
+
+      expect(doc.pageContent.endsWith('plain body')).toBe(true);
+      expect(doc.metadata.format).toBe('text');
+    });
+
+    it('should convert HTML to markdown when preferHtml is enabled', async () => {
+      const [doc] = await parse(new EmailLoader('mail.eml', { preferHtml: true }), raw);
+
+      expect(doc.pageContent.endsWith('**html** body')).toBe(true);
+      expect(doc.metadata.format).toBe('markdown');
+    });
+
+    it('should fall back to HTML when there is no text/plain part', async () => {
+      const [doc] = await parse(new EmailLoader('mail.eml'), createEmail({ html: '<p>only <em>html</em></p>' }));
+
+      expect(doc.pageContent.endsWith('only *html*')).toBe(true);
+      expect(doc.metadata.format).toBe('markdown');
+    });
+  });
+
+  describe('Document id', () => {
+    it('should derive the id from Message-ID', async () => {
+      const [first] = await parse(new EmailLoader('a.eml'), createEmail({ messageId: '<1@example.com>', text: 'one' }));
+      const [second] = await parse(new EmailLoader('b.eml'), createEmail({ messageId: '<1@example.com>', text: 'two' }));
+      const [other] = await parse(new EmailLoader('c.eml'), createEmail({ messageId: '<2@example.com>', text: 'one' }));
+
+      expect(first.id).toMatch(/^email-[0-9a-f]{32}$/);
+      expect(second.id).toBe(first.id);
+      expect(other.id).not.toBe(first.id);
+    });
+
+    it('should hash the raw message without Message-ID', async () => {
+      const raw = createEmail({ text: 'no id' });
+
+      const [first] = await parse(new EmailLoader('mail.eml'), raw);
+      const [second] = await parse(new EmailLoader('mail.eml'), raw);
+      const [other] = await parse(new EmailLoader('mail.eml'), createEmail({ text: 'other' }));
+
+      expect(second.id).toBe(first.id);
+      expect(other.id).not.toBe(first.id);
+    });
+  });
+
+  describe('Attachments', () => {
+    const raw = createEmail({
+      messageId: '<1@example.com>',
+      text: 'see attached',
+      attachments: [
+        { filename: 'notes.txt', contentType: 'text/plain', content: 'attached notes' },
+        { filename: 'data.bin', contentType: 'application/octet-stream', content: 'binary' },
+      ],
+    });
+
+    it('should link processed attachments to the email with parentId', async () => {
+      const processAttachment = jest.fn(async (buffer: Buffer, filename: string) => {
+        if (filename === 'data.bin') {
+          throw new Error('unsupported');
+        }
+        return [new Document({ pageContent: buffer.toString(), metadata: { source: filename } })];
+      });
+
+      const [email, ...children] = await parse(new EmailLoader('mail.eml', { processAttachment }), raw);
+
+      expect(processAttachment).toHaveBeenCalledWith(expect.any(Buffer), 'notes.txt', 1);
+      expect(children.map(doc => [doc.pageContent, doc.metadata.parentId, doc.metadata.attachmentFilename])).toEqual([
+        ['attached notes', email.id, 'notes.txt'],
+      ]);
+      expect(children[0].metadata).toMatchObject({ attachmentIndex: 0, parentMessageId: '<1@example.com>' });
+      expect(email.metadata.attachments).toEqual([
+        { filename: 'notes.txt', contentType: 'text/plain', size: 14, processed: true },
+        { filename: 'data.bin', contentType: 'application/octet-stream', size: 6, processed: false },
+      ]);
+    });
+
+    it('should only record attachments without processAttachment', async () => {
+      const docs = await parse(new EmailLoader('mail.eml'), raw);
+
+      expect(docs).toHaveLength(1);
+      expect(docs[0].metadata.attachments.map((info: { processed: boolean }) => info.processed)).toEqual([false, false]);
+    });
+
+    it('should stop recursing into attached emails beyond maxDepth', async () => {
+      let nested = createEmail({ subject: 'Level 3', text: 'innermost' });
+      for (const level of [2, 1, 0]) {
+        nested = createEmail({
+          subject: `Level ${level}`,
+          text: `level ${level}`,
+          attachments: [{ filename: `level-${level + 1}.eml`, contentType: 'message/rfc822', content: nested }],
+        });
+      }
+
+      const docs = await LoaderRegistry.createDefault().loadBuffer(Buffer.from(nested), 'level-0.eml');
+
+      expect(docs.map(doc => doc.metadata.subject)).toEqual(['Level 0', 'Level 1', 'Level 2']);
+      expect(docs[2].metadata.attachments[0]).toMatchObject({ filename: 'level-3.eml', processed: false });
+    });
+  });
+});
+
+describe('MboxLoader', () => {
+  it('should split messages on From lines and unescape >From', async () => {
+    const mbox = [
+      'From alice@example.com Tue Jan  2 10:00:00 2024',
+      createEmail({ messageId: '<1@example.com>', subject: 'First', text: 'line one\n>From the start' }).replace(/\r\n/g, '\n'),
+      'From bob@example.com Tue Jan  2 11:00:00 2024',
+      createEmail({ messageId: '<2@example.com>', subject: 'Second', text: 'second body' }).replace(/\r\n/g, '\n'),
+    ].join('\n');
+
+    const docs = await new MboxLoader('box.mbox').parse(Buffer.from(mbox), { source: 'box.mbox' });
+
+    expect(docs.map(doc => [doc.metadata.subject, doc.metadata.messageIndex, doc.metadata.totalMessages])).toEqual([
+      ['First', 0, 2],
+      ['Second', 1, 2],
+    ]);
+    expect(docs[0].pageContent.endsWith('line one\nFrom the start')).toBe(true);
+    expect(docs[0].metadata.originalFormat).toBe('mbox');
+    expect(docs[0].id).not.toBe(docs[1].id);
+  });
+});
@@ -0,0 +1,422 @@
+import { Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import type { AddressObject, Attachment, ParsedMail } from 'mailparser';
+import { Document } from '../models/document.model';
+import { BufferLoader } from './base/buffer.loader';
+import { LoaderOptions } from './base/base-loader';
+import { HTMLLoader } from './html.loader';
+import type { AttachmentProcessor } from './registry/loader-registry';
+
+/**
+ * Email 加载器配置选项
+ */
+export interface EmailLoaderOptions extends LoaderOptions {
+  /**
+   * 附件处理函数
+   *
+   * 每个附件的解析结果作为子 Document 返回，并通过 metadata.parentId 关联到邮件本身。
+   * 未提供时只在 metadata.attachments 中记录附件信息，不解析附件内容。
+   */
+  processAttachment?: AttachmentProcessor;
+
+  /**
+   * 是否处理附件（需要同时提供 processAttachment）
+   * @default true
+   */
+  includeAttachments?: boolean;
+
+  /**
+   * 当前邮件的嵌套深度（邮件本身是附件时由 processAttachment 的调用链传入）
+   * @default 0
+   */
+  depth?: number;
+
+  /**
+   * 附件的最大嵌套深度，超出时附件只记录在 metadata.attachments 中，不再解析
+   * （防止 .eml 附件中的邮件无限递归）
+   * @default 2
+   */
+  maxDepth?: number;
+
+  /**
+   * 是否优先使用 HTML 正文（转换为 Markdown）
+   * - false: 优先 text/plain，缺失时转换 HTML
+   * - true: 优先转换 HTML，缺失时使用 text/plain
+   * @default false
+   */
+  preferHtml?: boolean;
+}
+
+/**
+ * 附件摘要（写入邮件 Document 的 metadata.attachments）
+ */
+export interface EmailAttachmentInfo {
+  filename: string;
+  contentType: string;
+  size: number;
+  /** 是否已成功解析为子 Document */
+  processed: boolean;
+}
+
+/**
+ * Email 加载器 - 处理 RFC 822 邮件（.eml）
+ *
+ * 每封邮件返回一个 Document，正文之前附带主题 / 发件人 / 收件人 / 日期信息：
+ * - 正文：优先 text/plain，缺失时使用 HTMLLoader 的 Turndown 配置转换 HTML 部分
+ * - 元数据：from、to、cc、subject、date、messageId、inReplyTo、references、threadId
+ * - ID：由 Message-ID（缺失时为邮件原文）哈希得到，重复加载同一封邮件时不变
+ * - 附件：交给 processAttachment 递归处理（如 PDF 附件 → 多个子 Document），
+ *   子 Document 的 metadata.parentId 指向邮件 Document 的 id
+ *
+ * 单个附件处理失败（如格式不受支持）只记录警告，不影响邮件本身；
+ * 嵌套超过 maxDepth 的附件（如邮件附件中的邮件）不再解析
+ *
+ * 依赖: npm install mailparser
+ *
+ * @example
+ * ```typescript
+ * const loader = new EmailLoader('ticket.eml', {
+ *   processAttachment: (buffer, filename) => documentService.processBuffer(buffer, filename),
+ * });
+ * const docs = await loader.load();
+ * // 返回: [Document(邮件), Document(附件 page1, parentId=邮件.id), ...]
+ * ```
+ */
+export class EmailLoader extends BufferLoader {
+  protected static readonly logger = new Logger(EmailLoader.name);
+
+  /** 不由 mailparser 将 HTML 转为纯文本，没有 text/plain 部分时由 extractBody 转换为 Markdown */
+  protected static readonly PARSER_OPTIONS = { skipHtmlToText: true };
+
+  protected readonly originalFormat: string = 'eml';
+  private processAttachment?: AttachmentProcessor;
+  private includeAttachments: boolean;
+  private preferHtml: boolean;
+  private depth: number;
+  private maxDepth: number;
+
+  constructor(
+    filePathOrBlob: string | Blob,
+    options: EmailLoaderOptions = {}
+  ) {
+    super(filePathOrBlob, options);
+    this.processAttachment = options.processAttachment;
+    this.includeAttachments = options.includeAttachments ?? true;
+    this.preferHtml = options.preferHtml ?? false;
+    this.depth = options.depth ?? 0;
+    this.maxDepth = options.maxDepth ?? 2;
+  }
+
+  /**
+   * 解析邮件 buffer 并返回文档数组
+   *
+   * @param raw - 邮件原文
+   * @param metadata - 文档元数据
+   * @returns 邮件 Document + 附件子 Document
+   */
+  public async parse(
+    raw: Buffer,
+    metadata: Document['metadata']
+  ): Promise<Document[]> {
+    const { simpleParser } = await EmailLoader.importsMailparser();
+    const mail = await simpleParser(raw, EmailLoader.PARSER_OPTIONS);
+    return this.parseMail(mail, raw, metadata);
+  }
+
+  /**
+   * 将解析后的邮件转换为 Document（邮件本身 + 附件）
+   *
+   * @param raw - 邮件原文（没有 Message-ID 时用于生成稳定的文档 ID）
+   */
+  protected async parseMail(
+    mail: ParsedMail,
+    raw: Buffer,
+    metadata: Document['metadata']
+  ): Promise<Document[]> {
+    const headers = EmailLoader.extractHeaders(mail);
+    const body = await this.extractBody(mail);
+
+    const headerLines = [
+      headers.subject && `Subject: ${headers.subject}`,
+      headers.from && `From: ${headers.from}`,
+      headers.to && `To: ${headers.to}`,
+      headers.cc && `Cc: ${headers.cc}`,
+      headers.date && `Date: ${headers.date}`,
+    ].filter(Boolean);
+
+    const emailId = EmailLoader.createEmailId(headers.messageId, raw);
+    const attachments = mail.attachments.filter(attachment => !attachment.related);
+    const attachmentInfos: EmailAttachmentInfo[] = [];
+    const childDocs: Document[] = [];
+
+    for (let i = 0; i < attachments.length; i++) {
+      const attachment = attachments[i];
+      const filename = attachment.filename || `attachment-${i + 1}`;
+      const info: EmailAttachmentInfo = {
+        filename,
+        contentType: attachment.contentType,
+        size: attachment.size,
+        processed: false,
+      };
+      attachmentInfos.push(info);
+
+      const docs = await this.loadAttachment(attachment, filename);
+      if (!docs) {
+        continue;
+      }
+
+      info.processed = true;
+      childDocs.push(
+        ...docs.map(
+          doc =>
+            new Document({
+              id: doc.id,
+              pageContent: doc.pageContent,
+              metadata: {
+                ...doc.metadata,
+                parentId: emailId,
+                attachmentFilename: filename,
+                attachmentIndex: i,
+                ...(headers.messageId && { parentMessageId: headers.messageId }),
+                ...(headers.threadId && { threadId: headers.threadId }),
+              },
+            })
+        )
+      );
+    }
+
+    const emailDoc = new Document({
+      id: emailId,
+      pageContent: [headerLines.join('\n'), body.text].filter(Boolean).join('\n\n'),
+      metadata: {
+        ...metadata,
+        ...headers,
+        ...(attachmentInfos.length > 0 && { attachments: attachmentInfos }),
+        format: body.format,
+        originalFormat: this.originalFormat,
+        extractedBy: 'mailparser',
+      },
+    });
+
+    return [emailDoc, ...childDocs];
+  }
+
+  /**
+   * 处理单个附件，失败时返回 undefined
+   */
+  private async loadAttachment(
+    attachment: Attachment,
+    filename: string
+  ): Promise<Document[] | undefined> {
+    if (!this.includeAttachments || !this.processAttachment) {
+      return undefined;
+    }
+
+    if (this.depth + 1 > this.maxDepth) {
+      EmailLoader.logger.warn(`Skipping email attachment beyond max depth: ${filename}`, {
+        maxDepth: this.maxDepth,
+      });
+      return undefined;
+    }
+
+    try {
+      return await this.processAttachment(attachment.content, filename, this.depth + 1);
+    } catch (error) {
+      EmailLoader.logger.warn(`Failed to process email attachment: ${filename}`, {
+        contentType: attachment.contentType,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * 提取邮件正文
+   */
+  private async extractBody(mail: ParsedMail): Promise<{ text: string; format: 'text' | 'markdown' }> {
+    // 只去掉首尾空行，保留正文首行缩进
+    const plain = mail.text?.replace(/^(?:[ \t]*\r?\n)+/, '').trimEnd();
+    const html = mail.html || undefined;
+
+    if (html && (this.preferHtml || !plain)) {
+      try {
+        const markdown = (await HTMLLoader.convertToMarkdown(html)).trim();
+        if (markdown) {
+          return { text: markdown, format: 'markdown' };
+        }
+      } catch (error) {
+        EmailLoader.logger.warn('Markdown conversion failed for email HTML body', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return { text: plain ?? '', format: 'text' };
+  }
+
+  /**
+   * 提取邮件头元数据
+   *
+   * threadId 取 References 的第一项（会话根邮件），其次 In-Reply-To，最后为自身 Message-ID
+   */
+  private static extractHeaders(mail: ParsedMail): Record<string, any> {
+    const references = EmailLoader.toArray(mail.references);
+    const threadId = references[0] ?? mail.inReplyTo ?? mail.messageId;
+
+    const headers: Record<string, any> = {
+      subject: mail.subject,
+      from: EmailLoader.formatAddresses(mail.from),
+      to: EmailLoader.formatAddresses(mail.to),
+      cc: EmailLoader.formatAddresses(mail.cc),
+      date: mail.date?.toISOString(),
+      messageId: mail.messageId,
+      inReplyTo: mail.inReplyTo,
+      references: references.length > 0 ? references : undefined,
+      threadId,
+    };
+
+    return Object.fromEntries(Object.entries(headers).filter(([, value]) => value !== undefined && value !== ''));
+  }
+
+  /**
+   * 生成稳定的邮件文档 ID：优先使用 Message-ID，缺失时使用原文哈希（重复加载时 ID 不变，便于缓存和去重）
+   */
+  private static createEmailId(messageId: string | undefined, raw: Buffer): string {
+    const hash = createHash('sha256');
+    if (messageId) {
+      hash.update(`message-id:${messageId}`);
+    } else {
+      hash.update(raw);
+    }
+    return `email-${hash.digest('hex').slice(0, 32)}`;
+  }
+
+  /**
+   * 将地址对象格式化为 "Name <addr>, ..." 形式
+   */
+  private static formatAddresses(value?: AddressObject | AddressObject[]): string | undefined {
+    const text = EmailLoader.toArray(value)
+      .map(address => address.text)
+      .filter(Boolean)
+      .join(', ');
+    return text || undefined;
+  }
+
+  private static toArray<T>(value?: T | T[]): T[] {
+    if (value === undefined) {
+      return [];
+    }
+    return Array.isArray(value) ? value : [value];
+  }
+
+  /**
+   * 动态导入 mailparser 库
+   */
+  protected static async importsMailparser() {
+    try {
+      const { simpleParser } = await import('mailparser');
+      return { simpleParser };
+    } catch (e) {
+      EmailLoader.logger.error('Failed to load mailparser', { error: e instanceof Error ? e.message : String(e) });
+      throw new Error(
+        'Failed to load mailparser. Please install it with: npm install mailparser'
+      );
+    }
+  }
+}
+
+/**
+ * MBOX 加载器 - 处理 mbox 邮箱归档（.mbox）
+ *
+ * 按 "From " 分隔行拆分邮件（并还原 ">From " 转义），每封邮件按 EmailLoader 的规则解析，
+ * 额外附带 messageIndex / totalMessages 元数据
+ *
+ * @example
+ * ```typescript
+ * const loader = new MboxLoader('support.mbox', {
+ *   processAttachment: (buffer, filename) => documentService.processBuffer(buffer, filename),
+ * });
+ * const docs = await loader.load();
+ * ```
+ */
+export class MboxLoader extends EmailLoader {
+  protected static readonly logger = new Logger(MboxLoader.name);
+  protected readonly originalFormat: string = 'mbox';
+
+  /**
+   * 解析 mbox buffer 并返回文档数组
+   *
+   * @param raw - mbox 原文
+   * @param metadata - 文档元数据
+   * @returns 所有邮件及其附件的 Document
+   */
+  public async parse(
+    raw: Buffer,
+    metadata: Document['metadata']
+  ): Promise<Document[]> {
+    const { simpleParser } = await EmailLoader.importsMailparser();
+    const messages = MboxLoader.splitMessages(raw);
+    const documents: Document[] = [];
+
+    for (let i = 0; i < messages.length; i++) {
+      try {
+        const mail = await simpleParser(messages[i], EmailLoader.PARSER_OPTIONS);
+        const docs = await this.parseMail(mail, messages[i], {
+          ...metadata,
+          messageIndex: i,
+          totalMessages: messages.length,
+        });
+        documents.push(...docs);
+      } catch (error) {
+        MboxLoader.logger.warn(`Failed to parse message ${i} in mbox`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return documents;
+  }
+
+  /**
+   * 按 mbox "From " 分隔行拆分邮件
+   *
+   * 分隔行必须位于文件开头或空行之后；正文中被转义的 ">From "（及多级 ">>From "）还原一级
+   */
+  private static splitMessages(raw: Buffer): Buffer[] {
+    const lines = raw.toString('latin1').split(/\r?\n/);
+    const messages: string[][] = [];
+    let current: string[] | undefined;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const isSeparator = line.startsWith('From ') && (i === 0 || lines[i - 1] === '');
+
+      if (isSeparator) {
+        // 分隔行之前的空行属于 mbox 格式，不属于上一封邮件
+        if (current && current[current.length - 1] === '') {
+          current.pop();
+        }
+        current = [];
+        messages.push(current);
+        continue;
+      }
+
+      // 文件不以分隔行开头时，将开头内容视为第一封邮件
+      if (!current) {
+        current = [];
+        messages.push(current);
+      }
+      current.push(/^>+From /.test(line) ? line.slice(1) : line);
+    }
+
+    // 文件末尾的换行
+    if (current && current[current.length - 1] === '') {
+      current.pop();
+    }
+
+    // latin1 往返保证原始字节不变（字符集由 mailparser 按邮件头解码）
+    return messages
+      .filter(message => message.some(line => line.trim()))
+      .map(message => Buffer.from(message.join('\n'), 'latin1'));
+  }
+}
@@ -0,0 +1,134 @@
+import JSZip = require('jszip');
+import { EPUBLoader } from './epub.loader';
+
+interface ChapterFixture {
+  id: string;
+  html: string;
+  linear?: boolean;
+}
+
+interface EpubFixture {
+  chapters: ChapterFixture[];
+  /** nav 目录（EPUB 3），条目为 [href, 标题] */
+  nav?: Array<[string, string]>;
+  /** NCX 目录（EPUB 2），条目为 [src, 标题] */
+  ncx?: Array<[string, string]>;
+}
+
+// Helper function to build an EPUB with the package document under OEBPS/
+async function createEpub({ chapters, nav, ncx }: EpubFixture): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file(
+    'META-INF/container.xml',
+    '<container><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>'
+  );
+
+  const manifest = [
+    ...chapters.map(({ id }) => `<item id="${id}" href="text/${id}.xhtml" media-type="application/xhtml+xml"/>`),
+    ...(nav ? ['<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>'] : []),
+    ...(ncx ? ['<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>'] : []),
+  ];
+  const spine = chapters.map(({ id, linear }) => `<itemref idref="${id}"${linear === false ? ' linear="no"' : ''}/>`);
+
+  zip.file(
+    'OEBPS/content.opf',
+    `<package xmlns="http://www.idpf.org/2007/opf" xmlns:opf="http://www.idpf.org/2007/opf">
+      <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+        <dc:title>User Manual</dc:title>
+        <dc:creator>Alice</dc:creator>
+        <dc:creator>Bob</dc:creator>
+        <dc:language>en</dc:language>
+        <dc:identifier>urn:isbn:9780000000001</dc:identifier>
+      </metadata>
+      <manifest>${manifest.join('')}</manifest>
+      <spine${ncx ? ' toc="ncx"' : ''}>${spine.join('')}</spine>
+    </package>`
+  );
+
+  for (const { id, html } of chapters) {
+    zip.file(`OEBPS/text/${id}.xhtml`, `<html><head><title>${id}</title></head><body>${html}</body></html>`);
+  }
+  if (nav) {
+    zip.file(
+      'OEBPS/nav.xhtml',
+      `<html><body><nav epub:type="toc"><ol>${nav
+        .map(([href, title]) => `<li><a href="${href}">${title}</a></li>`)
+        .join('')}</ol></nav></body></html>`
+    );
+  }
+  if (ncx) {
+    zip.file(
+      'OEBPS/toc.ncx',
+      `<ncx><navMap>${ncx
+        .map(([src, title]) => `<navPoint><navLabel><text>${title}</text></navLabel><content src="${src}"/></navPoint>`)
+        .join('')}</navMap></ncx>`
+    );
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+const CHAPTERS: ChapterFixture[] = [
+  { id: 'cover', html: '<p>Cover image</p>', linear: false },
+  { id: 'ch1', html: '<h1>Installing</h1><p>Run the <em>installer</em>.</p>' },
+  { id: 'ch2', html: '<h2>Usage</h2><ul><li>Open</li><li>Close</li></ul>' },
+  { id: 'blank', html: '' },
+];
+
+describe('EPUBLoader', () => {
+  it('should emit one markdown document per linear spine chapter with book metadata', async () => {
+    const raw = await createEpub({ chapters: CHAPTERS });
+
+    const docs = await new EPUBLoader('manual.epub').parse(raw, { source: 'manual.epub' });
+
+    expect(docs.map(doc => doc.pageContent)).toEqual([
+      '# Installing\n\nRun the *installer*.',
+      '## Usage\n\n-   Open\n-   Close',
+    ]);
+    expect(docs[0].metadata).toEqual({
+      source: 'manual.epub',
+      title: 'User Manual',
+      author: 'Alice, Bob',
+      language: 'en',
+      isbn: '9780000000001',
+      chapterTitle: 'Installing',
+      chapterIndex: 0,
+      totalChapters: 2,
+      chapterPath: 'OEBPS/text/ch1.xhtml',
+      format: 'markdown',
+      originalFormat: 'epub',
+      convertedBy: 'turndown',
+    });
+  });
+
+  it('should include non-linear items when includeNonLinear is set', async () => {
+    const raw = await createEpub({ chapters: CHAPTERS });
+
+    const docs = await new EPUBLoader('manual.epub', { includeNonLinear: true }).parse(raw, {});
+
+    expect(docs.map(doc => doc.metadata.chapterTitle)).toEqual(['cover', 'Installing', 'Usage']);
+  });
+
+  it('should prefer chapter titles from the nav document', async () => {
+    const raw = await createEpub({
+      chapters: CHAPTERS,
+      nav: [
+        ['text/ch1.xhtml#start', '1. Installation'],
+        ['text/ch1.xhtml#later', 'Ignored duplicate'],
+        ['text/ch2.xhtml', '2. Everyday use'],
+      ],
+    });
+
+    const docs = await new EPUBLoader('manual.epub').parse(raw, {});
+
+    expect(docs.map(doc => doc.metadata.chapterTitle)).toEqual(['1. Installation', '2. Everyday use']);
+  });
+
+  it('should fall back to NCX titles for EPUB 2 books', async () => {
+    const raw = await createEpub({ chapters: CHAPTERS, ncx: [['text/ch2.xhtml', 'Chapter Two']] });
+
+    const docs = await new EPUBLoader('manual.epub').parse(raw, {});
+
+    expect(docs.map(doc => doc.metadata.chapterTitle)).toEqual(['Installing', 'Chapter Two']);
+  });
+});
@@ -0,0 +1,339 @@
+import { Logger } from '@nestjs/common';
+import * as cheerio from 'cheerio';
+import { Document } from '../models/document.model';
+import { BufferLoader } from './base/buffer.loader';
+import { LoaderOptions } from './base/base-loader';
+import { HTMLLoader } from './html.loader';
+import { resolveZipPath, zipDirname } from './utils/zip-path';
+
+/**
+ * EPUB 加载器配置选项
+ */
+export interface EPUBLoaderOptions extends LoaderOptions {
+  /**
+   * 是否包含 spine 中 linear="no" 的条目（封面、附录弹窗等辅助内容）
+   * @default false
+   */
+  includeNonLinear?: boolean;
+}
+
+/**
+ * EPUB 书籍级元数据（来自 OPF 的 Dublin Core 字段）
+ */
+export interface EPUBBookMetadata {
+  title?: string;
+  author?: string;
+  language?: string;
+  isbn?: string;
+  publisher?: string;
+}
+
+/**
+ * OPF manifest 条目
+ */
+interface ManifestItem {
+  path: string;
+  mediaType: string;
+  properties: string[];
+}
+
+/** 可作为章节内容的 manifest 媒体类型 */
+const CHAPTER_MEDIA_TYPES = new Set(['application/xhtml+xml', 'text/html']);
+
+/**
+ * EPUB 加载器 - 处理 EPUB 电子书
+ *
+ * 解析流程：
+ * 1. META-INF/container.xml → 定位 OPF 包文件
+ * 2. OPF metadata → 书名、作者、语言、ISBN
+ * 3. OPF spine → 章节阅读顺序
+ * 4. 目录（EPUB 3 nav 文档 / EPUB 2 NCX）→ 章节标题
+ * 5. 每个 XHTML 章节使用 HTMLLoader 的 Turndown 配置转换为 Markdown
+ *
+ * 每个章节返回一个 Document
+ *
+ * 依赖: npm install jszip
+ *
+ * @example
+ * ```typescript
+ * const loader = new EPUBLoader('manual.epub');
+ * const docs = await loader.load();
+ * // 返回: [Document(chapter0), Document(chapter1), ...]
+ * // metadata: { chapterTitle: '安装', chapterIndex: 0, totalChapters: 12,
+ * //             title: '用户手册', author: '...', language: 'zh', isbn: '...' }
+ * ```
+ */
+export class EPUBLoader extends BufferLoader {
+  protected static readonly logger = new Logger(EPUBLoader.name);
+  private includeNonLinear: boolean;
+
+  constructor(
+    filePathOrBlob: string | Blob,
+    options: EPUBLoaderOptions = {}
+  ) {
+    super(filePathOrBlob, options);
+    this.includeNonLinear = options.includeNonLinear ?? false;
+  }
+
+  /**
+   * 解析 EPUB buffer 并返回文档数组
+   *
+   * @param raw - EPUB buffer
+   * @param metadata - 文档元数据
+   * @returns Promise that resolves with an array of Document instances
+   */
+  public async parse(
+    raw: Buffer,
+    metadata: Document['metadata']
+  ): Promise<Document[]> {
+    const JSZip = await EPUBLoader.importsJSZip();
+    const zip = await JSZip.loadAsync(raw);
+
+    const opfPath = await EPUBLoader.findPackagePath(zip);
+    const opfXml = await zip.file(opfPath)?.async('string');
+    if (!opfXml) {
+      throw new Error(`EPUB package document not found: ${opfPath}`);
+    }
+
+    const $opf = cheerio.load(opfXml, { xml: true });
+    const opfDir = zipDirname(opfPath);
+    const book = EPUBLoader.parseBookMetadata($opf);
+    const manifest = EPUBLoader.parseManifest($opf, opfDir);
+    const tocTitles = await EPUBLoader.parseToc(zip, $opf, manifest);
+
+    const spine = $opf('spine > itemref')
+      .toArray()
+      .filter(el => this.includeNonLinear || $opf(el).attr('linear') !== 'no')
+      .map(el => manifest.get($opf(el).attr('idref') ?? ''))
+      .filter((item): item is ManifestItem => !!item && CHAPTER_MEDIA_TYPES.has(item.mediaType));
+
+    const chapters: Array<{ title?: string; path: string; content: string }> = [];
+    for (const item of spine) {
+      const xhtml = await zip.file(item.path)?.async('string');
+      if (!xhtml) {
+        EPUBLoader.logger.warn(`Spine item missing from archive: ${item.path}`);
+        continue;
+      }
+
+      const { title, content } = await this.convertChapter(xhtml);
+      if (!content) {
+        continue;
+      }
+
+      chapters.push({ title: tocTitles.get(item.path) ?? title, path: item.path, content });
+    }
+
+    EPUBLoader.logger.debug('EPUB parsed', {
+      title: book.title,
+      spineItems: spine.length,
+      chapterCount: chapters.length,
+    });
+
+    return chapters.map(
+      (chapter, index) =>
+        new Document({
+          pageContent: chapter.content,
+          metadata: {
+            ...metadata,
+            ...EPUBLoader.compact(book),
+            ...(chapter.title && { chapterTitle: chapter.title }),
+            chapterIndex: index,
+            totalChapters: chapters.length,
+            chapterPath: chapter.path,
+            format: 'markdown',
+            originalFormat: 'epub',
+            convertedBy: 'turndown',
+          },
+        })
+    );
+  }
+
+  /**
+   * 将 XHTML 章节转换为 Markdown，并提取章节内的首个标题
+   */
+  private async convertChapter(xhtml: string): Promise<{ title?: string; content: string }> {
+    // HTML 模式解析时总会生成 body 元素（即使源文件缺失）
+    const $ = cheerio.load(xhtml);
+    const body = $('body');
+    const heading = body.find('h1, h2, h3').first().text().replace(/\s+/g, ' ').trim();
+    const title = heading || $('head > title').text().trim() || undefined;
+
+    try {
+      const markdown = await HTMLLoader.convertToMarkdown(body.html() ?? '');
+      return { title, content: markdown.trim() };
+    } catch (error) {
+      EPUBLoader.logger.warn('Markdown conversion failed for EPUB chapter, falling back to plain text', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { title, content: body.text().replace(/[ \t]+/g, ' ').trim() };
+    }
+  }
+
+  /**
+   * 从 META-INF/container.xml 获取 OPF 包文件路径
+   */
+  private static async findPackagePath(zip: any): Promise<string> {
+    const containerXml = await zip.file('META-INF/container.xml')?.async('string');
+    if (containerXml) {
+      const $ = cheerio.load(containerXml, { xml: true });
+      const fullPath = $('rootfile').first().attr('full-path');
+      if (fullPath) {
+        return resolveZipPath('', fullPath);
+      }
+    }
+
+    // container.xml 缺失时退回查找第一个 .opf 文件
+    const opf = Object.keys(zip.files).find(path => path.toLowerCase().endsWith('.opf'));
+    if (!opf) {
+      throw new Error('Invalid EPUB: package document (.opf) not found');
+    }
+    return opf;
+  }
+
+  /**
+   * 解析书籍级元数据
+   */
+  private static parseBookMetadata($: cheerio.CheerioAPI): EPUBBookMetadata {
+    const text = (selector: string) => $(selector).first().text().trim() || undefined;
+
+    const authors = $('metadata dc\\:creator')
+      .toArray()
+      .map(el => $(el).text().trim())
+      .filter(Boolean);
+
+    return {
+      title: text('metadata dc\\:title'),
+      author: authors.length > 0 ? authors.join(', ') : undefined,
+      language: text('metadata dc\\:language'),
+      isbn: EPUBLoader.findIsbn($),
+      publisher: text('metadata dc\\:publisher'),
+    };
+  }
+
+  /**
+   * 从 dc:identifier 中查找 ISBN
+   *
+   * 支持 opf:scheme="ISBN"（EPUB 2）和 urn:isbn: 前缀（EPUB 3）
+   */
+  private static findIsbn($: cheerio.CheerioAPI): string | undefined {
+    for (const el of $('metadata dc\\:identifier').toArray()) {
+      const identifier = $(el);
+      const value = identifier.text().trim();
+      const scheme = (identifier.attr('opf:scheme') ?? identifier.attr('scheme') ?? '').toLowerCase();
+
+      if (scheme === 'isbn') {
+        return value.replace(/^urn:isbn:/i, '');
+      }
+      if (/^urn:isbn:/i.test(value)) {
+        return value.replace(/^urn:isbn:/i, '');
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 解析 manifest（id → 条目）
+   */
+  private static parseManifest($: cheerio.CheerioAPI, opfDir: string): Map<string, ManifestItem> {
+    const manifest = new Map<string, ManifestItem>();
+
+    $('manifest > item').each((_, el) => {
+      const item = $(el);
+      const id = item.attr('id');
+      const href = item.attr('href');
+      if (!id || !href) {
+        return;
+      }
+      manifest.set(id, {
+        path: resolveZipPath(opfDir, href),
+        mediaType: item.attr('media-type') ?? '',
+        properties: (item.attr('properties') ?? '').split(/\s+/).filter(Boolean),
+      });
+    });
+
+    return manifest;
+  }
+
+  /**
+   * 解析目录，返回章节文件路径 → 标题
+   *
+   * 优先使用 EPUB 3 的 nav 文档，其次使用 EPUB 2 的 NCX；同一文件取第一个目录项的标题
+   */
+  private static async parseToc(
+    zip: any,
+    $opf: cheerio.CheerioAPI,
+    manifest: Map<string, ManifestItem>
+  ): Promise<Map<string, string>> {
+    const titles = new Map<string, string>();
+    const addTitle = (path: string, title: string) => {
+      const normalized = title.replace(/\s+/g, ' ').trim();
+      if (normalized && !titles.has(path)) {
+        titles.set(path, normalized);
+      }
+    };
+
+    const items = Array.from(manifest.values());
+    const navItem = items.find(item => item.properties.includes('nav'));
+    const navXml = navItem ? await zip.file(navItem.path)?.async('string') : undefined;
+
+    if (navItem && navXml) {
+      const $ = cheerio.load(navXml);
+      const tocNav = $('nav')
+        .toArray()
+        .find(el => $(el).attr('epub:type') === 'toc') ?? $('nav').get(0);
+
+      if (tocNav) {
+        $(tocNav)
+          .find('a[href]')
+          .each((_, el) => addTitle(resolveZipPath(zipDirname(navItem.path), $(el).attr('href')!), $(el).text()));
+      }
+      if (titles.size > 0) {
+        return titles;
+      }
+    }
+
+    const ncxId = $opf('spine').attr('toc');
+    const ncxItem =
+      (ncxId ? manifest.get(ncxId) : undefined) ??
+      items.find(item => item.mediaType === 'application/x-dtbncx+xml');
+    const ncxXml = ncxItem ? await zip.file(ncxItem.path)?.async('string') : undefined;
+
+    if (ncxItem && ncxXml) {
+      const $ = cheerio.load(ncxXml, { xml: true });
+      $('navPoint').each((_, el) => {
+        const point = $(el);
+        const src = point.children('content').attr('src');
+        if (src) {
+          addTitle(
+            resolveZipPath(zipDirname(ncxItem.path), src),
+            point.children('navLabel').children('text').first().text()
+          );
+        }
+      });
+    }
+
+    return titles;
+  }
+
+  /**
+   * 移除值为空的字段
+   */
+  private static compact(book: EPUBBookMetadata): Partial<EPUBBookMetadata> {
+    return Object.fromEntries(Object.entries(book).filter(([, value]) => value !== undefined));
+  }
+
+  /**
+   * 动态导入 jszip 库
+   */
+  private static async importsJSZip() {
+    try {
+      const module = await import('jszip');
+      return (module as any).default ?? module;
+    } catch (e) {
+      EPUBLoader.logger.error('Failed to load jszip', { error: e instanceof Error ? e.message : String(e) });
+      throw new Error(
+        'Failed to load jszip. Please install it with: npm install jszip'
+      );
+    }
+  }
+}
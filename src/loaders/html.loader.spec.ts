@@ -0,0 +1,75 @@
+import { HTMLLoader } from './html.loader';
+import { ElementPartitioner } from './elements/element-partitioner';
+
+const HTML = `<html><body>
+<h1>Prices</h1>
+<table>
+  <caption>Fruit prices</caption>
+  <tr><th>Name</th><th>Price</th><th></th></tr>
+  <tr><td>Apple</td><td>5</td><td></td></tr>
+  <tr><td colspan="2">Sold out</td><td></td></tr>
+  <tr><td></td><td></td><td></td></tr>
+</table>
+</body></html>`;
+
+describe('HTMLLoader', () => {
+  describe('extractTables', () => {
+    it('should append table documents with caption, headers and rows', async () => {
+      const docs = await new HTMLLoader('prices.html', { extractTables: true }).parse(Buffer.from(HTML), {
+        source: 'prices.html',
+      });
+
+      expect(docs).toHaveLength(2);
+      expect(docs[0].metadata.elementType).toBeUndefined();
+      expect(docs[1].metadata).toMatchObject({
+        source: 'prices.html',
+        elementType: 'table',
+        tableIndex: 1,
+        tableCaption: 'Fruit prices',
+        table: { headers: ['Name', 'Price'], rows: [['Apple', '5'], ['Sold out', 'Sold out']] },
+      });
+      expect(docs[1].pageContent).toBe(
+        'Fruit prices\n\n| Name | Price |\n| --- | --- |\n| Apple | 5 |\n| Sold out | Sold out |'
+      );
+    });
+
+    it('should linearize tables when linearizeTables is set', async () => {
+      const docs = await new HTMLLoader('prices.html', { extractTables: true, linearizeTables: true }).parse(
+        Buffer.from(HTML),
+        {}
+      );
+
+      expect(docs[1].metadata.format).toBe('text');
+      expect(docs[1].pageContent).toBe(
+        'Fruit prices\n\nRow 1: Name: Apple; Price: 5.\nRow 2: Name: Sold out; Price: Sold out.'
+      );
+    });
+  });
+
+  describe('splitByElements', () => {
+    const PAGE = '<h1>Guide</h1><p>Intro</p><h2>Install</h2><p>Step one</p>';
+
+    it('should emit elements in document order with elementType and heading level', async () => {
+      const spy = jest.spyOn(HTMLLoader, 'convertToMarkdown').mockRejectedValue(new Error('turndown unavailable'));
+
+      try {
+        const docs = await new HTMLLoader('guide.html', { splitByElements: true }).parse(Buffer.from(PAGE), {
+          source: 'guide.html',
+        });
+
+        expect(docs.map(doc => [doc.pageContent, doc.metadata.elementType, doc.metadata.level])).toEqual([
+          ['Guide', 'title', 1],
+          ['Intro', 'narrative_text', undefined],
+          ['Install', 'title', 2],
+          ['Step one', 'narrative_text', undefined],
+        ]);
+
+        const elements = ElementPartitioner.partition(docs);
+        expect(elements[3].parentId).toBe(elements[2].id);
+        expect(elements[2].parentId).toBe(elements[0].id);
+      } finally {
+        spy.mockRestore();
+      }
+    });
+  });
+});
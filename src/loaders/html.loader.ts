@@ -1,11 +1,13 @@
 import { Logger } from '@nestjs/common';
 import { Document } from '../models/document.model';
+import { ElementType } from '../models/document-element.model';
 import { BufferLoader, BufferLoaderOptions } from './base/buffer.loader';
+import { TableExtractionOptions, createTableDocuments, extractHtmlTables } from './utils/table';
 
 /**
  * HTML 加载器配置选项
  */
-export interface HTMLLoaderOptions extends BufferLoaderOptions {
+export interface HTMLLoaderOptions extends BufferLoaderOptions, TableExtractionOptions {
   /**
    * 是否按元素分割（仅在降级到简单解析时有效）
    * - true: 每个主要元素（h1, h2, p 等）返回一个 Document
@@ -49,6 +51,12 @@ export interface HTMLLoaderOptions extends BufferLoaderOptions {
  * });
  * const docs = await loader.load();
  * // 返回: [Document(h1), Document(h2), Document(p), ...]
+ *
+ * // 额外输出结构化表格
+ * const loader = new HTMLLoader('page.html', { extractTables: true });
+ * const docs = await loader.load();
+ * // 返回: [Document(Markdown格式), Document(table1), ...]
+ * // 表格 metadata: { elementType: 'table', table: { headers, rows }, tableIndex: 1 }
  * ```
  */
 export class HTMLLoader extends BufferLoader {
@@ -56,12 +64,17 @@ export class HTMLLoader extends BufferLoader {
   private static turndownPromise: Promise<any> | null = null;
   private splitByElements: boolean;
   private splitTags: string[];
+  private tableOptions: TableExtractionOptions;
 
   constructor(
     filePathOrBlob: string | Blob,
     options: HTMLLoaderOptions = {}
   ) {
     super(filePathOrBlob, options);
+    this.tableOptions = {
+      extractTables: options.extractTables ?? false,
+      linearizeTables: options.linearizeTables ?? false,
+    };
     this.splitByElements = options.splitByElements ?? false;
     this.splitTags = options.splitTags ?? [
       'h1',
@@ -79,7 +92,7 @@ export class HTMLLoader extends BufferLoader {
   /**
    * 解析 HTML buffer 并返回文档数组
    *
-   * 优先尝试 Turndown 转换，失败则自动降级
+   * 优先尝试 Turndown 转换，失败则自动降级；开启 extractTables 时在正文之后追加表格 Document
    *
    * @param raw - HTML buffer
    * @param metadata - 文档元数据
@@ -90,7 +103,22 @@ export class HTMLLoader extends BufferLoader {
     metadata: Document['metadata']
   ): Promise<Document[]> {
     const html = raw.toString(this.encoding);
+    const documents = await this.parseContent(html, metadata);
 
+    if (this.tableOptions.extractTables) {
+      documents.push(...createTableDocuments(extractHtmlTables(html), metadata, this.tableOptions));
+    }
+
+    return documents;
+  }
+
+  /**
+   * 解析正文：优先尝试 Turndown 转换，失败则自动降级
+   */
+  private async parseContent(
+    html: string,
+    metadata: Document['metadata']
+  ): Promise<Document[]> {
     // 优先尝试 Turndown 转换为 Markdown
     try {
       return await this.parseWithTurndown(html, metadata);
@@ -135,15 +163,17 @@ export class HTMLLoader extends BufferLoader {
   }
 
   /**
-   * 使用 Turndown 转换为 Markdown
+   * 使用与 HTMLLoader 相同的 Turndown 配置将 HTML 转换为 Markdown
+   *
+   * 供其他以 HTML 为内容载体的加载器（如 EPUBLoader）复用
+   *
+   * @param html - HTML 字符串
+   * @returns Markdown 文本
    */
-  private async parseWithTurndown(
-    html: string,
-    metadata: Document['metadata']
-  ): Promise<Document[]> {
+  static async convertToMarkdown(html: string): Promise<string> {
     const turndownService = await HTMLLoader.getTurndownService();
 
-    let markdown = turndownService.turndown(html);
+    let markdown: string = turndownService.turndown(html);
 
     // 后处理：移除 Markdown 中不必要的转义字符（适用于 RAG 场景）
     // 1. 表格中的下划线不需要转义
@@ -151,6 +181,18 @@ export class HTMLLoader extends BufferLoader {
     // 2. 代码块外的星号转义（保留代码块内的）
     // 注意：这里只处理明显不需要转义的情况，避免破坏真正的 Markdown 语法
 
+    return markdown;
+  }
+
+  /**
+   * 使用 Turndown 转换为 Markdown
+   */
+  private async parseWithTurndown(
+    html: string,
+    metadata: Document['metadata']
+  ): Promise<Document[]> {
+    const markdown = await HTMLLoader.convertToMarkdown(html);
+
     return [
       new Document({
         pageContent: markdown,
@@ -192,6 +234,8 @@ export class HTMLLoader extends BufferLoader {
 
   /**
    * 按元素分割 HTML
+   *
+   * 每个元素一个 Document，按文档顺序排列；metadata 包含 elementType，标题另含 level
    */
   private parseByElements(
     html: string,
@@ -230,6 +274,8 @@ export class HTMLLoader extends BufferLoader {
                 originalFormat: 'html',
                 extractedBy: 'regex',
                 element: tag,
+                elementType: HTMLLoader.elementTypeOf(tag),
+                ...(/^h[1-6]$/i.test(tag) && { level: Number(tag[1]) }),
                 position: match.index,
               },
             })
@@ -238,7 +284,20 @@ export class HTMLLoader extends BufferLoader {
       }
     }
 
-    return documents;
+    // 按元素在文档中的位置排序，保证标题与其后的段落相邻
+    return documents.sort((a, b) => a.metadata.position - b.metadata.position);
+  }
+
+  /**
+   * 将 HTML 标签映射为文档元素类型
+   */
+  private static elementTypeOf(tag: string): ElementType {
+    const lower = tag.toLowerCase();
+    if (/^h[1-6]$/.test(lower)) return ElementType.TITLE;
+    if (lower === 'li') return ElementType.LIST_ITEM;
+    if (lower === 'pre' || lower === 'code') return ElementType.CODE;
+    if (lower === 'table') return ElementType.TABLE;
+    return ElementType.NARRATIVE_TEXT;
   }
 
   /**
@@ -0,0 +1,59 @@
+import { ImageLoader } from './image.loader';
+import { IOCRInput, IOCRPageResult, IOCRService } from '../common/interfaces/ocr-service.interface';
+import { PageResultStatus } from '../progress/page-result-status';
+
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(16)]);
+const TIFF = Buffer.concat([Buffer.from([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00]), Buffer.alloc(16)]);
+
+// Helper function to create an OCR service that returns the given page results
+function createOcrService(totalPages: number, results: IOCRPageResult[]): IOCRService & { inputs: IOCRInput[] } {
+  const inputs: IOCRInput[] = [];
+  return {
+    inputs,
+    async processDocument(_taskId, input) {
+      inputs.push(input);
+      return { totalPages, results };
+    },
+  };
+}
+
+describe('ImageLoader', () => {
+  it('should emit one document per successfully recognised frame in page order', async () => {
+    const ocrService = createOcrService(3, [
+      { pageIndex: 3, status: PageResultStatus.SUCCESS, text: 'Third' },
+      { pageIndex: 1, status: PageResultStatus.SUCCESS, text: 'First' },
+      { pageIndex: 2, status: PageResultStatus.FAILED },
+    ]);
+
+    const docs = await new ImageLoader('fax.tiff', { ocrService, taskId: 'task-1' }).parse(TIFF, { source: 'fax.tiff' });
+
+    expect(docs.map(doc => doc.pageContent)).toEqual(['First', 'Third']);
+    expect(docs[1].metadata).toEqual({
+      source: 'fax.tiff',
+      format: 'image',
+      imageMimeType: 'image/tiff',
+      pageNumber: 3,
+      totalPages: 3,
+      taskId: 'task-1',
+    });
+    expect(ocrService.inputs).toEqual([{ imageBuffer: TIFF, mimeType: 'image/tiff' }]);
+  });
+
+  it('should detect the image type from magic bytes before the blob type', async () => {
+    const ocrService = createOcrService(1, [{ pageIndex: 1, status: PageResultStatus.SUCCESS, text: 'Hello' }]);
+
+    const [doc] = await new ImageLoader('photo.jpg', { ocrService }).parse(PNG, { blobType: 'image/jpeg' });
+
+    expect(doc.metadata.imageMimeType).toBe('image/png');
+  });
+
+  it('should return no documents when OCR produces no text', async () => {
+    const ocrService = createOcrService(1, [{ pageIndex: 1, status: PageResultStatus.SUCCESS, text: '' }]);
+
+    await expect(new ImageLoader('blank.png', { ocrService }).parse(PNG, {})).resolves.toEqual([]);
+  });
+
+  it('should require an OCR service', async () => {
+    await expect(new ImageLoader('photo.png').parse(PNG, {})).rejects.toThrow('OCR service is required');
+  });
+});
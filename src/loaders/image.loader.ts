@@ -0,0 +1,112 @@
+import { Logger } from '@nestjs/common';
+import { Document } from '../models/document.model';
+import { BufferLoader } from './base/buffer.loader';
+import { LoaderOptions } from './base/base-loader';
+import { ContentTypeDetector } from './detection/content-type-detector';
+import type { ScannedPDFParserOptions } from './parsers/scanned-pdf.parser';
+import { PageResultStatus } from '../progress/page-result-status';
+
+/**
+ * 图片加载器配置选项
+ */
+export interface ImageLoaderOptions
+  extends LoaderOptions,
+    Pick<ScannedPDFParserOptions, 'ocrService' | 'ocrPrompt' | 'taskId' | 'onPageSuccess' | 'onPageFailed'> {}
+
+/**
+ * 图片加载器 - 通过 OCR 服务识别图片中的文字
+ *
+ * 支持 JPEG、PNG、GIF、WEBP 和 TIFF：
+ * - 单帧图片作为一页识别
+ * - 多帧 TIFF（如扫描传真、多页扫描件）逐帧识别，每帧一页
+ *
+ * 每个识别成功的页面输出一个 Document，metadata 与 ScannedPDFParser 保持一致
+ * （pageNumber、totalPages、taskId），可直接接入 PageMergeProcessor 等后续处理
+ *
+ * @example
+ * ```typescript
+ * const loader = new ImageLoader('scan.tiff', { ocrService });
+ * const docs = await loader.load();
+ * // 返回: [Document(page1), Document(page2), ...]
+ * // metadata: { pageNumber: 1, totalPages: 3, format: 'image', imageMimeType: 'image/tiff' }
+ * ```
+ */
+export class ImageLoader extends BufferLoader {
+  protected static readonly logger = new Logger(ImageLoader.name);
+  private readonly ocrOptions: ImageLoaderOptions;
+
+  constructor(
+    filePathOrBlob: string | Blob,
+    options: ImageLoaderOptions = {}
+  ) {
+    super(filePathOrBlob, options);
+    this.ocrOptions = options;
+  }
+
+  /**
+   * 识别图片并返回文档数组
+   *
+   * @param raw - 图片 buffer
+   * @param metadata - 文档元数据
+   * @returns 每个识别成功的页面一个 Document
+   */
+  public async parse(
+    raw: Buffer,
+    metadata: Document['metadata']
+  ): Promise<Document[]> {
+    const { ocrService, ocrPrompt, onPageSuccess, onPageFailed } = this.ocrOptions;
+    if (!ocrService) {
+      throw new Error(
+        'OCR service is required for image loading. ' +
+        'Please inject OcrService from @nestai/ocr module.',
+      );
+    }
+
+    const taskId = this.ocrOptions.taskId || `image-${Date.now()}`;
+    const mimeType = ImageLoader.detectImageMimeType(raw, metadata);
+
+    const result = await ocrService.processDocument(
+      taskId,
+      { imageBuffer: raw, mimeType },
+      { ocrPrompt },
+      { onPageSuccess, onPageFailed },
+    );
+
+    const pages = result.results
+      .filter(r => r.status === PageResultStatus.SUCCESS && r.text)
+      .sort((a, b) => a.pageIndex - b.pageIndex);
+
+    if (pages.length === 0) {
+      ImageLoader.logger.warn(`[${taskId}] OCR 未产生任何有效文本`);
+      return [];
+    }
+
+    return pages.map(
+      page =>
+        new Document({
+          pageContent: page.text!,
+          metadata: {
+            ...metadata,
+            format: 'image',
+            ...(mimeType && { imageMimeType: mimeType }),
+            pageNumber: page.pageIndex,
+            totalPages: result.totalPages,
+            taskId,
+          },
+        })
+    );
+  }
+
+  /**
+   * 识别图片 MIME 类型：优先文件头，其次 Blob 类型
+   */
+  private static detectImageMimeType(raw: Buffer, metadata: Document['metadata']): string | undefined {
+    const detection = ContentTypeDetector.detect(raw);
+    if (detection?.confident && detection.mimeType.startsWith('image/')) {
+      return detection.mimeType;
+    }
+
+    const blobType = metadata?.blobType;
+    return typeof blobType === 'string' && blobType.startsWith('image/') ? blobType : undefined;
+  }
+}
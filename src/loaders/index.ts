@@ -13,13 +13,34 @@ export * from './constants';
 // ========== 解析器 ==========
 export * from './parsers';
 
+// ========== 注册表 ==========
+export * from './registry';
+
+// ========== 内容检测 ==========
+export * from './detection';
+
+// ========== 文档元素 ==========
+export * from './elements';
+
+// ========== JSON 路径 ==========
+export * from './utils/json-path';
+export * from './utils/json-stream';
+export * from './utils/json-content';
+
 // ========== 加载器 ==========
 export * from './text.loader';
 export * from './json.loader';
+export * from './jsonl.loader';
 export * from './markdown.loader';
+export * from './code.loader';
 export * from './html.loader';
 export * from './csv.loader';
 export * from './xlsx.loader';
 export * from './pdf.loader';
 export * from './docx.loader';
+export * from './pptx.loader';
+export * from './epub.loader';
+export * from './email.loader';
+export * from './archive.loader';
+export * from './image.loader';
 export * from './directory.loader';
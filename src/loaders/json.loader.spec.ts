@@ -0,0 +1,130 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JSONLoader, JSONLoaderOptions } from './json.loader';
+import { Document } from '../models/document.model';
+
+const DATA = {
+  title: 'catalog',
+  items: [
+    { id: 1, text: 'alpha', tags: ['a'] },
+    { id: 2, text: 'beta', tags: [] },
+  ],
+  matrix: [[1, 2], [3]],
+  empty: [],
+  count: 2,
+};
+
+// Helper function to parse a JSON value in memory
+function parse(options: JSONLoaderOptions, data: unknown = DATA): Promise<Document[]> {
+  return new JSONLoader('data.json', options).parse(Buffer.from(JSON.stringify(data)), { source: 'data.json' });
+}
+
+// Helper function to summarize documents as [pageContent, jsonPointer]
+function summarize(docs: Document[]): Array<[string, string]> {
+  return docs.map(doc => [doc.pageContent, doc.metadata.jsonPointer]);
+}
+
+describe('JSONLoader', () => {
+  it('should return the whole document without a path', async () => {
+    const docs = await parse({ prettify: false });
+
+    expect(summarize(docs)).toEqual([[JSON.stringify(DATA), '']]);
+  });
+
+  it('should extract JSONPath matches with content and metadata keys', async () => {
+    const docs = await parse({ jsonPath: '$.items[?(@.id > 1)]', contentKey: 'text', metadataKeys: ['id'] });
+
+    expect(docs.map(doc => [doc.pageContent, doc.metadata.id, doc.metadata.jsonPointer])).toEqual([
+      ['beta', 2, '/items/1'],
+    ]);
+  });
+
+  it('should prefer jsonPointer over jsonPath', async () => {
+    const docs = await parse({ jsonPointer: '/items/*/text', jsonPath: '$.title' });
+
+    expect(summarize(docs)).toEqual([
+      ['alpha', '/items/0/text'],
+      ['beta', '/items/1/text'],
+    ]);
+  });
+
+  describe('jq style paths', () => {
+    it('should expand arrays selected with and without []', async () => {
+      expect(summarize(await parse({ jsonPath: '.items[]', contentKey: 'text' }))).toEqual([
+        ['alpha', '/items/0'],
+        ['beta', '/items/1'],
+      ]);
+      expect(summarize(await parse({ jsonPath: '.items', contentKey: 'text' }))).toEqual([
+        ['alpha', '/items/0'],
+        ['beta', '/items/1'],
+      ]);
+    });
+
+    it('should expand a trailing [] only once', async () => {
+      const docs = await parse({ jsonPath: '.matrix[]' });
+
+      expect(docs.map(doc => doc.metadata.jsonPointer)).toEqual(['/matrix/0', '/matrix/1']);
+    });
+
+    it('should return no documents for empty arrays', async () => {
+      expect(await parse({ jsonPath: '.empty[]' })).toEqual([]);
+    });
+
+    it('should reject missing paths and non-array values', async () => {
+      await expect(parse({ jsonPath: '.missing' })).rejects.toThrow('Path not found: .missing');
+      await expect(parse({ jsonPath: '.missing[]' })).rejects.toThrow('Path not found: .missing[]');
+      await expect(parse({ jsonPath: '.count[]' })).rejects.toThrow('Expected array at path: .count[]');
+    });
+  });
+
+  describe('Streaming', () => {
+    let dir: string;
+    let file: string;
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), 'json-loader-'));
+      file = join(dir, 'data.json');
+      writeFileSync(file, '\uFEFF' + JSON.stringify(DATA, null, 2));
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    // Helper function to collect lazily loaded documents
+    async function lazyLoad(options: JSONLoaderOptions): Promise<Document[]> {
+      const docs: Document[] = [];
+      for await (const doc of new JSONLoader(file, options).lazyLoad()) {
+        docs.push(doc);
+      }
+      return docs;
+    }
+
+    it.each([
+      { jsonPath: '$.items[*]', contentKey: 'text' },
+      { jsonPath: '.items[]', contentKey: 'text' },
+      { jsonPath: '.matrix[]' },
+      { jsonPath: '$.items[?(@.tags[0])].id' },
+      { jsonPointer: '/items/1' },
+    ])('should stream the same documents as parse for %j', async options => {
+      const streamed = await lazyLoad(options);
+      const parsed = await parse(options);
+
+      expect(streamed.map(doc => doc.metadata)).toEqual(
+        parsed.map(doc => ({ ...doc.metadata, source: file }))
+      );
+      expect(streamed.map(doc => doc.pageContent)).toEqual(parsed.map(doc => doc.pageContent));
+    });
+
+    it('should return no documents for empty arrays', async () => {
+      expect(await lazyLoad({ jsonPath: '.empty[]' })).toEqual([]);
+    });
+
+    it('should reject missing paths and non-array values', async () => {
+      await expect(lazyLoad({ jsonPath: '.missing' })).rejects.toThrow('Path not found: .missing');
+      await expect(lazyLoad({ jsonPath: '.missing[]' })).rejects.toThrow('Path not found: .missing[]');
+      await expect(lazyLoad({ jsonPath: '.count[]' })).rejects.toThrow('Expected array at path: .count[]');
+    });
+  });
+});
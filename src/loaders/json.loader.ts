@@ -1,19 +1,40 @@
 import { Document } from '../models/document.model';
 import { BufferLoader, BufferLoaderOptions } from './base/buffer.loader';
+import {
+  JsonPathMatch,
+  JsonPathSegment,
+  jsonPointerToSegments,
+  parseJsonPath,
+  queryJsonPath,
+  toJsonPointer,
+} from './utils/json-path';
+import { extractJsonContent } from './utils/json-content';
+import { JsonStreamParser } from './utils/json-stream';
 
 /**
  * JSON 加载器配置选项
  */
 export interface JSONLoaderOptions extends BufferLoaderOptions {
   /**
-   * JSON 路径（类似 jq 语法）
+   * JSONPath 表达式（$ 开头，支持过滤、通配符、切片和递归下降）或 jq 风格路径
    * 例如:
-   * - ".data" - 提取 data 字段
-   * - ".items[]" - 提取 items 数组中的每个元素
-   * - ".users[].name" - 提取 users 数组中每个对象的 name 字段
+   * - "$.items[*]" / ".items[]" - 提取 items 数组中的每个元素
+   * - "$.users[*].name" - 提取 users 数组中每个对象的 name 字段
+   * - "$.store.book[?(@.price < 10)]" - 提取价格小于 10 的书
+   * - "$..author" - 提取所有层级的 author 字段
+   *
+   * jq 风格路径（".data"、".items[]"）选中数组时展开为数组元素，路径不存在时抛出错误；
+   * 以 [] 结尾时逐个匹配数组元素（流式读取时不需要完整解析整个数组）。JSONPath 没有匹配时返回空数组
    */
   jsonPath?: string;
 
+  /**
+   * JSON Pointer（RFC 6901，如 "/data/items"），"*" 匹配所有子节点（如 "/messages/*\/content"）
+   *
+   * 与 jsonPath 同时提供时优先使用 jsonPointer
+   */
+  jsonPointer?: string;
+
   /**
    * 内容字段名
    * 如果指定，将从对象中提取该字段作为 pageContent
@@ -31,13 +52,25 @@ export interface JSONLoaderOptions extends BufferLoaderOptions {
    * @default true
    */
   prettify?: boolean;
+
+  /**
+   * 从文件路径加载且路径可流式匹配时，lazyLoad 是否边读取边解析（不将整个文件读入内存）
+   *
+   * 包含递归下降（..）、负数下标或引用 $ 的过滤器的路径、Blob 输入以及 autodetectEncoding 时
+   * 总是完整解析
+   * @default true
+   */
+  streaming?: boolean;
 }
 
 /**
  * JSON 加载器 - 处理 JSON 文件
  *
  * 参考 LangChain Python 设计
- * 支持 JSON 路径提取和字段映射
+ * 支持 JSONPath / JSON Pointer 提取和字段映射，每个 Document 的 metadata.jsonPointer
+ * 记录其在源 JSON 中的位置（整个 JSON 为 ""）
+ *
+ * 提取数组元素等可流式匹配的路径时，lazyLoad 逐条解析并生成文档，适合数百 MB 的 JSON 数组
  *
  * @example
  * ```typescript
@@ -47,23 +80,30 @@ export interface JSONLoaderOptions extends BufferLoaderOptions {
  * // 返回: [Document(格式化的 JSON 字符串)]
  *
  * // 提取数组中的每个元素
- * const loader = new JSONLoader('data.json', { jsonPath: '.items[]' });
+ * const loader = new JSONLoader('data.json', { jsonPath: '$.items[*]' });
  * const docs = await loader.load();
- * // 返回: [Document(item1), Document(item2), ...]
+ * // 返回: [Document(item1), Document(item2), ...]，metadata.jsonPointer: '/items/0', '/items/1', ...
  *
  * // 指定内容字段和元数据字段
  * const loader = new JSONLoader('data.json', {
- *   jsonPath: '.users[]',
+ *   jsonPath: '$.users[?(@.active)]',
  *   contentKey: 'bio',
  *   metadataKeys: ['name', 'email']
  * });
+ *
+ * // 流式读取大文件
+ * for await (const doc of new JSONLoader('dump.json', { jsonPath: '$[*]' }).lazyLoad()) {
+ *   ...
+ * }
  * ```
  */
 export class JSONLoader extends BufferLoader {
   private jsonPath?: string;
+  private jsonPointer?: string;
   private contentKey?: string;
   private metadataKeys: string[];
   private prettify: boolean;
+  private streaming: boolean;
 
   constructor(
     filePathOrBlob: string | Blob,
@@ -71,9 +111,54 @@ export class JSONLoader extends BufferLoader {
   ) {
     super(filePathOrBlob, options);
     this.jsonPath = options.jsonPath;
+    this.jsonPointer = options.jsonPointer;
     this.contentKey = options.contentKey;
     this.metadataKeys = options.metadataKeys ?? [];
     this.prettify = options.prettify ?? true;
+    this.streaming = options.streaming ?? true;
+  }
+
+  /**
+   * 懒加载文档
+   *
+   * 路径可流式匹配时边读取文件边生成文档，否则读取整个文件后解析
+   */
+  async *lazyLoad(): AsyncGenerator<Document> {
+    const segments = this.getSegments();
+
+    if (
+      !this.streaming ||
+      !segments ||
+      typeof this.filePathOrBlob !== 'string' ||
+      this.autodetectEncoding ||
+      !JsonStreamParser.isStreamable(segments)
+    ) {
+      yield* super.lazyLoad();
+      return;
+    }
+
+    const { createReadStream } = await import('fs');
+    const metadata = { source: this.filePathOrBlob };
+    const parser = new JsonStreamParser(segments);
+    let index = 0;
+    let found = 0;
+    let first = true;
+
+    const toDocuments = (matches: JsonPathMatch[]) => {
+      found += matches.length;
+      return matches.flatMap(match => this.expandLegacy(match)).map(item => this.createDocument(item, metadata, index++));
+    };
+
+    for await (const chunk of createReadStream(this.filePathOrBlob, { encoding: this.encoding })) {
+      yield* toDocuments(parser.write(first ? (chunk as string).replace(/^\uFEFF/, '') : chunk));
+      first = false;
+    }
+    yield* toDocuments(parser.end());
+
+    // jq 风格路径没有匹配时完整解析一次，区分路径不存在与空数组
+    if (found === 0 && this.isLegacyPath()) {
+      yield* super.lazyLoad();
+    }
   }
 
   /**
@@ -87,11 +172,12 @@ export class JSONLoader extends BufferLoader {
     raw: Buffer,
     metadata: Document['metadata']
   ): Promise<Document[]> {
-    const text = raw.toString(this.encoding);
+    const text = raw.toString(this.encoding).replace(/^\uFEFF/, '');
     const json = JSON.parse(text);
+    const segments = this.getSegments();
 
-    // 如果没有指定 jsonPath，返回整个 JSON
-    if (!this.jsonPath) {
+    // 如果没有指定路径，返回整个 JSON
+    if (!segments) {
       const content = this.prettify
         ? JSON.stringify(json, null, 2)
         : JSON.stringify(json);
@@ -102,110 +188,119 @@ export class JSONLoader extends BufferLoader {
           metadata: {
             ...metadata,
             format: 'json',
+            jsonPointer: '',
           },
         }),
       ];
     }
 
-    // 使用 jsonPath 提取数据
-    const extracted = this.extractByPath(json, this.jsonPath);
-    const items = Array.isArray(extracted) ? extracted : [extracted];
-
-    return items.map((item, index) => {
-      const { content, itemMetadata } = this.extractContent(item);
-
-      return new Document({
-        pageContent: content,
-        metadata: {
-          ...metadata,
-          ...itemMetadata,
-          format: 'json',
-          index,
-        },
-      });
-    });
+    // 使用路径提取数据
+    const matches = queryJsonPath(json, segments);
+    if (matches.length === 0 && this.isLegacyPath()) {
+      this.checkLegacyPath(json, segments);
+    }
+
+    return matches
+      .flatMap(match => this.expandLegacy(match))
+      .map((match, index) => this.createDocument(match, metadata, index));
   }
 
   /**
-   * 根据 JSON 路径提取数据
+   * 解析 jsonPointer / jsonPath 为路径段，未指定路径时返回 undefined
    */
-  private extractByPath(data: any, path: string): any {
-    // 移除开头的点
-    const cleanPath = path.startsWith('.') ? path.slice(1) : path;
-
-    if (!cleanPath) {
-      return data;
+  private getSegments(): JsonPathSegment[] | undefined {
+    if (this.jsonPointer !== undefined) {
+      return jsonPointerToSegments(this.jsonPointer);
     }
-
-    // 简单的路径解析（支持 .field 和 .field[] 语法）
-    const parts = cleanPath.split('.');
-    let current = data;
-
-    for (const part of parts) {
-      if (part.endsWith('[]')) {
-        // 数组展开
-        const field = part.slice(0, -2);
-        if (field) {
-          current = current[field];
-        }
-        // 如果是数组，保持为数组
-        if (!Array.isArray(current)) {
-          throw new Error(`Expected array at path: ${field}`);
-        }
-      } else {
-        // 普通字段访问
-        current = current[part];
-      }
-
-      if (current === undefined) {
-        throw new Error(`Path not found: ${path}`);
-      }
+    if (!this.jsonPath) {
+      return undefined;
     }
+    return this.isLegacyPath()
+      ? JSONLoader.legacyToSegments(this.jsonPath)
+      : parseJsonPath(this.jsonPath);
+  }
 
-    return current;
+  /**
+   * 是否为 jq 风格路径（".items[]"）
+   */
+  private isLegacyPath(): boolean {
+    return this.jsonPointer === undefined && !!this.jsonPath && !this.jsonPath.trim().startsWith('$');
   }
 
   /**
-   * 从对象中提取内容和元数据
+   * jq 风格路径是否以 [] 结尾（".items[]"）
    */
-  private extractContent(item: any): {
-    content: string;
-    itemMetadata: Record<string, any>;
-  } {
-    if (typeof item !== 'object' || item === null) {
-      // 基本类型，直接转换为字符串
-      return {
-        content: String(item),
-        itemMetadata: {},
-      };
-    }
+  private isLegacyExpansion(): boolean {
+    return this.isLegacyPath() && this.jsonPath!.trim().endsWith('[]');
+  }
 
-    const itemMetadata: Record<string, any> = {};
-    let contentObj: any = { ...item };
+  /**
+   * jq 风格路径没有匹配时检查路径：以 [] 结尾时被展开的值为空数组 / 空对象不报错
+   *
+   * @throws Error 路径不存在，或 [] 展开的值不是数组时
+   */
+  private checkLegacyPath(json: unknown, segments: JsonPathSegment[]): void {
+    const parents = this.isLegacyExpansion() ? queryJsonPath(json, segments.slice(0, -1)) : [];
+    if (parents.length === 0) {
+      throw new Error(`Path not found: ${this.jsonPath}`);
+    }
+    if (parents.some(({ value }) => typeof value !== 'object' || value === null)) {
+      throw new Error(`Expected array at path: ${this.jsonPath}`);
+    }
+  }
 
-    // 提取元数据字段
-    for (const key of this.metadataKeys) {
-      if (key in item) {
-        itemMetadata[key] = item[key];
-        delete contentObj[key];
-      }
+  /**
+   * jq 风格路径转换为路径段（".users[].name" → $["users"][*]["name"]，".items[]" → $["items"][*]）
+   */
+  private static legacyToSegments(path: string): JsonPathSegment[] {
+    const cleanPath = path.startsWith('.') ? path.slice(1) : path;
+    if (!cleanPath) {
+      return [];
     }
 
-    // 提取内容字段
-    let content: string;
-    if (this.contentKey && this.contentKey in item) {
-      const contentValue = item[this.contentKey];
-      content =
-        typeof contentValue === 'string'
-          ? contentValue
-          : JSON.stringify(contentValue, null, this.prettify ? 2 : 0);
-    } else {
-      // 使用剩余字段作为内容
-      content = this.prettify
-        ? JSON.stringify(contentObj, null, 2)
-        : JSON.stringify(contentObj);
+    const parts = cleanPath.split('.');
+    return parts.flatMap((part): JsonPathSegment[] => {
+      const field = part.endsWith('[]') ? part.slice(0, -2) : part;
+      const expand = part.endsWith('[]');
+      return [
+        ...(field ? [{ selector: { kind: 'keys' as const, keys: [field] }, descendant: false }] : []),
+        ...(expand ? [{ selector: { kind: 'wildcard' as const }, descendant: false }] : []),
+      ];
+    });
+  }
+
+  /**
+   * jq 风格路径（不以 [] 结尾）选中数组时展开为数组元素
+   */
+  private expandLegacy(match: JsonPathMatch): JsonPathMatch[] {
+    if (!this.isLegacyPath() || this.isLegacyExpansion() || !Array.isArray(match.value)) {
+      return [match];
     }
+    return match.value.map((value, i) => {
+      const path = [...match.path, i];
+      return { value, path, pointer: toJsonPointer(path) };
+    });
+  }
+
+  /**
+   * 将匹配值转换为 Document
+   */
+  private createDocument(match: JsonPathMatch, metadata: Document['metadata'], index: number): Document {
+    const { content, itemMetadata } = extractJsonContent(match.value, {
+      contentKey: this.contentKey,
+      metadataKeys: this.metadataKeys,
+      prettify: this.prettify,
+    });
 
-    return { content, itemMetadata };
+    return new Document({
+      pageContent: content,
+      metadata: {
+        ...metadata,
+        ...itemMetadata,
+        format: 'json',
+        index,
+        jsonPointer: match.pointer,
+      },
+    });
   }
 }
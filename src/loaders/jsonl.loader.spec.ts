@@ -0,0 +1,132 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JSONLinesLoader, JSONLinesLoaderOptions } from './jsonl.loader';
+import { InvalidJsonLineError } from '../common/errors/document.errors';
+import { Document } from '../models/document.model';
+
+const LINES = [
+  '\uFEFF{"text": "first", "author": "alice"}',
+  '',
+  '{"text": "第二行 🌍", "author": "bob"}\r',
+  '   ',
+  '"plain string"',
+  '{"text": "last", "author": "carol"}',
+].join('\n');
+
+// Helper function to parse JSON Lines in memory
+function parse(text: string, options: JSONLinesLoaderOptions = {}): Promise<Document[]> {
+  return new JSONLinesLoader('data.jsonl', options).parse(Buffer.from(text), { source: 'data.jsonl' });
+}
+
+// Helper function to collect lazily loaded documents
+async function lazyLoad(loader: JSONLinesLoader): Promise<Document[]> {
+  const docs: Document[] = [];
+  for await (const doc of loader.lazyLoad()) {
+    docs.push(doc);
+  }
+  return docs;
+}
+
+// Helper function to split a buffer into a Blob with many small parts (multi-byte characters cross parts)
+function chunkedBlob(text: string, size: number): Blob {
+  const buffer = Buffer.from(text);
+  const parts: BlobPart[] = [];
+  for (let i = 0; i < buffer.length; i += size) {
+    parts.push(new Uint8Array(buffer.subarray(i, i + size)));
+  }
+  return new Blob(parts, { type: 'application/jsonl' });
+}
+
+describe('JSONLinesLoader', () => {
+  const options = { contentKey: 'text', metadataKeys: ['author'] };
+
+  it('should create one document per line with line numbers and indexes', async () => {
+    const docs = await parse(LINES, options);
+
+    expect(docs.map(doc => [doc.pageContent, doc.metadata.author, doc.metadata.line, doc.metadata.index])).toEqual([
+      ['first', 'alice', 1, 0],
+      ['第二行 🌍', 'bob', 3, 1],
+      ['plain string', undefined, 5, 2],
+      ['last', 'carol', 6, 3],
+    ]);
+    expect(docs[0].metadata).toMatchObject({ source: 'data.jsonl', format: 'jsonl' });
+  });
+
+  it('should fail on invalid lines with the line number', async () => {
+    const error = await parse('{"a": 1}\n{broken\n{"a": 2}').catch(e => e);
+
+    expect(error).toBeInstanceOf(InvalidJsonLineError);
+    expect(error.line).toBe(2);
+  });
+
+  it('should skip invalid lines when onInvalidLine is skip', async () => {
+    const docs = await parse('{"a": 1}\n{broken\n{"a": 2}', { onInvalidLine: 'skip', prettify: false });
+
+    expect(docs.map(doc => [doc.pageContent, doc.metadata.line])).toEqual([
+      ['{"a":1}', 1],
+      ['{"a":2}', 3],
+    ]);
+  });
+
+  describe('lazyLoad', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), 'jsonl-loader-'));
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should stream files line by line', async () => {
+      const file = join(dir, 'data.jsonl');
+      writeFileSync(file, LINES);
+
+      const docs = await lazyLoad(new JSONLinesLoader(file, options));
+
+      expect(docs.map(doc => [doc.pageContent, doc.metadata.line])).toEqual([
+        ['first', 1],
+        ['第二行 🌍', 3],
+        ['plain string', 5],
+        ['last', 6],
+      ]);
+      expect(docs[0].metadata.source).toBe(file);
+    });
+
+    it('should decode blobs whose parts split multi-byte characters', async () => {
+      const docs = await lazyLoad(new JSONLinesLoader(chunkedBlob(LINES, 3), options));
+
+      expect(docs.map(doc => doc.pageContent)).toEqual(['first', '第二行 🌍', 'plain string', 'last']);
+      expect(docs[0].metadata).toMatchObject({ source: 'blob', blobType: 'application/jsonl' });
+    });
+
+    it('should keep line numbers when skipping invalid lines across blob parts', async () => {
+      const blob = chunkedBlob('{"a": 1}\r\n{broken\r\n\r\n{"a": 2}', 4);
+
+      const docs = await lazyLoad(new JSONLinesLoader(blob, { onInvalidLine: 'skip', prettify: false }));
+
+      expect(docs.map(doc => [doc.pageContent, doc.metadata.line, doc.metadata.index])).toEqual([
+        ['{"a":1}', 1, 0],
+        ['{"a":2}', 4, 1],
+      ]);
+    });
+
+    it('should stop at the first invalid line', async () => {
+      const file = join(dir, 'broken.jsonl');
+      writeFileSync(file, '{"a": 1}\n{"a": 2}\nnot json\n{"a": 3}\n');
+      const docs: Document[] = [];
+
+      const error = await (async () => {
+        for await (const doc of new JSONLinesLoader(file).lazyLoad()) {
+          docs.push(doc);
+        }
+      })().catch(e => e);
+
+      expect(docs).toHaveLength(2);
+      expect(error).toBeInstanceOf(InvalidJsonLineError);
+      expect(error.line).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { Logger } from '@nestjs/common';
+import { Document } from '../models/document.model';
+import { BufferLoader, BufferLoaderOptions } from './base/buffer.loader';
+import { extractJsonContent } from './utils/json-content';
+import { InvalidJsonLineError } from '../common/errors/document.errors';
+
+/**
+ * 非法行的处理方式
+ * - fail: 抛出 InvalidJsonLineError（包含行号）
+ * - skip: 记录警告并跳过该行
+ */
+export type InvalidLineMode = 'fail' | 'skip';
+
+/**
+ * JSON Lines 加载器配置选项
+ */
+export interface JSONLinesLoaderOptions extends BufferLoaderOptions {
+  /**
+   * 内容字段名
+   * 如果指定，将从每行对象中提取该字段作为 pageContent
+   */
+  contentKey?: string;
+
+  /**
+   * 元数据字段
+   * 这些字段会被添加到 metadata，而不是 pageContent
+   */
+  metadataKeys?: string[];
+
+  /**
+   * 是否格式化输出
+   * @default true
+   */
+  prettify?: boolean;
+
+  /**
+   * 非法行（不是合法 JSON）的处理方式，空行总是跳过
+   * @default 'fail'
+   */
+  onInvalidLine?: InvalidLineMode;
+}
+
+/**
+ * JSON Lines 加载器 - 处理 JSONL / NDJSON 文件
+ *
+ * 每行一个 JSON 值，每行生成一个 Document，metadata.line 记录行号（从 1 开始），
+ * metadata.index 记录文档序号。文件路径和 Blob 都按块读取并逐行解析，
+ * 内存中只保留当前行（autodetectEncoding 时需要读取整个文件检测编码）
+ *
+ * @example
+ * ```typescript
+ * const loader = new JSONLinesLoader('chat.jsonl', {
+ *   contentKey: 'text',
+ *   metadataKeys: ['author', 'timestamp'],
+ * });
+ * const docs = await loader.load();
+ * // docs[0].metadata: { source: 'chat.jsonl', author: '...', timestamp: '...', format: 'jsonl', line: 1, index: 0 }
+ *
+ * // 跳过损坏的行（记录警告）
+ * for await (const doc of new JSONLinesLoader('logs.ndjson', { onInvalidLine: 'skip' }).lazyLoad()) {
+ *   ...
+ * }
+ * ```
+ */
+export class JSONLinesLoader extends BufferLoader {
+  protected static readonly logger = new Logger(JSONLinesLoader.name);
+  private contentKey?: string;
+  private metadataKeys: string[];
+  private prettify: boolean;
+  private onInvalidLine: InvalidLineMode;
+
+  constructor(
+    filePathOrBlob: string | Blob,
+    options: JSONLinesLoaderOptions = {}
+  ) {
+    super(filePathOrBlob, options);
+    this.contentKey = options.contentKey;
+    this.metadataKeys = options.metadataKeys ?? [];
+    this.prettify = options.prettify ?? true;
+    this.onInvalidLine = options.onInvalidLine ?? 'fail';
+  }
+
+  /**
+   * 懒加载文档
+   *
+   * 按块读取文件或 Blob，每读到一个完整的行就生成对应的文档
+   */
+  async *lazyLoad(): AsyncGenerator<Document> {
+    if (this.autodetectEncoding) {
+      yield* super.lazyLoad();
+      return;
+    }
+
+    let chunks: AsyncIterable<string>;
+    let metadata: Document['metadata'];
+
+    if (typeof this.filePathOrBlob === 'string') {
+      const { createReadStream } = await import('fs');
+      chunks = createReadStream(this.filePathOrBlob, { encoding: this.encoding });
+      metadata = { source: this.filePathOrBlob };
+    } else {
+      chunks = this.readBlob(this.filePathOrBlob);
+      metadata = { source: 'blob', blobType: this.filePathOrBlob.type };
+    }
+
+    yield* this.parseLines(JSONLinesLoader.splitLines(chunks), metadata);
+  }
+
+  /**
+   * 解析 JSON Lines buffer 并返回文档数组
+   *
+   * @param raw - JSON Lines buffer
+   * @param metadata - 文档元数据
+   * @returns Promise that resolves with an array of Document instances
+   */
+  public async parse(
+    raw: Buffer,
+    metadata: Document['metadata']
+  ): Promise<Document[]> {
+    const text = raw.toString(this.encoding);
+    const documents: Document[] = [];
+    for await (const doc of this.parseLines(JSONLinesLoader.splitLines([text]), metadata)) {
+      documents.push(doc);
+    }
+    return documents;
+  }
+
+  /**
+   * 逐行解析 JSON 并生成文档
+   */
+  private async *parseLines(
+    lines: AsyncIterable<string>,
+    metadata: Document['metadata']
+  ): AsyncGenerator<Document> {
+    let lineNumber = 0;
+    let index = 0;
+
+    for await (const rawLine of lines) {
+      lineNumber++;
+      const line = lineNumber === 1 ? rawLine.replace(/^\uFEFF/, '') : rawLine;
+      if (!line.trim()) {
+        continue;
+      }
+
+      let value: unknown;
+      try {
+        value = JSON.parse(line);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        if (this.onInvalidLine === 'fail') {
+          throw new InvalidJsonLineError(lineNumber, reason, { source: metadata.source });
+        }
+        JSONLinesLoader.logger.warn(`Skipping invalid JSON at line ${lineNumber} of ${metadata.source}: ${reason}`);
+        continue;
+      }
+
+      const { content, itemMetadata } = extractJsonContent(value, {
+        contentKey: this.contentKey,
+        metadataKeys: this.metadataKeys,
+        prettify: this.prettify,
+      });
+
+      yield new Document({
+        pageContent: content,
+        metadata: {
+          ...metadata,
+          ...itemMetadata,
+          format: 'jsonl',
+          line: lineNumber,
+          index: index++,
+        },
+      });
+    }
+  }
+
+  /**
+   * 按块读取 Blob 并解码为字符串（多字节字符跨块时由 StringDecoder 拼接）
+   */
+  private async *readBlob(blob: Blob): AsyncGenerator<string> {
+    const { StringDecoder } = await import('string_decoder');
+    const decoder = new StringDecoder(this.encoding);
+    const reader = blob.stream().getReader();
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        yield decoder.write(Buffer.from(value));
+      }
+      yield decoder.end();
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * 将文本块切分为行（兼容 \n 和 \r\n），最后一行没有换行符时同样输出
+   */
+  private static async *splitLines(chunks: AsyncIterable<string> | Iterable<string>): AsyncGenerator<string> {
+    let pending = '';
+
+    for await (const chunk of chunks) {
+      pending += chunk;
+      let newline: number;
+      let start = 0;
+      while ((newline = pending.indexOf('\n', start)) !== -1) {
+        yield JSONLinesLoader.trimCarriageReturn(pending.slice(start, newline));
+        start = newline + 1;
+      }
+      pending = pending.slice(start);
+    }
+
+    if (pending) {
+      yield JSONLinesLoader.trimCarriageReturn(pending);
+    }
+  }
+
+  private static trimCarriageReturn(line: string): string {
+    return line.endsWith('\r') ? line.slice(0, -1) : line;
+  }
+}
@@ -0,0 +1,47 @@
+import { MarkdownLoader } from './markdown.loader';
+import { MarkdownHeaderTextSplitter } from '../splitters/markdown-header-text-splitter';
+
+const TEXT = ['---', 'title: Guide', '---', '# Install', 'Run it.', '## Usage', 'Call it.'].join('\n');
+
+describe('MarkdownLoader', () => {
+  it('should strip front matter and record where the body starts', async () => {
+    const [doc] = await new MarkdownLoader('guide.md').parse(Buffer.from(TEXT), { source: 'guide.md' });
+
+    expect(doc.pageContent).toBe(TEXT.slice(TEXT.indexOf('# Install')));
+    expect(doc.metadata).toMatchObject({ title: 'Guide', startOffset: TEXT.indexOf('# Install'), lineStart: 4 });
+  });
+
+  it('should keep split locations relative to the source file', async () => {
+    const docs = await new MarkdownLoader('guide.md').parse(Buffer.from(TEXT), { source: 'guide.md' });
+    const splitter = new MarkdownHeaderTextSplitter({
+      headersToSplitOn: [
+        { marker: '#', name: 'h1' },
+        { marker: '##', name: 'h2' },
+      ],
+    });
+
+    const chunks = await splitter.splitDocuments(docs);
+
+    expect(chunks.map(chunk => [chunk.pageContent, chunk.metadata.lineStart, chunk.metadata.lineEnd])).toEqual([
+      ['Run it.', 5, 5],
+      ['Call it.', 7, 7],
+    ]);
+    expect(TEXT.slice(chunks[1].metadata.startOffset, chunks[1].metadata.endOffset)).toBe('Call it.');
+  });
+
+  it('should keep content after a leading horizontal rule', async () => {
+    const text = '---\nIntro paragraph that matters.\n\n---\n# Title\nbody';
+
+    const [doc] = await new MarkdownLoader('rule.md').parse(Buffer.from(text), { source: 'rule.md' });
+
+    expect(doc.pageContent).toBe(text);
+    expect(doc.metadata).not.toHaveProperty('frontMatter');
+  });
+
+  it('should not add locations without front matter', async () => {
+    const [doc] = await new MarkdownLoader('plain.md').parse(Buffer.from('# Title'), { source: 'plain.md' });
+
+    expect(doc.metadata).not.toHaveProperty('startOffset');
+    expect(doc.metadata).not.toHaveProperty('lineStart');
+  });
+});
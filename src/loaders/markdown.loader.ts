@@ -1,11 +1,20 @@
 import { Document } from '../models/document.model';
 import { BufferLoader, BufferLoaderOptions } from './base/buffer.loader';
+import { extractFrontMatter, frontMatterMetadata } from '../splitters/front-matter';
 
 /**
  * Markdown 加载器配置选项
  */
 export interface MarkdownLoaderOptions extends BufferLoaderOptions {
-  // 继承 BufferLoaderOptions 的所有选项（encoding, autodetectEncoding）
+  /**
+   * 是否解析文档开头的 YAML（---）/ TOML（+++）front matter
+   *
+   * 解析结果写入 metadata.frontMatter（字符串 title 同时写入 metadata.title），
+   * front matter 从 pageContent 中移除，正文在源文件中的位置写入 metadata.startOffset / lineStart，
+   * 切分块的位置因此仍相对于源文件
+   * @default true
+   */
+  parseFrontMatter?: boolean;
 }
 
 /**
@@ -13,21 +22,25 @@ export interface MarkdownLoaderOptions extends BufferLoaderOptions {
  *
  * 参考 LangChain Python 设计
  * 返回完整的 Markdown 内容作为单个 Document
- * 支持编码检测和自定义编码
+ * 支持编码检测和自定义编码，front matter 解析到 metadata
  *
  * @example
  * ```typescript
  * const loader = new MarkdownLoader('README.md');
  * const docs = await loader.load();
  * // 返回: [Document(完整 Markdown 内容)]
+ * // metadata.frontMatter: { title: '...', tags: [...] }（文档带有 front matter 时）
  * ```
  */
 export class MarkdownLoader extends BufferLoader {
+  private readonly parseFrontMatter: boolean;
+
   constructor(
     filePathOrBlob: string | Blob,
     options: MarkdownLoaderOptions = {}
   ) {
     super(filePathOrBlob, options);
+    this.parseFrontMatter = options.parseFrontMatter ?? true;
   }
 
   /**
@@ -42,12 +55,18 @@ export class MarkdownLoader extends BufferLoader {
     metadata: Document['metadata']
   ): Promise<Document[]> {
     const text = raw.toString(this.encoding);
+    const frontMatter = this.parseFrontMatter ? extractFrontMatter(text) : undefined;
 
     return [
       new Document({
-        pageContent: text,
+        pageContent: frontMatter ? text.slice(frontMatter.bodyOffset) : text,
         metadata: {
           ...metadata,
+          ...(frontMatter && {
+            ...frontMatterMetadata(frontMatter),
+            startOffset: frontMatter.bodyOffset,
+            lineStart: frontMatter.lineCount + 1,
+          }),
           format: 'markdown',
           encoding: this.encoding,
         },
@@ -2,3 +2,4 @@ export * from './pdf.parser';
 export * from './scanned-pdf.parser';
 export * from './markdown-converter.parser';
 export * from './pdf-type-detector';
+export * from './pdf-outline-reader';
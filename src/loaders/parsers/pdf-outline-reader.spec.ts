@@ -0,0 +1,101 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PDFRef, PDFString } from 'pdf-lib';
+import { PdfOutlineReader } from './pdf-outline-reader';
+
+interface OutlineFixture {
+  title: string;
+  /** 显式目标：页码（从 1 开始） */
+  page?: number;
+  /** 通过 GoTo 动作跳转的页码 */
+  actionPage?: number;
+  /** 命名目标（在名称树中解析） */
+  named?: string;
+  children?: OutlineFixture[];
+}
+
+// Helper function to build a PDF with the given page count, outline tree and named destinations
+async function createPdf(
+  pageCount: number,
+  outline: OutlineFixture[],
+  namedDests: Record<string, number> = {}
+): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  const pages = Array.from({ length: pageCount }, () => pdf.addPage());
+  const { context } = pdf;
+  const dest = (page: number) => context.obj([pages[page - 1].ref, PDFName.of('Fit')]);
+
+  const addItems = (items: OutlineFixture[], parent: PDFRef): PDFRef[] => {
+    const refs = items.map(() => context.nextRef());
+    items.forEach((item, i) => {
+      const dict: Record<string, any> = { Title: PDFString.of(item.title), Parent: parent };
+      if (item.page) dict.Dest = dest(item.page);
+      if (item.actionPage) dict.A = context.obj({ S: 'GoTo', D: dest(item.actionPage) });
+      if (item.named) dict.Dest = PDFString.of(item.named);
+      if (i > 0) dict.Prev = refs[i - 1];
+      if (i + 1 < refs.length) dict.Next = refs[i + 1];
+
+      const children = item.children ? addItems(item.children, refs[i]) : [];
+      if (children.length > 0) {
+        dict.First = children[0];
+        dict.Last = children[children.length - 1];
+        dict.Count = PDFNumber.of(children.length);
+      }
+      context.assign(refs[i], context.obj(dict));
+    });
+    return refs;
+  };
+
+  const outlinesRef = context.nextRef();
+  const top = addItems(outline, outlinesRef);
+  context.assign(outlinesRef, context.obj({ Type: 'Outlines', First: top[0], Last: top[top.length - 1] }));
+  pdf.catalog.set(PDFName.of('Outlines'), outlinesRef);
+
+  const names = Object.entries(namedDests).flatMap(([name, page]) => [PDFString.of(name), dest(page)]);
+  if (names.length > 0) {
+    const tree = context.obj({ Names: context.obj(names) as PDFArray });
+    pdf.catalog.set(PDFName.of('Names'), context.obj({ Dests: tree }) as PDFDict);
+  }
+
+  return Buffer.from(await pdf.save());
+}
+
+describe('PdfOutlineReader', () => {
+  it('should flatten the outline in document order with levels and paths', async () => {
+    const raw = await createPdf(4, [
+      { title: 'Introduction', page: 1 },
+      {
+        title: 'Installation',
+        page: 2,
+        children: [
+          { title: 'Linux', page: 2 },
+          { title: 'Windows', actionPage: 3 },
+        ],
+      },
+      { title: 'Appendix', named: 'appendix' },
+    ], { appendix: 4 });
+
+    const entries = await PdfOutlineReader.read(raw);
+
+    expect(entries).toEqual([
+      { title: 'Introduction', level: 1, path: ['Introduction'], pageNumber: 1 },
+      { title: 'Installation', level: 1, path: ['Installation'], pageNumber: 2 },
+      { title: 'Linux', level: 2, path: ['Installation', 'Linux'], pageNumber: 2 },
+      { title: 'Windows', level: 2, path: ['Installation', 'Windows'], pageNumber: 3 },
+      { title: 'Appendix', level: 1, path: ['Appendix'], pageNumber: 4 },
+    ]);
+  });
+
+  it('should leave unresolvable destinations without a page number', async () => {
+    const raw = await createPdf(1, [{ title: 'Missing', named: 'nowhere' }]);
+
+    const entries = await PdfOutlineReader.read(raw);
+
+    expect(entries).toEqual([{ title: 'Missing', level: 1, path: ['Missing'], pageNumber: undefined }]);
+  });
+
+  it('should return an empty list for PDFs without an outline', async () => {
+    const pdf = await PDFDocument.create();
+    pdf.addPage();
+
+    await expect(PdfOutlineReader.read(Buffer.from(await pdf.save()))).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,201 @@
+import { Logger } from '@nestjs/common';
+
+/**
+ * PDF 书签条目（按文档顺序展开）
+ */
+export interface PdfOutlineEntry {
+  /** 书签标题 */
+  title: string;
+  /** 层级（顶层为 1） */
+  level: number;
+  /** 从顶层到当前书签的标题路径 */
+  path: string[];
+  /** 目标页码（从 1 开始），无法解析时为 undefined */
+  pageNumber?: number;
+}
+
+/** 书签树最大遍历节点数，防止损坏文件中的循环链表 */
+const MAX_OUTLINE_ITEMS = 10000;
+
+/**
+ * PDF 书签（Outline）读取工具
+ *
+ * 使用 pdf-lib 遍历 /Outlines 树，并将每个书签的目标（/Dest 或 GoTo 动作）解析为页码。
+ * 支持显式目标数组和命名目标（/Dests 字典、/Names 名称树）
+ *
+ * 依赖: npm install pdf-lib
+ */
+export class PdfOutlineReader {
+  private static readonly logger = new Logger(PdfOutlineReader.name);
+
+  /**
+   * 读取 PDF 书签
+   *
+   * @param buffer - PDF buffer
+   * @returns 按文档顺序（先序遍历）展开的书签列表，无书签或 PDF 已加密时返回空数组
+   */
+  static async read(buffer: Buffer): Promise<PdfOutlineEntry[]> {
+    const pdfLib = await PdfOutlineReader.importsPdfLib();
+    const { PDFDocument, PDFName, PDFDict } = pdfLib;
+
+    const pdfDoc = await PDFDocument.load(buffer, { ignoreEncryption: true, updateMetadata: false });
+
+    // pdf-lib 不解密字符串，加密 PDF 的书签标题不可读
+    if (pdfDoc.isEncrypted) {
+      PdfOutlineReader.logger.debug('Skipping outline of encrypted PDF');
+      return [];
+    }
+
+    const outlines = pdfDoc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+    if (!outlines) {
+      return [];
+    }
+
+    const pageRefs: any[] = pdfDoc.getPages().map((page: any) => page.ref);
+    const namedDests = PdfOutlineReader.collectNamedDestinations(pdfDoc, pdfLib);
+    const entries: PdfOutlineEntry[] = [];
+    const visited = new Set<any>();
+
+    const walk = (first: any, parentPath: string[]) => {
+      let node = first;
+      while (node instanceof PDFDict && !visited.has(node) && visited.size < MAX_OUTLINE_ITEMS) {
+        visited.add(node);
+
+        const title = PdfOutlineReader.decodeText(node.lookup(PDFName.of('Title'))).replace(/\s+/g, ' ').trim();
+        const path = title ? [...parentPath, title] : parentPath;
+
+        if (title) {
+          entries.push({
+            title,
+            level: path.length,
+            path,
+            pageNumber: PdfOutlineReader.resolvePageNumber(node, pageRefs, namedDests, pdfLib),
+          });
+        }
+
+        walk(node.lookup(PDFName.of('First')), path);
+        node = node.lookup(PDFName.of('Next'));
+      }
+    };
+
+    walk(outlines.lookup(PDFName.of('First')), []);
+
+    PdfOutlineReader.logger.debug('PDF outline parsed', {
+      entries: entries.length,
+      unresolved: entries.filter(entry => entry.pageNumber === undefined).length,
+    });
+
+    return entries;
+  }
+
+  /**
+   * 解析书签目标页码
+   */
+  private static resolvePageNumber(
+    node: any,
+    pageRefs: any[],
+    namedDests: Map<string, any>,
+    pdfLib: any,
+  ): number | undefined {
+    const { PDFName, PDFDict } = pdfLib;
+
+    let dest = node.lookup(PDFName.of('Dest'));
+    if (!dest) {
+      const action = node.lookup(PDFName.of('A'));
+      if (action instanceof PDFDict && action.lookup(PDFName.of('S'))?.asString?.() === '/GoTo') {
+        dest = action.lookup(PDFName.of('D'));
+      }
+    }
+
+    // 命名目标：/Dests 字典或名称树中的值可能是数组，也可能是包含 /D 的字典
+    if (dest && !(dest instanceof pdfLib.PDFArray)) {
+      const name = dest instanceof PDFName ? dest.decodeText() : PdfOutlineReader.decodeText(dest);
+      dest = namedDests.get(name);
+      if (dest instanceof PDFDict) {
+        dest = dest.lookup(PDFName.of('D'));
+      }
+    }
+
+    if (!(dest instanceof pdfLib.PDFArray) || dest.size() === 0) {
+      return undefined;
+    }
+
+    const target = dest.get(0);
+    const index = pageRefs.indexOf(target);
+    if (index >= 0) {
+      return index + 1;
+    }
+
+    // 部分生成器写入页索引（从 0 开始）而非页面引用
+    if (target instanceof pdfLib.PDFNumber) {
+      const pageIndex = target.asNumber();
+      return pageIndex >= 0 && pageIndex < pageRefs.length ? pageIndex + 1 : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 收集命名目标（PDF 1.1 /Dests 字典 + PDF 1.2 /Names → /Dests 名称树）
+   */
+  private static collectNamedDestinations(pdfDoc: any, pdfLib: any): Map<string, any> {
+    const { PDFName, PDFDict, PDFArray } = pdfLib;
+    const dests = new Map<string, any>();
+
+    const legacyDests = pdfDoc.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict);
+    if (legacyDests) {
+      for (const [key, value] of legacyDests.entries()) {
+        dests.set(key.decodeText(), pdfDoc.context.lookup(value));
+      }
+    }
+
+    const names = pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+    const root = names?.lookupMaybe(PDFName.of('Dests'), PDFDict);
+    const visited = new Set<any>();
+
+    const walk = (node: any) => {
+      if (!(node instanceof PDFDict) || visited.has(node)) {
+        return;
+      }
+      visited.add(node);
+
+      const pairs = node.lookup(PDFName.of('Names'));
+      if (pairs instanceof PDFArray) {
+        for (let i = 0; i + 1 < pairs.size(); i += 2) {
+          dests.set(PdfOutlineReader.decodeText(pairs.lookup(i)), pairs.lookup(i + 1));
+        }
+      }
+
+      const kids = node.lookup(PDFName.of('Kids'));
+      if (kids instanceof PDFArray) {
+        for (let i = 0; i < kids.size(); i++) {
+          walk(kids.lookup(i));
+        }
+      }
+    };
+
+    walk(root);
+    return dests;
+  }
+
+  /**
+   * 解码 PDFString / PDFHexString / PDFName
+   */
+  private static decodeText(value: any): string {
+    return typeof value?.decodeText === 'function' ? value.decodeText() : '';
+  }
+
+  /**
+   * 动态导入 pdf-lib 库
+   */
+  private static async importsPdfLib() {
+    try {
+      return await import('pdf-lib');
+    } catch (e) {
+      PdfOutlineReader.logger.error('Failed to load pdf-lib', { error: e instanceof Error ? e.message : String(e) });
+      throw new Error(
+        'Failed to load pdf-lib. Please install it with: npm install pdf-lib'
+      );
+    }
+  }
+}
@@ -1,4 +1,22 @@
 import { Logger } from '@nestjs/common';
+import { toEncryptedDocumentError } from '../utils/pdf-password';
+
+/**
+ * 单页分类结果
+ */
+export interface PdfPageClassification {
+  /** 页码（从 1 开始） */
+  pageNumber: number;
+  /** pdf-parse 提取的页面文本 */
+  text: string;
+  /** 去除首尾空白后的字符数 */
+  textLength: number;
+  /** 是否判定为扫描页（需要 OCR） */
+  isScanned: boolean;
+}
+
+/** 每页最少字符数，低于此值视为扫描页 */
+const DEFAULT_MIN_CHARS_PER_PAGE = 100;
 
 /**
  * PDF 类型检测工具
@@ -13,12 +31,20 @@ export class PdfTypeDetector {
    * 1. 文本密度：每页平均字符数
    * 2. 文本质量：是否包含大量乱码
    * 3. 可读内容比例
+   *
+   * @param buffer - PDF buffer
+   * @param password - 加密 PDF 的打开密码
+   * @throws EncryptedDocumentError 未提供密码或密码错误时
    */
-  static async isScannedPdf(buffer: Buffer): Promise<boolean> {
+  static async isScannedPdf(buffer: Buffer, password?: string): Promise<boolean> {
     try {
-      const { textStr, numPages } = await this.parsePdfText(buffer);
+      const { textStr, numPages } = await this.parsePdfText(buffer, password);
       return this.analyzeScanned(textStr, numPages);
     } catch (error) {
+      const encryptedError = toEncryptedDocumentError(error, !!password);
+      if (encryptedError) {
+        throw encryptedError;
+      }
       PdfTypeDetector.logger.warn('Failed to detect PDF type', {
         error: error instanceof Error ? error.message : String(error),
       });
@@ -27,6 +53,31 @@ export class PdfTypeDetector {
     }
   }
 
+  /**
+   * 按页检测扫描页
+   *
+   * 对每页单独应用与 isScannedPdf 相同的文本密度 / 质量判断，
+   * 用于数字页与扫描页混排的 PDF（如正文 + 扫描签字页）
+   *
+   * @param buffer - PDF buffer
+   * @param minCharsPerPage - 每页最少字符数，低于此值视为扫描页
+   * @param password - 加密 PDF 的打开密码
+   */
+  static async classifyPages(
+    buffer: Buffer,
+    minCharsPerPage: number = DEFAULT_MIN_CHARS_PER_PAGE,
+    password?: string,
+  ): Promise<PdfPageClassification[]> {
+    const { pages } = await this.parsePdfText(buffer, password);
+
+    return pages.map(page => ({
+      pageNumber: page.num,
+      text: page.text,
+      textLength: page.text.trim().length,
+      isScanned: this.analyzeScanned(page.text, 1, minCharsPerPage),
+    }));
+  }
+
   /**
    * 计算特殊字符比例
    */
@@ -70,22 +121,28 @@ export class PdfTypeDetector {
   /**
    * 解析 PDF 文本（内部公共方法，避免重复解析）
    */
-  private static async parsePdfText(buffer: Buffer): Promise<{
+  private static async parsePdfText(buffer: Buffer, password?: string): Promise<{
     textStr: string;
     numPages: number;
+    pages: Array<{ num: number; text: string }>;
   }> {
     const pdfParseModule = await import('pdf-parse');
     const PDFParse = (pdfParseModule as any).PDFParse;
 
-    const parser = new PDFParse({ data: buffer, verbosity: 0 });
+    const parser = new PDFParse({ data: buffer, password, verbosity: 0 });
     try {
       await parser.load();
 
-      const text = await parser.getText();
+      // getText() 返回 TextResult，逐页文本位于 pages 中
+      const result = await parser.getText();
       const info = await parser.getInfo();
       const numPages = info.total || 1;
+      const pages: Array<{ num: number; text: string }> = (result?.pages ?? []).map((page: any) => ({
+        num: page.num,
+        text: String(page.text ?? ''),
+      }));
 
-      return { textStr: String(text || ''), numPages };
+      return { textStr: pages.map(page => page.text).join('\n'), numPages, pages };
     } finally {
       await parser.destroy().catch(() => {});
     }
@@ -94,7 +151,11 @@ export class PdfTypeDetector {
   /**
    * 分析文本特征判断是否为扫描版（纯计算，无 I/O）
    */
-  private static analyzeScanned(textStr: string, numPages: number): boolean {
+  private static analyzeScanned(
+    textStr: string,
+    numPages: number,
+    minCharsPerPage: number = DEFAULT_MIN_CHARS_PER_PAGE,
+  ): boolean {
     const textLength = textStr.trim().length;
 
     // 空文本直接判定为扫描版
@@ -104,8 +165,8 @@ export class PdfTypeDetector {
 
     const avgCharsPerPage = textLength / numPages;
 
-    // 1. 每页平均字符数少于 100
-    if (avgCharsPerPage < 100) {
+    // 1. 每页平均字符数少于阈值（默认 100）
+    if (avgCharsPerPage < minCharsPerPage) {
       return true;
     }
 
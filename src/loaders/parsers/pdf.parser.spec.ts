@@ -0,0 +1,248 @@
+import { PDFParser } from './pdf.parser';
+import { PdfOutlineReader } from './pdf-outline-reader';
+import { Blob } from '../base/blob-parser';
+import { EncryptedDocumentError } from '../../common/errors/document.errors';
+import { IOCRService } from '../../common/interfaces/ocr-service.interface';
+import { PageResultStatus } from '../../progress/page-result-status';
+
+// pdf-parse（pdf.js）需要 --experimental-vm-modules 才能在 Jest 中运行，这里按页返回预设文本
+const mockPdf: { pages: string[]; error?: Error } = { pages: [] };
+
+jest.mock('pdf-parse', () => ({
+  PDFParse: class {
+    async load() {
+      if (mockPdf.error) throw mockPdf.error;
+    }
+    async getInfo() {
+      return { total: mockPdf.pages.length, info: { PDFFormatVersion: '1.7' } };
+    }
+    async getText() {
+      return { pages: mockPdf.pages.map((text, i) => ({ num: i + 1, text })) };
+    }
+    async getTable() {
+      return { pages: [] };
+    }
+    async destroy() {}
+  },
+}));
+
+const DIGITAL_TEXT = 'This page has plenty of extractable text. '.repeat(4);
+
+function createBlob(): Blob {
+  return { data: Buffer.from('%PDF-1.7'), mimetype: 'application/pdf', metadata: { source: 'report.pdf' } };
+}
+
+// Helper function to create an OCR service that recognises the requested pages
+function createOcrService(failedPages: number[] = []): IOCRService & { requestedPages: number[][] } {
+  const requestedPages: number[][] = [];
+  return {
+    requestedPages,
+    async processDocument(_taskId, _input, options) {
+      const pages = options?.processOnlyPages ?? mockPdf.pages.map((_, i) => i + 1);
+      requestedPages.push(pages);
+      return {
+        totalPages: mockPdf.pages.length,
+        results: pages.map(pageIndex =>
+          failedPages.includes(pageIndex)
+            ? { pageIndex, status: PageResultStatus.FAILED }
+            : { pageIndex, status: PageResultStatus.SUCCESS, text: `OCR text of page ${pageIndex}` }
+        ),
+      };
+    },
+  };
+}
+
+describe('PDFParser', () => {
+  beforeEach(() => {
+    mockPdf.pages = [];
+    mockPdf.error = undefined;
+  });
+
+  describe('hybrid OCR', () => {
+    it('should OCR only scanned pages and merge them with extracted text in page order', async () => {
+      mockPdf.pages = [DIGITAL_TEXT, '', DIGITAL_TEXT];
+      const ocrService = createOcrService();
+
+      const docs = await new PDFParser({ scannedPdfOptions: { ocrService, taskId: 'task-1' } }).parse(createBlob());
+
+      expect(ocrService.requestedPages).toEqual([[2]]);
+      expect(docs.map(doc => [doc.metadata.pageNumber, doc.metadata.extractionMethod])).toEqual([
+        [1, 'text'],
+        [2, 'ocr'],
+        [3, 'text'],
+      ]);
+      expect(docs[1].pageContent).toBe('OCR text of page 2');
+      expect(docs[1].metadata).toMatchObject({ source: 'report.pdf', totalPages: 3, taskId: 'task-1' });
+      expect(docs[2].pageContent).toBe(DIGITAL_TEXT.trim());
+      expect(docs[2].metadata).toEqual({
+        source: 'report.pdf',
+        format: 'text',
+        extractionMethod: 'text',
+        pageNumber: 3,
+        totalPages: 3,
+      });
+    });
+
+    it('should fall back to the extracted text when OCR fails for a page', async () => {
+      mockPdf.pages = [DIGITAL_TEXT, 'Signed', ''];
+      const ocrService = createOcrService([2, 3]);
+
+      const docs = await new PDFParser({ scannedPdfOptions: { ocrService } }).parse(createBlob());
+
+      expect(docs.map(doc => [doc.metadata.pageNumber, doc.metadata.extractionMethod, doc.pageContent])).toEqual([
+        [1, 'text', DIGITAL_TEXT.trim()],
+        [2, 'text', 'Signed'],
+      ]);
+    });
+
+    it('should use minTextCharsPerPage to classify pages', async () => {
+      mockPdf.pages = [DIGITAL_TEXT, 'Short but real text'];
+      const ocrService = createOcrService();
+
+      const docs = await new PDFParser({
+        minTextCharsPerPage: 10,
+        splitPages: true,
+        scannedPdfOptions: { ocrService },
+      }).parse(createBlob());
+
+      expect(ocrService.requestedPages).toEqual([]);
+      expect(docs.map(doc => doc.metadata.extractionMethod)).toEqual(['text', 'text']);
+    });
+
+    it('should OCR the whole document when every page is scanned', async () => {
+      mockPdf.pages = ['', ''];
+      const ocrService = createOcrService();
+
+      const docs = await new PDFParser({ scannedPdfOptions: { ocrService } }).parse(createBlob());
+
+      expect(ocrService.requestedPages).toEqual([[1, 2]]);
+      expect(docs.map(doc => [doc.metadata.pageNumber, doc.metadata.extractionMethod])).toEqual([
+        [1, 'ocr'],
+        [2, 'ocr'],
+      ]);
+    });
+  });
+
+  describe('splitPages', () => {
+    it('should emit one text document per non-empty page with page metadata', async () => {
+      mockPdf.pages = ['  First page  ', '', 'Third page'];
+
+      const docs = await new PDFParser({ splitPages: true }).parse(createBlob());
+
+      expect(docs.map(doc => doc.pageContent)).toEqual(['First page', 'Third page']);
+      expect(docs[1].metadata).toEqual({
+        source: 'report.pdf',
+        format: 'text',
+        extractionMethod: 'text',
+        pageNumber: 3,
+        totalPages: 3,
+        pdf: { version: '1.7', info: { PDFFormatVersion: '1.7' }, totalPages: 3 },
+      });
+    });
+
+    it('should join pages into a single document when splitPages is off and a password is given', async () => {
+      mockPdf.pages = ['First page', '', 'Third page'];
+
+      const docs = await new PDFParser({ password: 'secret' }).parse(createBlob());
+
+      expect(docs).toHaveLength(1);
+      expect(docs[0].pageContent).toBe('First page\n\nThird page');
+      expect(docs[0].metadata.pageNumber).toBeUndefined();
+    });
+  });
+
+  describe('splitByOutline', () => {
+    const OUTLINE = [
+      { title: 'Chapter 1', level: 1, path: ['Chapter 1'], pageNumber: 2 },
+      { title: 'Details', level: 2, path: ['Chapter 1', 'Details'], pageNumber: 2 },
+      { title: 'Chapter 2', level: 1, path: ['Chapter 2'], pageNumber: 3 },
+    ];
+
+    beforeEach(() => {
+      mockPdf.pages = ['Cover', 'Chapter 1\nIntro text\nDetails\nMore', 'Continued\nChapter 2\nEnd'];
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should emit one section per bookmark starting at the bookmark title', async () => {
+      jest.spyOn(PdfOutlineReader, 'read').mockResolvedValue(OUTLINE);
+
+      const docs = await new PDFParser({ splitByOutline: true }).parse(createBlob());
+
+      expect(docs.map(doc => [doc.pageContent, doc.metadata.sectionPath, doc.metadata.startPage, doc.metadata.endPage])).toEqual([
+        ['Cover', [], 1, 1],
+        ['Chapter 1\nIntro text', ['Chapter 1'], 2, 2],
+        ['Details\nMore\n\nContinued', ['Chapter 1', 'Details'], 2, 3],
+        ['Chapter 2\nEnd', ['Chapter 2'], 3, 3],
+      ]);
+      expect(docs[2].metadata).toMatchObject({
+        source: 'report.pdf',
+        extractionMethod: 'text',
+        sectionTitle: 'Details',
+        sectionLevel: 2,
+        totalPages: 3,
+      });
+    });
+
+    it('should merge bookmarks deeper than outlineMaxDepth into their parent section', async () => {
+      jest.spyOn(PdfOutlineReader, 'read').mockResolvedValue(OUTLINE);
+
+      const docs = await new PDFParser({ splitByOutline: true, outlineMaxDepth: 1 }).parse(createBlob());
+
+      expect(docs.map(doc => doc.metadata.sectionPath)).toEqual([[], ['Chapter 1'], ['Chapter 2']]);
+      expect(docs[1].pageContent).toBe('Chapter 1\nIntro text\nDetails\nMore\n\nContinued');
+    });
+
+    it('should fall back to splitPages when the PDF has no outline', async () => {
+      jest.spyOn(PdfOutlineReader, 'read').mockResolvedValue([]);
+
+      const docs = await new PDFParser({ splitByOutline: true, splitPages: true }).parse(createBlob());
+
+      expect(docs.map(doc => doc.metadata.pageNumber)).toEqual([1, 2, 3]);
+      expect(docs[0].metadata.sectionPath).toBeUndefined();
+    });
+  });
+
+  describe('encrypted PDFs', () => {
+    // Helper function to create an error shaped like pdf.js PasswordException
+    function passwordException(code: number): Error {
+      return Object.assign(new Error('Password required'), { name: 'PasswordException', code });
+    }
+
+    it('should reject with EncryptedDocumentError when no password is given', async () => {
+      mockPdf.error = passwordException(1);
+
+      const result = new PDFParser({ splitPages: true }).parse(createBlob());
+
+      await expect(result).rejects.toBeInstanceOf(EncryptedDocumentError);
+      await expect(result).rejects.toMatchObject({ reason: 'password_required' });
+    });
+
+    it('should reject with incorrect_password when the password is wrong', async () => {
+      mockPdf.error = passwordException(2);
+
+      await expect(new PDFParser({ password: 'wrong' }).parse(createBlob())).rejects.toMatchObject({
+        name: 'EncryptedDocumentError',
+        reason: 'incorrect_password',
+      });
+    });
+
+    it('should not fall back to treating an encrypted PDF as digital during page classification', async () => {
+      mockPdf.error = passwordException(1);
+      const ocrService = createOcrService();
+
+      await expect(new PDFParser({ scannedPdfOptions: { ocrService } }).parse(createBlob())).rejects.toBeInstanceOf(
+        EncryptedDocumentError
+      );
+      expect(ocrService.requestedPages).toEqual([]);
+    });
+
+    it('should surface other pdf-parse errors unchanged', async () => {
+      mockPdf.error = new Error('Invalid PDF structure');
+
+      await expect(new PDFParser({ splitPages: true }).parse(createBlob())).rejects.toThrow('Invalid PDF structure');
+    });
+  });
+});
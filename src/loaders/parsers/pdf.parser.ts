@@ -3,17 +3,68 @@ import { Document } from '../../models/document.model';
 import { Blob, BaseBlobParser } from '../base/blob-parser';
 import { MarkdownConverterParser } from './markdown-converter.parser';
 import { ScannedPDFParser, ScannedPDFParserOptions } from './scanned-pdf.parser';
+import { PdfPageClassification, PdfTypeDetector } from './pdf-type-detector';
+import { PdfOutlineEntry, PdfOutlineReader } from './pdf-outline-reader';
+import { toEncryptedDocumentError } from '../utils/pdf-password';
+import { ExtractedTable, TableExtractionOptions, createTableDocuments, normalizeTable } from '../utils/table';
 
 /**
  * PDF 解析器配置选项
  */
-export interface PDFParserOptions {
+export interface PDFParserOptions extends TableExtractionOptions {
   /**
    * 是否自动检测扫描 PDF
    * 默认: true
    */
   autoDetectScanned?: boolean;
 
+  /**
+   * 加密 PDF 的打开密码
+   *
+   * 传递给 pdf-parse 和 OCR 页面渲染；未提供或错误时抛出 EncryptedDocumentError。
+   * markitdown-ts 不支持密码，提供密码时直接使用 pdf-parse 提取文本
+   */
+  password?: string;
+
+  /**
+   * 是否按页混合解析
+   *
+   * 启用时逐页判断文本密度，只对扫描页调用 OCR，其余页面使用提取的文本；
+   * 关闭时按整份文档判断是否为扫描 PDF。仅在 autoDetectScanned 且配置了 OCR 服务时生效
+   * 默认: true
+   */
+  hybridOcr?: boolean;
+
+  /**
+   * 每页最少字符数，低于此值的页面视为扫描页
+   * 默认: 100
+   */
+  minTextCharsPerPage?: number;
+
+  /**
+   * 可编辑 PDF 是否按页输出（每页一个 Document，包含 pageNumber / totalPages）
+   *
+   * 按页输出使用 pdf-parse 逐页提取纯文本（markitdown-ts 只能整份转换）；
+   * 扫描 PDF 与混合 PDF 始终按页输出
+   * 默认: false
+   */
+  splitPages?: boolean;
+
+  /**
+   * 可编辑 PDF 是否按书签（Outline）拆分章节
+   *
+   * 每个书签章节输出一个 Document，metadata 包含 sectionPath（标题路径）和 startPage / endPage；
+   * PDF 没有书签（或已加密）时按 splitPages 的设置处理。需要安装 pdf-lib
+   * 默认: false
+   */
+  splitByOutline?: boolean;
+
+  /**
+   * 按书签拆分时使用的最大书签层级，更深的书签并入上级章节
+   * 默认: 不限制
+   */
+  outlineMaxDepth?: number;
+
   /**
    * 扫描 PDF 解析选项
    */
@@ -26,13 +77,23 @@ export interface PDFParserOptions {
  * 负责将 PDF Blob 数据解析为 Document 对象
  *
  * 智能解析策略：
- * 1. 检测是否为扫描 PDF
- *    - 如果是扫描 PDF -> 使用 OCR 识别
- *    - 如果是可编辑 PDF -> 继续下面的策略
- * 2. 可编辑 PDF 自动降级策略：
+ * 1. 逐页检测是否为扫描页（hybridOcr 关闭时按整份文档检测）
+ *    - 全部为扫描页 -> 使用 OCR 识别
+ *    - 部分为扫描页 -> 混合解析：只 OCR 扫描页，其余页面使用提取的文本，
+ *      按页码顺序每页输出一个 Document，metadata.extractionMethod 为 'ocr' 或 'text'
+ *    - 全部为可编辑页 -> 继续下面的策略
+ * 2. splitByOutline 为 true 且 PDF 含书签时，按书签章节输出，每个章节一个 Document
+ * 3. splitPages 为 true 时，可编辑 PDF 使用 pdf-parse 逐页提取文本，每页一个 Document
+ * 4. 否则可编辑 PDF 自动降级策略：
  *    - 优先: markitdown-ts 转换为 Markdown（保留文档结构）
  *    - 降级: pdf-parse 提取纯文本
  *
+ * extractTables 为 true 时，使用 pdf-parse 根据页面中的表格线识别表格，
+ * 每个表格在正文之后额外输出一个 Document（metadata.pageNumber 为所在页）；
+ * 没有边框线的表格和扫描页中的表格无法识别
+ *
+ * 未提供密码或密码错误的加密 PDF 抛出 EncryptedDocumentError（不会静默返回空结果）
+ *
  * 主要依赖: npm install markitdown-ts
  * 降级依赖: npm install pdf-parse
  * OCR 依赖: @nestai/ocr 模块
@@ -50,23 +111,76 @@ export class PDFParser extends BaseBlobParser {
    * 智能检测 PDF 类型并选择合适的解析策略
    */
   async *lazyParse(blob: Blob): AsyncGenerator<Document> {
+    yield* this.parseContent(blob);
+
+    if (this.options.extractTables) {
+      yield* await this.extractTables(blob);
+    }
+  }
+
+  /**
+   * 解析正文
+   */
+  private async *parseContent(blob: Blob): AsyncGenerator<Document> {
     const autoDetect = this.options.autoDetectScanned ?? true;
 
     // 如果启用自动检测且配置了 OCR 服务
     if (autoDetect && this.options.scannedPdfOptions?.ocrService) {
-      const isScanned = await ScannedPDFParser.isScannedPDF(blob.data);
+      if (this.options.hybridOcr ?? true) {
+        const pages = await this.classifyPages(blob);
+        const scannedCount = pages.filter(page => page.isScanned).length;
+
+        if (pages.length > 0 && scannedCount === pages.length) {
+          PDFParser.logger.log('Detected scanned PDF, using OCR parser');
+          yield* this.parseScannedPDF(blob);
+          return;
+        }
+
+        if (scannedCount > 0) {
+          PDFParser.logger.log('Detected mixed PDF, using OCR for scanned pages only', {
+            totalPages: pages.length,
+            scannedPages: scannedCount,
+          });
+          yield* this.parseHybrid(blob, pages);
+          return;
+        }
+      } else {
+        const isScanned = await ScannedPDFParser.isScannedPDF(blob.data, this.options.password);
+
+        if (isScanned) {
+          PDFParser.logger.log('Detected scanned PDF, using OCR parser');
+          yield* this.parseScannedPDF(blob);
+          return;
+        }
+      }
+    }
 
-      if (isScanned) {
-        PDFParser.logger.log('Detected scanned PDF, using OCR parser');
-        yield* this.parseScannedPDF(blob);
+    if (this.options.splitByOutline) {
+      const outline = await this.readOutline(blob);
+      if (outline.length > 0) {
+        yield* this.parseOutlineSections(blob, outline);
         return;
       }
     }
 
+    // markitdown-ts 无法传入密码
+    if (this.options.splitPages || this.options.password) {
+      yield* this.options.splitPages ? this.parsePages(blob) : this.parsePlainText(blob);
+      return;
+    }
+
     // 可编辑 PDF：使用原有的解析策略
     try {
       // 优先使用 markitdown-ts 转换为 Markdown
-      yield* this.parseWithMarkdown(blob);
+      let converted = false;
+      for await (const doc of this.parseWithMarkdown(blob)) {
+        converted = true;
+        yield doc;
+      }
+      // markitdown-ts 解析失败时返回空结果（如加密 PDF），交给 pdf-parse 给出明确错误
+      if (!converted) {
+        throw new Error('markitdown-ts returned no content');
+      }
     } catch (markdownError) {
       PDFParser.logger.warn('Markdown conversion failed for PDF, falling back to text extraction', {
         error: markdownError instanceof Error ? markdownError.message : String(markdownError),
@@ -80,10 +194,76 @@ export class PDFParser extends BaseBlobParser {
    * 使用 OCR 解析扫描 PDF
    */
   private async *parseScannedPDF(blob: Blob): AsyncGenerator<Document> {
-    const scannedParser = new ScannedPDFParser(this.options.scannedPdfOptions);
+    const scannedParser = new ScannedPDFParser({
+      ...this.options.scannedPdfOptions,
+      password: this.options.password,
+    });
     yield* scannedParser.lazyParse(blob);
   }
 
+  /**
+   * 混合解析：扫描页使用 OCR，其余页面使用 pdf-parse 提取的文本
+   *
+   * OCR 失败的扫描页退回提取的文本（通常为空，此时跳过该页）
+   */
+  private async *parseHybrid(blob: Blob, pages: PdfPageClassification[]): AsyncGenerator<Document> {
+    const scannedParser = new ScannedPDFParser({
+      ...this.options.scannedPdfOptions,
+      password: this.options.password,
+      processOnlyPages: pages.filter(page => page.isScanned).map(page => page.pageNumber),
+    });
+
+    const ocrDocs = new Map<number, Document>();
+    for await (const doc of scannedParser.lazyParse(blob)) {
+      ocrDocs.set(doc.metadata.pageNumber, doc);
+    }
+
+    for (const page of pages) {
+      const ocrDoc = ocrDocs.get(page.pageNumber);
+      if (ocrDoc) {
+        yield new Document({
+          pageContent: ocrDoc.pageContent,
+          metadata: { ...ocrDoc.metadata, totalPages: pages.length },
+        });
+        continue;
+      }
+
+      const text = page.text.trim();
+      if (!text) {
+        continue;
+      }
+
+      yield new Document({
+        pageContent: text,
+        metadata: {
+          ...blob.metadata,
+          format: 'text',
+          extractionMethod: 'text',
+          pageNumber: page.pageNumber,
+          totalPages: pages.length,
+        },
+      });
+    }
+  }
+
+  /**
+   * 逐页检测扫描页，检测失败时视为可编辑 PDF（密码错误除外）
+   */
+  private async classifyPages(blob: Blob): Promise<PdfPageClassification[]> {
+    try {
+      return await PdfTypeDetector.classifyPages(blob.data, this.options.minTextCharsPerPage, this.options.password);
+    } catch (error) {
+      const encryptedError = toEncryptedDocumentError(error, !!this.options.password);
+      if (encryptedError) {
+        throw encryptedError;
+      }
+      PDFParser.logger.warn('Failed to classify PDF pages', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
   /**
    * 使用 markitdown-ts 转换为 Markdown
    */
@@ -95,35 +275,219 @@ export class PDFParser extends BaseBlobParser {
   }
 
   /**
-   * 使用 pdf-parse 提取纯文本（备选方案）
+   * 按书签章节输出
+   *
+   * 章节起点为书签目标页中标题文本出现的位置（找不到时取目标页开头），
+   * 终点为下一个章节的起点；第一个书签之前的内容（如封面）作为 sectionPath 为空的章节输出
    */
-  private async *parsePlainText(blob: Blob): AsyncGenerator<Document> {
-    const PDFParse = await PDFParser.importsPDF();
+  private async *parseOutlineSections(blob: Blob, outline: PdfOutlineEntry[]): AsyncGenerator<Document> {
+    const { info, totalPages, pages } = await PDFParser.extractText(blob, this.options.password);
 
-    const parser = new PDFParse({
-      data: blob.data,
-      verbosity: 0  // 0 = ERRORS only
-    });
+    // 拼接全文并记录每页起始偏移
+    const pageStarts: number[] = [];
+    let fullText = '';
+    for (const page of pages) {
+      if (fullText) {
+        fullText += '\n\n';
+      }
+      pageStarts.push(fullText.length);
+      fullText += page.text;
+    }
 
+    const pageAt = (offset: number): number => {
+      let index = 0;
+      while (index + 1 < pageStarts.length && pageStarts[index + 1] <= offset) {
+        index++;
+      }
+      return pages[index]?.num ?? 1;
+    };
+
+    // 计算每个章节的起始偏移（保证单调递增）
+    const maxDepth = this.options.outlineMaxDepth ?? Infinity;
+    const starts: Array<{ entry?: PdfOutlineEntry; offset: number }> = [{ offset: 0 }];
+    for (const entry of outline) {
+      if (entry.pageNumber === undefined || entry.level > maxDepth) {
+        continue;
+      }
+
+      const pageIndex = pages.findIndex(page => page.num === entry.pageNumber);
+      if (pageIndex < 0) {
+        continue;
+      }
+
+      const minOffset = Math.max(pageStarts[pageIndex], starts[starts.length - 1].offset);
+      const pageEnd = pageIndex + 1 < pageStarts.length ? pageStarts[pageIndex + 1] : fullText.length;
+      const titleOffset = fullText.indexOf(entry.title, minOffset);
+      const offset = titleOffset >= 0 && titleOffset < pageEnd ? titleOffset : minOffset;
+
+      starts.push({ entry, offset });
+    }
+
+    const pdfMeta = {
+      version: info.info?.PDFFormatVersion,
+      info: info.info,
+      totalPages,
+    };
+
+    for (let i = 0; i < starts.length; i++) {
+      const { entry, offset } = starts[i];
+      const end = i + 1 < starts.length ? starts[i + 1].offset : fullText.length;
+      const content = fullText.slice(offset, end).trim();
+      if (!content) {
+        continue;
+      }
+
+      yield new Document({
+        pageContent: content,
+        metadata: {
+          ...blob.metadata,
+          format: 'text',
+          extractionMethod: 'text',
+          sectionPath: entry?.path ?? [],
+          ...(entry && { sectionTitle: entry.title, sectionLevel: entry.level }),
+          startPage: pageAt(offset),
+          endPage: pageAt(Math.max(offset, end - 1)),
+          totalPages,
+          pdf: pdfMeta,
+        },
+      });
+    }
+  }
+
+  /**
+   * 读取 PDF 书签，失败时返回空数组（退回其他拆分方式）
+   */
+  private async readOutline(blob: Blob): Promise<PdfOutlineEntry[]> {
     try {
-      await parser.load();
+      return await PdfOutlineReader.read(blob.data);
+    } catch (error) {
+      PDFParser.logger.warn('Failed to read PDF outline', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
 
-      const info = await parser.getInfo();
-      const numPages = info.total || 1;
+  /**
+   * 使用 pdf-parse 逐页提取纯文本，每页一个 Document（跳过空白页）
+   */
+  private async *parsePages(blob: Blob): AsyncGenerator<Document> {
+    const { info, totalPages, pages } = await PDFParser.extractText(blob, this.options.password);
+
+    for (const page of pages) {
+      const text = page.text.trim();
+      if (!text) {
+        continue;
+      }
 
-      const fullText = await parser.getText();
       yield new Document({
-        pageContent: fullText,
+        pageContent: text,
         metadata: {
           ...blob.metadata,
           format: 'text',
+          extractionMethod: 'text',
+          pageNumber: page.num,
+          totalPages,
           pdf: {
             version: info.info?.PDFFormatVersion,
             info: info.info,
-            totalPages: numPages,
+            totalPages,
           },
         },
       });
+    }
+  }
+
+  /**
+   * 使用 pdf-parse 提取纯文本（备选方案）
+   */
+  private async *parsePlainText(blob: Blob): AsyncGenerator<Document> {
+    const { info, totalPages, pages } = await PDFParser.extractText(blob, this.options.password);
+
+    yield new Document({
+      pageContent: pages.map(page => page.text.trim()).filter(Boolean).join('\n\n'),
+      metadata: {
+        ...blob.metadata,
+        format: 'text',
+        pdf: {
+          version: info.info?.PDFFormatVersion,
+          info: info.info,
+          totalPages,
+        },
+      },
+    });
+  }
+
+  /**
+   * 使用 pdf-parse 识别表格，每个表格一个 Document
+   *
+   * 表格识别失败时记录警告并返回空数组，不影响正文输出
+   */
+  private async extractTables(blob: Blob): Promise<Document[]> {
+    const PDFParse = await PDFParser.importsPDF();
+
+    const parser = new PDFParse({
+      data: blob.data,
+      password: this.options.password,
+      verbosity: 0  // 0 = ERRORS only
+    });
+
+    try {
+      const result = await parser.getTable();
+      const tables: ExtractedTable[] = [];
+
+      for (const page of result?.pages ?? []) {
+        for (const cells of page.tables ?? []) {
+          const table = normalizeTable(cells);
+          if (table) {
+            tables.push({ table, metadata: { pageNumber: page.num } });
+          }
+        }
+      }
+
+      return createTableDocuments(tables, blob.metadata, this.options);
+    } catch (error) {
+      PDFParser.logger.warn('Failed to extract PDF tables', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    } finally {
+      await parser.destroy().catch(() => {});
+    }
+  }
+
+  /**
+   * 使用 pdf-parse 提取文档信息和逐页文本
+   *
+   * @throws EncryptedDocumentError 未提供密码或密码错误时
+   */
+  private static async extractText(blob: Blob, password?: string): Promise<{
+    info: any;
+    totalPages: number;
+    pages: Array<{ num: number; text: string }>;
+  }> {
+    const PDFParse = await PDFParser.importsPDF();
+
+    const parser = new PDFParse({
+      data: blob.data,
+      password,
+      verbosity: 0  // 0 = ERRORS only
+    });
+
+    try {
+      await parser.load();
+
+      const info = await parser.getInfo();
+      // getText() 返回 TextResult，逐页文本位于 pages 中
+      const result = await parser.getText();
+      const pages: Array<{ num: number; text: string }> = (result?.pages ?? []).map((page: any) => ({
+        num: page.num,
+        text: String(page.text ?? ''),
+      }));
+
+      return { info, totalPages: info.total || pages.length || 1, pages };
+    } catch (error) {
+      throw toEncryptedDocumentError(error, !!password) ?? error;
     } finally {
       await parser.destroy().catch(() => {});
     }
@@ -3,6 +3,7 @@ import { Document } from '../../models/document.model';
 import { Blob, BaseBlobParser } from '../base/blob-parser';
 import { IOCRService, IOCRPageResult } from '../../common/interfaces/ocr-service.interface';
 import { PageResultStatus } from '../../progress/page-result-status';
+import { EncryptedDocumentError } from '../../common/errors/document.errors';
 
 /**
  * 扫描 PDF 解析器配置选项
@@ -28,6 +29,16 @@ export interface ScannedPDFParserOptions {
    */
   taskId?: string;
 
+  /**
+   * 只识别指定页码（从 1 开始），未提供时识别全部页面
+   */
+  processOnlyPages?: number[];
+
+  /**
+   * 加密 PDF 的打开密码（传递给 OCR 服务用于渲染页面）
+   */
+  password?: string;
+
   /**
    * 页面处理回调
    */
@@ -87,8 +98,8 @@ export class ScannedPDFParser extends BaseBlobParser {
       // 使用 OCR 服务处理 PDF
       const result = await this.options.ocrService.processDocument(
         taskId,
-        { pdfBuffer: blob.data },
-        { ocrPrompt: this.options.ocrPrompt },
+        { pdfBuffer: blob.data, password: this.options.password },
+        { ocrPrompt: this.options.ocrPrompt, processOnlyPages: this.options.processOnlyPages },
         {
           onPageSuccess: this.options.onPageSuccess,
           onPageFailed: this.options.onPageFailed,
@@ -101,7 +112,7 @@ export class ScannedPDFParser extends BaseBlobParser {
       if (this.options.enableTaskManagement && this.options.ocrService.getPageResults) {
         const pageResults = await this.options.ocrService.getPageResults(
           taskId,
-          Array.from({ length: result.totalPages }, (_, i) => i + 1),
+          this.options.processOnlyPages ?? Array.from({ length: result.totalPages }, (_, i) => i + 1),
         );
         pageTexts = pageResults
           .filter(r => r && r.status === PageResultStatus.SUCCESS && r.text)
@@ -128,6 +139,7 @@ export class ScannedPDFParser extends BaseBlobParser {
             ...blob.metadata,
             source: blob.metadata?.source || 'scanned-pdf',
             format: 'scanned-pdf',
+            extractionMethod: 'ocr',
             pageNumber: pageIndex,
             totalPages: result.totalPages,
             taskId,
@@ -135,6 +147,9 @@ export class ScannedPDFParser extends BaseBlobParser {
         });
       }
     } catch (error) {
+      if (error instanceof EncryptedDocumentError) {
+        throw error;
+      }
       ScannedPDFParser.logger.error('Scanned PDF parsing failed', {
         error: error instanceof Error ? error.message : String(error),
       });
@@ -147,8 +162,8 @@ export class ScannedPDFParser extends BaseBlobParser {
   /**
    * 检查 PDF 是否为扫描版
    */
-  static async isScannedPDF(buffer: Buffer): Promise<boolean> {
+  static async isScannedPDF(buffer: Buffer, password?: string): Promise<boolean> {
     const { PdfTypeDetector } = await import('./pdf-type-detector.js');
-    return await PdfTypeDetector.isScannedPdf(buffer);
+    return await PdfTypeDetector.isScannedPdf(buffer, password);
   }
 }
@@ -16,15 +16,15 @@ export interface PDFLoaderOptions extends LoaderOptions, PDFParserOptions {}
  *
  * @example
  * ```typescript
- * // 按页分割
+ * // 完整文档
  * const loader = new PDFLoader('document.pdf');
  * const docs = await loader.load();
- * // 返回: [Document(page1), Document(page2), ...]
+ * // 返回: [Document(all pages)]
  *
- * // 完整文档
- * const loader = new PDFLoader('document.pdf', { splitPages: false });
+ * // 按页分割（metadata 包含 pageNumber / totalPages）
+ * const loader = new PDFLoader('document.pdf', { splitPages: true });
  * const docs = await loader.load();
- * // 返回: [Document(all pages)]
+ * // 返回: [Document(page1), Document(page2), ...]
  *
  * // 使用懒加载
  * for await (const doc of loader.lazyLoad()) {
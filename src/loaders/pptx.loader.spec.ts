@@ -0,0 +1,130 @@
+import JSZip = require('jszip');
+import { PPTXLoader } from './pptx.loader';
+
+const P = 'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const A = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"';
+const R = 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+interface SlideFixture {
+  title?: string;
+  body?: string[];
+  table?: string[][];
+  footer?: string;
+  notes?: string;
+  hidden?: boolean;
+}
+
+// Helper function to build a text shape, optionally bound to a placeholder type
+function shape(paragraphs: string[], placeholder?: string): string {
+  const ph = placeholder ? `<p:nvPr><p:ph type="${placeholder}"/></p:nvPr>` : '<p:nvPr/>';
+  const body = paragraphs.map(text => `<a:p><a:r><a:t>${text}</a:t></a:r></a:p>`).join('');
+  return `<p:sp><p:nvSpPr><p:cNvPr id="1" name="s"/><p:cNvSpPr/>${ph}</p:nvSpPr><p:txBody>${body}</p:txBody></p:sp>`;
+}
+
+function slideXml({ title, body = [], table, footer, hidden }: SlideFixture): string {
+  const cell = (text: string) => `<a:tc><a:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p></a:txBody></a:tc>`;
+  const shapes = [
+    ...(title ? [shape([title], 'title')] : []),
+    ...(body.length > 0 ? [shape(body)] : []),
+    ...(table
+      ? [`<p:graphicFrame><a:graphic><a:graphicData><a:tbl>${table
+        .map(row => `<a:tr>${row.map(cell).join('')}</a:tr>`)
+        .join('')}</a:tbl></a:graphicData></a:graphic></p:graphicFrame>`]
+      : []),
+    ...(footer ? [shape([footer], 'ftr')] : []),
+  ];
+  return `<p:sld ${P} ${A} ${R}${hidden ? ' show="0"' : ''}><p:cSld><p:spTree>${shapes.join('')}</p:spTree></p:cSld></p:sld>`;
+}
+
+// Helper function to build a PPTX whose presentation.xml lists the slides in the given order
+async function createPptx(slides: SlideFixture[], order = slides.map((_, i) => i)): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file(
+    'ppt/presentation.xml',
+    `<p:presentation ${P} ${R}><p:sldIdLst>${order
+      .map(i => `<p:sldId id="${256 + i}" r:id="rId${i + 1}"/>`)
+      .join('')}</p:sldIdLst></p:presentation>`
+  );
+  zip.file(
+    'ppt/_rels/presentation.xml.rels',
+    `<Relationships>${slides
+      .map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL}/slide" Target="slides/slide${i + 1}.xml"/>`)
+      .join('')}</Relationships>`
+  );
+
+  slides.forEach((slide, i) => {
+    zip.file(`ppt/slides/slide${i + 1}.xml`, slideXml(slide));
+    if (slide.notes) {
+      zip.file(
+        `ppt/slides/_rels/slide${i + 1}.xml.rels`,
+        `<Relationships><Relationship Id="rId1" Type="${REL}/notesSlide" Target="../notesSlides/notesSlide${i + 1}.xml"/></Relationships>`
+      );
+      zip.file(
+        `ppt/notesSlides/notesSlide${i + 1}.xml`,
+        `<p:notes ${P} ${A}><p:cSld><p:spTree>${shape(['1'], 'sldNum')}${shape([slide.notes], 'body')}</p:spTree></p:cSld></p:notes>`
+      );
+    }
+  });
+
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('PPTXLoader', () => {
+  it('should render each slide as markdown with title, body, table and notes', async () => {
+    const raw = await createPptx([
+      {
+        title: 'Quarterly Review',
+        body: ['Revenue grew', 'Costs fell'],
+        table: [['Region', 'Sales'], ['EU', '10']],
+        footer: 'Company confidential',
+        notes: 'Mention the EU launch',
+      },
+    ]);
+
+    const [doc] = await new PPTXLoader('deck.pptx').parse(raw, { source: 'deck.pptx' });
+
+    expect(doc.pageContent).toBe(
+      '# Quarterly Review\n\nRevenue grew\nCosts fell\n\n| Region | Sales |\n| --- | --- |\n| EU | 10 |\n\n## Notes\n\nMention the EU launch'
+    );
+    expect(doc.metadata).toMatchObject({
+      source: 'deck.pptx',
+      slideNumber: 1,
+      totalSlides: 1,
+      title: 'Quarterly Review',
+      notes: 'Mention the EU launch',
+      format: 'markdown',
+      originalFormat: 'pptx',
+    });
+  });
+
+  it('should follow the presentation slide order rather than file names', async () => {
+    const raw = await createPptx([{ title: 'Second' }, { title: 'First' }], [1, 0]);
+
+    const docs = await new PPTXLoader('deck.pptx').parse(raw, {});
+
+    expect(docs.map(doc => [doc.metadata.slideNumber, doc.metadata.title])).toEqual([
+      [1, 'First'],
+      [2, 'Second'],
+    ]);
+  });
+
+  it('should skip hidden slides unless includeHiddenSlides is set', async () => {
+    const raw = await createPptx([{ title: 'Visible' }, { title: 'Backup', hidden: true }]);
+
+    const visible = await new PPTXLoader('deck.pptx').parse(raw, {});
+    const all = await new PPTXLoader('deck.pptx', { includeHiddenSlides: true }).parse(raw, {});
+
+    expect(visible.map(doc => doc.metadata.title)).toEqual(['Visible']);
+    expect(all[1].metadata).toMatchObject({ title: 'Backup', slideNumber: 2, totalSlides: 2, hidden: true });
+  });
+
+  it('should omit notes when includeNotes is false', async () => {
+    const raw = await createPptx([{ title: 'Intro', notes: 'Say hello' }]);
+
+    const [doc] = await new PPTXLoader('deck.pptx', { includeNotes: false }).parse(raw, {});
+
+    expect(doc.pageContent).toBe('# Intro');
+    expect(doc.metadata.notes).toBeUndefined();
+  });
+});
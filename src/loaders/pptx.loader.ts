@@ -0,0 +1,359 @@
+import { Logger } from '@nestjs/common';
+import * as cheerio from 'cheerio';
+import { Document } from '../models/document.model';
+import { BufferLoader } from './base/buffer.loader';
+import { LoaderOptions } from './base/base-loader';
+import { resolveZipPath, zipDirname } from './utils/zip-path';
+
+/**
+ * PPTX 加载器配置选项
+ */
+export interface PPTXLoaderOptions extends LoaderOptions {
+  /**
+   * 是否包含演讲者备注
+   * @default true
+   */
+  includeNotes?: boolean;
+
+  /**
+   * 是否包含隐藏的幻灯片
+   * @default false
+   */
+  includeHiddenSlides?: boolean;
+}
+
+/**
+ * 单张幻灯片的解析结果
+ */
+interface ParsedSlide {
+  title?: string;
+  body: string[];
+  notes?: string;
+  hidden: boolean;
+}
+
+/** 不输出到正文的占位符类型（日期、页脚、页码） */
+const SKIPPED_PLACEHOLDER_TYPES = new Set(['dt', 'ftr', 'sldNum']);
+
+/** 标题占位符类型 */
+const TITLE_PLACEHOLDER_TYPES = new Set(['title', 'ctrTitle']);
+
+/**
+ * PPTX 加载器 - 处理 PowerPoint 演示文稿
+ *
+ * 直接解析 Office Open XML 结构，每张幻灯片返回一个 Document：
+ * - 标题占位符 → Markdown 一级标题
+ * - 文本框 → 段落
+ * - 表格 → Markdown 表格
+ * - 演讲者备注 → `## Notes` 小节（同时写入 metadata.notes）
+ *
+ * 幻灯片顺序以 presentation.xml 中的 sldIdLst 为准（而非文件名编号）
+ *
+ * 依赖: npm install jszip
+ *
+ * @example
+ * ```typescript
+ * const loader = new PPTXLoader('slides.pptx');
+ * const docs = await loader.load();
+ * // 返回: [Document(slide1), Document(slide2), ...]
+ * // metadata: { slideNumber: 1, totalSlides: 12, title: '...', ... }
+ *
+ * // 不包含演讲者备注
+ * const loader = new PPTXLoader('slides.pptx', { includeNotes: false });
+ * ```
+ */
+export class PPTXLoader extends BufferLoader {
+  protected static readonly logger = new Logger(PPTXLoader.name);
+  private includeNotes: boolean;
+  private includeHiddenSlides: boolean;
+
+  constructor(
+    filePathOrBlob: string | Blob,
+    options: PPTXLoaderOptions = {}
+  ) {
+    super(filePathOrBlob, options);
+    this.includeNotes = options.includeNotes ?? true;
+    this.includeHiddenSlides = options.includeHiddenSlides ?? false;
+  }
+
+  /**
+   * 解析 PPTX buffer 并返回文档数组
+   *
+   * @param raw - PPTX buffer
+   * @param metadata - 文档元数据
+   * @returns Promise that resolves with an array of Document instances
+   */
+  public async parse(
+    raw: Buffer,
+    metadata: Document['metadata']
+  ): Promise<Document[]> {
+    const JSZip = await PPTXLoader.importsJSZip();
+    const zip = await JSZip.loadAsync(raw);
+
+    const slidePaths = await this.getSlidePaths(zip);
+    const totalSlides = slidePaths.length;
+    const documents: Document[] = [];
+
+    for (let i = 0; i < slidePaths.length; i++) {
+      const slide = await this.parseSlide(zip, slidePaths[i]);
+
+      if (slide.hidden && !this.includeHiddenSlides) {
+        continue;
+      }
+
+      const pageContent = this.renderSlide(slide);
+      if (!pageContent) {
+        continue;
+      }
+
+      documents.push(
+        new Document({
+          pageContent,
+          metadata: {
+            ...metadata,
+            slideNumber: i + 1,
+            totalSlides,
+            ...(slide.title && { title: slide.title }),
+            ...(slide.notes && { notes: slide.notes }),
+            ...(slide.hidden && { hidden: true }),
+            format: 'markdown',
+            originalFormat: 'pptx',
+            extractedBy: 'jszip',
+          },
+        })
+      );
+    }
+
+    PPTXLoader.logger.debug('PPTX parsed', {
+      totalSlides,
+      documentCount: documents.length,
+    });
+
+    return documents;
+  }
+
+  /**
+   * 获取按放映顺序排列的幻灯片路径
+   *
+   * presentation.xml 的 sldIdLst 决定顺序；缺失时按文件名编号排序
+   */
+  private async getSlidePaths(zip: any): Promise<string[]> {
+    const presentationXml = await zip.file('ppt/presentation.xml')?.async('string');
+    const relsXml = await zip.file('ppt/_rels/presentation.xml.rels')?.async('string');
+
+    if (presentationXml && relsXml) {
+      const targets = PPTXLoader.parseRelationships(relsXml, 'ppt/');
+      const $ = cheerio.load(presentationXml, { xml: true });
+      const ordered = $('p\\:sldIdLst > p\\:sldId')
+        .toArray()
+        .map(el => targets.get($(el).attr('r:id') ?? ''))
+        .filter((path): path is string => !!path && !!zip.file(path));
+
+      if (ordered.length > 0) {
+        return ordered;
+      }
+    }
+
+    const slideNumber = (path: string) => Number(/slide(\d+)\.xml$/.exec(path)?.[1] ?? 0);
+    return Object.keys(zip.files)
+      .filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+      .sort((a, b) => slideNumber(a) - slideNumber(b));
+  }
+
+  /**
+   * 解析单张幻灯片（正文 + 备注）
+   */
+  private async parseSlide(zip: any, slidePath: string): Promise<ParsedSlide> {
+    const slideXml: string = await zip.file(slidePath).async('string');
+    const $ = cheerio.load(slideXml, { xml: true });
+
+    const slide: ParsedSlide = {
+      body: [],
+      hidden: $('p\\:sld').attr('show') === '0',
+    };
+
+    // 按文档顺序遍历形状和表格（包含组合形状中的子元素）
+    $('p\\:spTree')
+      .find('p\\:sp, p\\:graphicFrame')
+      .each((_, el) => {
+        const shape = $(el);
+
+        if (el.tagName === 'p:graphicFrame') {
+          const table = shape.find('a\\:tbl').first();
+          if (table.length > 0) {
+            const markdown = PPTXLoader.renderTable($, table);
+            if (markdown) {
+              slide.body.push(markdown);
+            }
+          }
+          return;
+        }
+
+        const placeholderType = shape.find('p\\:nvSpPr p\\:ph').attr('type');
+        if (placeholderType && SKIPPED_PLACEHOLDER_TYPES.has(placeholderType)) {
+          return;
+        }
+
+        const text = PPTXLoader.extractText($, shape.find('p\\:txBody'));
+        if (!text) {
+          return;
+        }
+
+        if (placeholderType && TITLE_PLACEHOLDER_TYPES.has(placeholderType) && !slide.title) {
+          slide.title = text.replace(/\s*\n\s*/g, ' ');
+        } else {
+          slide.body.push(text);
+        }
+      });
+
+    if (this.includeNotes) {
+      slide.notes = await this.parseNotes(zip, slidePath);
+    }
+
+    return slide;
+  }
+
+  /**
+   * 解析幻灯片对应的演讲者备注
+   */
+  private async parseNotes(zip: any, slidePath: string): Promise<string | undefined> {
+    const slideDir = zipDirname(slidePath);
+    const slideFile = slidePath.slice(slideDir.length);
+    const relsXml = await zip.file(`${slideDir}_rels/${slideFile}.rels`)?.async('string');
+    if (!relsXml) {
+      return undefined;
+    }
+
+    const notesPath = Array.from(
+      PPTXLoader.parseRelationships(relsXml, slideDir, 'notesSlide').values()
+    )[0];
+    const notesXml = notesPath ? await zip.file(notesPath)?.async('string') : undefined;
+    if (!notesXml) {
+      return undefined;
+    }
+
+    // 备注页中只有 body 占位符是备注正文（其余为幻灯片缩略图、页码等）
+    const $ = cheerio.load(notesXml, { xml: true });
+    const notes = $('p\\:sp')
+      .toArray()
+      .filter(el => $(el).find('p\\:nvSpPr p\\:ph').attr('type') === 'body')
+      .map(el => PPTXLoader.extractText($, $(el).find('p\\:txBody')))
+      .filter(Boolean)
+      .join('\n\n');
+
+    return notes || undefined;
+  }
+
+  /**
+   * 将幻灯片渲染为 Markdown
+   */
+  private renderSlide(slide: ParsedSlide): string {
+    const sections: string[] = [];
+
+    if (slide.title) {
+      sections.push(`# ${slide.title}`);
+    }
+    sections.push(...slide.body);
+    if (slide.notes) {
+      sections.push(`## Notes\n\n${slide.notes}`);
+    }
+
+    return sections.join('\n\n').trim();
+  }
+
+  /**
+   * 提取文本框中的段落文本（段落之间换行）
+   */
+  private static extractText($: cheerio.CheerioAPI, txBody: cheerio.Cheerio<any>): string {
+    return txBody
+      .find('a\\:p')
+      .toArray()
+      .map(p =>
+        $(p)
+          .find('a\\:t, a\\:br')
+          .toArray()
+          .map(node => (node.tagName === 'a:br' ? '\n' : $(node).text()))
+          .join('')
+          .trim()
+      )
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  /**
+   * 将 DrawingML 表格转换为 Markdown 表格（第一行作为表头）
+   */
+  private static renderTable($: cheerio.CheerioAPI, table: cheerio.Cheerio<any>): string {
+    const rows = table
+      .find('a\\:tr')
+      .toArray()
+      .map(tr =>
+        $(tr)
+          .find('a\\:tc')
+          .toArray()
+          .map(tc =>
+            PPTXLoader.extractText($, $(tc).find('a\\:txBody'))
+              .replace(/\n/g, ' ')
+              .replace(/\|/g, '\\|')
+          )
+      )
+      .filter(cells => cells.length > 0);
+
+    if (rows.length === 0) {
+      return '';
+    }
+
+    const columnCount = Math.max(...rows.map(cells => cells.length));
+    const renderRow = (cells: string[]) =>
+      `| ${Array.from({ length: columnCount }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+
+    return [
+      renderRow(rows[0]),
+      `| ${Array(columnCount).fill('---').join(' | ')} |`,
+      ...rows.slice(1).map(renderRow),
+    ].join('\n');
+  }
+
+  /**
+   * 解析 .rels 关系文件，返回 Id → 归一化后的 ZIP 路径
+   *
+   * @param xml - 关系文件内容
+   * @param baseDir - 相对路径的基准目录（如 'ppt/'）
+   * @param typeSuffix - 仅保留 Type 以该后缀结尾的关系
+   */
+  private static parseRelationships(
+    xml: string,
+    baseDir: string,
+    typeSuffix?: string
+  ): Map<string, string> {
+    const $ = cheerio.load(xml, { xml: true });
+    const relationships = new Map<string, string>();
+
+    $('Relationship').each((_, el) => {
+      const id = $(el).attr('Id');
+      const target = $(el).attr('Target');
+      const type = $(el).attr('Type') ?? '';
+      if (!id || !target || (typeSuffix && !type.endsWith(`/${typeSuffix}`))) {
+        return;
+      }
+      relationships.set(id, resolveZipPath(baseDir, target));
+    });
+
+    return relationships;
+  }
+
+  /**
+   * 动态导入 jszip 库
+   */
+  private static async importsJSZip() {
+    try {
+      const module = await import('jszip');
+      return (module as any).default ?? module;
+    } catch (e) {
+      PPTXLoader.logger.error('Failed to load jszip', { error: e instanceof Error ? e.message : String(e) });
+      throw new Error(
+        'Failed to load jszip. Please install it with: npm install jszip'
+      );
+    }
+  }
+}
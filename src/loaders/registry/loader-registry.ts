@@ -0,0 +1,642 @@
+import { Logger } from '@nestjs/common';
+import { BaseDocumentLoader } from '../base/base-loader';
+import { ArchiveLoader } from '../archive.loader';
+import { CodeLoader } from '../code.loader';
+import { CSVLoader } from '../csv.loader';
+import { DocxLoader } from '../docx.loader';
+import { EmailLoader, MboxLoader } from '../email.loader';
+import { EPUBLoader } from '../epub.loader';
+import { HTMLLoader } from '../html.loader';
+import { ImageLoader } from '../image.loader';
+import { JSONLoader } from '../json.loader';
+import { JSONLinesLoader } from '../jsonl.loader';
+import { MarkdownLoader } from '../markdown.loader';
+import { PDFLoader } from '../pdf.loader';
+import { PPTXLoader } from '../pptx.loader';
+import { TextLoader } from '../text.loader';
+import { XLSXLoader } from '../xlsx.loader';
+import { MIME_TYPES } from '../constants/mime-types';
+import { ContentTypeDetectionResult, ContentTypeDetector } from '../detection/content-type-detector';
+import { Document } from '../../models/document.model';
+import { UnsupportedFormatError } from '../../common/errors/document.errors';
+import { IOCRService } from '../../common/interfaces/ocr-service.interface';
+import { CODE_LANGUAGE_EXTENSIONS, detectCodeLanguage } from '../../splitters/code-language';
+
+/**
+ * Loader 创建上下文选项
+ *
+ * 由调用方（DocumentService / DirectoryLoader）传入，供 Loader 工厂读取
+ */
+export interface LoaderContextOptions {
+  /**
+   * OCR 服务实例（用于扫描 PDF 等需要 OCR 的格式）
+   */
+  ocrService?: IOCRService;
+
+  /**
+   * OCR 提示词
+   */
+  ocrPrompt?: string;
+
+  /**
+   * 是否自动检测扫描 PDF
+   * @default true
+   */
+  autoDetectScannedPdf?: boolean;
+
+  /**
+   * 是否将表格额外输出为独立的 Document（PDF / DOCX / XLSX / HTML）
+   * @default false
+   */
+  extractTables?: boolean;
+
+  /**
+   * 表格 Document 是否使用自然语言线性化文本作为 pageContent
+   * @default false
+   */
+  linearizeTables?: boolean;
+
+  /**
+   * 加密文档的打开密码（单次调用有效）
+   */
+  password?: string;
+
+  /**
+   * 内嵌文件处理函数（邮件附件等容器内的文件）
+   *
+   * DocumentService 传入时内嵌文件会复用其完整的检测 / 校验流程；
+   * 未提供时回退到 {@link LoaderRegistry.loadBuffer}
+   */
+  processAttachment?: AttachmentProcessor;
+
+  /**
+   * 当前内嵌文件的嵌套深度（顶层文件为 0，每经过一层附件 / 压缩包条目加 1）
+   *
+   * 由 processAttachment 的调用链传递，容器类 Loader 据此限制递归深度
+   * @default 0
+   */
+  attachmentDepth?: number;
+}
+
+/**
+ * 内嵌文件处理函数
+ *
+ * @param buffer - 文件内容
+ * @param filename - 文件名（用于选择 Loader）
+ * @param depth - 内嵌文件的嵌套深度（容器顶层的附件为 1）
+ * @returns 解析得到的文档
+ */
+export type AttachmentProcessor = (buffer: Buffer, filename: string, depth?: number) => Promise<Document[]>;
+
+/**
+ * Loader 创建上下文
+ */
+export interface LoaderContext {
+  /**
+   * 文件名或文件路径
+   */
+  filename: string;
+
+  /**
+   * 小写扩展名（带点，如 '.pdf'），无扩展名时为空字符串
+   */
+  extension: string;
+
+  /**
+   * MIME 类型（如果已知）
+   */
+  mimeType?: string;
+
+  /**
+   * 调用方提供的选项
+   */
+  options: LoaderContextOptions;
+
+  /**
+   * 当前使用的注册表（便于容器类 Loader 递归分发）
+   */
+  registry: LoaderRegistry;
+}
+
+/**
+ * Loader 工厂函数
+ */
+export type LoaderFactory = (
+  source: string | Blob,
+  context: LoaderContext,
+) => BaseDocumentLoader;
+
+/**
+ * Loader 注册项
+ */
+export interface LoaderRegistration {
+  /**
+   * 注册项名称（唯一，重复注册会覆盖同名项）
+   */
+  name: string;
+
+  /**
+   * 支持的文件扩展名（带或不带点均可，如 'pdf' 或 '.pdf'）
+   */
+  extensions?: string[];
+
+  /**
+   * 支持的 MIME 类型
+   */
+  mimeTypes?: string[];
+
+  /**
+   * 优先级，数值越大越优先；同优先级时后注册的优先
+   * @default 0
+   */
+  priority?: number;
+
+  /**
+   * Loader 工厂
+   */
+  factory: LoaderFactory;
+}
+
+/**
+ * Loader 查找条件
+ */
+export interface LoaderLookup {
+  /**
+   * 文件名或文件路径
+   */
+  filename?: string;
+
+  /**
+   * MIME 类型
+   */
+  mimeType?: string;
+
+  /**
+   * 是否优先按 MIME 类型匹配
+   *
+   * 内容检测结果可信（如命中魔数）时使用：先按 MIME 类型查找，
+   * 找不到再回退到常规匹配
+   * @default false
+   */
+  preferMimeType?: boolean;
+}
+
+/**
+ * 内部注册项（规范化后）
+ */
+interface NormalizedRegistration extends LoaderRegistration {
+  extensions: string[];
+  mimeTypes: string[];
+  priority: number;
+  order: number;
+}
+
+/**
+ * Loader 注册表
+ *
+ * 将文件扩展名和 MIME 类型映射到 Loader 工厂，替代硬编码的 switch 分支。
+ * DocumentService、DirectoryLoader 和 FileValidatorService 共享同一份注册表，
+ * 注册新格式后三者同时生效。
+ *
+ * 匹配规则：
+ * 1. 扩展名或 MIME 类型任一匹配即为候选
+ * 2. 优先级高者胜出；同优先级时扩展名匹配优先于 MIME 匹配，再按后注册者优先
+ *    （preferMimeType=true 时先单独按 MIME 类型匹配）
+ * 3. 无候选时抛出 UnsupportedFormatError（不再回退到 TextLoader）
+ *
+ * @example
+ * ```typescript
+ * const registry = LoaderRegistry.createDefault();
+ *
+ * // 注册自定义格式
+ * registry.register({
+ *   name: 'rtf',
+ *   extensions: ['rtf'],
+ *   mimeTypes: ['application/rtf'],
+ *   factory: (source) => new RtfLoader(source),
+ * });
+ *
+ * // 覆盖内置 Loader（更高优先级）
+ * registry.register({
+ *   name: 'my-pdf',
+ *   extensions: ['pdf'],
+ *   priority: 10,
+ *   factory: (source) => new MyPdfLoader(source),
+ * });
+ *
+ * const loader = registry.createLoader('report.pdf');
+ * ```
+ */
+export class LoaderRegistry {
+  private static readonly logger = new Logger(LoaderRegistry.name);
+  private readonly registrations = new Map<string, NormalizedRegistration>();
+  private order = 0;
+
+  /**
+   * 注册 Loader
+   *
+   * @param registration - 注册项
+   * @returns 当前注册表（便于链式调用）
+   */
+  register(registration: LoaderRegistration): this {
+    const extensions = (registration.extensions ?? []).map(LoaderRegistry.normalizeExtension);
+    const mimeTypes = (registration.mimeTypes ?? []).map(m => m.toLowerCase());
+
+    if (extensions.length === 0 && mimeTypes.length === 0) {
+      throw new Error(`Loader registration "${registration.name}" must declare extensions or mimeTypes`);
+    }
+
+    if (this.registrations.has(registration.name)) {
+      LoaderRegistry.logger.debug(`Overriding loader registration: ${registration.name}`);
+    }
+
+    this.registrations.set(registration.name, {
+      ...registration,
+      extensions,
+      mimeTypes,
+      priority: registration.priority ?? 0,
+      order: this.order++,
+    });
+
+    return this;
+  }
+
+  /**
+   * 批量注册 Loader
+   */
+  registerAll(registrations: LoaderRegistration[]): this {
+    for (const registration of registrations) {
+      this.register(registration);
+    }
+    return this;
+  }
+
+  /**
+   * 移除注册项
+   *
+   * @returns 是否存在并已移除
+   */
+  unregister(name: string): boolean {
+    return this.registrations.delete(name);
+  }
+
+  /**
+   * 查找匹配的注册项（未找到返回 undefined）
+   */
+  find(lookup: LoaderLookup): LoaderRegistration | undefined {
+    if (lookup.preferMimeType && lookup.mimeType) {
+      const byMime = this.find({ mimeType: lookup.mimeType });
+      if (byMime) {
+        return byMime;
+      }
+    }
+
+    const extension = lookup.filename ? LoaderRegistry.getExtension(lookup.filename) : '';
+    const mimeType = lookup.mimeType?.toLowerCase();
+
+    let best: { registration: NormalizedRegistration; byExtension: boolean } | undefined;
+
+    for (const registration of this.registrations.values()) {
+      const byExtension = !!extension && registration.extensions.includes(extension);
+      const byMime = !!mimeType && registration.mimeTypes.includes(mimeType);
+      if (!byExtension && !byMime) {
+        continue;
+      }
+
+      if (!best || LoaderRegistry.compare(registration, byExtension, best.registration, best.byExtension) > 0) {
+        best = { registration, byExtension };
+      }
+    }
+
+    return best?.registration;
+  }
+
+  /**
+   * 查找匹配的注册项（未找到抛出 UnsupportedFormatError）
+   */
+  resolve(lookup: LoaderLookup): LoaderRegistration {
+    const registration = this.find(lookup);
+    if (!registration) {
+      const extension = lookup.filename ? LoaderRegistry.getExtension(lookup.filename) : '';
+      throw new UnsupportedFormatError(extension || lookup.mimeType || 'unknown', {
+        filename: lookup.filename,
+        mimeType: lookup.mimeType,
+        supportedExtensions: this.getSupportedExtensions(),
+      });
+    }
+    return registration;
+  }
+
+  /**
+   * 判断文件是否受支持
+   */
+  isSupported(lookup: LoaderLookup): boolean {
+    return this.find(lookup) !== undefined;
+  }
+
+  /**
+   * 创建 Loader
+   *
+   * @param source - 文件路径或 Blob
+   * @param lookup - 查找条件；source 为路径时可省略 filename
+   * @param options - 传递给 Loader 工厂的上下文选项
+   */
+  createLoader(
+    source: string | Blob,
+    lookup: LoaderLookup = {},
+    options: LoaderContextOptions = {},
+  ): BaseDocumentLoader {
+    const filename = lookup.filename ?? (typeof source === 'string' ? source : '');
+    const registration = this.resolve({ ...lookup, filename });
+
+    return registration.factory(source, {
+      filename,
+      extension: LoaderRegistry.getExtension(filename),
+      mimeType: lookup.mimeType,
+      options,
+      registry: this,
+    });
+  }
+
+  /**
+   * 直接加载 Buffer（内容检测 + 选择 Loader + 加载，不经过处理器管道）
+   *
+   * @param buffer - 文件内容
+   * @param filename - 文件名
+   * @param options - 传递给 Loader 工厂的上下文选项
+   */
+  async loadBuffer(
+    buffer: Buffer,
+    filename: string,
+    options: LoaderContextOptions = {},
+  ): Promise<Document[]> {
+    const detection = ContentTypeDetector.detect(buffer);
+    const blob = new Blob(
+      [new Uint8Array(buffer.buffer as ArrayBuffer, buffer.byteOffset, buffer.byteLength)],
+      { type: detection?.mimeType ?? '' },
+    );
+    const loader = this.createLoader(blob, LoaderRegistry.lookupFor(filename, detection), options);
+    return loader.load();
+  }
+
+  /**
+   * 获取所有受支持的扩展名（不带点，与 FileValidatorService 的格式一致）
+   */
+  getSupportedExtensions(): string[] {
+    const extensions = new Set<string>();
+    for (const registration of this.registrations.values()) {
+      for (const ext of registration.extensions) {
+        extensions.add(ext.slice(1));
+      }
+    }
+    return [...extensions];
+  }
+
+  /**
+   * 获取所有受支持的 MIME 类型
+   */
+  getSupportedMimeTypes(): string[] {
+    const mimeTypes = new Set<string>();
+    for (const registration of this.registrations.values()) {
+      for (const mime of registration.mimeTypes) {
+        mimeTypes.add(mime);
+      }
+    }
+    return [...mimeTypes];
+  }
+
+  /**
+   * 获取所有注册项
+   */
+  getRegistrations(): LoaderRegistration[] {
+    return [...this.registrations.values()];
+  }
+
+  /**
+   * 创建包含内置 Loader 的注册表
+   *
+   * @param extra - 额外的注册项（可覆盖内置项）
+   */
+  static createDefault(extra: LoaderRegistration[] = []): LoaderRegistry {
+    return new LoaderRegistry()
+      .registerAll(LoaderRegistry.builtinRegistrations())
+      .registerAll(extra);
+  }
+
+  /**
+   * 内置 Loader 注册项
+   */
+  static builtinRegistrations(): LoaderRegistration[] {
+    return [
+      {
+        name: 'text',
+        extensions: ['txt', 'text'],
+        mimeTypes: [MIME_TYPES.TEXT.PLAIN],
+        factory: (source) => new TextLoader(source),
+      },
+      {
+        name: 'markdown',
+        extensions: ['md', 'markdown'],
+        mimeTypes: [MIME_TYPES.TEXT.MARKDOWN],
+        factory: (source) => new MarkdownLoader(source),
+      },
+      {
+        name: 'pdf',
+        extensions: ['pdf'],
+        mimeTypes: [MIME_TYPES.DOCUMENT.PDF],
+        factory: (source, { options }) =>
+          new PDFLoader(source, {
+            autoDetectScanned: options.autoDetectScannedPdf,
+            password: options.password,
+            extractTables: options.extractTables,
+            linearizeTables: options.linearizeTables,
+            scannedPdfOptions: {
+              ocrService: options.ocrService,
+              ocrPrompt: options.ocrPrompt,
+            },
+          }),
+      },
+      {
+        name: 'image',
+        extensions: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'tif', 'tiff'],
+        mimeTypes: [
+          MIME_TYPES.IMAGE.JPEG,
+          MIME_TYPES.IMAGE.PNG,
+          MIME_TYPES.IMAGE.GIF,
+          MIME_TYPES.IMAGE.WEBP,
+          MIME_TYPES.IMAGE.TIFF,
+        ],
+        factory: (source, { options }) =>
+          new ImageLoader(source, {
+            ocrService: options.ocrService,
+            ocrPrompt: options.ocrPrompt,
+          }),
+      },
+      {
+        name: 'docx',
+        extensions: ['docx'],
+        mimeTypes: [MIME_TYPES.DOCUMENT.DOCX],
+        factory: (source, { options }) =>
+          new DocxLoader(source, {
+            extractTables: options.extractTables,
+            linearizeTables: options.linearizeTables,
+          }),
+      },
+      {
+        name: 'doc',
+        extensions: ['doc'],
+        mimeTypes: [MIME_TYPES.DOCUMENT.DOC],
+        factory: (source) => new DocxLoader(source, { type: 'doc' }),
+      },
+      {
+        name: 'pptx',
+        extensions: ['pptx'],
+        mimeTypes: [MIME_TYPES.PRESENTATION.PPTX],
+        factory: (source) => new PPTXLoader(source),
+      },
+      {
+        name: 'epub',
+        extensions: ['epub'],
+        mimeTypes: [MIME_TYPES.DOCUMENT.EPUB],
+        factory: (source) => new EPUBLoader(source),
+      },
+      {
+        name: 'eml',
+        extensions: ['eml'],
+        mimeTypes: [MIME_TYPES.EMAIL.EML],
+        factory: (source, context) =>
+          new EmailLoader(source, {
+            processAttachment: LoaderRegistry.attachmentProcessor(context),
+            depth: context.options.attachmentDepth,
+          }),
+      },
+      {
+        name: 'mbox',
+        extensions: ['mbox'],
+        mimeTypes: [MIME_TYPES.EMAIL.MBOX],
+        factory: (source, context) =>
+          new MboxLoader(source, {
+            processAttachment: LoaderRegistry.attachmentProcessor(context),
+            depth: context.options.attachmentDepth,
+          }),
+      },
+      {
+        name: 'archive',
+        extensions: ['zip', 'tar', 'tgz', 'gz'],
+        mimeTypes: [MIME_TYPES.OTHER.ZIP, MIME_TYPES.OTHER.TAR, MIME_TYPES.OTHER.GZIP],
+        factory: (source, { filename, options, registry }) =>
+          new ArchiveLoader(source, {
+            loaderRegistry: registry,
+            loaderContextOptions: options,
+            sourceName: filename,
+          }),
+      },
+      {
+        name: 'xlsx',
+        extensions: ['xlsx', 'xls'],
+        mimeTypes: [MIME_TYPES.SPREADSHEET.XLSX, MIME_TYPES.SPREADSHEET.XLS],
+        factory: (source, { options }) =>
+          new XLSXLoader(source, {
+            extractTables: options.extractTables,
+            linearizeTables: options.linearizeTables,
+          }),
+      },
+      {
+        name: 'html',
+        extensions: ['html', 'htm'],
+        mimeTypes: [MIME_TYPES.TEXT.HTML],
+        factory: (source, { options }) =>
+          new HTMLLoader(source, {
+            extractTables: options.extractTables,
+            linearizeTables: options.linearizeTables,
+          }),
+      },
+      {
+        name: 'json',
+        extensions: ['json'],
+        mimeTypes: [MIME_TYPES.DATA.JSON],
+        factory: (source) => new JSONLoader(source),
+      },
+      {
+        name: 'jsonl',
+        extensions: ['jsonl', 'ndjson'],
+        mimeTypes: [MIME_TYPES.DATA.JSONL],
+        factory: (source) => new JSONLinesLoader(source),
+      },
+      {
+        name: 'csv',
+        extensions: ['csv'],
+        mimeTypes: [MIME_TYPES.TEXT.CSV],
+        factory: (source) => new CSVLoader(source),
+      },
+      {
+        name: 'code',
+        extensions: Object.keys(CODE_LANGUAGE_EXTENSIONS),
+        mimeTypes: [MIME_TYPES.TEXT.JAVASCRIPT],
+        factory: (source, { filename }) =>
+          new CodeLoader(source, { language: detectCodeLanguage(filename) }),
+      },
+    ];
+  }
+
+  /**
+   * 容器类 Loader 的内嵌文件处理函数：优先使用调用方提供的，否则用当前注册表直接加载
+   */
+  private static attachmentProcessor({ options, registry }: LoaderContext): AttachmentProcessor {
+    return options.processAttachment ?? ((buffer, filename, depth) =>
+      registry.loadBuffer(buffer, filename, { ...options, attachmentDepth: depth }));
+  }
+
+  /**
+   * 根据内容检测结果构造查找条件
+   *
+   * 可信的检测结果（魔数命中）优先按 MIME 类型匹配；低可信度的文本特征（text/plain、HTML、JSON）
+   * 只在文件名没有扩展名时使用，未知扩展名不会因为内容像文本而被当作文本加载
+   */
+  static lookupFor(filename: string, detection?: ContentTypeDetectionResult): LoaderLookup {
+    const useDetection = !!detection && (detection.confident || !LoaderRegistry.getExtension(filename));
+    return {
+      filename,
+      mimeType: useDetection ? detection!.mimeType : undefined,
+      preferMimeType: detection?.confident ?? false,
+    };
+  }
+
+  /**
+   * 获取小写扩展名（带点）
+   */
+  static getExtension(filename: string): string {
+    const base = filename.split(/[\\/]/).pop() ?? '';
+    const dotIndex = base.lastIndexOf('.');
+    if (dotIndex <= 0 || dotIndex === base.length - 1) {
+      return '';
+    }
+    return base.slice(dotIndex).toLowerCase();
+  }
+
+  /**
+   * 规范化扩展名（小写、带点）
+   */
+  private static normalizeExtension(ext: string): string {
+    const lower = ext.toLowerCase();
+    return lower.startsWith('.') ? lower : `.${lower}`;
+  }
+
+  /**
+   * 比较两个候选注册项（> 0 表示 a 更优）
+   */
+  private static compare(
+    a: NormalizedRegistration,
+    aByExtension: boolean,
+    b: NormalizedRegistration,
+    bByExtension: boolean,
+  ): number {
+    if (a.priority !== b.priority) {
+      return a.priority - b.priority;
+    }
+    if (aByExtension !== bByExtension) {
+      return aByExtension ? 1 : -1;
+    }
+    return a.order - b.order;
+  }
+}
@@ -0,0 +1,6 @@
+export * from './zip-path';
+export * from './pdf-password';
+export * from './table';
+export * from './json-path';
+export * from './json-stream';
+export * from './json-content';
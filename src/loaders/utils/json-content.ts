@@ -0,0 +1,72 @@
+/**
+ * JSON 值转换为文档内容的选项
+ */
+export interface JsonContentOptions {
+  /**
+   * 内容字段名，指定时提取该字段作为 pageContent
+   */
+  contentKey?: string;
+
+  /**
+   * 元数据字段，这些字段会被添加到 metadata，而不是 pageContent
+   */
+  metadataKeys?: string[];
+
+  /**
+   * 是否格式化输出
+   * @default true
+   */
+  prettify?: boolean;
+}
+
+/**
+ * 从 JSON 值中提取内容和元数据（JSONLoader / JSONLinesLoader 共用）
+ *
+ * - 基本类型直接转换为字符串
+ * - 对象的 metadataKeys 字段移入元数据；有 contentKey 时取该字段作为内容，否则序列化剩余字段
+ */
+export function extractJsonContent(
+  item: any,
+  options: JsonContentOptions = {}
+): {
+  content: string;
+  itemMetadata: Record<string, any>;
+} {
+  const prettify = options.prettify ?? true;
+
+  if (typeof item !== 'object' || item === null) {
+    // 基本类型，直接转换为字符串
+    return {
+      content: String(item),
+      itemMetadata: {},
+    };
+  }
+
+  const itemMetadata: Record<string, any> = {};
+  const contentObj: any = { ...item };
+
+  // 提取元数据字段
+  for (const key of options.metadataKeys ?? []) {
+    if (key in item) {
+      itemMetadata[key] = item[key];
+      delete contentObj[key];
+    }
+  }
+
+  // 提取内容字段
+  let content: string;
+  if (options.contentKey && options.contentKey in item) {
+    const contentValue = item[options.contentKey];
+    content =
+      typeof contentValue === 'string'
+        ? contentValue
+        : JSON.stringify(contentValue, null, prettify ? 2 : 0);
+  } else {
+    // 使用剩余字段作为内容
+    content = prettify
+      ? JSON.stringify(contentObj, null, 2)
+      : JSON.stringify(contentObj);
+  }
+
+  return { content, itemMetadata };
+}
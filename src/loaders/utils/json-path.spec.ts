@@ -0,0 +1,125 @@
+import { jsonPointerToSegments, parseJsonPath, queryJsonPath, toJsonPointer } from './json-path';
+
+const STORE = {
+  store: {
+    book: [
+      { category: 'reference', author: 'Nigel Rees', title: 'Sayings of the Century', price: 8.95 },
+      { category: 'fiction', author: 'Evelyn Waugh', title: 'Sword of Honour', price: 12.99 },
+      { category: 'fiction', author: 'Herman Melville', title: 'Moby Dick', isbn: '0-553-21311-3', price: 8.99 },
+      { category: 'fiction', author: 'J. R. R. Tolkien', title: 'The Lord of the Rings', isbn: '0-395-19395-8', price: 22.99 },
+    ],
+    bicycle: { color: 'red', price: 19.95 },
+  },
+  expensive: 10,
+};
+
+// Helper function to get matched values
+function values(path: string, data: unknown = STORE): unknown[] {
+  return queryJsonPath(data, path).map(match => match.value);
+}
+
+// Helper function to get matched pointers
+function pointers(path: string, data: unknown = STORE): string[] {
+  return queryJsonPath(data, path).map(match => match.pointer);
+}
+
+describe('queryJsonPath', () => {
+  it('should select names, indexes and unions', () => {
+    expect(values('$.store.bicycle.color')).toEqual(['red']);
+    expect(values("$['store']['book'][0].title")).toEqual(['Sayings of the Century']);
+    expect(values('$.store.book[-1].title')).toEqual(['The Lord of the Rings']);
+    expect(values('$.store.book[0,2].price')).toEqual([8.95, 8.99]);
+    expect(values("$.store.bicycle['color','price']")).toEqual(['red', 19.95]);
+  });
+
+  it('should select wildcards with pointers in document order', () => {
+    expect(pointers('$.store.book[*].author')).toEqual([
+      '/store/book/0/author',
+      '/store/book/1/author',
+      '/store/book/2/author',
+      '/store/book/3/author',
+    ]);
+    expect(values('$.store.bicycle.*')).toEqual(['red', 19.95]);
+  });
+
+  it('should select slices like Python', () => {
+    const data = { items: [0, 1, 2, 3, 4, 5] };
+
+    expect(values('$.items[1:3]', data)).toEqual([1, 2]);
+    expect(values('$.items[:2]', data)).toEqual([0, 1]);
+    expect(values('$.items[-2:]', data)).toEqual([4, 5]);
+    expect(values('$.items[::2]', data)).toEqual([0, 2, 4]);
+    expect(values('$.items[::-1]', data)).toEqual([5, 4, 3, 2, 1, 0]);
+  });
+
+  it('should select descendants with recursive descent', () => {
+    expect(values('$..author')).toEqual(['Nigel Rees', 'Evelyn Waugh', 'Herman Melville', 'J. R. R. Tolkien']);
+    expect(values('$..price')).toEqual([8.95, 12.99, 8.99, 22.99, 19.95]);
+    expect(values('$..book[2].title')).toEqual(['Moby Dick']);
+  });
+
+  describe('Filters', () => {
+    it('should compare with literals', () => {
+      expect(values('$.store.book[?(@.price < 10)].title')).toEqual(['Sayings of the Century', 'Moby Dick']);
+      expect(values("$.store.book[?(@.category == 'reference')].author")).toEqual(['Nigel Rees']);
+      expect(values('$.store.book[?(@.price >= 12.99 && @.category != "reference")].title')).toEqual([
+        'Sword of Honour',
+        'The Lord of the Rings',
+      ]);
+    });
+
+    it('should test existence and negation', () => {
+      expect(values('$.store.book[?(@.isbn)].title')).toEqual(['Moby Dick', 'The Lord of the Rings']);
+      expect(values('$.store.book[?(!@.isbn)].title')).toEqual(['Sayings of the Century', 'Sword of Honour']);
+    });
+
+    it('should support regex, grouping and root references', () => {
+      expect(values('$.store.book[?(@.author =~ /tolkien/i)].title')).toEqual(['The Lord of the Rings']);
+      expect(values('$.store.book[?((@.price < 9 || @.price > 20) && @.isbn)].title')).toEqual([
+        'Moby Dick',
+        'The Lord of the Rings',
+      ]);
+      expect(values('$.store.book[?(@.price > $.expensive)].title')).toEqual([
+        'Sword of Honour',
+        'The Lord of the Rings',
+      ]);
+    });
+  });
+
+  it('should return no matches for missing paths', () => {
+    expect(values('$.store.missing')).toEqual([]);
+    expect(values('$.store.book[10]')).toEqual([]);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => parseJsonPath('$.store[')).toThrow();
+    expect(() => parseJsonPath('$.store.book[?(@.price <)]')).toThrow();
+  });
+});
+
+describe('JSON Pointer', () => {
+  it('should escape ~ and / in pointers', () => {
+    const data = { 'a/b': { 'm~n': 1 } };
+
+    expect(pointers('$.*.*', data)).toEqual(['/a~1b/m~0n']);
+    expect(toJsonPointer(['a/b', 'm~n', 0])).toBe('/a~1b/m~0n/0');
+  });
+
+  it('should unescape pointers into segments', () => {
+    const data = { 'a/b': { 'm~n': [10, 20] } };
+
+    expect(queryJsonPath(data, jsonPointerToSegments('/a~1b/m~0n/1')).map(match => match.value)).toEqual([20]);
+    expect(queryJsonPath(data, jsonPointerToSegments('/a~1b/m~0n/*')).map(match => match.pointer)).toEqual([
+      '/a~1b/m~0n/0',
+      '/a~1b/m~0n/1',
+    ]);
+  });
+
+  it('should treat the empty pointer as the whole document', () => {
+    expect(queryJsonPath(STORE, jsonPointerToSegments('')).map(match => match.pointer)).toEqual(['']);
+  });
+
+  it('should reject pointers without a leading slash', () => {
+    expect(() => jsonPointerToSegments('a/b')).toThrow('Invalid JSON Pointer');
+  });
+});
@@ -0,0 +1,664 @@
+/**
+ * JSON 值在文档中的路径（对象键或数组下标）
+ */
+export type JsonPathKey = string | number;
+
+/**
+ * JSONPath 选择器
+ * - keys: 名称 / 下标（含并集，如 ['a','b'] 或 [0,2]）
+ * - wildcard: 所有子节点（* 或 [*]）
+ * - slice: 数组切片（[start:end:step]）
+ * - filter: 过滤表达式（[?(@.price < 10)]）
+ */
+export type JsonPathSelector =
+  | { kind: 'keys'; keys: JsonPathKey[] }
+  | { kind: 'wildcard' }
+  | { kind: 'slice'; start?: number; end?: number; step?: number }
+  | { kind: 'filter'; expression: FilterNode; usesRoot: boolean };
+
+/**
+ * JSONPath 路径段
+ */
+export interface JsonPathSegment {
+  selector: JsonPathSelector;
+  /**
+   * 是否为递归下降（..），作用于当前节点及其所有后代
+   */
+  descendant: boolean;
+}
+
+/**
+ * JSONPath 匹配结果
+ */
+export interface JsonPathMatch {
+  value: unknown;
+  /**
+   * 从根节点到匹配值的路径
+   */
+  path: JsonPathKey[];
+  /**
+   * RFC 6901 JSON Pointer（如 "/items/0/name"，根节点为 ""）
+   */
+  pointer: string;
+}
+
+/**
+ * 过滤表达式语法树
+ */
+export type FilterNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'regex'; pattern: RegExp }
+  | { type: 'path'; root: '@' | '$'; keys: JsonPathKey[] }
+  | { type: 'not'; operand: FilterNode }
+  | { type: 'logical'; operator: '&&' | '||'; left: FilterNode; right: FilterNode }
+  | { type: 'compare'; operator: '==' | '!=' | '<' | '<=' | '>' | '>=' | '=~'; left: FilterNode; right: FilterNode };
+
+/**
+ * 解析 JSONPath 表达式
+ *
+ * 支持的语法：
+ * - `$` 根节点，`.name` / `['name']` 子节点，`[0]` / `[-1]` 下标，`['a','b']` / `[0,2]` 并集
+ * - `*` / `[*]` 通配符，`..name` / `..*` / `..[0]` 递归下降，`[start:end:step]` 切片
+ * - `[?(@.price < 10 && @.tags)]` 过滤：==、!=、<、<=、>、>=、=~（正则）、&&、||、!、括号，
+ *   操作数为 @ / $ 开头的相对 / 绝对路径、数字、字符串、true / false / null；单独的路径表示存在性判断
+ *
+ * @throws Error 表达式语法错误时
+ *
+ * @example
+ * ```typescript
+ * parseJsonPath('$.store.book[?(@.price < 10)].title');
+ * ```
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  const text = path.trim();
+  if (!text.startsWith('$')) {
+    throw new Error(`Invalid JSONPath "${path}": must start with "$"`);
+  }
+
+  const segments: JsonPathSegment[] = [];
+  let pos = 1;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid JSONPath "${path}" at position ${pos}: ${message}`);
+  };
+
+  while (pos < text.length) {
+    let descendant = false;
+
+    if (text.startsWith('..', pos)) {
+      descendant = true;
+      pos += 2;
+    } else if (text[pos] === '.') {
+      pos++;
+    } else if (text[pos] !== '[') {
+      fail(`unexpected "${text[pos]}"`);
+    }
+
+    if (text[pos] === '[') {
+      const end = findClosingBracket(text, pos);
+      if (end < 0) {
+        fail('unclosed "["');
+      }
+      segments.push({ selector: parseBracket(text.slice(pos + 1, end).trim(), fail), descendant });
+      pos = end + 1;
+    } else if (text[pos] === '*') {
+      segments.push({ selector: { kind: 'wildcard' }, descendant });
+      pos++;
+    } else {
+      const name = /^[^.[\]\s]+/.exec(text.slice(pos))?.[0];
+      if (!name) {
+        fail('expected a member name');
+      }
+      segments.push({ selector: { kind: 'keys', keys: [name!] }, descendant });
+      pos += name!.length;
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * 在 JSON 数据上执行 JSONPath 查询
+ *
+ * @param data - 查询的根节点
+ * @param path - JSONPath 表达式或已解析的路径段
+ * @param basePath - 根节点自身的路径（用于计算匹配结果的 pointer）
+ * @returns 按文档顺序排列的匹配结果
+ */
+export function queryJsonPath(
+  data: unknown,
+  path: string | JsonPathSegment[],
+  basePath: JsonPathKey[] = []
+): JsonPathMatch[] {
+  const segments = typeof path === 'string' ? parseJsonPath(path) : path;
+  let nodes: Array<{ value: unknown; path: JsonPathKey[] }> = [{ value: data, path: basePath }];
+
+  for (const segment of segments) {
+    const next: typeof nodes = [];
+    for (const node of nodes) {
+      for (const target of segment.descendant ? descendants(node) : [node]) {
+        next.push(...applySelector(segment.selector, target, data));
+      }
+    }
+    nodes = next;
+  }
+
+  return nodes.map(node => ({ ...node, pointer: toJsonPointer(node.path) }));
+}
+
+/**
+ * 将 JSON Pointer（RFC 6901）转换为路径段
+ *
+ * 除标准语法外，值为 "*" 的引用记号匹配所有子节点（如 "/messages/*\/content"）
+ *
+ * @throws Error pointer 不以 "/" 开头（且不为空）时
+ */
+export function jsonPointerToSegments(pointer: string): JsonPathSegment[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer "${pointer}": must be empty or start with "/"`);
+  }
+
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .map(token => ({
+      selector: token === '*' ? { kind: 'wildcard' } : { kind: 'keys', keys: [token] },
+      descendant: false,
+    }));
+}
+
+/**
+ * 将路径转换为 RFC 6901 JSON Pointer（"~" 转义为 "~0"，"/" 转义为 "~1"）
+ */
+export function toJsonPointer(path: JsonPathKey[]): string {
+  return path.map(key => '/' + String(key).replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+/**
+ * 选择器是否匹配父节点中的某个子节点（不含 filter 的判断，filter 总是返回 true）
+ *
+ * 用于不知道数组长度的场景（如流式解析）：负数下标和带负数边界的切片不会匹配。
+ * 名称选择器在数组上按下标匹配（"0" 匹配下标 0），便于使用 JSON Pointer 记号
+ */
+export function selectorMatchesKey(selector: JsonPathSelector, key: JsonPathKey): boolean {
+  switch (selector.kind) {
+    case 'wildcard':
+    case 'filter':
+      return true;
+    case 'keys':
+      return selector.keys.some(candidate =>
+        typeof key === 'number'
+          ? (typeof candidate === 'number' ? candidate : toIndex(candidate)) === key
+          : candidate === key
+      );
+    case 'slice': {
+      const { start = 0, end, step = 1 } = selector;
+      return typeof key === 'number'
+        && start >= 0 && step > 0 && (end === undefined || end >= 0)
+        && key >= start && (end === undefined || key < end) && (key - start) % step === 0;
+    }
+  }
+}
+
+/**
+ * 计算过滤表达式（@ 为当前子节点，$ 为根节点）
+ */
+export function evaluateFilter(node: FilterNode, current: unknown, root?: unknown): boolean {
+  return truthy(evaluateNode(node, current, root));
+}
+
+// ========== 查询实现 ==========
+
+function applySelector(
+  selector: JsonPathSelector,
+  node: { value: unknown; path: JsonPathKey[] },
+  root: unknown
+): Array<{ value: unknown; path: JsonPathKey[] }> {
+  const { value, path } = node;
+  const results: Array<{ value: unknown; path: JsonPathKey[] }> = [];
+
+  if (Array.isArray(value)) {
+    if (selector.kind === 'keys') {
+      for (const key of selector.keys) {
+        const index = typeof key === 'number' ? key : toIndex(key);
+        if (index === undefined) continue;
+        const actual = index < 0 ? value.length + index : index;
+        if (actual >= 0 && actual < value.length) {
+          results.push({ value: value[actual], path: [...path, actual] });
+        }
+      }
+    } else if (selector.kind === 'slice') {
+      for (const index of sliceIndices(selector, value.length)) {
+        results.push({ value: value[index], path: [...path, index] });
+      }
+    } else {
+      value.forEach((item, index) => {
+        if (selector.kind === 'wildcard' || evaluateFilter(selector.expression, item, root)) {
+          results.push({ value: item, path: [...path, index] });
+        }
+      });
+    }
+  } else if (isObject(value)) {
+    if (selector.kind === 'keys') {
+      for (const key of selector.keys) {
+        if (typeof key === 'string' && Object.prototype.hasOwnProperty.call(value, key)) {
+          results.push({ value: value[key], path: [...path, key] });
+        }
+      }
+    } else if (selector.kind !== 'slice') {
+      for (const [key, item] of Object.entries(value)) {
+        if (selector.kind === 'wildcard' || evaluateFilter(selector.expression, item, root)) {
+          results.push({ value: item, path: [...path, key] });
+        }
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * 节点自身及其所有后代（文档顺序）
+ */
+function descendants(node: { value: unknown; path: JsonPathKey[] }): Array<{ value: unknown; path: JsonPathKey[] }> {
+  const result = [node];
+  const children: Array<[JsonPathKey, unknown]> = Array.isArray(node.value)
+    ? node.value.map((item, index) => [index, item])
+    : isObject(node.value)
+      ? Object.entries(node.value)
+      : [];
+
+  for (const [key, value] of children) {
+    result.push(...descendants({ value, path: [...node.path, key] }));
+  }
+  return result;
+}
+
+/**
+ * 切片选中的下标（与 Python 切片语义一致）
+ */
+function sliceIndices(selector: { start?: number; end?: number; step?: number }, length: number): number[] {
+  const step = selector.step ?? 1;
+  if (step === 0) {
+    return [];
+  }
+
+  const normalize = (index: number) => (index < 0 ? Math.max(length + index, step > 0 ? 0 : -1) : Math.min(index, step > 0 ? length : length - 1));
+  const start = selector.start !== undefined ? normalize(selector.start) : step > 0 ? 0 : length - 1;
+  const end = selector.end !== undefined ? normalize(selector.end) : step > 0 ? length : -1;
+
+  const indices: number[] = [];
+  for (let i = start; step > 0 ? i < end : i > end; i += step) {
+    indices.push(i);
+  }
+  return indices;
+}
+
+function toIndex(key: string): number | undefined {
+  return /^-?(0|[1-9]\d*)$/.test(key) ? Number(key) : undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ========== 路径解析 ==========
+
+/**
+ * 查找与 text[start] 处 "[" 匹配的 "]"（忽略引号、圆括号和正则内的内容）
+ */
+function findClosingBracket(text: string, start: number): number {
+  let depth = 0;
+  let quote: string | undefined;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === ')') {
+      depth--;
+      if (depth === 0) {
+        return char === ']' ? i : -1;
+      }
+    }
+  }
+  return -1;
+}
+
+function parseBracket(content: string, fail: (message: string) => never): JsonPathSelector {
+  if (content === '*') {
+    return { kind: 'wildcard' };
+  }
+
+  if (content.startsWith('?')) {
+    const source = content.slice(1).trim();
+    const expression = source.startsWith('(') && source.endsWith(')') ? source.slice(1, -1) : source;
+    const parser = new FilterParser(expression);
+    return { kind: 'filter', expression: parser.parse(), usesRoot: parser.usesRoot };
+  }
+
+  const parts = splitTopLevel(content, ',');
+  if (parts.length === 1 && splitTopLevel(content, ':').length > 1) {
+    const [start, end, step] = splitTopLevel(content, ':').map(part => part.trim());
+    const toNumber = (value: string | undefined) => {
+      if (value === undefined || value === '') return undefined;
+      if (!/^-?\d+$/.test(value)) fail(`invalid slice "${content}"`);
+      return Number(value);
+    };
+    return { kind: 'slice', start: toNumber(start), end: toNumber(end), step: toNumber(step) };
+  }
+
+  return {
+    kind: 'keys',
+    keys: parts.map(part => {
+      const key = part.trim();
+      if (/^-?\d+$/.test(key)) {
+        return Number(key);
+      }
+      if (/^'.*'$|^".*"$/s.test(key)) {
+        return unquote(key);
+      }
+      return fail(`invalid selector "${key}"`);
+    }),
+  };
+}
+
+/**
+ * 按分隔符拆分（忽略引号内的分隔符）
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | undefined;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+/**
+ * 去除字符串字面量的引号并处理转义
+ */
+function unquote(literal: string): string {
+  if (literal[0] === '"') {
+    return JSON.parse(literal);
+  }
+  return literal.slice(1, -1).replace(/\\(.)/g, (_, char: string) => (char === 'n' ? '\n' : char === 't' ? '\t' : char));
+}
+
+// ========== 过滤表达式 ==========
+
+type FilterToken =
+  | { type: 'path'; root: '@' | '$'; keys: JsonPathKey[] }
+  | { type: 'literal'; value: unknown }
+  | { type: 'regex'; pattern: RegExp }
+  | { type: 'operator'; value: string };
+
+/**
+ * 过滤表达式解析器（递归下降：|| → && → ! → 比较 → 基本项）
+ */
+class FilterParser {
+  usesRoot = false;
+  private readonly tokens: FilterToken[];
+  private pos = 0;
+
+  constructor(private readonly source: string) {
+    this.tokens = this.tokenize();
+  }
+
+  parse(): FilterNode {
+    const node = this.parseOr();
+    if (this.pos < this.tokens.length) {
+      this.fail('unexpected token');
+    }
+    return node;
+  }
+
+  private parseOr(): FilterNode {
+    let left = this.parseAnd();
+    while (this.peekOperator('||')) {
+      this.pos++;
+      left = { type: 'logical', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterNode {
+    let left = this.parseUnary();
+    while (this.peekOperator('&&')) {
+      this.pos++;
+      left = { type: 'logical', operator: '&&', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): FilterNode {
+    if (this.peekOperator('!')) {
+      this.pos++;
+      return { type: 'not', operand: this.parseUnary() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): FilterNode {
+    const left = this.parsePrimary();
+    const token = this.tokens[this.pos];
+    if (token?.type === 'operator' && ['==', '!=', '<', '<=', '>', '>=', '=~'].includes(token.value)) {
+      this.pos++;
+      const operator = token.value as Extract<FilterNode, { type: 'compare' }>['operator'];
+      return { type: 'compare', operator, left, right: this.parsePrimary() };
+    }
+    return left;
+  }
+
+  private parsePrimary(): FilterNode {
+    const token = this.tokens[this.pos++];
+    if (!token) {
+      return this.fail('unexpected end of expression');
+    }
+    if (token.type === 'operator') {
+      if (token.value !== '(') {
+        return this.fail(`unexpected "${token.value}"`);
+      }
+      const node = this.parseOr();
+      if (!this.peekOperator(')')) {
+        return this.fail('expected ")"');
+      }
+      this.pos++;
+      return node;
+    }
+    return token;
+  }
+
+  private peekOperator(value: string): boolean {
+    const token = this.tokens[this.pos];
+    return token?.type === 'operator' && token.value === value;
+  }
+
+  private tokenize(): FilterToken[] {
+    const tokens: FilterToken[] = [];
+    const text = this.source;
+    let i = 0;
+
+    while (i < text.length) {
+      const rest = text.slice(i);
+      const whitespace = /^\s+/.exec(rest);
+      if (whitespace) {
+        i += whitespace[0].length;
+        continue;
+      }
+
+      const char = text[i];
+      if (char === '@' || char === '$') {
+        const keys: JsonPathKey[] = [];
+        i++;
+        for (;;) {
+          const member = /^\.([^\s.[\]()=!<>&|~]+)/.exec(text.slice(i));
+          if (member) {
+            keys.push(member[1]);
+            i += member[0].length;
+            continue;
+          }
+          if (text[i] === '[') {
+            const end = findClosingBracket(text, i);
+            if (end < 0) this.fail('unclosed "["');
+            const selector = parseBracket(text.slice(i + 1, end).trim(), message => this.fail(message));
+            if (selector.kind !== 'keys' || selector.keys.length !== 1) {
+              this.fail('only single names and indices are supported in filter paths');
+            }
+            keys.push((selector as { keys: JsonPathKey[] }).keys[0]);
+            i = end + 1;
+            continue;
+          }
+          break;
+        }
+        if (char === '$') {
+          this.usesRoot = true;
+        }
+        tokens.push({ type: 'path', root: char, keys });
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        let end = i + 1;
+        while (end < text.length && text[end] !== char) {
+          end += text[end] === '\\' ? 2 : 1;
+        }
+        if (end >= text.length) this.fail('unterminated string');
+        tokens.push({ type: 'literal', value: unquote(text.slice(i, end + 1)) });
+        i = end + 1;
+        continue;
+      }
+
+      // 正则字面量只出现在 =~ 之后
+      const previous = tokens[tokens.length - 1];
+      if (char === '/' && previous?.type === 'operator' && previous.value === '=~') {
+        const regex = /^\/((?:\\.|[^\\/])*)\/([a-z]*)/.exec(rest);
+        if (!regex) this.fail('invalid regular expression');
+        tokens.push({ type: 'regex', pattern: new RegExp(regex![1], regex![2]) });
+        i += regex![0].length;
+        continue;
+      }
+
+      const number = /^-?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(rest);
+      if (number) {
+        tokens.push({ type: 'literal', value: Number(number[0]) });
+        i += number[0].length;
+        continue;
+      }
+
+      const keyword = /^(true|false|null)\b/.exec(rest);
+      if (keyword) {
+        tokens.push({ type: 'literal', value: JSON.parse(keyword[1]) });
+        i += keyword[0].length;
+        continue;
+      }
+
+      const operator = /^(==|!=|<=|>=|=~|&&|\|\||[<>!()])/.exec(rest);
+      if (operator) {
+        tokens.push({ type: 'operator', value: operator[1] });
+        i += operator[0].length;
+        continue;
+      }
+
+      this.fail(`unexpected "${char}"`);
+    }
+
+    return tokens;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Invalid JSONPath filter "${this.source}": ${message}`);
+  }
+}
+
+function evaluateNode(node: FilterNode, current: unknown, root: unknown): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'regex':
+      return node.pattern;
+    case 'path': {
+      let value: unknown = node.root === '@' ? current : root;
+      for (const key of node.keys) {
+        if (Array.isArray(value)) {
+          const index = typeof key === 'number' ? key : toIndex(key);
+          value = index === undefined ? undefined : value[index < 0 ? value.length + index : index];
+        } else if (isObject(value) && typeof key === 'string' && Object.prototype.hasOwnProperty.call(value, key)) {
+          value = value[key];
+        } else {
+          return undefined;
+        }
+      }
+      return value;
+    }
+    case 'not':
+      return !truthy(evaluateNode(node.operand, current, root));
+    case 'logical': {
+      const left = truthy(evaluateNode(node.left, current, root));
+      return node.operator === '&&'
+        ? left && truthy(evaluateNode(node.right, current, root))
+        : left || truthy(evaluateNode(node.right, current, root));
+    }
+    case 'compare':
+      return compare(node.operator, evaluateNode(node.left, current, root), evaluateNode(node.right, current, root));
+  }
+}
+
+function compare(operator: string, left: unknown, right: unknown): boolean {
+  switch (operator) {
+    case '==':
+      return deepEqual(left, right);
+    case '!=':
+      return !deepEqual(left, right);
+    case '=~':
+      return typeof left === 'string' && right instanceof RegExp && right.test(left);
+    default: {
+      const comparable = (typeof left === 'number' && typeof right === 'number')
+        || (typeof left === 'string' && typeof right === 'string');
+      if (!comparable) {
+        return false;
+      }
+      const [a, b] = [left as number | string, right as number | string];
+      return operator === '<' ? a < b : operator === '<=' ? a <= b : operator === '>' ? a > b : a >= b;
+    }
+  }
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * 过滤结果的真值：路径不存在（undefined）和 false 为假，其余值（包括 0、"" 和 null）为真，
+ * 因此单独的路径表示存在性判断
+ */
+function truthy(value: unknown): boolean {
+  return value !== undefined && value !== false;
+}
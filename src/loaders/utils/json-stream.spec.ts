@@ -0,0 +1,97 @@
+import { JsonStreamParser } from './json-stream';
+import { JsonPathMatch, parseJsonPath, queryJsonPath } from './json-path';
+
+const DATA = {
+  meta: { note: 'braces } ] { [ and "quotes" inside', path: 'C:\\temp\\{x}' },
+  items: [
+    { id: 1, lang: 'zh', text: '你好，"世界"\n', tags: ['a', 'b'] },
+    { id: 2, lang: 'en', text: 'escaped \\" quote and \\\\ backslash \u00e9', tags: [] },
+    { id: 3, lang: 'zh', text: '🌍 emoji', nested: { deep: [1, [2, [3]]] } },
+    { id: 4, lang: 'fr', text: '', score: -1.5e3 },
+  ],
+  total: 12345678901,
+};
+
+// Helper function to feed text into the parser in chunks of the given size
+function stream(path: string, text: string, chunkSize: number): JsonPathMatch[] {
+  const parser = new JsonStreamParser(parseJsonPath(path));
+  const matches: JsonPathMatch[] = [];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    matches.push(...parser.write(text.slice(i, i + chunkSize)));
+  }
+  matches.push(...parser.end());
+  return matches;
+}
+
+describe('JsonStreamParser', () => {
+  const text = JSON.stringify(DATA, null, 2);
+
+  it.each([
+    '$.items[*]',
+    '$.items[*].text',
+    '$.items[1:3]',
+    '$.items[0,2].id',
+    "$.items[?(@.lang == 'zh')].text",
+    '$.items[?(@.tags)].tags[*]',
+    '$.items[2].nested.deep',
+    '$.meta',
+    '$.total',
+    '$.*',
+  ])('should match %s like queryJsonPath regardless of chunk boundaries', path => {
+    const expected = queryJsonPath(DATA, path);
+
+    // Chunk size 1 puts boundaries inside strings, escape sequences, surrogate pairs and numbers
+    for (const chunkSize of [1, 2, 3, 7, text.length]) {
+      expect(stream(path, text, chunkSize)).toEqual(expected);
+    }
+  });
+
+  it('should emit matches as soon as they are complete', () => {
+    const parser = new JsonStreamParser(parseJsonPath('$[*]'));
+
+    expect(parser.write('[{"a":1},{"a"')).toEqual([{ value: { a: 1 }, path: [0], pointer: '/0' }]);
+    expect(parser.write(':2}')).toEqual([{ value: { a: 2 }, path: [1], pointer: '/1' }]);
+    expect(parser.write(',3')).toEqual([]);
+    expect(parser.write(']')).toEqual([{ value: 3, path: [2], pointer: '/2' }]);
+    expect(parser.end()).toEqual([]);
+  });
+
+  it('should keep numbers split across chunks intact', () => {
+    expect(stream('$.n', '{"n": 12345}', 1).map(match => match.value)).toEqual([12345]);
+    expect(stream('$[*]', '[1.5e10, -2]', 1).map(match => match.value)).toEqual([1.5e10, -2]);
+  });
+
+  it('should escape pointers of streamed keys', () => {
+    expect(stream('$.*', '{"a/b": 1, "m~n": 2}', 3).map(match => match.pointer)).toEqual(['/a~1b', '/m~0n']);
+  });
+
+  describe('isStreamable', () => {
+    it('should reject paths that need the whole document', () => {
+      expect(JsonStreamParser.isStreamable(parseJsonPath('$..author'))).toBe(false);
+      expect(JsonStreamParser.isStreamable(parseJsonPath('$[-1]'))).toBe(false);
+      expect(JsonStreamParser.isStreamable(parseJsonPath('$.items[?(@.price > $.limit)]'))).toBe(false);
+      expect(JsonStreamParser.isStreamable(parseJsonPath('$'))).toBe(false);
+    });
+
+    it('should accept paths with a streamable prefix', () => {
+      expect(JsonStreamParser.isStreamable(parseJsonPath('$.items[*]'))).toBe(true);
+      expect(JsonStreamParser.isStreamable(parseJsonPath('$.items[*]..name'))).toBe(true);
+      expect(JsonStreamParser.isStreamable(parseJsonPath('$.items[-1]'))).toBe(true);
+    });
+
+    it('should throw when constructed with a non-streamable path', () => {
+      expect(() => new JsonStreamParser(parseJsonPath('$..author'))).toThrow('cannot be evaluated in streaming mode');
+    });
+  });
+
+  describe('Errors', () => {
+    it('should reject malformed JSON', () => {
+      expect(() => stream('$[*]', '[1, }', 1)).toThrow(SyntaxError);
+      expect(() => stream('$.a', '{"a": 1} trailing', 4)).toThrow(SyntaxError);
+    });
+
+    it('should reject truncated JSON', () => {
+      expect(() => stream('$.items[*]', '{"items": [{"a": "unterminated', 5)).toThrow('Unexpected end of JSON input');
+    });
+  });
+});
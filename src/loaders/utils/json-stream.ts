@@ -0,0 +1,365 @@
+import {
+  JsonPathKey,
+  JsonPathMatch,
+  JsonPathSegment,
+  evaluateFilter,
+  queryJsonPath,
+  selectorMatchesKey,
+  toJsonPointer,
+} from './json-path';
+
+/**
+ * 栈帧：正在解析的对象或数组
+ */
+interface Frame {
+  type: 'object' | 'array';
+  /**
+   * start: 刚读到 { 或 [；key: 等待键；colon: 等待冒号；value: 等待值；comma: 等待逗号或结束符
+   */
+  state: 'start' | 'key' | 'colon' | 'value' | 'comma';
+  /**
+   * 当前成员的键（对象）或下标（数组）
+   */
+  key: JsonPathKey;
+}
+
+/**
+ * 原样扫描中的容器（被选中时整体捕获后 JSON.parse，未被选中时跳过）
+ */
+interface RawScan {
+  capture: boolean;
+  start: number;
+  path: JsonPathKey[];
+  depth: number;
+  inString: boolean;
+  escape: boolean;
+}
+
+/**
+ * 流式 JSON 解析器
+ *
+ * 按块写入 JSON 文本，只在内存中构建 JSONPath 选中的值，其余部分边扫描边丢弃，
+ * 适合逐条读取数百 MB 的 JSON 数组（如 `$.items[*]`、`$[?(@.lang == 'zh')]`）。
+ *
+ * 路径的前缀（名称、下标、通配符、非负切片，以及其后的第一个不引用 $ 的过滤器）在流中匹配，
+ * 其余部分在选中的值上执行 {@link queryJsonPath}；包含递归下降、负数下标等无法流式匹配的路径时
+ * {@link JsonStreamParser.isStreamable} 返回 false。
+ *
+ * @example
+ * ```typescript
+ * const parser = new JsonStreamParser(parseJsonPath('$.items[*]'));
+ * for await (const chunk of createReadStream('big.json', { encoding: 'utf-8' })) {
+ *   for (const { value, pointer } of parser.write(chunk)) { ... }
+ * }
+ * parser.end();
+ * ```
+ */
+export class JsonStreamParser {
+  /**
+   * 流中匹配的路径段
+   */
+  private readonly prefix: JsonPathSegment[];
+
+  /**
+   * 在选中值上继续执行的路径段
+   */
+  private readonly rest: JsonPathSegment[];
+
+  private buffer = '';
+  private pos = 0;
+  /** buffer[0] 在整个输入中的偏移（用于错误信息） */
+  private offset = 0;
+  private readonly stack: Frame[] = [];
+  private raw?: RawScan;
+  private done = false;
+  private output: JsonPathMatch[] = [];
+
+  constructor(segments: JsonPathSegment[]) {
+    if (!JsonStreamParser.isStreamable(segments)) {
+      throw new Error('JSONPath cannot be evaluated in streaming mode');
+    }
+    const length = JsonStreamParser.prefixLength(segments);
+    this.prefix = segments.slice(0, length);
+    this.rest = segments.slice(length);
+  }
+
+  /**
+   * 路径能否流式解析（至少有一段可在流中匹配，且不依赖 $ 根节点或数组长度）
+   */
+  static isStreamable(segments: JsonPathSegment[]): boolean {
+    const usesRoot = segments.some(segment => segment.selector.kind === 'filter' && segment.selector.usesRoot);
+    return !usesRoot && JsonStreamParser.prefixLength(segments) > 0;
+  }
+
+  private static prefixLength(segments: JsonPathSegment[]): number {
+    let length = 0;
+    for (const { selector, descendant } of segments) {
+      if (descendant) break;
+      if (selector.kind === 'keys' && selector.keys.some(key => typeof key === 'number' && key < 0)) break;
+      if (selector.kind === 'slice' && ((selector.start ?? 0) < 0 || (selector.end ?? 0) < 0 || (selector.step ?? 1) <= 0)) break;
+      length++;
+      // 过滤器需要完整的子节点，之后的路径在内存中执行
+      if (selector.kind === 'filter') break;
+    }
+    return length;
+  }
+
+  /**
+   * 写入一块 JSON 文本，返回已完整解析的匹配值
+   *
+   * @throws SyntaxError JSON 格式错误时
+   */
+  write(chunk: string): JsonPathMatch[] {
+    this.buffer += chunk;
+    this.process(false);
+    return this.flush();
+  }
+
+  /**
+   * 结束输入，返回剩余的匹配值
+   *
+   * @throws SyntaxError JSON 不完整时
+   */
+  end(): JsonPathMatch[] {
+    this.process(true);
+    this.skipWhitespace();
+    if (this.raw || this.stack.length > 0 || !this.done) {
+      throw new SyntaxError(`Unexpected end of JSON input at position ${this.offset + this.buffer.length}`);
+    }
+    if (this.pos < this.buffer.length) {
+      this.fail();
+    }
+    return this.flush();
+  }
+
+  private flush(): JsonPathMatch[] {
+    // 丢弃已处理的文本（捕获中的容器从起点开始保留）
+    const keepFrom = this.raw?.capture ? this.raw.start : this.pos;
+    if (keepFrom > 0) {
+      this.buffer = this.buffer.slice(keepFrom);
+      this.offset += keepFrom;
+      this.pos -= keepFrom;
+      if (this.raw) {
+        this.raw.start -= keepFrom;
+      }
+    }
+
+    const output = this.output;
+    this.output = [];
+    return output;
+  }
+
+  private process(final: boolean): void {
+    while (true) {
+      if (this.raw) {
+        if (!this.scanRaw()) return;
+        continue;
+      }
+
+      this.skipWhitespace();
+      if (this.pos >= this.buffer.length) return;
+
+      const char = this.buffer[this.pos];
+      const top = this.stack[this.stack.length - 1];
+
+      if (!top) {
+        if (this.done) this.fail();
+        if (!this.readValue(final)) return;
+        continue;
+      }
+
+      if (top.state === 'start' && (char === '}' || char === ']')) {
+        this.close(top, char);
+        continue;
+      }
+
+      switch (top.state) {
+        case 'start':
+          if (top.type === 'array') {
+            top.state = 'value';
+            break;
+          }
+        // falls through
+        case 'key':
+          if (char !== '"') this.fail();
+          {
+            const end = this.findStringEnd(this.pos);
+            if (end < 0) return;
+            top.key = JSON.parse(this.buffer.slice(this.pos, end));
+            this.pos = end;
+            top.state = 'colon';
+          }
+          break;
+        case 'colon':
+          if (char !== ':') this.fail();
+          this.pos++;
+          top.state = 'value';
+          break;
+        case 'value':
+          if (!this.readValue(final)) return;
+          break;
+        case 'comma':
+          if (char === ',') {
+            this.pos++;
+            if (top.type === 'array') {
+              top.key = (top.key as number) + 1;
+              top.state = 'value';
+            } else {
+              top.state = 'key';
+            }
+          } else {
+            this.close(top, char);
+          }
+          break;
+      }
+    }
+  }
+
+  /**
+   * 读取一个值；返回 false 表示需要更多输入
+   */
+  private readValue(final: boolean): boolean {
+    const char = this.buffer[this.pos];
+    const depth = this.stack.length;
+    const top = this.stack[depth - 1];
+    const matched = depth === 0 || selectorMatchesKey(this.prefix[depth - 1].selector, top.key);
+    const path = () => this.stack.map(frame => frame.key);
+
+    if (char === '{' || char === '[') {
+      if (top) top.state = 'comma';
+      if (matched && depth < this.prefix.length) {
+        this.stack.push({ type: char === '{' ? 'object' : 'array', state: 'start', key: char === '[' ? 0 : '' });
+        this.pos++;
+      } else {
+        this.raw = {
+          capture: matched,
+          start: this.pos,
+          path: matched ? path() : [],
+          depth: 0,
+          inString: false,
+          escape: false,
+        };
+      }
+      return true;
+    }
+
+    let end: number;
+    if (char === '"') {
+      end = this.findStringEnd(this.pos);
+      if (end < 0) return false;
+    } else {
+      end = this.pos;
+      while (end < this.buffer.length && !/[\s,\]}:]/.test(this.buffer[end])) end++;
+      if (end === this.pos) this.fail();
+      // 数字可能在下一块中继续
+      if (end === this.buffer.length && !final) return false;
+    }
+
+    const token = this.buffer.slice(this.pos, end);
+    const value = this.parseToken(token);
+    if (matched && depth === this.prefix.length) {
+      this.emit(value, path());
+    }
+    this.pos = end;
+    if (top) top.state = 'comma';
+    else this.done = true;
+    return true;
+  }
+
+  /**
+   * 扫描容器直到对应的结束符；返回 false 表示需要更多输入
+   */
+  private scanRaw(): boolean {
+    const raw = this.raw!;
+    const buffer = this.buffer;
+    let i = this.pos;
+
+    for (; i < buffer.length; i++) {
+      const code = buffer.charCodeAt(i);
+      if (raw.inString) {
+        if (raw.escape) raw.escape = false;
+        else if (code === 92) raw.escape = true;
+        else if (code === 34) raw.inString = false;
+      } else if (code === 34) {
+        raw.inString = true;
+      } else if (code === 123 || code === 91) {
+        raw.depth++;
+      } else if (code === 125 || code === 93) {
+        raw.depth--;
+        if (raw.depth === 0) {
+          i++;
+          break;
+        }
+      }
+    }
+
+    this.pos = i;
+    if (raw.depth > 0 || raw.inString) {
+      return false;
+    }
+
+    this.raw = undefined;
+    if (raw.capture) {
+      this.emit(this.parseToken(buffer.slice(raw.start, i), raw.start), raw.path);
+    }
+    if (this.stack.length === 0) {
+      this.done = true;
+    }
+    return true;
+  }
+
+  private emit(value: unknown, path: JsonPathKey[]): void {
+    const last = this.prefix[this.prefix.length - 1].selector;
+    if (last.kind === 'filter' && !evaluateFilter(last.expression, value)) {
+      return;
+    }
+    if (this.rest.length === 0) {
+      this.output.push({ value, path, pointer: toJsonPointer(path) });
+    } else {
+      this.output.push(...queryJsonPath(value, this.rest, path));
+    }
+  }
+
+  private close(top: Frame, char: string): void {
+    if (char !== (top.type === 'object' ? '}' : ']')) this.fail();
+    this.pos++;
+    this.stack.pop();
+    if (this.stack.length === 0) {
+      this.done = true;
+    }
+  }
+
+  /**
+   * 查找字符串结束位置（结束引号之后），未结束时返回 -1
+   */
+  private findStringEnd(start: number): number {
+    let i = start + 1;
+    while (i < this.buffer.length) {
+      const code = this.buffer.charCodeAt(i);
+      if (code === 92) i += 2;
+      else if (code === 34) return i + 1;
+      else i++;
+    }
+    return -1;
+  }
+
+  private parseToken(token: string, start = this.pos): unknown {
+    try {
+      return JSON.parse(token);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new SyntaxError(`Invalid JSON value at position ${this.offset + start}: ${message}`);
+    }
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.buffer.length && /\s/.test(this.buffer[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private fail(): never {
+    const char = this.buffer[this.pos];
+    throw new SyntaxError(`Unexpected token ${JSON.stringify(char)} in JSON at position ${this.offset + this.pos}`);
+  }
+}
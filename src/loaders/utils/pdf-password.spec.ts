@@ -0,0 +1,46 @@
+import { toEncryptedDocumentError } from './pdf-password';
+import { EncryptedDocumentError } from '../../common/errors/document.errors';
+
+// Helper function to create an error shaped like pdf.js PasswordException
+function passwordException(code?: number): Error {
+  const error = new Error('No password given');
+  error.name = 'PasswordException';
+  if (code !== undefined) {
+    (error as any).code = code;
+  }
+  return error;
+}
+
+describe('toEncryptedDocumentError', () => {
+  it('should map pdf.js password codes to reasons', () => {
+    expect(toEncryptedDocumentError(passwordException(1), false)?.reason).toBe('password_required');
+    expect(toEncryptedDocumentError(passwordException(2), true)?.reason).toBe('incorrect_password');
+  });
+
+  it('should read the code from the error cause', () => {
+    const error = passwordException();
+    (error as any).cause = { code: 2 };
+
+    expect(toEncryptedDocumentError(error, false)?.reason).toBe('incorrect_password');
+  });
+
+  it('should infer the reason from whether a password was given when there is no code', () => {
+    expect(toEncryptedDocumentError(passwordException(), false)?.reason).toBe('password_required');
+    expect(toEncryptedDocumentError(passwordException(), true)?.reason).toBe('incorrect_password');
+  });
+
+  it('should record the format in details', () => {
+    const error = toEncryptedDocumentError(passwordException(1), false);
+
+    expect(error).toBeInstanceOf(EncryptedDocumentError);
+    expect(error?.details).toEqual({ reason: 'password_required', format: 'pdf' });
+  });
+
+  it('should pass through EncryptedDocumentError and ignore other errors', () => {
+    const encrypted = new EncryptedDocumentError('password_required');
+
+    expect(toEncryptedDocumentError(encrypted, false)).toBe(encrypted);
+    expect(toEncryptedDocumentError(new Error('Invalid PDF structure'), false)).toBeUndefined();
+    expect(toEncryptedDocumentError('PasswordException', false)).toBeUndefined();
+  });
+});
@@ -0,0 +1,30 @@
+import { EncryptedDocumentError } from '../../common/errors/document.errors';
+
+/** pdf.js PasswordResponses.INCORRECT_PASSWORD */
+const PDFJS_INCORRECT_PASSWORD = 2;
+
+/**
+ * 将 pdf-parse（pdf.js）的 PasswordException 转换为 EncryptedDocumentError
+ *
+ * @param error - pdf-parse 抛出的错误
+ * @param hasPassword - 调用方是否提供了密码（pdf.js 未返回错误码时用于区分原因）
+ * @returns 密码相关错误返回 EncryptedDocumentError，其余返回 undefined
+ */
+export function toEncryptedDocumentError(
+  error: unknown,
+  hasPassword: boolean,
+): EncryptedDocumentError | undefined {
+  if (error instanceof EncryptedDocumentError) {
+    return error;
+  }
+  if (!(error instanceof Error) || error.name !== 'PasswordException') {
+    return undefined;
+  }
+
+  const code = (error as any).code ?? (error as any).cause?.code;
+  const incorrect = code !== undefined ? code === PDFJS_INCORRECT_PASSWORD : hasPassword;
+
+  return new EncryptedDocumentError(incorrect ? 'incorrect_password' : 'password_required', {
+    format: 'pdf',
+  });
+}
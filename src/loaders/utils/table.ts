@@ -0,0 +1,133 @@
+import * as cheerio from 'cheerio';
+import { Document } from '../../models/document.model';
+import { ElementType } from '../../models/document-element.model';
+import { TableData, linearizeTable, tableToMarkdown } from '../../models/table.model';
+
+/**
+ * 表格提取配置选项（PDF / DOCX / XLSX / HTML 加载器共用）
+ */
+export interface TableExtractionOptions {
+  /**
+   * 是否将表格额外输出为独立的 Document
+   *
+   * 表格 Document 的 metadata 包含 elementType: 'table' 和结构化的 table: { headers, rows }，
+   * 排在正文 Document 之后；正文中的表格内容保持不变
+   * @default false
+   */
+  extractTables?: boolean;
+
+  /**
+   * 表格 Document 的 pageContent 是否使用自然语言线性化文本（"表头: 值"）
+   * - false: Markdown 表格
+   * - true: 每行一句的线性化文本，更适合向量检索
+   * @default false
+   */
+  linearizeTables?: boolean;
+}
+
+/**
+ * 提取到的表格及其位置信息
+ */
+export interface ExtractedTable {
+  table: TableData;
+  /** 表格标题（如 HTML <caption>） */
+  caption?: string;
+  /** 附加到表格 Document 的定位元数据（如 pageNumber、sheet） */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * 将二维单元格数组规范化为 TableData
+ *
+ * - 单元格转为字符串并折叠空白
+ * - 丢弃全空的行和列
+ * - 第一行作为表头，其余行补齐到相同列数
+ *
+ * @returns 至少包含一行数据时返回 TableData，否则返回 undefined
+ */
+export function normalizeTable(cells: unknown[][]): TableData | undefined {
+  const rows = cells
+    .map(row => row.map(cell => (cell === null || cell === undefined ? '' : String(cell).replace(/\s+/g, ' ').trim())))
+    .filter(row => row.some(Boolean));
+
+  if (rows.length < 2) {
+    return undefined;
+  }
+
+  const columnCount = Math.max(...rows.map(row => row.length));
+  const keepColumns = Array.from({ length: columnCount }, (_, i) => i).filter(i => rows.some(row => row[i]));
+  const [headers, ...body] = rows.map(row => keepColumns.map(i => row[i] ?? ''));
+
+  return { headers, rows: body };
+}
+
+/**
+ * 从 HTML 中提取表格（嵌套表格单独提取，colspan 单元格按跨列数重复）
+ */
+export function extractHtmlTables(html: string): ExtractedTable[] {
+  const $ = cheerio.load(html);
+  const tables: ExtractedTable[] = [];
+
+  $('table').each((_, element) => {
+    const table = $(element);
+    // 只取当前表格自身的行，排除嵌套表格的行
+    const rows = table
+      .find('tr')
+      .filter((_, tr) => $(tr).closest('table').is(table))
+      .toArray()
+      .map(tr =>
+        $(tr)
+          .children('th, td')
+          .toArray()
+          .flatMap(cell => {
+            const cellEl = $(cell).clone();
+            cellEl.find('table').remove();
+            const span = Math.max(1, Math.min(Number.parseInt($(cell).attr('colspan') ?? '1', 10) || 1, 100));
+            return Array<string>(span).fill(cellEl.text());
+          })
+      );
+
+    const data = normalizeTable(rows);
+    if (!data) {
+      return;
+    }
+
+    const caption = table.children('caption').first().text().replace(/\s+/g, ' ').trim();
+    tables.push({ table: data, ...(caption && { caption }) });
+  });
+
+  return tables;
+}
+
+/**
+ * 为提取到的表格创建 Document
+ *
+ * @param tables - 提取到的表格
+ * @param metadata - 源文档元数据
+ * @param options - 表格提取选项
+ * @returns 每个表格一个 Document，metadata.tableIndex 从 1 开始
+ */
+export function createTableDocuments(
+  tables: ExtractedTable[],
+  metadata: Document['metadata'],
+  options: TableExtractionOptions = {},
+): Document[] {
+  return tables.map(
+    ({ table, caption, metadata: location }, index) =>
+      new Document({
+        pageContent: [
+          caption,
+          options.linearizeTables ? linearizeTable(table) : tableToMarkdown(table),
+        ].filter(Boolean).join('\n\n'),
+        metadata: {
+          ...metadata,
+          ...location,
+          elementType: ElementType.TABLE,
+          format: options.linearizeTables ? 'text' : 'markdown',
+          table,
+          tableIndex: index + 1,
+          ...(caption && { tableCaption: caption }),
+        },
+      })
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * 将容器内的相对引用（.rels Target、OPF href 等）解析为 ZIP 内的绝对路径
+ *
+ * @param baseDir - 引用所在文件的目录（如 'ppt/'、'OEBPS/'，根目录为 ''）
+ * @param target - 相对路径，以 '/' 开头时视为从 ZIP 根目录开始
+ * @returns 归一化后的路径（不含开头的 '/'，已去除 '#' 片段）
+ *
+ * @example
+ * ```typescript
+ * resolveZipPath('ppt/slides/', '../notesSlides/notesSlide1.xml');
+ * // 'ppt/notesSlides/notesSlide1.xml'
+ * ```
+ */
+export function resolveZipPath(baseDir: string, target: string): string {
+  const [path] = target.split('#');
+  const parts = path.startsWith('/') ? [] : baseDir.split('/').filter(Boolean);
+
+  for (const segment of path.split('/')) {
+    if (segment === '..') {
+      parts.pop();
+    } else if (segment && segment !== '.') {
+      parts.push(safeDecodeURIComponent(segment));
+    }
+  }
+
+  return parts.join('/');
+}
+
+/**
+ * 返回 ZIP 路径所在目录（带结尾 '/'，根目录返回 ''）
+ */
+export function zipDirname(path: string): string {
+  return path.slice(0, path.lastIndexOf('/') + 1);
+}
+
+function safeDecodeURIComponent(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
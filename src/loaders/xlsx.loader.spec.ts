@@ -0,0 +1,61 @@
+import * as XLSX from 'xlsx';
+import { XLSXLoader } from './xlsx.loader';
+import { ElementPartitioner } from './elements/element-partitioner';
+
+// Helper function to build a workbook with one sheet per entry
+function createWorkbook(sheets: Record<string, unknown[][]>): Buffer {
+  const workbook = XLSX.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+  }
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
+
+const RAW = createWorkbook({
+  Fruit: [
+    ['Name', 'Price'],
+    ['Apple', 5],
+    ['Pear', 3],
+  ],
+  Empty: [['Only header']],
+});
+
+describe('XLSXLoader', () => {
+  describe('extractTables', () => {
+    it('should append one table document per non-empty sheet', async () => {
+      const docs = await new XLSXLoader('prices.xlsx', { extractTables: true }).parse(RAW, { source: 'prices.xlsx' });
+      const tables = docs.filter(doc => doc.metadata.elementType === 'table');
+
+      expect(tables).toHaveLength(1);
+      expect(tables[0].metadata).toMatchObject({
+        source: 'prices.xlsx',
+        sheet: 'Fruit',
+        format: 'markdown',
+        tableIndex: 1,
+        table: { headers: ['Name', 'Price'], rows: [['Apple', '5'], ['Pear', '3']] },
+      });
+    });
+
+    it('should linearize tables when linearizeTables is set', async () => {
+      const docs = await new XLSXLoader('prices.xlsx', { extractTables: true, linearizeTables: true, sheet: 'Fruit' }).parse(
+        RAW,
+        {}
+      );
+      const [table] = docs.filter(doc => doc.metadata.elementType === 'table');
+
+      expect(table.pageContent).toBe('Row 1: Name: Apple; Price: 5.\nRow 2: Name: Pear; Price: 3.');
+    });
+  });
+
+  describe('splitRows', () => {
+    it('should mark each row as a narrative text element', async () => {
+      const docs = await new XLSXLoader('prices.xlsx', { splitRows: true, sheet: 'Fruit' }).parse(RAW, {});
+
+      expect(docs.map(doc => [doc.pageContent, doc.metadata.row, doc.metadata.elementType])).toEqual([
+        ['Name: Apple\nPrice: 5', 2, 'narrative_text'],
+        ['Name: Pear\nPrice: 3', 3, 'narrative_text'],
+      ]);
+      expect(ElementPartitioner.partition(docs).map(element => element.type)).toEqual(['narrative_text', 'narrative_text']);
+    });
+  });
+});
@@ -1,14 +1,16 @@
 import { Logger } from '@nestjs/common';
 import { Document } from '../models/document.model';
+import { ElementType } from '../models/document-element.model';
 import { BufferLoader } from './base/buffer.loader';
 import { LoaderOptions } from './base/base-loader';
 import { MarkdownConverterParser } from './parsers/markdown-converter.parser';
 import { Blob as BlobData } from './base/blob-parser';
+import { ExtractedTable, TableExtractionOptions, createTableDocuments, normalizeTable } from './utils/table';
 
 /**
  * XLSX 加载器配置选项
  */
-export interface XLSXLoaderOptions extends LoaderOptions {
+export interface XLSXLoaderOptions extends LoaderOptions, TableExtractionOptions {
   /**
    * 指定要加载的 Sheet 名称
    * 如果不指定，则加载所有 Sheet
@@ -64,6 +66,11 @@ export interface XLSXLoaderOptions extends LoaderOptions {
  * });
  * const docs = await loader.load();
  * // 返回: [Document(row1), Document(row2), ...]
+ *
+ * // 额外将每个 Sheet 输出为结构化表格（第一行作为表头）
+ * const loader = new XLSXLoader('data.xlsx', { extractTables: true });
+ * const docs = await loader.load();
+ * // 表格 metadata: { elementType: 'table', sheet: 'Sheet1', table: { headers, rows } }
  * ```
  */
 export class XLSXLoader extends BufferLoader {
@@ -72,6 +79,7 @@ export class XLSXLoader extends BufferLoader {
   private splitRows: boolean;
   private sourceColumn?: string;
   private metadataColumns: string[];
+  private tableOptions: TableExtractionOptions;
 
   constructor(
     filePathOrBlob: string | Blob,
@@ -82,12 +90,16 @@ export class XLSXLoader extends BufferLoader {
     this.splitRows = options.splitRows ?? false;
     this.sourceColumn = options.sourceColumn;
     this.metadataColumns = options.metadataColumns ?? [];
+    this.tableOptions = {
+      extractTables: options.extractTables ?? false,
+      linearizeTables: options.linearizeTables ?? false,
+    };
   }
 
   /**
    * 解析 Excel buffer 并返回文档数组
    *
-   * 优先尝试 Markdown 转换，失败则自动降级到 CSV
+   * 优先尝试 Markdown 转换，失败则自动降级到 CSV；开启 extractTables 时在正文之后追加表格 Document
    *
    * @param raw - Excel buffer
    * @param metadata - 文档元数据
@@ -96,6 +108,22 @@ export class XLSXLoader extends BufferLoader {
   public async parse(
     raw: Buffer,
     metadata: Document['metadata']
+  ): Promise<Document[]> {
+    const documents = await this.parseContent(raw, metadata);
+
+    if (this.tableOptions.extractTables) {
+      documents.push(...await this.extractTables(raw, metadata));
+    }
+
+    return documents;
+  }
+
+  /**
+   * 解析正文：优先尝试 Markdown 转换，失败则自动降级到 CSV
+   */
+  private async parseContent(
+    raw: Buffer,
+    metadata: Document['metadata']
   ): Promise<Document[]> {
     // splitRows 时直接走 xlsx 原生解析，保证按行分割
     if (this.splitRows) {
@@ -115,6 +143,37 @@ export class XLSXLoader extends BufferLoader {
     }
   }
 
+  /**
+   * 使用 xlsx 库将每个 Sheet 提取为结构化表格
+   */
+  private async extractTables(
+    raw: Buffer,
+    metadata: Document['metadata']
+  ): Promise<Document[]> {
+    const XLSX = await XLSXLoader.importsXLSX();
+    const workbook = XLSX.read(raw, { type: 'buffer' });
+    const sheetNames = this.sheetName
+      ? workbook.SheetNames.filter(name => name === this.sheetName)
+      : workbook.SheetNames;
+
+    const tables: ExtractedTable[] = [];
+    for (const sheetName of sheetNames) {
+      // raw: false 使用单元格的格式化文本（日期、百分比等与 Excel 显示一致）
+      const cells: unknown[][] = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], {
+        header: 1,
+        raw: false,
+        defval: '',
+      });
+
+      const table = normalizeTable(cells);
+      if (table) {
+        tables.push({ table, metadata: { sheet: sheetName } });
+      }
+    }
+
+    return createTableDocuments(tables, metadata, this.tableOptions);
+  }
+
   /**
    * 使用 markitdown-ts 转换为 Markdown 表格
    */
@@ -181,6 +240,7 @@ export class XLSXLoader extends BufferLoader {
               format: 'csv',
               originalFormat: 'xlsx',
               extractedBy: 'xlsx',
+              elementType: ElementType.NARRATIVE_TEXT,
             },
           })
         );
@@ -242,6 +302,7 @@ export class XLSXLoader extends BufferLoader {
             format: 'csv',
             originalFormat: 'xlsx',
             extractedBy: 'xlsx',
+            elementType: ElementType.NARRATIVE_TEXT,
             row: index + 2, // Excel 行号（从 1 开始，加上表头）
           },
         })
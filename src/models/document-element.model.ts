@@ -0,0 +1,100 @@
+/**
+ * 文档元素类型
+ */
+export const ElementType = {
+  /** 标题 */
+  TITLE: 'title',
+  /** 正文段落 */
+  NARRATIVE_TEXT: 'narrative_text',
+  /** 列表项 */
+  LIST_ITEM: 'list_item',
+  /** 表格 */
+  TABLE: 'table',
+  /** 图片 */
+  IMAGE: 'image',
+  /** 代码块 */
+  CODE: 'code',
+} as const;
+
+/**
+ * 文档元素类型
+ */
+export type ElementType = typeof ElementType[keyof typeof ElementType];
+
+/**
+ * 元素在源文档中的位置
+ */
+export interface ElementLocation {
+  /**
+   * 来源（文件路径或文件名，取自 Document metadata.source）
+   */
+  source?: string;
+
+  /**
+   * 所属 Document 的 ID
+   */
+  documentId?: string;
+
+  /**
+   * 页码（从 1 开始，按页输出的 Document 才有）
+   */
+  pageNumber?: number;
+
+  /**
+   * 工作表名称（XLSX）
+   */
+  sheet?: string;
+
+  /**
+   * 在所属 Document pageContent 中的起始行号（从 1 开始）
+   */
+  startLine?: number;
+
+  /**
+   * 在所属 Document pageContent 中的结束行号（包含）
+   */
+  endLine?: number;
+}
+
+/**
+ * 文档元素
+ *
+ * 文档按语义切分后的最小单元（标题、段落、列表项、表格、图片、代码块），
+ * 通过 parentId 指向所属的上级标题，形成章节层级
+ */
+export interface DocumentElement {
+  /**
+   * 元素 ID
+   */
+  id: string;
+
+  /**
+   * 元素类型
+   */
+  type: ElementType;
+
+  /**
+   * 元素文本（表格为 Markdown 表格，图片为替代文本，代码块不含围栏）
+   */
+  text: string;
+
+  /**
+   * 上级标题元素的 ID，顶层元素为 undefined
+   */
+  parentId?: string;
+
+  /**
+   * 标题层级（1-6，仅 TITLE 元素）
+   */
+  level?: number;
+
+  /**
+   * 源文档位置
+   */
+  location: ElementLocation;
+
+  /**
+   * 元素专属元数据（如表格的 table、图片的 src、代码块的 language）
+   */
+  metadata: Record<string, any>;
+}
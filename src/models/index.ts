@@ -1 +1,3 @@
 export * from './document.model';
+export * from './document-element.model';
+export * from './table.model';
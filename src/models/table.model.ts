@@ -0,0 +1,64 @@
+/**
+ * 结构化表格数据
+ *
+ * 加载器开启 extractTables 时，每个表格输出一个 elementType 为 'table' 的 Document，
+ * 结构化内容位于 metadata.table
+ */
+export interface TableData {
+  /**
+   * 表头（第一行）
+   */
+  headers: string[];
+
+  /**
+   * 数据行（不含表头），每行单元格数与表头一致
+   */
+  rows: string[][];
+}
+
+/**
+ * 将表格渲染为 GFM Markdown 表格
+ *
+ * @example
+ * ```typescript
+ * tableToMarkdown({ headers: ['名称', '价格'], rows: [['苹果', '5']] });
+ * // | 名称 | 价格 |
+ * // | --- | --- |
+ * // | 苹果 | 5 |
+ * ```
+ */
+export function tableToMarkdown(table: TableData): string {
+  const renderRow = (cells: string[]) =>
+    `| ${cells.map(cell => cell.replace(/\n/g, ' ').replace(/\|/g, '\\|')).join(' | ')} |`;
+
+  return [
+    renderRow(table.headers),
+    `| ${table.headers.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(renderRow),
+  ].join('\n');
+}
+
+/**
+ * 将表格线性化为自然语言文本（每行一句 "表头: 值"），便于向量检索
+ *
+ * 空单元格会被跳过；表头为空的列使用 "Column N" 代替
+ *
+ * @example
+ * ```typescript
+ * linearizeTable({ headers: ['名称', '价格'], rows: [['苹果', '5']] });
+ * // 'Row 1: 名称: 苹果; 价格: 5.'
+ * ```
+ */
+export function linearizeTable(table: TableData): string {
+  const headers = table.headers.map((header, i) => header || `Column ${i + 1}`);
+
+  return table.rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((cell, i) => (cell ? `${headers[i]}: ${cell.replace(/\s+/g, ' ')}` : ''))
+        .filter(Boolean);
+      return cells.length > 0 ? `Row ${rowIndex + 1}: ${cells.join('; ')}.` : '';
+    })
+    .filter(Boolean)
+    .join('\n');
+}
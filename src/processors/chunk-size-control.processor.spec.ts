@@ -0,0 +1,47 @@
+import { ChunkSizeControlProcessor } from './chunk-size-control.processor';
+import { SentenceTextSplitter } from '../splitters/sentence-text-splitter';
+import { Document } from '../models/document.model';
+
+// 按 UTF-8 字节计数：每个汉字 3 字节
+const byteLength = (text: string) => Buffer.byteLength(text);
+
+describe('ChunkSizeControlProcessor', () => {
+  it('should keep documents within maxChunkSize when forceOverlap is false', async () => {
+    const doc = new Document({ pageContent: 'short text', metadata: { source: 'a.md' } });
+
+    const [result] = await new ChunkSizeControlProcessor(100, 20, false).process([doc]);
+
+    expect(result).toBe(doc);
+  });
+
+  it('should split documents longer than maxChunkSize', async () => {
+    const doc = new Document({ pageContent: 'word '.repeat(50).trim(), metadata: { source: 'a.md' } });
+
+    const results = await new ChunkSizeControlProcessor(100, 20, false).process([doc]);
+
+    expect(results.length).toBeGreaterThan(1);
+    expect(results.every(chunk => chunk.pageContent.length <= 100)).toBe(true);
+    expect(results[0].metadata).toMatchObject({ source: 'a.md', chunkIndex: 0 });
+  });
+
+  it('should measure documents with the splitter lengthFunction when forceOverlap is false', async () => {
+    const splitter = new SentenceTextSplitter({ locale: 'zh', chunkSize: 30, chunkOverlap: 0, lengthFunction: byteLength });
+    const processor = new ChunkSizeControlProcessor(30, 0, false, splitter);
+    // 12 个字符、36 字节：按字符数不超过 30，按 lengthFunction 超过
+    const doc = new Document({ pageContent: '今天天气很好。我们去公园。', metadata: {} });
+
+    const results = await processor.process([doc]);
+
+    expect(results.map(chunk => chunk.pageContent)).toEqual(['今天天气很好。', '我们去公园。']);
+  });
+
+  it('should split every document when forceOverlap is true', async () => {
+    const doc = new Document({ pageContent: 'short text', metadata: { source: 'a.md' } });
+
+    const [result] = await new ChunkSizeControlProcessor(100, 20).process([doc]);
+
+    expect(result).not.toBe(doc);
+    expect(result.pageContent).toBe('short text');
+    expect(result.metadata.chunkIndex).toBe(0);
+  });
+});
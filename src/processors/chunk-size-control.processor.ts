@@ -1,6 +1,8 @@
 import { Document } from '../models/document.model';
 import { IDocumentProcessor } from '../common/interfaces/processor.interface';
+import { TextSplitter } from '../splitters/text-splitter';
 import { RecursiveCharacterTextSplitter } from '../splitters/recursive-character-text-splitter';
+import { TableAwareTextSplitter } from '../splitters/table-aware-text-splitter';
 
 /**
  * 大小控制处理器
@@ -9,24 +11,31 @@ import { RecursiveCharacterTextSplitter } from '../splitters/recursive-character
  * - 确保每个 chunk 不超过指定大小
  * - 对所有 chunk 进行带重叠的切分（保证上下文连续性）
  * - 适配 embedding 模型的 token 限制
+ * - Markdown / HTML 表格只在行边界切分，后续块重复表头（见 TableAwareTextSplitter）
+ * - 可传入自定义切分器（如按句切分中文的 SentenceTextSplitter）
  */
 export class ChunkSizeControlProcessor implements IDocumentProcessor {
-  private splitter: RecursiveCharacterTextSplitter;
+  private splitter: TextSplitter;
   private maxChunkSize: number;
   private forceOverlap: boolean;
 
   /**
    * @param maxChunkSize - 最大 chunk 大小（字符数）
    * @param chunkOverlap - chunk 之间的重叠大小（字符数）
-   * @param forceOverlap - 是否强制对所有文档进行带重叠的切分（默认 true）
+   * @param forceOverlap - 是否强制对所有文档进行带重叠的切分（默认 true）；为 false 时只切分超过切分器 chunkSize 的文档
+   * @param splitter - 自定义切分器（提供时忽略 chunkOverlap，默认使用 TableAwareTextSplitter，表格之外的文本使用 RecursiveCharacterTextSplitter）
    */
-  constructor(maxChunkSize = 1000, chunkOverlap = 200, forceOverlap = true) {
+  constructor(maxChunkSize = 1000, chunkOverlap = 200, forceOverlap = true, splitter?: TextSplitter) {
     this.maxChunkSize = maxChunkSize;
     this.forceOverlap = forceOverlap;
-    this.splitter = new RecursiveCharacterTextSplitter({
+    this.splitter = splitter ?? new TableAwareTextSplitter({
       chunkSize: maxChunkSize,
       chunkOverlap,
-      separators: ['\n## ', '\n### ', '\n\n', '\n', ' ', ''],
+      textSplitter: new RecursiveCharacterTextSplitter({
+        chunkSize: maxChunkSize,
+        chunkOverlap,
+        separators: ['\n## ', '\n### ', '\n\n', '\n', ' ', ''],
+      }),
     });
   }
 
@@ -47,8 +56,8 @@ export class ChunkSizeControlProcessor implements IDocumentProcessor {
         const subChunks = await this.splitter.splitDocuments([doc]);
         result.push(...subChunks);
       } else {
-        // 仅对超过大小限制的文档进行切分
-        if (doc.pageContent.length <= this.maxChunkSize) {
+        // 仅对超过大小限制的文档进行切分（按切分器的 lengthFunction 计算大小）
+        if (await this.splitter.fitsChunkSize(doc.pageContent)) {
           result.push(doc);
         } else {
           const subChunks = await this.splitter.splitDocuments([doc]);
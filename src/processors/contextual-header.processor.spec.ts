@@ -0,0 +1,108 @@
+import { ContextualHeaderProcessor } from './contextual-header.processor';
+import { EmbeddingProcessor } from './embedding.processor';
+import { IEmbeddingService } from '../common/interfaces/embedding-service.interface';
+import { Document } from '../models/document.model';
+
+// Helper function to create a chunk document
+function createDoc(metadata: Record<string, any>, pageContent = '运行以下命令'): Document {
+  return new Document({ pageContent, metadata, id: 'chunk-1' });
+}
+
+// Helper function to create an embedding service that records the embedded texts
+function createEmbeddingService(): IEmbeddingService & { texts: string[] } {
+  const texts: string[] = [];
+  return {
+    texts,
+    async embed(text: string) {
+      return [text.length];
+    },
+    async embedMany(batch: string[]) {
+      texts.push(...batch);
+      return batch.map(text => [text.length]);
+    },
+  };
+}
+
+describe('ContextualHeaderProcessor', () => {
+  const processor = new ContextualHeaderProcessor();
+
+  it('should prepend the header path to pageContent', async () => {
+    const [doc] = await processor.process([
+      createDoc({ title: '用户手册', 'Header 1': '安装', 'Header 2': 'Linux', startOffset: 10 }),
+    ]);
+
+    expect(doc.pageContent).toBe('用户手册 > 安装 > Linux\n\n运行以下命令');
+    expect(doc.id).toBe('chunk-1');
+    expect(doc.metadata).toMatchObject({ breadcrumb: '用户手册 > 安装 > Linux', startOffset: 10 });
+    expect(doc.metadata.embeddingText).toBeUndefined();
+  });
+
+  it('should prefer sectionPath over Header N keys', async () => {
+    const [doc] = await processor.process([
+      createDoc({ sectionPath: ['第一章', '1.1 概述'], 'Header 1': '安装', 'Header 2': 'Linux' }),
+    ]);
+
+    expect(doc.metadata.breadcrumb).toBe('第一章 > 1.1 概述');
+  });
+
+  it('should normalize whitespace and remove empty and adjacent duplicate levels', async () => {
+    const [doc] = await processor.process([
+      createDoc({
+        title: 'Guide',
+        'Header 1': ' Guide ',
+        'Header 2': '',
+        'Header 3': 'Install\n  Linux',
+        'Header 4': 'Install Linux',
+        'Header 5': 'Guide',
+      }),
+    ]);
+
+    expect(doc.metadata.breadcrumb).toBe('Guide > Install Linux > Guide');
+  });
+
+  it('should return documents without a path unchanged', async () => {
+    const doc = createDoc({ source: 'docs/guide.md' });
+
+    expect(await processor.process([doc])).toEqual([doc]);
+  });
+
+  it('should use the source file name as title when enabled', async () => {
+    const [doc] = await new ContextualHeaderProcessor({ useSourceAsTitle: true, separator: ' / ' }).process([
+      createDoc({ source: 'docs\\user-guide.md', 'Header 1': '安装' }),
+    ]);
+
+    expect(doc.metadata.breadcrumb).toBe('user-guide / 安装');
+  });
+
+  it('should write embeddingText and leave pageContent unchanged with target embeddingText', async () => {
+    const [doc] = await new ContextualHeaderProcessor({
+      target: 'embeddingText',
+      format: (breadcrumb, content) => `[${breadcrumb}] ${content}`,
+    }).process([createDoc({ 'Header 1': '安装' })]);
+
+    expect(doc.pageContent).toBe('运行以下命令');
+    expect(doc.metadata).toMatchObject({ breadcrumb: '安装', embeddingText: '[安装] 运行以下命令' });
+  });
+
+  describe('with EmbeddingProcessor', () => {
+    // Helper function to embed documents with the given textKey and return the embedded texts
+    async function embed(docs: Document[], textKey?: string): Promise<string[]> {
+      const embeddingService = createEmbeddingService();
+      await new EmbeddingProcessor({ embeddingService, textKey }).process(docs);
+      return embeddingService.texts;
+    }
+
+    it('should embed embeddingText only when textKey is set', async () => {
+      const docs = await new ContextualHeaderProcessor({ target: 'embeddingText' }).process([
+        createDoc({ 'Header 1': '安装' }),
+      ]);
+
+      expect(await embed(docs)).toEqual(['运行以下命令']);
+      expect(await embed(docs, 'embeddingText')).toEqual(['安装\n\n运行以下命令']);
+    });
+
+    it('should fall back to pageContent when the textKey field is missing', async () => {
+      expect(await embed([createDoc({ 'Header 1': '安装' })], 'embeddingText')).toEqual(['运行以下命令']);
+    });
+  });
+});
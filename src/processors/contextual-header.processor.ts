@@ -0,0 +1,146 @@
+import { Document } from '../models/document.model';
+import { IDocumentProcessor } from '../common/interfaces/processor.interface';
+
+/**
+ * 上下文标题处理器配置
+ */
+export interface ContextualHeaderProcessorOptions {
+  /**
+   * 按层级排列的标题 metadata 字段（与 MarkdownHeaderTextSplitter / HTMLHeaderTextSplitter 的 name 一致）
+   *
+   * metadata.sectionPath（TextSplitter.splitElements 的输出）存在时优先使用
+   * @default ['Header 1', 'Header 2', 'Header 3', 'Header 4', 'Header 5', 'Header 6']
+   */
+  headerKeys?: string[];
+
+  /**
+   * 文档标题的 metadata 字段，存在时作为面包屑的第一级（如 EPUB / PPTX 的 title）
+   * @default 'title'
+   */
+  titleKey?: string;
+
+  /**
+   * 没有标题字段时是否使用 metadata.source 的文件名（不含扩展名）作为第一级
+   * @default false
+   */
+  useSourceAsTitle?: boolean;
+
+  /**
+   * 面包屑各级之间的分隔符
+   * @default ' > '
+   */
+  separator?: string;
+
+  /**
+   * 面包屑写入位置
+   * - pageContent: 添加到块内容之前（startOffset / endOffset 等源位置仍指向原始内容）
+   * - embeddingText: 写入 metadata.embeddingText，pageContent 保持不变（EmbeddingProcessor 需设置 textKey: 'embeddingText'）
+   * @default 'pageContent'
+   */
+  target?: 'pageContent' | 'embeddingText';
+
+  /**
+   * 面包屑与内容的组合方式
+   * @default (breadcrumb, content) => `${breadcrumb}\n\n${content}`
+   */
+  format?: (breadcrumb: string, content: string) => string;
+}
+
+/**
+ * 上下文标题处理器
+ *
+ * 将块所在章节的标题路径（如 "用户手册 > 安装 > Linux"）添加到块内容或 embeddingText 中，
+ * 使短块在向量检索时也带有章节上下文。面包屑同时写入 metadata.breadcrumb。
+ *
+ * 应放在所有切分处理器之后、EmbeddingProcessor 之前：
+ * 之后的切分会把 embeddingText 原样复制到每个子块。
+ *
+ * @example
+ * ```typescript
+ * DocumentModule.register({
+ *   processors: [
+ *     new MarkdownSplitterProcessor(),
+ *     new ChunkSizeControlProcessor(1000, 200),
+ *     new ContextualHeaderProcessor({ target: 'embeddingText', useSourceAsTitle: true }),
+ *     new EmbeddingProcessor({ embeddingService, textKey: 'embeddingText' }),
+ *   ],
+ * });
+ * // metadata.embeddingText: "guide > 安装 > Linux\n\n运行以下命令..."
+ * ```
+ */
+export class ContextualHeaderProcessor implements IDocumentProcessor {
+  private readonly headerKeys: string[];
+  private readonly titleKey: string;
+  private readonly useSourceAsTitle: boolean;
+  private readonly separator: string;
+  private readonly target: 'pageContent' | 'embeddingText';
+  private readonly format: (breadcrumb: string, content: string) => string;
+
+  constructor(options: ContextualHeaderProcessorOptions = {}) {
+    this.headerKeys = options.headerKeys ?? ['Header 1', 'Header 2', 'Header 3', 'Header 4', 'Header 5', 'Header 6'];
+    this.titleKey = options.titleKey ?? 'title';
+    this.useSourceAsTitle = options.useSourceAsTitle ?? false;
+    this.separator = options.separator ?? ' > ';
+    this.target = options.target ?? 'pageContent';
+    this.format = options.format ?? ((breadcrumb, content) => `${breadcrumb}\n\n${content}`);
+  }
+
+  getName(): string {
+    return 'ContextualHeader';
+  }
+
+  getDescription(): string {
+    return `为每个块添加章节标题路径（写入 ${this.target}）`;
+  }
+
+  async process(documents: Document[]): Promise<Document[]> {
+    return documents.map(doc => {
+      const path = this.getPath(doc.metadata);
+      if (path.length === 0) {
+        return doc;
+      }
+
+      const breadcrumb = path.join(this.separator);
+      const text = this.format(breadcrumb, doc.pageContent);
+
+      return new Document({
+        id: doc.id,
+        pageContent: this.target === 'pageContent' ? text : doc.pageContent,
+        metadata: {
+          ...doc.metadata,
+          breadcrumb,
+          ...(this.target === 'embeddingText' && { embeddingText: text }),
+        },
+      });
+    });
+  }
+
+  /**
+   * 计算标题路径（文档标题 + 各级章节标题，去除空值和相邻重复）
+   */
+  private getPath(metadata: Record<string, any>): string[] {
+    const sections: unknown[] = Array.isArray(metadata.sectionPath)
+      ? metadata.sectionPath
+      : this.headerKeys.map(key => metadata[key]);
+
+    const path = [this.getTitle(metadata), ...sections]
+      .filter((item): item is string | number => typeof item === 'string' || typeof item === 'number')
+      .map(item => String(item).replace(/\s+/g, ' ').trim())
+      .filter(Boolean);
+
+    return path.filter((item, i) => item !== path[i - 1]);
+  }
+
+  /**
+   * 文档标题
+   */
+  private getTitle(metadata: Record<string, any>): string | undefined {
+    if (typeof metadata[this.titleKey] === 'string' && metadata[this.titleKey].trim()) {
+      return metadata[this.titleKey];
+    }
+    if (this.useSourceAsTitle && typeof metadata.source === 'string' && metadata.source !== 'blob') {
+      return metadata.source.split(/[\\/]/).pop()!.replace(/\.[^.]+$/, '');
+    }
+    return undefined;
+  }
+}
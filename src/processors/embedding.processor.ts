@@ -25,6 +25,13 @@ export interface EmbeddingProcessorOptions {
    */
   metadataKey?: string;
 
+  /**
+   * 用于生成向量的 metadata 文本字段，存在时代替 pageContent（如 ContextualHeaderProcessor 写入的 'embeddingText'）
+   *
+   * 未设置时总是使用 pageContent
+   */
+  textKey?: string;
+
   /**
    * 是否在 embedding 失败时跳过（而非抛出错误）
    * @default false
@@ -64,12 +71,14 @@ export class EmbeddingProcessor implements IDocumentProcessor {
   private readonly embeddingService: IEmbeddingService;
   private readonly batchSize: number;
   private readonly metadataKey: string;
+  private readonly textKey?: string;
   private readonly skipOnError: boolean;
 
   constructor(options: EmbeddingProcessorOptions) {
     this.embeddingService = options.embeddingService;
     this.batchSize = options.batchSize ?? 32;
     this.metadataKey = options.metadataKey ?? 'embedding';
+    this.textKey = options.textKey;
     this.skipOnError = options.skipOnError ?? false;
   }
 
@@ -89,7 +98,9 @@ export class EmbeddingProcessor implements IDocumentProcessor {
     // 按批次处理
     for (let i = 0; i < documents.length; i += this.batchSize) {
       const batch = documents.slice(i, i + this.batchSize);
-      const texts = batch.map(doc => doc.pageContent);
+      const texts = batch.map(doc =>
+        this.textKey && typeof doc.metadata[this.textKey] === 'string' ? doc.metadata[this.textKey] : doc.pageContent
+      );
 
       try {
         const embeddings = await this.embeddingService.embedMany(texts);
@@ -0,0 +1,93 @@
+import { HeaderFooterRemovalProcessor } from './header-footer-removal.processor';
+import { Document } from '../models/document.model';
+
+const BODIES = ['Introduction', 'Methods', 'Results', 'Discussion'];
+
+// Helper function to create a page document
+function createPage(pageNumber: number, body: string, metadata: Record<string, any> = {}): Document {
+  return new Document({
+    pageContent: `ACME Corp Annual Report\n${body}\nConfidential — Page ${pageNumber} of 4`,
+    metadata: { source: 'report.pdf', pageNumber, ...metadata },
+  });
+}
+
+describe('HeaderFooterRemovalProcessor', () => {
+  it('should remove repeated headers and footers that differ only in digits', async () => {
+    const pages = [1, 2, 3, 4].map(n => createPage(n, BODIES[n - 1]));
+
+    const results = await new HeaderFooterRemovalProcessor().process(pages);
+
+    expect(results.map(doc => doc.pageContent)).toEqual(BODIES);
+    expect(results[2].metadata).toMatchObject({
+      source: 'report.pdf',
+      pageNumber: 3,
+      removedHeaders: ['ACME Corp Annual Report'],
+      removedFooters: ['Confidential — Page 3 of 4'],
+    });
+  });
+
+  it('should only remove lines that reach minPageFraction', async () => {
+    const pages = [
+      new Document({ pageContent: 'Draft\nIntro', metadata: { source: 'a.pdf', pageNumber: 1 } }),
+      new Document({ pageContent: 'Draft\nMethods', metadata: { source: 'a.pdf', pageNumber: 2 } }),
+      new Document({ pageContent: 'Results\nTables', metadata: { source: 'a.pdf', pageNumber: 3 } }),
+      new Document({ pageContent: 'Summary\nEnd', metadata: { source: 'a.pdf', pageNumber: 4 } }),
+    ];
+
+    const lenient = await new HeaderFooterRemovalProcessor({ minPageFraction: 0.5 }).process(pages);
+    const strict = await new HeaderFooterRemovalProcessor({ minPageFraction: 0.75 }).process(pages);
+
+    expect(lenient[0].pageContent).toBe('Intro');
+    expect(lenient[0].metadata.removedHeaders).toEqual(['Draft']);
+    expect(strict).toEqual(pages);
+  });
+
+  it('should skip groups with fewer than minPages pages', async () => {
+    const pages = [1, 2].map(n => createPage(n, BODIES[n - 1]));
+
+    const results = await new HeaderFooterRemovalProcessor().process(pages);
+
+    expect(results).toEqual(pages);
+  });
+
+  it('should detect repeated lines per source', async () => {
+    const pages = [
+      ...[1, 2, 3].map(n => createPage(n, BODIES[n - 1])),
+      ...['ACME Corp Annual Report\nMemo', 'Agenda', 'Minutes'].map(
+        (pageContent, i) => new Document({ pageContent, metadata: { source: 'memo.pdf', pageNumber: i + 1 } }),
+      ),
+    ];
+
+    const results = await new HeaderFooterRemovalProcessor().process(pages);
+
+    expect(results[0].pageContent).toBe('Introduction');
+    expect(results[3].pageContent).toBe('ACME Corp Annual Report\nMemo');
+  });
+
+  it('should leave table elements and documents without pageNumber untouched', async () => {
+    const pages = [1, 2, 3].map(n => createPage(n, BODIES[n - 1]));
+    const table = new Document({
+      pageContent: 'ACME Corp Annual Report\n| a | b |',
+      metadata: { source: 'report.pdf', pageNumber: 2, elementType: 'table' },
+    });
+    const summary = new Document({
+      pageContent: 'ACME Corp Annual Report\nSummary',
+      metadata: { source: 'report.pdf' },
+    });
+
+    const results = await new HeaderFooterRemovalProcessor({ minPageFraction: 1 }).process([
+      ...pages,
+      table,
+      summary,
+    ]);
+
+    expect(results[0].pageContent).toBe('Introduction');
+    expect(results[3]).toBe(table);
+    expect(results[4]).toBe(summary);
+  });
+
+  it('should reject minPageFraction outside (0, 1]', () => {
+    expect(() => new HeaderFooterRemovalProcessor({ minPageFraction: 0 })).toThrow();
+    expect(() => new HeaderFooterRemovalProcessor({ minPageFraction: 1.5 })).toThrow();
+  });
+});
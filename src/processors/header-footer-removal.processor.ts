@@ -0,0 +1,233 @@
+import { Logger } from '@nestjs/common';
+import { Document } from '../models/document.model';
+import { IDocumentProcessor } from '../common/interfaces/processor.interface';
+
+/**
+ * 页眉页脚移除处理器配置
+ */
+export interface HeaderFooterRemovalProcessorOptions {
+  /**
+   * 重复比例阈值
+   *
+   * 同一行（数字模糊匹配后）出现在至少该比例的页面顶部 / 底部时，视为页眉 / 页脚。
+   *
+   * @default 0.5
+   */
+  minPageFraction?: number;
+
+  /**
+   * 最少页数
+   *
+   * 同组页面数少于该值时不做检测（页数太少无法可靠判断重复）。
+   *
+   * @default 3
+   */
+  minPages?: number;
+
+  /**
+   * 每页检查的顶部 / 底部非空行数
+   *
+   * @default 2
+   */
+  linesToCheck?: number;
+
+  /**
+   * 页眉页脚行的最大长度，超过此长度的行不参与检测（避免误删正文）
+   *
+   * @default 120
+   */
+  maxLineLength?: number;
+
+  /**
+   * 分组字段
+   *
+   * 按 metadata 中该字段分组检测，避免不同文件的页面相互影响。
+   *
+   * @default 'source'
+   */
+  groupByKey?: string;
+}
+
+type LinePosition = 'header' | 'footer';
+
+/**
+ * 页眉页脚移除处理器
+ *
+ * 检测按页输出的 Document（如 ScannedPDFParser、PDFParser splitPages）中
+ * 在多数页面顶部 / 底部重复出现的行，例如 "Confidential — Page 12 of 80"，并将其移除。
+ *
+ * 检测规则：
+ * - 只检查每页开头和结尾的若干非空行
+ * - 比较前折叠空白、忽略大小写，并将数字替换为占位符，
+ *   因此 "Page 12 of 80" 与 "Page 13 of 80"、单独的页码行会被视为同一行
+ * - 出现页数达到 minPageFraction 比例（且至少 2 页）时移除
+ * - 只统计和处理带 metadata.pageNumber 的 Document，表格元素（elementType: 'table'）原样保留
+ *
+ * 移除的原始行记录在 metadata.removedHeaders / metadata.removedFooters 中。
+ * 应在 PageMergeProcessor 之前使用，避免重复的页眉页脚进入每个合并块。
+ *
+ * @example
+ * ```typescript
+ * const processors = [
+ *   new HeaderFooterRemovalProcessor({ minPageFraction: 0.6 }),
+ *   new PageMergeProcessor({ windowSize: 10 }),
+ * ];
+ * ```
+ */
+export class HeaderFooterRemovalProcessor implements IDocumentProcessor {
+  private readonly logger = new Logger(HeaderFooterRemovalProcessor.name);
+  private readonly minPageFraction: number;
+  private readonly minPages: number;
+  private readonly linesToCheck: number;
+  private readonly maxLineLength: number;
+  private readonly groupByKey: string;
+
+  constructor(options: HeaderFooterRemovalProcessorOptions = {}) {
+    this.minPageFraction = options.minPageFraction ?? 0.5;
+    this.minPages = options.minPages ?? 3;
+    this.linesToCheck = options.linesToCheck ?? 2;
+    this.maxLineLength = options.maxLineLength ?? 120;
+    this.groupByKey = options.groupByKey ?? 'source';
+
+    if (this.minPageFraction <= 0 || this.minPageFraction > 1) {
+      throw new Error(`minPageFraction (${this.minPageFraction}) 必须在 (0, 1] 范围内`);
+    }
+  }
+
+  getName(): string {
+    return 'HeaderFooterRemovalProcessor';
+  }
+
+  getDescription(): string {
+    return `移除重复的页眉页脚（minPageFraction=${this.minPageFraction}, linesToCheck=${this.linesToCheck}）`;
+  }
+
+  async process(documents: Document[]): Promise<Document[]> {
+    if (documents.length === 0) return [];
+
+    // 按来源分组（保持原有顺序）；只有带 pageNumber 的非表格页面参与检测
+    const groups = new Map<unknown, number[]>();
+    documents.forEach((doc, index) => {
+      if (!HeaderFooterRemovalProcessor.isPage(doc)) return;
+      const key = doc.metadata?.[this.groupByKey];
+      const group = groups.get(key) ?? [];
+      group.push(index);
+      groups.set(key, group);
+    });
+
+    const results = [...documents];
+    let strippedCount = 0;
+
+    for (const indices of groups.values()) {
+      if (indices.length < this.minPages) continue;
+
+      const repeated = this.findRepeatedLines(indices.map(i => documents[i]));
+      if (repeated.size === 0) continue;
+
+      for (const index of indices) {
+        const stripped = this.stripDocument(documents[index], repeated);
+        if (stripped !== documents[index]) {
+          results[index] = stripped;
+          strippedCount++;
+        }
+      }
+    }
+
+    this.logger.debug('页眉页脚移除完成', {
+      inputCount: documents.length,
+      strippedCount,
+    });
+
+    return results;
+  }
+
+  /**
+   * 统计各页顶部 / 底部候选行，返回达到阈值的 "位置:归一化文本" 集合
+   */
+  private findRepeatedLines(docs: Document[]): Set<string> {
+    const counts = new Map<string, number>();
+
+    for (const doc of docs) {
+      // 同一页内重复出现只计一次
+      const keys = new Set(this.getCandidates(doc.pageContent.split('\n')).map(c => c.key));
+      for (const key of keys) {
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+
+    const threshold = Math.max(2, Math.ceil(docs.length * this.minPageFraction));
+    return new Set([...counts].filter(([, count]) => count >= threshold).map(([key]) => key));
+  }
+
+  /**
+   * 移除单个 Document 中的重复行，未命中时返回原 Document
+   */
+  private stripDocument(doc: Document, repeated: Set<string>): Document {
+    const lines = doc.pageContent.split('\n');
+    const removed = new Map<number, LinePosition>();
+
+    for (const candidate of this.getCandidates(lines)) {
+      if (repeated.has(candidate.key)) {
+        removed.set(candidate.lineIndex, candidate.position);
+      }
+    }
+
+    if (removed.size === 0) return doc;
+
+    const collect = (position: LinePosition) =>
+      [...removed]
+        .filter(([, p]) => p === position)
+        .sort(([a], [b]) => a - b)
+        .map(([lineIndex]) => lines[lineIndex].trim());
+
+    const removedHeaders = collect('header');
+    const removedFooters = collect('footer');
+
+    return new Document({
+      id: doc.id,
+      pageContent: lines.filter((_, i) => !removed.has(i)).join('\n').trim(),
+      metadata: {
+        ...doc.metadata,
+        ...(removedHeaders.length > 0 && { removedHeaders }),
+        ...(removedFooters.length > 0 && { removedFooters }),
+      },
+    });
+  }
+
+  /**
+   * 取页面顶部 / 底部的候选行（页面行数较少时同一行只作为页眉候选）
+   */
+  private getCandidates(lines: string[]): Array<{ lineIndex: number; position: LinePosition; key: string }> {
+    const nonEmpty = lines
+      .map((line, lineIndex) => ({ lineIndex, text: line.trim() }))
+      .filter(line => line.text.length > 0);
+
+    const top = nonEmpty.slice(0, this.linesToCheck);
+    const bottom = nonEmpty.slice(Math.max(top.length, nonEmpty.length - this.linesToCheck));
+
+    return [
+      ...top.map(line => ({ ...line, position: 'header' as const })),
+      ...bottom.map(line => ({ ...line, position: 'footer' as const })),
+    ]
+      .filter(line => line.text.length <= this.maxLineLength)
+      .map(line => ({
+        lineIndex: line.lineIndex,
+        position: line.position,
+        key: `${line.position}:${HeaderFooterRemovalProcessor.normalize(line.text)}`,
+      }));
+  }
+
+  /**
+   * 是否为按页输出的正文 Document（表格等独立元素不参与页眉页脚检测）
+   */
+  private static isPage(doc: Document): boolean {
+    return doc.metadata?.pageNumber !== undefined && doc.metadata?.elementType !== 'table';
+  }
+
+  /**
+   * 归一化：折叠空白、忽略大小写、数字替换为占位符
+   */
+  private static normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').toLowerCase().replace(/\d+/g, '#');
+  }
+}
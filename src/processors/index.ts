@@ -8,5 +8,7 @@ export * from './text-cleaner.processor';
 export * from './metadata-enricher.processor';
 export * from './markdown-splitter.processor';
 export * from './chunk-size-control.processor';
+export * from './contextual-header.processor';
 export * from './embedding.processor';
 export * from './page-merge.processor';
+export * from './header-footer-removal.processor';
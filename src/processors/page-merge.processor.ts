@@ -1,6 +1,7 @@
 import { Logger } from '@nestjs/common';
 import { Document } from '../models/document.model';
 import { IDocumentProcessor } from '../common/interfaces/processor.interface';
+import { PageSpan, SourceLocator } from '../splitters/source-locator';
 
 /**
  * 页面合并处理器配置
@@ -63,6 +64,10 @@ export interface PageMergeProcessorOptions {
  * 典型使用场景：扫描 PDF 经 OCR 按页识别后，从数据库读取成功的页面文本，
  * 通过此处理器合并后再做语义切分和 embedding。
  *
+ * 合并结果的 metadata.pageSpans 记录每页文本在合并文本中的区间，
+ * 后续切分器会据此为每个块计算所覆盖的页面（pageSpans / pageRange），
+ * 因此切分后仍能定位到原始页面及页内偏移。
+ *
  * 数据流：
  * ```
  * 数据库读取页面文本 → Document[] (每页一个)
@@ -144,6 +149,7 @@ export class PageMergeProcessor implements IDocumentProcessor {
       if (windowDocs.length === 0) break;
 
       const mergedText = windowDocs.map(d => d.pageContent).join(this.separator);
+      const pageSpans = this.collectPageSpans(windowDocs);
 
       // 收集页码范围
       const pageNumbers = windowDocs
@@ -153,8 +159,8 @@ export class PageMergeProcessor implements IDocumentProcessor {
       const startPage = pageNumbers.length > 0 ? Math.min(...pageNumbers) : undefined;
       const endPage = pageNumbers.length > 0 ? Math.max(...pageNumbers) : undefined;
 
-      // 继承第一个文档的基础 metadata
-      const baseMeta = { ...windowDocs[0].metadata };
+      // 继承第一个文档的基础 metadata（不继承单页的源位置）
+      const baseMeta = SourceLocator.stripLocation(windowDocs[0].metadata);
       // 清理单页相关的字段
       delete baseMeta[this.pageNumberKey];
 
@@ -169,6 +175,7 @@ export class PageMergeProcessor implements IDocumentProcessor {
             windowOverlap: this.windowOverlap,
             pageRange: startPage != null ? [startPage, endPage] : undefined,
             pageCount: windowDocs.length,
+            ...(pageSpans.length > 0 && { pageSpans }),
           },
         }),
       );
@@ -188,4 +195,43 @@ export class PageMergeProcessor implements IDocumentProcessor {
 
     return results;
   }
+
+  /**
+   * 计算每个文档在合并文本中的页面区间
+   *
+   * 输入文档本身带有 pageSpans（已合并的文本）时平移其区间；
+   * 输入文档是页面的切分块（带 startOffset）时，pageOffset 为块在页内的偏移
+   */
+  private collectPageSpans(docs: Document[]): PageSpan[] {
+    const spans: PageSpan[] = [];
+    let offset = 0;
+
+    docs.forEach((doc, index) => {
+      if (index > 0) {
+        offset += this.separator.length;
+      }
+
+      const { pageSpans, startOffset } = doc.metadata ?? {};
+      const pageNumber = doc.metadata?.[this.pageNumberKey];
+
+      if (Array.isArray(pageSpans)) {
+        spans.push(...pageSpans.map((span: PageSpan) => ({
+          ...span,
+          startOffset: span.startOffset + offset,
+          endOffset: span.endOffset + offset,
+        })));
+      } else if (typeof pageNumber === 'number') {
+        spans.push({
+          pageNumber,
+          startOffset: offset,
+          endOffset: offset + doc.pageContent.length,
+          pageOffset: typeof startOffset === 'number' ? startOffset : 0,
+        });
+      }
+
+      offset += doc.pageContent.length;
+    });
+
+    return spans;
+  }
 }
@@ -5,6 +5,7 @@ import { DocumentTaskConfig } from './task-config.interface';
 import { TaskStatus } from './task-status';
 import { PageResultStatus } from './page-result-status';
 import { IRedisClient } from '../common/interfaces/redis-client.interface';
+import { toEncryptedDocumentError } from '../loaders/utils/pdf-password';
 
 export const STATE_STORE_TOKEN = 'DOCUMENT_STATE_STORE';
 
@@ -81,7 +82,7 @@ export class DocumentTaskService {
 
     try {
       // 1. 获取总页数
-      const totalPages = await this.getTotalPages(buffer, filename);
+      const totalPages = await this.getTotalPages(buffer, filename, config?.password);
 
       // 2. 获取或创建进度
       const progress = await this.stateStore!.getOrCreateProgress(taskId, totalPages);
@@ -283,8 +284,8 @@ export class DocumentTaskService {
   /**
    * 获取 PDF 总页数
    */
-  private async getTotalPages(buffer: Buffer, _filename: string): Promise<number> {
-    // 优先使用 pdf-lib（轻量，只解析页数，不提取文本）
+  private async getTotalPages(buffer: Buffer, _filename: string, password?: string): Promise<number> {
+    // 优先使用 pdf-lib（轻量，只解析页数，不提取文本；页面树不加密，加密 PDF 也无需密码）
     try {
       const { PDFDocument } = await import('pdf-lib');
       const pdfDoc = await PDFDocument.load(buffer, { ignoreEncryption: true });
@@ -296,7 +297,7 @@ export class DocumentTaskService {
     try {
       const pdfParseModule = await import('pdf-parse');
       const PDFParse = (pdfParseModule as any).PDFParse;
-      const parser = new PDFParse({ data: buffer, verbosity: 0 });
+      const parser = new PDFParse({ data: buffer, password, verbosity: 0 });
       try {
         await parser.load();
         const info = await parser.getInfo();
@@ -305,6 +306,10 @@ export class DocumentTaskService {
         await parser.destroy().catch(() => {});
       }
     } catch (error) {
+      const encryptedError = toEncryptedDocumentError(error, !!password);
+      if (encryptedError) {
+        throw encryptedError;
+      }
       this.logger.warn('Failed to get PDF page count, defaulting to 1', {
         error: error instanceof Error ? error.message : String(error),
       });
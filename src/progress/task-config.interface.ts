@@ -17,6 +17,11 @@ export interface DocumentTaskConfig {
    */
   ocrPrompt?: string;
 
+  /**
+   * 加密 PDF 的打开密码
+   */
+  password?: string;
+
   /**
    * 最大重试次数
    */
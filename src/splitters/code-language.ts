@@ -0,0 +1,83 @@
+import { SupportedTextSplitterLanguage } from './recursive-character-text-splitter';
+
+/**
+ * 支持按语法结构切分的编程语言
+ */
+export const CodeLanguages = [
+  'typescript',
+  'javascript',
+  'python',
+  'go',
+  'java',
+  'kotlin',
+  'scala',
+  'csharp',
+  'c',
+  'cpp',
+  'rust',
+  'swift',
+  'php',
+] as const;
+
+export type CodeLanguage = (typeof CodeLanguages)[number];
+
+/**
+ * 文件扩展名 → 编程语言
+ */
+export const CODE_LANGUAGE_EXTENSIONS: Record<string, CodeLanguage> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.py': 'python',
+  '.pyi': 'python',
+  '.go': 'go',
+  '.java': 'java',
+  '.kt': 'kotlin',
+  '.kts': 'kotlin',
+  '.scala': 'scala',
+  '.cs': 'csharp',
+  '.c': 'c',
+  '.h': 'c',
+  '.cc': 'cpp',
+  '.cpp': 'cpp',
+  '.cxx': 'cpp',
+  '.hh': 'cpp',
+  '.hpp': 'cpp',
+  '.hxx': 'cpp',
+  '.rs': 'rust',
+  '.swift': 'swift',
+  '.php': 'php',
+};
+
+/**
+ * 按源文件扩展名检测编程语言
+ *
+ * @param filename - 文件名或路径
+ * @returns 编程语言，无法识别时返回 undefined
+ */
+export function detectCodeLanguage(filename: string): CodeLanguage | undefined {
+  const match = /\.[^./\\]+$/.exec(filename);
+  return match ? CODE_LANGUAGE_EXTENSIONS[match[0].toLowerCase()] : undefined;
+}
+
+/**
+ * 编程语言对应的 RecursiveCharacterTextSplitter 分隔符语言（用于切分超长的符号）
+ */
+export const FALLBACK_SPLITTER_LANGUAGES: Partial<Record<CodeLanguage, SupportedTextSplitterLanguage>> = {
+  typescript: 'js',
+  javascript: 'js',
+  python: 'python',
+  go: 'go',
+  java: 'java',
+  scala: 'scala',
+  c: 'cpp',
+  cpp: 'cpp',
+  rust: 'rust',
+  swift: 'swift',
+  php: 'php',
+};
@@ -0,0 +1,189 @@
+import { CodeSymbol, CodeSymbolExtractor } from './code-symbol-extractor';
+
+// Helper function to flatten symbols into "kind name" strings (children indented)
+function describeSymbols(symbols: CodeSymbol[], depth = 0): string[] {
+  return symbols.flatMap(symbol => [
+    `${'  '.repeat(depth)}${symbol.kind} ${symbol.name}`,
+    ...describeSymbols(symbol.children, depth + 1),
+  ]);
+}
+
+// Helper function to get the source text of a symbol
+function sourceOf(text: string, symbol: CodeSymbol): string {
+  return text.slice(symbol.start, symbol.end);
+}
+
+describe('CodeSymbolExtractor', () => {
+  describe('TypeScript', () => {
+    it('should extract functions, classes and methods', async () => {
+      const text = [
+        '/** Adds numbers */',
+        'export function add(a: number, b: number) {',
+        '  return a + b;',
+        '}',
+        '',
+        'export class Calculator {',
+        '  constructor(private base = 0) {}',
+        '  sum(values: number[]) {',
+        '    return values.reduce(add, this.base);',
+        '  }',
+        '  reset = () => {};',
+        '}',
+        '',
+        'interface Options { precision: number }',
+        'type Mode = "fast" | "exact";',
+        'const helper = (x: number) => x * 2;',
+      ].join('\n');
+
+      const symbols = await CodeSymbolExtractor.extract(text, 'typescript');
+
+      expect(describeSymbols(symbols)).toEqual([
+        'function add',
+        'class Calculator',
+        '  method constructor',
+        '  method sum',
+        '  method reset',
+        'interface Options',
+        'type Mode',
+        'function helper',
+      ]);
+      expect(sourceOf(text, symbols[0]).startsWith('/** Adds numbers */')).toBe(true);
+    });
+
+    it('should fall back to TSX when the source contains JSX', async () => {
+      const text = [
+        'export function App() {',
+        '  return <div className="app">hello</div>;',
+        '}',
+      ].join('\n');
+
+      const symbols = await CodeSymbolExtractor.extract(text, 'typescript');
+
+      expect(describeSymbols(symbols)).toEqual(['function App']);
+      expect(symbols[0].end).toBe(text.length);
+    });
+  });
+
+  describe('Python', () => {
+    it('should extract classes, methods and decorated functions', async () => {
+      const text = [
+        'import os',
+        '',
+        '# Loads files',
+        '@cache',
+        'def load(path,',
+        '         encoding="utf-8"):',
+        '    return open(path).read()',
+        '',
+        'class Store:',
+        '    def get(self, key):',
+        '        return self.items[key]',
+        '',
+        '    async def fetch(self):',
+        '        pass',
+      ].join('\n');
+
+      const symbols = await CodeSymbolExtractor.extract(text, 'python');
+
+      expect(describeSymbols(symbols)).toEqual(['function load', 'class Store', '  method get', '  method fetch']);
+      expect(sourceOf(text, symbols[0]).startsWith('# Loads files\n@cache\n')).toBe(true);
+    });
+
+    it('should ignore def and class inside triple-quoted strings', async () => {
+      const text = [
+        'def render():',
+        '    """',
+        'def fake():',
+        '    pass',
+        'class Fake:',
+        '    """',
+        "    return '''",
+        'class AlsoFake:',
+        "'''",
+        '',
+        'def after():',
+        '    pass',
+      ].join('\n');
+
+      const symbols = await CodeSymbolExtractor.extract(text, 'python');
+
+      expect(describeSymbols(symbols)).toEqual(['function render', 'function after']);
+      expect(sourceOf(text, symbols[0]).endsWith("'''")).toBe(true);
+    });
+
+    it('should ignore brackets inside strings and comments in multi-line headers', async () => {
+      const text = [
+        'def parse(pattern="(", # ) not closing',
+        '          flags=0):',
+        '    return pattern',
+        '',
+        'def other():',
+        '    pass',
+      ].join('\n');
+
+      const symbols = await CodeSymbolExtractor.extract(text, 'python');
+
+      expect(describeSymbols(symbols)).toEqual(['function parse', 'function other']);
+    });
+  });
+
+  describe('Brace languages', () => {
+    it('should extract Go types and receiver methods', async () => {
+      const text = [
+        'type Server struct {',
+        '  addr string',
+        '}',
+        '',
+        '// Start starts the server',
+        'func (s *Server) Start() error {',
+        '  return nil',
+        '}',
+      ].join('\n');
+
+      const symbols = await CodeSymbolExtractor.extract(text, 'go');
+
+      expect(describeSymbols(symbols)).toEqual(['struct Server', 'method Server.Start']);
+      expect(sourceOf(text, symbols[1]).startsWith('// Start starts the server')).toBe(true);
+    });
+
+    it('should extract Java classes with methods and ignore braces in strings', async () => {
+      const text = [
+        'public class Greeter {',
+        '  @Override',
+        '  public String toString() {',
+        '    return "}";',
+        '  }',
+        '',
+        '  private void greet(String name) {',
+        '    if (name != null) {',
+        '      System.out.println(name);',
+        '    }',
+        '  }',
+        '}',
+      ].join('\n');
+
+      const symbols = await CodeSymbolExtractor.extract(text, 'java');
+
+      expect(describeSymbols(symbols)).toEqual(['class Greeter', '  method toString', '  method greet']);
+      expect(symbols[0].end).toBe(text.length);
+    });
+
+    it('should extract Rust impl blocks and functions', async () => {
+      const text = [
+        '#[derive(Debug)]',
+        'pub struct Point { x: i32 }',
+        '',
+        'impl Point {',
+        '    pub fn new(x: i32) -> Self {',
+        '        Point { x }',
+        '    }',
+        '}',
+      ].join('\n');
+
+      const symbols = await CodeSymbolExtractor.extract(text, 'rust');
+
+      expect(describeSymbols(symbols)).toEqual(['struct Point', 'impl Point', '  method new']);
+      expect(sourceOf(text, symbols[0]).startsWith('#[derive(Debug)]')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,586 @@
+import { Logger } from '@nestjs/common';
+import { CodeLanguage } from './code-language';
+
+/**
+ * 代码符号类型
+ */
+export const CodeSymbolKind = {
+  FUNCTION: 'function',
+  METHOD: 'method',
+  CLASS: 'class',
+  INTERFACE: 'interface',
+  STRUCT: 'struct',
+  TRAIT: 'trait',
+  IMPL: 'impl',
+  ENUM: 'enum',
+  TYPE: 'type',
+  NAMESPACE: 'namespace',
+} as const;
+
+export type CodeSymbolKind = (typeof CodeSymbolKind)[keyof typeof CodeSymbolKind];
+
+/**
+ * 代码符号（函数、类、方法等）
+ */
+export interface CodeSymbol {
+  /**
+   * 符号名称（Go 方法为 "接收者类型.方法名"）
+   */
+  name: string;
+
+  /**
+   * 符号类型
+   */
+  kind: CodeSymbolKind;
+
+  /**
+   * 起始偏移（包含紧邻的文档注释、装饰器 / 注解所在的整行）
+   */
+  start: number;
+
+  /**
+   * 结束偏移（不包含）
+   */
+  end: number;
+
+  /**
+   * 子符号（类的方法、命名空间内的声明等）
+   */
+  children: CodeSymbol[];
+}
+
+/**
+ * 花括号语言的声明规则
+ */
+interface DeclarationRule {
+  /**
+   * 匹配声明行（作用于去除注释和字符串后的行文本），name 分组为符号名称，
+   * keyword 分组（可选）用于通过 KEYWORD_KINDS 确定符号类型
+   */
+  pattern: RegExp;
+
+  /**
+   * 符号类型；未提供时由 keyword 分组确定，函数规则在类型内部时为 method
+   */
+  kind?: CodeSymbolKind;
+}
+
+/**
+ * 声明关键字 → 符号类型
+ */
+const KEYWORD_KINDS: Record<string, CodeSymbolKind> = {
+  class: CodeSymbolKind.CLASS,
+  object: CodeSymbolKind.CLASS,
+  record: CodeSymbolKind.CLASS,
+  actor: CodeSymbolKind.CLASS,
+  extension: CodeSymbolKind.CLASS,
+  interface: CodeSymbolKind.INTERFACE,
+  protocol: CodeSymbolKind.INTERFACE,
+  '@interface': CodeSymbolKind.INTERFACE,
+  struct: CodeSymbolKind.STRUCT,
+  union: CodeSymbolKind.STRUCT,
+  trait: CodeSymbolKind.TRAIT,
+  impl: CodeSymbolKind.IMPL,
+  enum: CodeSymbolKind.ENUM,
+  namespace: CodeSymbolKind.NAMESPACE,
+  mod: CodeSymbolKind.NAMESPACE,
+};
+
+/**
+ * 不可能是函数名的关键字（避免将 if (...) { 等语句识别为函数）
+ */
+const NON_FUNCTION_NAMES = new Set([
+  'if', 'else', 'for', 'foreach', 'while', 'do', 'switch', 'case', 'catch', 'try', 'finally', 'return', 'throw',
+  'new', 'delete', 'sizeof', 'typeof', 'using', 'lock', 'synchronized', 'when', 'guard', 'defer', 'match', 'loop',
+  'yield', 'await', 'with', 'elif',
+]);
+
+const MODIFIERS =
+  '(?:(?:public|private|protected|internal|static|final|abstract|sealed|open|override|virtual|async|extern|unsafe|' +
+  'inline|data|inner|suspend|operator|infix|tailrec|synchronized|native|default|partial|readonly|new|const|' +
+  'mutating|fileprivate|convenience|required|implicit|lazy|case|pub(?:\\([^)]*\\))?)\\s+)*';
+
+const ANNOTATIONS = '(?:@[\\w.]+(?:\\([^)]*\\))?\\s+)*';
+
+const JVM_METHOD = new RegExp(
+  `^\\s*${ANNOTATIONS}${MODIFIERS}(?:<[^>]*>\\s*)?(?:[\\w.$]+(?:<[^()]*?>)?(?:\\[\\])*\\??\\s+)?(?<name>\\w+)\\s*\\(`
+);
+
+const C_FUNCTION =
+  '(?:template\\s*<.*>\\s*)?(?:(?:static|inline|virtual|explicit|constexpr|extern|friend|const|unsigned|signed|long|short)\\s+)*' +
+  '(?:[\\w:<>,*&~]+[\\s*&]+)*(?<name>~?[\\w:]+|operator\\s*[^\\s(]+)\\s*\\(';
+
+/**
+ * 各花括号语言的声明规则（类型规则在前）
+ */
+const BRACE_LANGUAGE_RULES: Partial<Record<CodeLanguage, DeclarationRule[]>> = {
+  java: [
+    { pattern: new RegExp(`^\\s*${ANNOTATIONS}${MODIFIERS}(?<keyword>class|interface|enum|record|@interface)\\s+(?<name>\\w+)`) },
+    { pattern: JVM_METHOD, kind: CodeSymbolKind.FUNCTION },
+  ],
+  csharp: [
+    { pattern: /^\s*(?<keyword>namespace)\s+(?<name>[\w.]+)/ },
+    { pattern: new RegExp(`^\\s*${MODIFIERS}(?<keyword>class|interface|enum|record|struct)\\s+(?<name>\\w+)`) },
+    { pattern: JVM_METHOD, kind: CodeSymbolKind.FUNCTION },
+  ],
+  kotlin: [
+    { pattern: new RegExp(`^\\s*${ANNOTATIONS}${MODIFIERS}(?<keyword>enum(?=\\s+class)|class|interface|object)(?:\\s+class)?\\s+(?<name>\\w+)`) },
+    { pattern: new RegExp(`^\\s*${ANNOTATIONS}${MODIFIERS}fun\\s+(?:<[^>]*>\\s*)?(?:[\\w.<>]+\\.)?(?<name>\\w+)\\s*\\(`), kind: CodeSymbolKind.FUNCTION },
+  ],
+  scala: [
+    { pattern: new RegExp(`^\\s*${MODIFIERS}(?<keyword>class|trait|object|enum)\\s+(?<name>\\w+)`) },
+    { pattern: new RegExp(`^\\s*${MODIFIERS}def\\s+(?<name>\\w+)`), kind: CodeSymbolKind.FUNCTION },
+  ],
+  swift: [
+    { pattern: new RegExp(`^\\s*${ANNOTATIONS}${MODIFIERS}(?<keyword>class|struct|enum|protocol|extension|actor)\\s+(?<name>[\\w.]+)`) },
+    { pattern: new RegExp(`^\\s*${ANNOTATIONS}${MODIFIERS}(?:func\\s+(?<name>\\w+)|(?<name2>init)\\s*[?!]?\\s*\\()`), kind: CodeSymbolKind.FUNCTION },
+  ],
+  php: [
+    { pattern: /^\s*(?:(?:abstract|final|readonly)\s+)*(?<keyword>class|interface|trait|enum)\s+(?<name>\w+)/ },
+    { pattern: new RegExp(`^\\s*${MODIFIERS}function\\s+&?(?<name>\\w+)`), kind: CodeSymbolKind.FUNCTION },
+  ],
+  go: [
+    { pattern: /^type\s+(?<name>\w+)(?:\[[^\]]*\])?\s+(?<keyword>struct|interface)\b/ },
+    { pattern: /^func\s+(?:\((?<receiver>[^)]*)\)\s*)?(?<name>\w+)/, kind: CodeSymbolKind.FUNCTION },
+  ],
+  rust: [
+    { pattern: new RegExp(`^\\s*${MODIFIERS}(?<keyword>struct|enum|trait|mod|union)\\s+(?<name>\\w+)`) },
+    { pattern: /^\s*(?:unsafe\s+)?(?<keyword>impl)\b(?:\s*<[^>]*>)?\s+(?:[\w:]+(?:<[^>]*>)?\s+for\s+)?(?<name>[\w:]+)/ },
+    { pattern: new RegExp(`^\\s*${MODIFIERS}(?:extern\\s+"[^"]*"\\s+)?fn\\s+(?<name>\\w+)`), kind: CodeSymbolKind.FUNCTION },
+  ],
+  c: [
+    { pattern: /^\s*(?:typedef\s+)?(?<keyword>struct|enum|union)\s+(?<name>\w+)/ },
+    { pattern: /^(?:[\w*]+[\s*]+)+(?<name>\w+)\s*\(/, kind: CodeSymbolKind.FUNCTION },
+  ],
+  cpp: [
+    { pattern: /^\s*(?:template\s*<.*>\s*)?(?<keyword>class|struct|namespace|union|enum)(?:\s+class)?\s+(?<name>\w+)/ },
+    { pattern: new RegExp(`^\\s*${C_FUNCTION}`), kind: CodeSymbolKind.FUNCTION },
+  ],
+};
+
+/**
+ * 声明上方可并入符号的行（文档注释、注解、属性）
+ */
+const LEADING_LINE_PATTERNS: Partial<Record<CodeLanguage, RegExp>> = {
+  rust: /^\s*(?:\/\/|\/\*|\*|#!?\[)/,
+  csharp: /^\s*(?:\/\/|\/\*|\*|\[)/,
+  php: /^\s*(?:\/\/|\/\*|\*|#|@)/,
+};
+
+const DEFAULT_LEADING_LINE_PATTERN = /^\s*(?:\/\/|\/\*|\*|@)/;
+
+/**
+ * 代码符号提取器
+ *
+ * - TypeScript / JavaScript：使用 TypeScript 编译器 API 解析语法树（需要安装 typescript）
+ * - Python：按缩进识别 def / class 块
+ * - 其他语言：按声明规则识别声明行，再通过花括号匹配确定范围（忽略注释和字符串中的括号）
+ *
+ * 返回按位置排序、互不重叠的顶层符号，类型的方法位于 children 中。
+ */
+export class CodeSymbolExtractor {
+  private static readonly logger = new Logger(CodeSymbolExtractor.name);
+  private static typescriptPromise?: Promise<typeof import('typescript')>;
+
+  /**
+   * 提取代码中的符号
+   *
+   * @param text - 源代码
+   * @param language - 编程语言
+   */
+  static async extract(text: string, language: CodeLanguage): Promise<CodeSymbol[]> {
+    if (language === 'typescript' || language === 'javascript') {
+      return CodeSymbolExtractor.extractTypeScript(text, language);
+    }
+    if (language === 'python') {
+      return CodeSymbolExtractor.extractPython(text);
+    }
+    return CodeSymbolExtractor.extractBraceBlocks(text, language);
+  }
+
+  /**
+   * 使用 TypeScript 编译器 API 提取符号
+   */
+  private static async extractTypeScript(text: string, language: CodeLanguage): Promise<CodeSymbol[]> {
+    const ts = await CodeSymbolExtractor.importTypeScript();
+    const parse = (kind: import('typescript').ScriptKind) =>
+      ts.createSourceFile('source', text, ts.ScriptTarget.Latest, true, kind);
+    // 解析器在出错的节点上标记 ThisNodeHasError
+    const hasErrors = (node: import('typescript').Node): boolean =>
+      (node.flags & ts.NodeFlags.ThisNodeHasError) !== 0 || !!ts.forEachChild(node, child => hasErrors(child) || undefined);
+
+    // .ts 与 .tsx 语法不兼容（<T>expr 与 JSX），按 TS 解析失败时尝试 TSX
+    let sourceFile = parse(language === 'typescript' ? ts.ScriptKind.TS : ts.ScriptKind.JSX);
+    if (language === 'typescript' && hasErrors(sourceFile)) {
+      const tsx = parse(ts.ScriptKind.TSX);
+      if (!hasErrors(tsx)) {
+        sourceFile = tsx;
+      }
+    }
+
+    type Node = import('typescript').Node;
+    const isFunctionLike = (node?: Node) => !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+    const symbol = (node: Node, name: string, kind: CodeSymbolKind, children: CodeSymbol[] = []): CodeSymbol => ({
+      name,
+      kind,
+      start: node.getStart(sourceFile, true),
+      end: node.getEnd(),
+      children,
+    });
+
+    const members = (elements: import('typescript').NodeArray<import('typescript').ClassElement>): CodeSymbol[] =>
+      elements.flatMap(member => {
+        if (ts.isConstructorDeclaration(member) && member.body) {
+          return [symbol(member, 'constructor', CodeSymbolKind.METHOD)];
+        }
+        if ((ts.isMethodDeclaration(member) || ts.isGetAccessor(member) || ts.isSetAccessor(member)) && member.body) {
+          return [symbol(member, member.name.getText(sourceFile), CodeSymbolKind.METHOD)];
+        }
+        if (ts.isPropertyDeclaration(member) && isFunctionLike(member.initializer)) {
+          return [symbol(member, member.name.getText(sourceFile), CodeSymbolKind.METHOD)];
+        }
+        return [];
+      });
+
+    const visit = (node: Node): CodeSymbol | undefined => {
+      if (ts.isFunctionDeclaration(node) && node.body) {
+        return symbol(node, node.name?.text ?? 'default', CodeSymbolKind.FUNCTION);
+      }
+      if (ts.isClassDeclaration(node)) {
+        return symbol(node, node.name?.text ?? 'default', CodeSymbolKind.CLASS, members(node.members));
+      }
+      if (ts.isInterfaceDeclaration(node)) {
+        return symbol(node, node.name.text, CodeSymbolKind.INTERFACE);
+      }
+      if (ts.isEnumDeclaration(node)) {
+        return symbol(node, node.name.text, CodeSymbolKind.ENUM);
+      }
+      if (ts.isTypeAliasDeclaration(node)) {
+        return symbol(node, node.name.text, CodeSymbolKind.TYPE);
+      }
+      if (ts.isModuleDeclaration(node)) {
+        const body = node.body && ts.isModuleBlock(node.body) ? node.body.statements : [];
+        return symbol(node, node.name.getText(sourceFile), CodeSymbolKind.NAMESPACE, collect(body));
+      }
+      if (ts.isVariableStatement(node) && node.declarationList.declarations.length === 1) {
+        const [declaration] = node.declarationList.declarations;
+        const name = declaration.name.getText(sourceFile);
+        if (isFunctionLike(declaration.initializer)) {
+          return symbol(node, name, CodeSymbolKind.FUNCTION);
+        }
+        if (declaration.initializer && ts.isClassExpression(declaration.initializer)) {
+          return symbol(node, name, CodeSymbolKind.CLASS, members(declaration.initializer.members));
+        }
+      }
+      return undefined;
+    };
+
+    const collect = (statements: readonly Node[]): CodeSymbol[] =>
+      statements.map(visit).filter((item): item is CodeSymbol => item !== undefined);
+
+    return collect(sourceFile.statements);
+  }
+
+  /**
+   * 按缩进提取 Python 的 def / class 块（含装饰器和紧邻的注释行）
+   *
+   * 声明行、括号和缩进在屏蔽字符串和注释后的文本上识别，三引号字符串中的 def / class 和缩进不影响结果
+   */
+  private static extractPython(text: string): CodeSymbol[] {
+    const lines = text.split('\n');
+    const maskedLines = CodeSymbolExtractor.maskPython(text).split('\n');
+    const lineStarts = CodeSymbolExtractor.lineStarts(lines);
+    const header = /^([ \t]*)(?:async[ \t]+)?(def|class)[ \t]+(\w+)/;
+    const indentOf = (line: string) => /^[ \t]*/.exec(line)![0].length;
+    const isBlank = (line: string) => line.trim() === '';
+
+    const scan = (from: number, to: number, inClass: boolean): CodeSymbol[] => {
+      const symbols: CodeSymbol[] = [];
+      let floor = from;
+
+      for (let i = from; i < to; i++) {
+        const match = header.exec(maskedLines[i]);
+        if (!match) {
+          continue;
+        }
+
+        const indent = match[1].length;
+
+        // 参数跨行时，跳过到括号闭合的行
+        let headerEnd = i;
+        for (let depth = 0, j = i; j < to; j++) {
+          depth += (maskedLines[j].match(/[([{]/g)?.length ?? 0) - (maskedLines[j].match(/[)\]}]/g)?.length ?? 0);
+          headerEnd = j;
+          if (depth <= 0) {
+            break;
+          }
+        }
+
+        let last = headerEnd;
+        for (let j = headerEnd + 1; j < to; j++) {
+          if (isBlank(maskedLines[j])) {
+            continue;
+          }
+          if (indentOf(maskedLines[j]) <= indent) {
+            break;
+          }
+          last = j;
+        }
+
+        let first = i;
+        while (first - 1 >= floor && indentOf(lines[first - 1]) === indent && /^\s*[@#]/.test(lines[first - 1])) {
+          first--;
+        }
+
+        const isClass = match[2] === 'class';
+        symbols.push({
+          name: match[3],
+          kind: isClass ? CodeSymbolKind.CLASS : inClass ? CodeSymbolKind.METHOD : CodeSymbolKind.FUNCTION,
+          start: lineStarts[first],
+          end: lineStarts[last] + lines[last].length,
+          children: isClass ? scan(headerEnd + 1, last + 1, true) : [],
+        });
+
+        i = last;
+        floor = last + 1;
+      }
+
+      return symbols;
+    };
+
+    return scan(0, lines.length, false);
+  }
+
+  /**
+   * 按声明规则和花括号匹配提取符号
+   */
+  private static extractBraceBlocks(text: string, language: CodeLanguage): CodeSymbol[] {
+    const rules = BRACE_LANGUAGE_RULES[language];
+    if (!rules) {
+      return [];
+    }
+
+    const masked = CodeSymbolExtractor.maskCode(text, language);
+    const lines = text.split('\n');
+    const maskedLines = masked.split('\n');
+    const lineStarts = CodeSymbolExtractor.lineStarts(lines);
+    const leadingLine = LEADING_LINE_PATTERNS[language] ?? DEFAULT_LEADING_LINE_PATTERN;
+    const lineAt = (offset: number) => {
+      let low = 0;
+      let high = lineStarts.length - 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= offset) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return low;
+    };
+
+    /**
+     * 从声明行之后查找函数体 / 类型体的左花括号（遇到 ;、表达式体的 = 或空行时视为无体声明）
+     */
+    const findBodyStart = (from: number, depth: number, limit: number): number => {
+      for (let k = from; k < limit; k++) {
+        const ch = masked[k];
+        if (ch === '(' || ch === '[') {
+          depth++;
+        } else if (ch === ')' || ch === ']') {
+          depth--;
+        } else if (depth <= 0) {
+          if (ch === '{') return k;
+          if (ch === ';' || ch === '}') return -1;
+          if (ch === '=' && language !== 'scala' && !'=<>!'.includes(masked[k - 1]) && masked[k + 1] !== '=') return -1;
+          if (ch === '\n' && /^\s*\n/.test(masked.slice(k + 1, k + 200))) return -1;
+        }
+      }
+      return -1;
+    };
+
+    const findBodyEnd = (open: number, limit: number): number => {
+      let depth = 0;
+      for (let k = open; k < limit; k++) {
+        if (masked[k] === '{') {
+          depth++;
+        } else if (masked[k] === '}' && --depth === 0) {
+          return k + 1;
+        }
+      }
+      return limit;
+    };
+
+    const scan = (fromLine: number, toLine: number, limit: number, container?: CodeSymbolKind): CodeSymbol[] => {
+      const symbols: CodeSymbol[] = [];
+      let floor = fromLine;
+
+      for (let i = fromLine; i < toLine; i++) {
+        for (const rule of rules) {
+          const match = rule.pattern.exec(maskedLines[i]);
+          const groups = match?.groups ?? {};
+          const name = groups.name ?? groups.name2;
+          // 以 ( 结尾的规则可能匹配到 if (...) 等语句；fn / func 等关键字声明的名称不受限制
+          if (!match || !name || (match[0].endsWith('(') && NON_FUNCTION_NAMES.has(name))) {
+            continue;
+          }
+
+          const open = findBodyStart(lineStarts[i] + match[0].length, match[0].endsWith('(') ? 1 : 0, limit);
+          if (open < 0) {
+            continue;
+          }
+
+          const end = findBodyEnd(open, limit);
+          let kind = rule.kind ?? KEYWORD_KINDS[groups.keyword];
+          let symbolName = name;
+          if (kind === CodeSymbolKind.FUNCTION && groups.receiver) {
+            kind = CodeSymbolKind.METHOD;
+            symbolName = `${groups.receiver.trim().split(/\s+/).pop()!.replace(/^\*/, '')}.${name}`;
+          } else if (kind === CodeSymbolKind.FUNCTION && container && container !== CodeSymbolKind.NAMESPACE) {
+            kind = CodeSymbolKind.METHOD;
+          }
+
+          let first = i;
+          while (first - 1 >= floor && leadingLine.test(lines[first - 1])) {
+            first--;
+          }
+
+          const bodyLine = lineAt(open) + 1;
+          const lastLine = lineAt(end - 1);
+          symbols.push({
+            name: symbolName,
+            kind,
+            start: lineStarts[first],
+            end,
+            children: kind === CodeSymbolKind.FUNCTION || kind === CodeSymbolKind.METHOD
+              ? []
+              : scan(bodyLine, lastLine, end - 1, kind),
+          });
+
+          i = lastLine;
+          floor = lastLine + 1;
+          break;
+        }
+      }
+
+      return symbols;
+    };
+
+    return scan(0, lines.length, text.length);
+  }
+
+  /**
+   * 将注释和字符串 / 字符字面量替换为空格（保留换行和长度），便于匹配括号和声明
+   */
+  private static maskCode(text: string, language: CodeLanguage): string {
+    const chars = text.split('');
+    const blank = (from: number, to: number) => {
+      for (let k = from; k < to && k < chars.length; k++) {
+        if (chars[k] !== '\n') {
+          chars[k] = ' ';
+        }
+      }
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      const next = text[i + 1];
+
+      if ((ch === '/' && next === '/') || (language === 'php' && ch === '#' && next !== '[')) {
+        const end = text.indexOf('\n', i);
+        blank(i, end < 0 ? text.length : end);
+        i = end < 0 ? text.length : end;
+      } else if (ch === '/' && next === '*') {
+        const end = text.indexOf('*/', i + 2);
+        blank(i, end < 0 ? text.length : end + 2);
+        i = end < 0 ? text.length : end + 1;
+      } else if (ch === '"' || ch === '`') {
+        let end = i + 1;
+        while (end < text.length && text[end] !== ch) {
+          end += text[end] === '\\' ? 2 : 1;
+        }
+        blank(i, end + 1);
+        i = end;
+      } else if (ch === "'") {
+        // 字符字面量；Rust 生命周期（'a）等不是字面量
+        const literal = /^'(?:\\.[^'\n]*|[^\\'\n])'/.exec(text.slice(i, i + 12));
+        if (literal) {
+          blank(i, i + literal[0].length);
+          i += literal[0].length - 1;
+        } else if (language === 'php') {
+          let end = i + 1;
+          while (end < text.length && text[end] !== "'") {
+            end += text[end] === '\\' ? 2 : 1;
+          }
+          blank(i, end + 1);
+          i = end;
+        }
+      }
+    }
+
+    return chars.join('');
+  }
+
+  /**
+   * 将 Python 的注释和字符串（含三引号字符串）替换为空格（保留换行和长度）
+   */
+  private static maskPython(text: string): string {
+    const chars = text.split('');
+    const blank = (from: number, to: number) => {
+      for (let k = from; k < to && k < chars.length; k++) {
+        if (chars[k] !== '\n') {
+          chars[k] = ' ';
+        }
+      }
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (ch === '#') {
+        const end = text.indexOf('\n', i);
+        blank(i, end < 0 ? text.length : end);
+        i = end < 0 ? text.length : end;
+      } else if (ch === '"' || ch === "'") {
+        const quote = text.startsWith(ch.repeat(3), i) ? ch.repeat(3) : ch;
+        let end = i + quote.length;
+        // 单引号字符串不跨行（未闭合时在行尾结束）
+        while (end < text.length && !text.startsWith(quote, end) && (quote.length === 3 || text[end] !== '\n')) {
+          end += text[end] === '\\' ? 2 : 1;
+        }
+        const stop = text.startsWith(quote, end) ? end + quote.length : end;
+        blank(i, stop);
+        i = stop - 1;
+      }
+    }
+
+    return chars.join('');
+  }
+
+  /**
+   * 每行的起始偏移
+   */
+  private static lineStarts(lines: string[]): number[] {
+    const starts: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+      starts.push(offset);
+      offset += line.length + 1;
+    }
+    return starts;
+  }
+
+  /**
+   * 动态导入 typescript 库
+   */
+  private static importTypeScript(): Promise<typeof import('typescript')> {
+    CodeSymbolExtractor.typescriptPromise ??= import('typescript')
+      .then(module => ((module as any).default ?? module) as typeof import('typescript'))
+      .catch(e => {
+        CodeSymbolExtractor.typescriptPromise = undefined;
+        CodeSymbolExtractor.logger.error('Failed to load typescript', { error: e instanceof Error ? e.message : String(e) });
+        throw new Error('Failed to load typescript. Please install it with: npm install typescript');
+      });
+    return CodeSymbolExtractor.typescriptPromise;
+  }
+}
@@ -0,0 +1,95 @@
+import { CodeTextSplitter } from './code-text-splitter';
+import { RecursiveCharacterTextSplitter } from './recursive-character-text-splitter';
+import { Document } from '../models/document.model';
+
+const SOURCE = [
+  "import { sum } from './sum';",
+  '',
+  '/** Adds numbers */',
+  'export function add(a: number, b: number) {',
+  '  return a + b;',
+  '}',
+  '',
+  'export class Calculator {',
+  '  private base = 0;',
+  '  sum(values: number[]) {',
+  '    return sum(values) + this.base;',
+  '  }',
+  '  reset() {',
+  '    this.base = 0;',
+  '  }',
+  '}',
+].join('\n');
+
+// Helper function to summarize chunks as [symbolName, lineStart, lineEnd]
+function summarize(docs: Document[]): Array<[string | undefined, number | undefined, number | undefined]> {
+  return docs.map(doc => [doc.metadata.symbolName, doc.metadata.lineStart, doc.metadata.lineEnd]);
+}
+
+describe('CodeTextSplitter', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should split top level symbols with their doc comments', async () => {
+    const splitter = new CodeTextSplitter({ chunkSize: 1000, chunkOverlap: 0 });
+
+    const docs = await splitter.createDocuments([SOURCE], [{ source: 'calc.ts' }]);
+
+    expect(summarize(docs)).toEqual([
+      [undefined, 1, 1],
+      ['add', 3, 6],
+      ['Calculator', 8, 16],
+    ]);
+    expect(docs[1].metadata).toMatchObject({ language: 'typescript', symbolKind: 'function', chunkIndex: 1 });
+    expect(docs[1].pageContent.startsWith('/** Adds numbers */')).toBe(true);
+  });
+
+  it('should split oversized types by method', async () => {
+    const splitter = new CodeTextSplitter({ language: 'typescript', chunkSize: 100, chunkOverlap: 0 });
+
+    const docs = await splitter.createDocuments([SOURCE]);
+
+    expect(summarize(docs)).toEqual([
+      [undefined, 1, 1],
+      ['add', 3, 6],
+      ['Calculator', 8, 9],
+      ['Calculator.sum', 10, 12],
+      ['Calculator.reset', 13, 15],
+    ]);
+    expect(docs[3].metadata).toMatchObject({ symbolKind: 'method', parentSymbol: 'Calculator' });
+  });
+
+  it('should compose locations with the parent document', async () => {
+    const splitter = new CodeTextSplitter({ chunkSize: 1000, chunkOverlap: 0 });
+    const [doc] = await splitter.splitDocuments([
+      new Document({ pageContent: SOURCE, metadata: { language: 'typescript', startOffset: 100, lineStart: 11 } }),
+    ]);
+
+    expect(doc.metadata).toMatchObject({ startOffset: 100, lineStart: 11, lineEnd: 11 });
+  });
+
+  it('should fall back to separator splitting without a language', async () => {
+    const splitter = new CodeTextSplitter({ chunkSize: 60, chunkOverlap: 0 });
+
+    const docs = await splitter.createDocuments([SOURCE], [{ source: 'calc' }]);
+
+    expect(docs.length).toBeGreaterThan(1);
+    expect(docs.every(doc => doc.metadata.symbolName === undefined && doc.metadata.language === undefined)).toBe(true);
+    expect(docs.every(doc => SOURCE.slice(doc.metadata.startOffset, doc.metadata.endOffset) === doc.pageContent)).toBe(
+      true
+    );
+  });
+
+  it('should keep pieces that cannot be located in the source', async () => {
+    jest.spyOn(RecursiveCharacterTextSplitter.prototype, 'splitText').mockResolvedValue(['rewritten piece']);
+    const splitter = new CodeTextSplitter({ language: 'typescript', chunkSize: 20, chunkOverlap: 0 });
+
+    const docs = await splitter.createDocuments(['function add(a: number, b: number) {\n  return a + b;\n}']);
+
+    expect(docs.map(doc => [doc.pageContent, doc.metadata.symbolName, doc.metadata.symbolPart])).toEqual([
+      ['rewritten piece', 'add', 1],
+    ]);
+    expect(docs[0].metadata).not.toHaveProperty('startOffset');
+  });
+});
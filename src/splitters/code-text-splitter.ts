@@ -0,0 +1,212 @@
+import { Logger } from '@nestjs/common';
+import { Document } from '../models/document.model';
+import { TextSplitter, TextSplitterParams } from './text-splitter';
+import { RecursiveCharacterTextSplitter } from './recursive-character-text-splitter';
+import { SourceLocator } from './source-locator';
+import { CodeLanguage, FALLBACK_SPLITTER_LANGUAGES, detectCodeLanguage } from './code-language';
+import { CodeSymbol, CodeSymbolExtractor, CodeSymbolKind } from './code-symbol-extractor';
+
+/**
+ * CodeTextSplitter 配置参数
+ */
+export interface CodeTextSplitterParams extends TextSplitterParams {
+  /**
+   * 编程语言
+   *
+   * 未提供时依次使用文档 metadata.language（CodeLoader 输出）和 metadata.source 的扩展名
+   */
+  language?: CodeLanguage;
+}
+
+/**
+ * 代码块（切分结果在源代码中的区间及所属符号，分隔符切分的片段无法定位时不带区间）
+ */
+interface CodeChunk {
+  text: string;
+  start?: number;
+  end?: number;
+  symbol?: {
+    name: string;
+    kind: CodeSymbolKind;
+    parent?: string;
+    part?: number;
+  };
+}
+
+/**
+ * 代码文本分割器
+ *
+ * 按函数 / 类 / 方法边界切分源代码（符号识别见 {@link CodeSymbolExtractor}）：
+ * - 每个顶层符号（含其文档注释和装饰器）单独成块
+ * - 超过 chunkSize 的类型按方法拆分，类型头部（字段等）单独成块
+ * - 超过 chunkSize 的函数 / 方法按语言分隔符继续切分，metadata.symbolPart 标记分段序号
+ * - 符号之间的代码（import、顶层语句等）单独成块
+ *
+ * 块的 metadata 包含 language、symbolName（方法为 "类名.方法名"）、symbolKind、parentSymbol
+ * 以及 startOffset / endOffset / lineStart / lineEnd（分隔符切分的片段无法在源代码中定位时不带源位置）。
+ * 无法识别语言或符号时按语言分隔符（或默认分隔符）切分。
+ *
+ * @example
+ * ```typescript
+ * const splitter = new CodeTextSplitter({ chunkSize: 2000, chunkOverlap: 0 });
+ * const docs = await new CodeLoader('src/app.service.ts').loadAndSplit(splitter);
+ * // docs[0].metadata: { language: 'typescript', symbolName: 'AppService.getHello', symbolKind: 'method',
+ * //                     parentSymbol: 'AppService', lineStart: 12, lineEnd: 18, ... }
+ * ```
+ */
+export class CodeTextSplitter extends TextSplitter {
+  private static readonly logger = new Logger(CodeTextSplitter.name);
+
+  private readonly language?: CodeLanguage;
+
+  constructor(params: CodeTextSplitterParams = {}) {
+    super(params);
+    this.language = params.language;
+  }
+
+  /**
+   * 分割文本
+   */
+  async splitText(text: string): Promise<string[]> {
+    const chunks = await this.splitCode(text, this.language);
+    return chunks.map(chunk => chunk.text);
+  }
+
+  /**
+   * 从文本数组创建文档（块带有符号信息和源位置）
+   */
+  async createDocuments(
+    texts: string[],
+    metadatas: Record<string, any>[] = []
+  ): Promise<Document[]> {
+    const documents: Document[] = [];
+
+    for (let i = 0; i < texts.length; i++) {
+      const text = texts[i];
+      const metadata = metadatas[i] ?? {};
+      const language: CodeLanguage | undefined = this.language
+        ?? metadata.language
+        ?? (typeof metadata.source === 'string' ? detectCodeLanguage(metadata.source) : undefined);
+      const locator = new SourceLocator(text, metadata);
+      const baseMetadata = SourceLocator.stripLocation(metadata);
+      const chunks = await this.splitCode(text, language);
+
+      chunks.forEach(({ text: chunkText, start, end, symbol }, chunkIndex) => {
+        documents.push(
+          new Document({
+            pageContent: chunkText,
+            metadata: {
+              ...baseMetadata,
+              ...(language && { language }),
+              ...(symbol && {
+                symbolName: symbol.name,
+                symbolKind: symbol.kind,
+                ...(symbol.parent && { parentSymbol: symbol.parent }),
+                ...(symbol.part && { symbolPart: symbol.part }),
+              }),
+              chunkIndex,
+              ...(start !== undefined && end !== undefined && locator.locate(start, end)),
+            },
+          })
+        );
+      });
+    }
+
+    return documents;
+  }
+
+  /**
+   * 切分源代码为块
+   */
+  private async splitCode(text: string, language?: CodeLanguage): Promise<CodeChunk[]> {
+    let symbols: CodeSymbol[] = [];
+    if (language) {
+      try {
+        symbols = await CodeSymbolExtractor.extract(text, language);
+      } catch (error) {
+        CodeTextSplitter.logger.warn(`Failed to extract ${language} symbols, falling back to separator splitting`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const fallback = this.createFallbackSplitter(language);
+    const chunks: CodeChunk[] = [];
+
+    /**
+     * 添加区间（去除首尾空白；只含括号等标点的区间忽略；超过 chunkSize 时继续切分）
+     */
+    const pushRange = async (start: number, end: number, symbol?: CodeChunk['symbol']) => {
+      while (start < end && /\s/.test(text[start])) start++;
+      while (end > start && /\s/.test(text[end - 1])) end--;
+      const content = text.slice(start, end);
+      if (/^[\s{}()[\];,]*$/.test(content)) {
+        return;
+      }
+
+      if ((await this.lengthFunction(content)) <= this.chunkSize) {
+        chunks.push({ text: content, start, end, symbol });
+        return;
+      }
+
+      let searchFrom = start;
+      let part = 0;
+      for (const piece of await fallback.splitText(content)) {
+        const pieceSymbol = symbol && { ...symbol, part: ++part };
+        const pieceStart = text.indexOf(piece, searchFrom);
+        if (pieceStart < 0 || pieceStart + piece.length > end) {
+          // 切分器改写了片段内容，无法定位时保留内容但不带源位置
+          CodeTextSplitter.logger.warn('Unable to locate split piece in source, keeping it without location', {
+            symbol: symbol?.name,
+          });
+          chunks.push({ text: piece, symbol: pieceSymbol });
+          continue;
+        }
+        searchFrom = pieceStart + 1;
+        chunks.push({ text: piece, start: pieceStart, end: pieceStart + piece.length, symbol: pieceSymbol });
+      }
+    };
+
+    const pushSymbol = async (symbol: CodeSymbol, parent?: string) => {
+      const name = parent ? `${parent}.${symbol.name}` : symbol.name;
+      const info = { name, kind: symbol.kind, ...(parent && { parent }) };
+
+      if (symbol.children.length === 0 || (await this.lengthFunction(text.slice(symbol.start, symbol.end))) <= this.chunkSize) {
+        await pushRange(symbol.start, symbol.end, info);
+        return;
+      }
+
+      // 类型过大：头部、成员之间的代码归属类型本身，成员单独成块
+      let cursor = symbol.start;
+      for (const child of symbol.children) {
+        await pushRange(cursor, child.start, info);
+        await pushSymbol(child, name);
+        cursor = child.end;
+      }
+      await pushRange(cursor, symbol.end, info);
+    };
+
+    let cursor = 0;
+    for (const symbol of symbols) {
+      await pushRange(cursor, symbol.start);
+      await pushSymbol(symbol);
+      cursor = symbol.end;
+    }
+    await pushRange(cursor, text.length);
+
+    return chunks;
+  }
+
+  /**
+   * 超长区间使用的分隔符切分器
+   */
+  private createFallbackSplitter(language?: CodeLanguage): RecursiveCharacterTextSplitter {
+    const splitterLanguage = language && FALLBACK_SPLITTER_LANGUAGES[language];
+    return new RecursiveCharacterTextSplitter({
+      chunkSize: this.chunkSize,
+      chunkOverlap: this.chunkOverlap,
+      lengthFunction: this.lengthFunction,
+      ...(splitterLanguage && { separators: RecursiveCharacterTextSplitter.getSeparatorsForLanguage(splitterLanguage) }),
+    });
+  }
+}
@@ -0,0 +1,172 @@
+import { extractFrontMatter, frontMatterMetadata } from './front-matter';
+
+// Helper function to parse YAML front matter lines
+function parseYaml(lines: string[]): Record<string, unknown> {
+  return extractFrontMatter(['---', ...lines, '---', '# Body'].join('\n'))!.data;
+}
+
+describe('extractFrontMatter', () => {
+  it('should return undefined without front matter or closing delimiter', () => {
+    expect(extractFrontMatter('# Title\n\ntext')).toBeUndefined();
+    expect(extractFrontMatter('---\ntitle: x\n# Title')).toBeUndefined();
+  });
+
+  it('should not treat a leading horizontal rule as front matter', () => {
+    expect(extractFrontMatter('---\nIntro paragraph that matters.\n\n---\n# Title\nbody')).toBeUndefined();
+    expect(extractFrontMatter('---\n- a list after a rule\n---\nbody')).toBeUndefined();
+    expect(extractFrontMatter('+++\nNot TOML at all\n+++\nbody')).toBeUndefined();
+  });
+
+  it('should not treat invalid YAML as front matter', () => {
+    expect(extractFrontMatter('---\ntitle: [unclosed\n---\nbody')).toBeUndefined();
+  });
+
+  it('should accept empty front matter', () => {
+    expect(extractFrontMatter('---\n---\nbody')?.data).toEqual({});
+  });
+
+  it('should report raw text, line count and body offset', () => {
+    const text = '---\r\ntitle: Guide\r\n---\r\n# Install';
+
+    const frontMatter = extractFrontMatter(text)!;
+
+    expect(frontMatter.format).toBe('yaml');
+    expect(frontMatter.lineCount).toBe(3);
+    expect(text.slice(frontMatter.bodyOffset)).toBe('# Install');
+  });
+
+  describe('YAML', () => {
+    it('should parse scalars, lists and nested maps', () => {
+      const data = parseYaml([
+        'title: "Install: Linux"',
+        'draft: false',
+        'weight: 10',
+        'tags: [linux, "docker"]  # trailing comment',
+        'authors:',
+        '  - name: Alice',
+        '    role: editor',
+        '  - Bob',
+        'meta:',
+        '  version: 1.5',
+        '  empty: ~',
+        'date: 2024-01-02',
+      ]);
+
+      expect(data).toEqual({
+        title: 'Install: Linux',
+        draft: false,
+        weight: 10,
+        tags: ['linux', 'docker'],
+        authors: [{ name: 'Alice', role: 'editor' }, 'Bob'],
+        meta: { version: 1.5, empty: null },
+        date: '2024-01-02',
+      });
+    });
+
+    it('should keep indentation, blank lines and # lines in literal block scalars', () => {
+      const data = parseYaml([
+        'desc: |',
+        '  line one',
+        '    indented',
+        '',
+        '  # not a comment',
+        'next: 1',
+      ]);
+
+      expect(data).toEqual({ desc: 'line one\n  indented\n\n# not a comment\n', next: 1 });
+    });
+
+    it('should fold block scalars and keep breaks around blank and more-indented lines', () => {
+      const data = parseYaml([
+        'desc: >',
+        '  folded',
+        '  text',
+        '',
+        '  paragraph',
+        '    code',
+        '  back',
+      ]);
+
+      expect(data.desc).toBe('folded text\nparagraph\n  code\nback\n');
+    });
+
+    it('should apply chomping and indentation indicators', () => {
+      const data = parseYaml([
+        'strip: |-',
+        '  text',
+        '',
+        'keep: |+',
+        '  text',
+        '',
+        'explicit: |2',
+        '    deeper',
+        '  base',
+        'end: 1',
+      ]);
+
+      expect(data).toEqual({ strip: 'text', keep: 'text\n\n', explicit: '  deeper\nbase\n', end: 1 });
+    });
+
+    it('should parse block scalars inside list items', () => {
+      const data = parseYaml([
+        'steps:',
+        '  - name: build',
+        '    run: |',
+        '      npm ci',
+        '      # build',
+        '      npm run build',
+        '  - name: test',
+      ]);
+
+      expect(data.steps).toEqual([
+        { name: 'build', run: 'npm ci\n# build\nnpm run build\n' },
+        { name: 'test' },
+      ]);
+    });
+  });
+
+  describe('TOML', () => {
+    it('should parse keys, tables, arrays of tables and multi-line strings', () => {
+      const text = [
+        '+++',
+        'title = "Guide" # comment',
+        'tags = [',
+        '  "a",',
+        '  "b",',
+        ']',
+        'site.name = "docs"',
+        '[params]',
+        'count = 1_000',
+        'inline = { x = 1, y = true }',
+        '[[authors]]',
+        'name = "Alice"',
+        '[[authors]]',
+        'name = "Bob"',
+        'notes = """',
+        'first',
+        '  second"""',
+        '+++',
+        'body',
+      ].join('\n');
+
+      const frontMatter = extractFrontMatter(text)!;
+
+      expect(frontMatter.format).toBe('toml');
+      expect(frontMatter.data).toEqual({
+        title: 'Guide',
+        tags: ['a', 'b'],
+        site: { name: 'docs' },
+        params: { count: 1000, inline: { x: 1, y: true } },
+        authors: [{ name: 'Alice' }, { name: 'Bob', notes: 'first\n  second' }],
+      });
+    });
+  });
+});
+
+describe('frontMatterMetadata', () => {
+  it('should expose a trimmed string title', () => {
+    const frontMatter = extractFrontMatter('---\ntitle: |\n  Guide\n---\n')!;
+
+    expect(frontMatterMetadata(frontMatter)).toEqual({ frontMatter: { title: 'Guide\n' }, title: 'Guide' });
+  });
+});
@@ -0,0 +1,370 @@
+import { CORE_SCHEMA, load } from 'js-yaml';
+
+/**
+ * Markdown 文档开头的 front matter
+ */
+export interface FrontMatter {
+  /**
+   * 格式：YAML（--- 包围）或 TOML（+++ 包围）
+   */
+  format: 'yaml' | 'toml';
+
+  /**
+   * 解析后的数据
+   */
+  data: Record<string, unknown>;
+
+  /**
+   * 包含分隔线的原始文本
+   */
+  raw: string;
+
+  /**
+   * front matter 占用的行数（包含分隔线）
+   */
+  lineCount: number;
+
+  /**
+   * 正文在源文本中的起始偏移
+   */
+  bodyOffset: number;
+}
+
+/**
+ * 提取并解析文档开头的 YAML / TOML front matter
+ *
+ * - YAML：使用 js-yaml 解析（CORE_SCHEMA），顶层必须是映射
+ * - TOML：常用子集实现，支持键值对、点号键、[table] / [[array]]、字符串、数字、布尔值、数组和内联表
+ *
+ * 日期等其他类型保留为字符串。分隔线之间的内容无法完整解析时（如文档以 --- 水平线开头）
+ * 不视为 front matter，避免正文被当作元数据丢弃
+ *
+ * @returns 文本以可解析的 front matter 开头时返回解析结果，否则返回 undefined
+ *
+ * @example
+ * ```typescript
+ * const frontMatter = extractFrontMatter('---\ntitle: 安装指南\ntags: [linux, docker]\n---\n# 安装');
+ * // frontMatter.data: { title: '安装指南', tags: ['linux', 'docker'] }
+ * // frontMatter.bodyOffset: 44
+ * ```
+ */
+export function extractFrontMatter(text: string): FrontMatter | undefined {
+  const match = /^\uFEFF?(---|\+\+\+)[ \t]*\r?\n/.exec(text);
+  if (!match) {
+    return undefined;
+  }
+
+  const format = match[1] === '---' ? 'yaml' : 'toml';
+  const closing = format === 'yaml' ? /^(?:---|\.\.\.)[ \t]*$/ : /^\+\+\+[ \t]*$/;
+  const lines = text.slice(match[0].length).split('\n');
+  const end = lines.findIndex(line => closing.test(line.replace(/\r$/, '')));
+  if (end < 0) {
+    return undefined;
+  }
+
+  const body = lines.slice(0, end).map(line => line.replace(/\r$/, ''));
+  const raw = text.slice(0, match[0].length + lines.slice(0, end + 1).join('\n').length);
+  const bodyOffset = Math.min(text.length, raw.length + 1);
+  const data = format === 'yaml' ? parseYaml(body) : parseToml(body);
+  if (!data) {
+    return undefined;
+  }
+
+  return {
+    format,
+    data,
+    raw,
+    lineCount: end + 2,
+    bodyOffset,
+  };
+}
+
+/**
+ * front matter 对应的文档 metadata（frontMatter 字段，字符串 title 同时写入 metadata.title）
+ */
+export function frontMatterMetadata(frontMatter: FrontMatter): Record<string, any> {
+  const title = frontMatter.data.title;
+  return {
+    frontMatter: frontMatter.data,
+    ...(typeof title === 'string' && title.trim() && { title: title.trim() }),
+  };
+}
+
+// ========== YAML ==========
+
+/**
+ * 解析 YAML 映射（CORE_SCHEMA：日期等保留为字符串）
+ *
+ * @returns 解析失败或顶层不是映射时返回 undefined
+ */
+function parseYaml(lines: string[]): Record<string, unknown> | undefined {
+  let value: unknown;
+  try {
+    value = load(lines.join('\n'), { schema: CORE_SCHEMA });
+  } catch {
+    return undefined;
+  }
+  if (value === undefined || value === null) {
+    return {};
+  }
+  return isPlainObject(value) ? value : undefined;
+}
+
+// ========== TOML ==========
+
+/**
+ * 解析 TOML 文档
+ *
+ * @returns 存在无法识别的行时返回 undefined
+ */
+function parseToml(lines: string[]): Record<string, unknown> | undefined {
+  const root: Record<string, unknown> = {};
+  let current = root;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = stripTomlComment(lines[i]);
+    if (!line) {
+      continue;
+    }
+
+    const arrayTable = /^\[\[\s*(.+?)\s*\]\]$/.exec(line);
+    if (arrayTable) {
+      const keys = splitDottedKey(arrayTable[1]);
+      const parent = resolveTable(root, keys.slice(0, -1));
+      const last = keys[keys.length - 1];
+      const array = Array.isArray(parent[last]) ? (parent[last] as unknown[]) : (parent[last] = []) as unknown[];
+      current = {};
+      array.push(current);
+      continue;
+    }
+
+    const table = /^\[\s*(.+?)\s*\]$/.exec(line);
+    if (table) {
+      current = resolveTable(root, splitDottedKey(table[1]));
+      continue;
+    }
+
+    const index = findTomlAssignment(line);
+    if (index <= 0) {
+      return undefined;
+    }
+
+    // 多行字符串 / 多行数组：拼接到引号或括号闭合为止
+    const keys = splitDottedKey(line.slice(0, index));
+    let value = line.slice(index + 1).trim();
+    if (value.startsWith('"""') || value.startsWith("'''")) {
+      const delimiter = value.slice(0, 3);
+      const parts = [value.slice(3)];
+      while (!parts[parts.length - 1].includes(delimiter) && i + 1 < lines.length) {
+        parts.push(lines[++i]);
+      }
+      const joined = parts.join('\n').replace(/^\n/, '');
+      const text = joined.slice(0, joined.lastIndexOf(delimiter));
+      assignDotted(current, keys, delimiter === '"""' ? unescapeDoubleQuoted(text) : text);
+      continue;
+    }
+    while (value.startsWith('[') && !isBalanced(value) && i + 1 < lines.length) {
+      value += ' ' + stripTomlComment(lines[++i]);
+    }
+
+    assignDotted(current, keys, parseTomlValue(value));
+  }
+
+  return root;
+}
+
+/**
+ * 解析 TOML 值
+ */
+function parseTomlValue(value: string): unknown {
+  const text = value.trim();
+
+  if (text.startsWith('[') && text.endsWith(']')) {
+    return splitFlow(text.slice(1, -1)).map(parseTomlValue);
+  }
+  if (text.startsWith('{') && text.endsWith('}')) {
+    const map: Record<string, unknown> = {};
+    for (const item of splitFlow(text.slice(1, -1))) {
+      const index = findTomlAssignment(item);
+      if (index > 0) {
+        assignDotted(map, splitDottedKey(item.slice(0, index)), parseTomlValue(item.slice(index + 1)));
+      }
+    }
+    return map;
+  }
+  if (/^".*"$/.test(text)) {
+    return unescapeDoubleQuoted(text.slice(1, -1));
+  }
+  if (/^'.*'$/.test(text)) {
+    return text.slice(1, -1);
+  }
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (/^[-+]?(?:inf|nan)$/.test(text)) return Number(text.replace('inf', 'Infinity').replace(/^[-+]?nan$/, 'NaN'));
+  if (/^[-+]?\d[\d_]*$/.test(text)) return Number(text.replace(/_/g, ''));
+  if (/^0x[\da-fA-F_]+$|^0o[0-7_]+$|^0b[01_]+$/.test(text)) return Number(text.replace(/_/g, ''));
+  if (/^[-+]?\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][-+]?\d+)?$/.test(text)) return Number(text.replace(/_/g, ''));
+
+  // 日期时间等保留为字符串
+  return text;
+}
+
+/**
+ * 去除 TOML 注释（引号外的 # 之后的内容）
+ */
+function stripTomlComment(line: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#') {
+      return line.slice(0, i).trim();
+    }
+  }
+  return line.trim();
+}
+
+/**
+ * 查找键值对中 = 的位置（引号外）
+ */
+function findTomlAssignment(line: string): number {
+  let quote: string | undefined;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '=') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 拆分点号键（a."b.c".d → ['a', 'b.c', 'd']）
+ */
+function splitDottedKey(key: string): string[] {
+  return splitOutsideQuotes(key.trim(), '.').map(part => unquote(part.trim()));
+}
+
+/**
+ * 获取（必要时创建）点号路径对应的表；路径指向表数组时返回最后一个元素
+ */
+function resolveTable(root: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+  let table = root;
+  for (const key of keys) {
+    const next = table[key];
+    if (Array.isArray(next) && isPlainObject(next[next.length - 1])) {
+      table = next[next.length - 1] as Record<string, unknown>;
+    } else if (isPlainObject(next)) {
+      table = next;
+    } else {
+      const created: Record<string, unknown> = {};
+      table[key] = created;
+      table = created;
+    }
+  }
+  return table;
+}
+
+/**
+ * 按点号路径赋值
+ */
+function assignDotted(table: Record<string, unknown>, keys: string[], value: unknown): void {
+  resolveTable(table, keys.slice(0, -1))[keys[keys.length - 1]] = value;
+}
+
+// ========== 通用 ==========
+
+/**
+ * 拆分流式集合的元素（忽略引号和嵌套括号内的逗号）
+ */
+function splitFlow(text: string): string[] {
+  return splitOutsideQuotes(text, ',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * 在引号和括号之外按分隔符拆分
+ */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+/**
+ * 方括号是否闭合（忽略引号内的内容）
+ */
+function isBalanced(text: string): boolean {
+  let depth = 0;
+  let quote: string | undefined;
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+    }
+  }
+  return depth <= 0;
+}
+
+/**
+ * 去除键的引号
+ */
+function unquote(text: string): string {
+  if (/^".*"$/.test(text)) return unescapeDoubleQuoted(text.slice(1, -1));
+  if (/^'.*'$/.test(text)) return text.slice(1, -1);
+  return text;
+}
+
+/**
+ * 处理双引号字符串的转义序列
+ */
+function unescapeDoubleQuoted(text: string): string {
+  return text.replace(/\\(u[\da-fA-F]{4}|U[\da-fA-F]{8}|.)/g, (_, escape: string) => {
+    switch (escape[0]) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'r': return '\r';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case 'u':
+      case 'U': return String.fromCodePoint(parseInt(escape.slice(1), 16));
+      default: return escape;
+    }
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -7,6 +7,7 @@
 // 基础切分器
 export { TextSplitter, TextSplitterParams } from './text-splitter';
 export { CharacterTextSplitter, CharacterTextSplitterParams } from './character-text-splitter';
+export { SourceLocator, SourceLocation, PageSpan } from './source-locator';
 
 // 递归切分器
 export {
@@ -16,6 +17,18 @@ export {
   SupportedTextSplitterLanguages
 } from './recursive-character-text-splitter';
 
+// 句子切分器
+export {
+  SentenceSegmenter,
+  SentenceSegmenterOptions,
+  DEFAULT_ABBREVIATIONS
+} from './sentence-segmenter';
+
+export {
+  SentenceTextSplitter,
+  SentenceTextSplitterParams
+} from './sentence-text-splitter';
+
 // 结构化切分器
 export {
   MarkdownHeaderTextSplitter,
@@ -23,12 +36,22 @@ export {
   HeaderToSplitOn
 } from './markdown-header-text-splitter';
 
+export {
+  extractFrontMatter,
+  FrontMatter
+} from './front-matter';
+
 export {
   HTMLHeaderTextSplitter,
   HTMLHeaderTextSplitterParams,
   HTMLHeaderToSplitOn
 } from './html-header-text-splitter';
 
+export {
+  TableAwareTextSplitter,
+  TableAwareTextSplitterParams
+} from './table-aware-text-splitter';
+
 export {
   RecursiveJsonSplitter,
   RecursiveJsonSplitterParams
@@ -39,3 +62,44 @@ export {
   TokenTextSplitter,
   TokenTextSplitterParams
 } from './token-text-splitter';
+
+export {
+  TiktokenTokenizer,
+  TiktokenEncodingName,
+  TiktokenLoadOptions,
+  Tokenizer,
+  tokenLength
+} from './tiktoken-tokenizer';
+
+// 代码切分器
+export {
+  CodeTextSplitter,
+  CodeTextSplitterParams
+} from './code-text-splitter';
+
+export {
+  CodeSymbolExtractor,
+  CodeSymbol,
+  CodeSymbolKind
+} from './code-symbol-extractor';
+
+export {
+  CodeLanguages,
+  CodeLanguage,
+  CODE_LANGUAGE_EXTENSIONS,
+  detectCodeLanguage
+} from './code-language';
+
+// 父子块切分器
+export {
+  ParentDocumentSplitter,
+  ParentDocumentSplitterParams,
+  ParentChildChunks
+} from './parent-document-splitter';
+
+// 语义切分器
+export {
+  SemanticTextSplitter,
+  SemanticTextSplitterParams,
+  SemanticBreakpointThresholdType
+} from './semantic-text-splitter';
@@ -1,4 +1,6 @@
 import { Document } from '../models/document.model';
+import { SourceLocator } from './source-locator';
+import { extractFrontMatter, frontMatterMetadata } from './front-matter';
 
 /**
  * 标题分割配置
@@ -21,6 +23,10 @@ export interface HeaderToSplitOn {
 interface LineType {
   content: string;
   metadata: Record<string, string>;
+  /** 首行索引（从 0 开始） */
+  firstLine: number;
+  /** 末行索引（包含） */
+  lastLine: number;
 }
 
 /**
@@ -53,12 +59,24 @@ export interface MarkdownHeaderTextSplitterParams {
    * @default true
    */
   stripHeaders?: boolean;
+
+  /**
+   * 是否解析文档开头的 YAML（---）/ TOML（+++）front matter
+   *
+   * 解析结果写入每个块的 metadata.frontMatter（字符串 title 同时写入 metadata.title），
+   * front matter 本身不出现在块内容中
+   * @default true
+   */
+  parseFrontMatter?: boolean;
 }
 
 /**
  * Markdown 标题文本分割器
  *
- * 根据 Markdown 标题层级分割文档，保留文档结构和上下文
+ * 根据 Markdown 标题层级分割文档，保留文档结构和上下文：
+ * - 支持 ATX（# 标题）和 Setext（标题下方的 === / ---）两种标题
+ * - 代码块（``` / ~~~）中的内容保留原始缩进，其中的 # 注释不会被识别为标题
+ * - 文档开头的 YAML / TOML front matter 解析到 metadata.frontMatter
  *
  * @example
  * ```typescript
@@ -77,12 +95,14 @@ export class MarkdownHeaderTextSplitter {
   private headersToSplitOn: HeaderToSplitOn[];
   private returnEachLine: boolean;
   private stripHeaders: boolean;
+  private parseFrontMatter: boolean;
 
   constructor(params: MarkdownHeaderTextSplitterParams) {
     // 拷贝数组避免修改调用方的原始数据
     this.headersToSplitOn = [...params.headersToSplitOn];
     this.returnEachLine = params.returnEachLine ?? false;
     this.stripHeaders = params.stripHeaders ?? true;
+    this.parseFrontMatter = params.parseFrontMatter ?? true;
 
     // 按标记长度降序排序（确保先匹配更长的标记）
     this.headersToSplitOn.sort((a, b) => b.marker.length - a.marker.length);
@@ -90,42 +110,121 @@ export class MarkdownHeaderTextSplitter {
 
   /**
    * 分割文本
+   *
+   * 每个块的 metadata 包含标题信息和源位置（startOffset / endOffset / lineStart / lineEnd，按整行计算）
    */
   async splitText(text: string): Promise<Document[]> {
+    return this.split(text, new SourceLocator(text));
+  }
+
+  /**
+   * 分割文本，源位置由 locator 计算
+   */
+  private split(text: string, locator: SourceLocator): Document[] {
     const lines = text.split('\n');
     const linesWithMetadata: LineType[] = [];
 
     let currentContent: string[] = [];
+    let currentLines: number[] = [];
     let currentMetadata: Record<string, string> = {};
     const headerStack: HeaderType[] = [];
     const initialMetadata: Record<string, string> = {};
 
-    let inCodeBlock = false;
+    // front matter 解析到 metadata，不作为正文内容
+    const frontMatter = this.parseFrontMatter ? extractFrontMatter(text) : undefined;
+    const firstLine = frontMatter?.lineCount ?? 0;
+
+    // 当前代码块的围栏（如 "```"、"~~~~"），不在代码块中时为空
     let openingFence = '';
+    // 上一行是否为可作为 Setext 标题文本的段落行
+    let previousParagraphLine = -1;
+
+    const flushContent = () => {
+      if (currentContent.length > 0) {
+        linesWithMetadata.push({
+          content: currentContent.join('\n'),
+          metadata: { ...currentMetadata },
+          firstLine: currentLines[0],
+          lastLine: currentLines[currentLines.length - 1],
+        });
+        currentContent = [];
+        currentLines = [];
+      }
+    };
+
+    const openHeader = (level: number, name: string, headerText: string, headerLines: Array<[number, string]>) => {
+      // 弹出栈中相同或更低级别的标题（遇到新的同级或上级标题）
+      while (headerStack.length > 0 && headerStack[headerStack.length - 1].level >= level) {
+        const poppedHeader = headerStack.pop()!;
+        if (poppedHeader.name in initialMetadata) {
+          delete initialMetadata[poppedHeader.name];
+        }
+      }
 
-    for (const line of lines) {
+      // 将当前标题压入栈
+      headerStack.push({ level, name, data: headerText });
+      initialMetadata[name] = headerText;
+
+      // 保存之前累积的内容（如果有）
+      flushContent();
+
+      // 如果不移除标题，将标题行添加到内容中
+      if (!this.stripHeaders) {
+        for (const [lineIndex, content] of headerLines) {
+          currentContent.push(content);
+          currentLines.push(lineIndex);
+        }
+      }
+    };
+
+    for (let lineIndex = firstLine; lineIndex < lines.length; lineIndex++) {
+      const line = lines[lineIndex].replace(/\r$/, '');
       let strippedLine = line.trim();
       // 移除不可打印的控制字符（保留所有合法 Unicode 文本）
       strippedLine = strippedLine.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
 
-      // 处理代码块（排除行内代码）
-      // 开启围栏：以 ``` 或 ~~~ 开头，且该标记在行内只出现一次（排除 ```code``` 这种行内代码）
-      // 关闭围栏：行内容恰好是围栏标记本身（可带尾部空白）
-      if (!inCodeBlock) {
-        if (strippedLine.startsWith('```') && strippedLine.split('```').length === 2) {
-          inCodeBlock = true;
-          openingFence = '```';
-        } else if (strippedLine.startsWith('~~~') && strippedLine.split('~~~').length === 2) {
-          inCodeBlock = true;
-          openingFence = '~~~';
+      // 处理代码块（CommonMark 围栏规则）
+      // 开启围栏：3 个以上 ` 或 ~（` 围栏的信息字符串中不能再出现 `，以排除 ```code``` 这种行内代码）
+      // 关闭围栏：与开启围栏字符相同、长度不小于开启围栏，且之后只有空白
+      const fence = /^(`{3,}|~{3,})(.*)$/.exec(strippedLine);
+      if (!openingFence) {
+        if (fence && !(fence[1][0] === '`' && fence[2].includes('`'))) {
+          openingFence = fence[1];
+          currentContent.push(strippedLine);
+          currentLines.push(lineIndex);
+          previousParagraphLine = -1;
+          continue;
         }
-      } else if (strippedLine === openingFence) {
-        inCodeBlock = false;
-        openingFence = '';
+      } else {
+        // 代码块内保留原始缩进，# 开头的注释等不会被识别为标题
+        const isClosingFence = fence !== null
+          && fence[1][0] === openingFence[0]
+          && fence[1].length >= openingFence.length
+          && !fence[2].trim();
+        currentContent.push(isClosingFence ? strippedLine : line);
+        currentLines.push(lineIndex);
+        if (isClosingFence) {
+          openingFence = '';
+        }
+        continue;
       }
 
-      if (inCodeBlock) {
-        currentContent.push(strippedLine);
+      // Setext 标题：段落行下方的 === （一级）或 ---（二级）
+      const setextLevel = /^=+$/.test(strippedLine) ? 1 : /^-+$/.test(strippedLine) ? 2 : 0;
+      const setextHeader = setextLevel > 0 && previousParagraphLine === lineIndex - 1
+        ? this.headersToSplitOn.find(({ marker, name }) => name && marker.split('#').length - 1 === setextLevel)
+        : undefined;
+
+      if (setextHeader) {
+        // 段落行已加入当前内容，取出作为标题文本
+        const headerText = currentContent.pop()!;
+        currentLines.pop();
+        openHeader(setextLevel, setextHeader.name, headerText.trim(), [
+          [lineIndex - 1, headerText],
+          [lineIndex, strippedLine],
+        ]);
+        previousParagraphLine = -1;
+        currentMetadata = { ...initialMetadata };
         continue;
       }
 
@@ -140,43 +239,10 @@ export class MarkdownHeaderTextSplitter {
         if (isStandardHeader && name) {
           isHeader = true;
 
-          // 获取当前标题级别（通过 # 的数量）
-          const currentHeaderLevel = marker.split('#').length - 1;
-
-          // 弹出栈中相同或更低级别的标题（遇到新的同级或上级标题）
-          while (headerStack.length > 0 && headerStack[headerStack.length - 1].level >= currentHeaderLevel) {
-            const poppedHeader = headerStack.pop()!;
-            if (poppedHeader.name in initialMetadata) {
-              delete initialMetadata[poppedHeader.name];
-            }
-          }
-
-          // 提取标题文本（去掉标记和前后空格）
-          const headerText = strippedLine.substring(marker.length).trim();
-
-          // 将当前标题压入栈
-          const header: HeaderType = {
-            level: currentHeaderLevel,
-            name,
-            data: headerText,
-          };
-          headerStack.push(header);
-          initialMetadata[name] = header.data;
-
-          // 保存之前累积的内容（如果有）
-          if (currentContent.length > 0) {
-            linesWithMetadata.push({
-              content: currentContent.join('\n'),
-              metadata: { ...currentMetadata },
-            });
-            currentContent = [];
-          }
-
-          // 如果不移除标题，将标题行添加到内容中
-          if (!this.stripHeaders) {
-            currentContent.push(strippedLine);
-          }
-
+          // 获取当前标题级别（通过 # 的数量），标题文本去掉标记和前后空格
+          openHeader(marker.split('#').length - 1, name, strippedLine.substring(marker.length).trim(), [
+            [lineIndex, strippedLine],
+          ]);
           break;
         }
       }
@@ -184,36 +250,34 @@ export class MarkdownHeaderTextSplitter {
       if (!isHeader) {
         if (strippedLine) {
           currentContent.push(strippedLine);
-        } else if (currentContent.length > 0) {
-          linesWithMetadata.push({
-            content: currentContent.join('\n'),
-            metadata: { ...currentMetadata },
-          });
-          currentContent = [];
+          currentLines.push(lineIndex);
+        } else {
+          flushContent();
         }
       }
 
+      // 以 #、>、列表标记或表格竖线开头的行不作为 Setext 标题文本
+      previousParagraphLine = !isHeader && strippedLine && !/^(#|>|[-*+]\s|\d+[.)]\s|\|)/.test(strippedLine)
+        ? lineIndex
+        : -1;
       currentMetadata = { ...initialMetadata };
     }
 
     // 保存最后的内容
-    if (currentContent.length > 0) {
-      linesWithMetadata.push({
-        content: currentContent.join('\n'),
-        metadata: currentMetadata,
-      });
-    }
+    flushContent();
 
     // 聚合或返回每一行
-    if (!this.returnEachLine) {
-      return this.aggregateLinesToChunks(linesWithMetadata);
-    }
+    const chunks = this.returnEachLine ? linesWithMetadata : this.aggregateLinesToChunks(linesWithMetadata);
 
-    return linesWithMetadata.map(
+    return chunks.map(
       (chunk) =>
         new Document({
           pageContent: chunk.content,
-          metadata: chunk.metadata,
+          metadata: {
+            ...(frontMatter && frontMatterMetadata(frontMatter)),
+            ...chunk.metadata,
+            ...locator.locateLines(chunk.firstLine, chunk.lastLine),
+          },
         })
     );
   }
@@ -225,12 +289,14 @@ export class MarkdownHeaderTextSplitter {
     const allDocs: Document[] = [];
 
     for (const doc of documents) {
-      const splitDocs = await this.splitText(doc.pageContent);
+      // 源位置与原始文档的位置组合（原始文档本身是切分块时仍指向最初的源文本）
+      const splitDocs = this.split(doc.pageContent, new SourceLocator(doc.pageContent, doc.metadata));
+      const baseMetadata = SourceLocator.stripLocation(doc.metadata);
 
       // 合并原始文档的元数据
       for (const splitDoc of splitDocs) {
         splitDoc.metadata = {
-          ...doc.metadata,
+          ...baseMetadata,
           ...splitDoc.metadata,
         };
       }
@@ -244,7 +310,7 @@ export class MarkdownHeaderTextSplitter {
   /**
    * 聚合具有相同元数据的行
    */
-  private aggregateLinesToChunks(lines: LineType[]): Document[] {
+  private aggregateLinesToChunks(lines: LineType[]): LineType[] {
     const aggregatedChunks: LineType[] = [];
 
     for (const line of lines) {
@@ -254,30 +320,26 @@ export class MarkdownHeaderTextSplitter {
       ) {
         // 如果最后一个块的元数据与当前行相同，合并内容
         aggregatedChunks[aggregatedChunks.length - 1].content += '  \n' + line.content;
+        aggregatedChunks[aggregatedChunks.length - 1].lastLine = line.lastLine;
       } else if (
         aggregatedChunks.length > 0 &&
         !this.isSameMetadata(aggregatedChunks[aggregatedChunks.length - 1].metadata, line.metadata) &&
         Object.keys(aggregatedChunks[aggregatedChunks.length - 1].metadata).length <
           Object.keys(line.metadata).length &&
-        aggregatedChunks[aggregatedChunks.length - 1].content.split('\n').slice(-1)[0][0] === '#' &&
+        /^(#|=+$|-+$)/.test(aggregatedChunks[aggregatedChunks.length - 1].content.split('\n').slice(-1)[0]) &&
         !this.stripHeaders
       ) {
-        // 如果最后一个块是标题且不移除标题，合并内容并更新元数据
+        // 如果最后一个块是标题（ATX 或 Setext）且不移除标题，合并内容并更新元数据
         aggregatedChunks[aggregatedChunks.length - 1].content += '  \n' + line.content;
         aggregatedChunks[aggregatedChunks.length - 1].metadata = line.metadata;
+        aggregatedChunks[aggregatedChunks.length - 1].lastLine = line.lastLine;
       } else {
         // 否则添加新块
-        aggregatedChunks.push(line);
+        aggregatedChunks.push({ ...line });
       }
     }
 
-    return aggregatedChunks.map(
-      (chunk) =>
-        new Document({
-          pageContent: chunk.content,
-          metadata: chunk.metadata,
-        })
-    );
+    return aggregatedChunks;
   }
 
   /**
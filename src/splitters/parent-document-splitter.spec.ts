@@ -0,0 +1,122 @@
+import { ParentDocumentSplitter } from './parent-document-splitter';
+import { RecursiveCharacterTextSplitter } from './recursive-character-text-splitter';
+import { InMemoryDocStore } from '../common/docstore';
+import { Document } from '../models/document.model';
+
+const TEXT = 'Alpha one two.\n\nBeta three four.\n\nGamma five.';
+
+// Helper function to create a splitter with paragraph parents and word children
+function createSplitter(docstore?: InMemoryDocStore, includeParents?: boolean): ParentDocumentSplitter {
+  return new ParentDocumentSplitter({
+    parentSplitter: new RecursiveCharacterTextSplitter({ chunkSize: 20, chunkOverlap: 0, separators: ['\n\n'] }),
+    childSplitter: new RecursiveCharacterTextSplitter({ chunkSize: 10, chunkOverlap: 0, separators: [' '] }),
+    docstore,
+    includeParents,
+  });
+}
+
+describe('ParentDocumentSplitter', () => {
+  const source = new Document({ pageContent: TEXT, metadata: { source: 'doc.md' } });
+
+  it('should link parents and children with parentId and childIds', async () => {
+    const { parents, children } = await createSplitter().split([source]);
+
+    expect(parents.map(parent => parent.pageContent)).toEqual(['Alpha one two.', 'Beta three four.', 'Gamma five.']);
+    expect(children.map(child => [child.pageContent, child.metadata.parentId])).toEqual([
+      ['Alpha one', parents[0].id],
+      ['two.', parents[0].id],
+      ['Beta three', parents[1].id],
+      ['four.', parents[1].id],
+      ['Gamma', parents[2].id],
+      ['five.', parents[2].id],
+    ]);
+    expect(parents[1].metadata).toMatchObject({
+      source: 'doc.md',
+      chunkLevel: 'parent',
+      childIds: [children[2].id, children[3].id],
+    });
+    expect(children[2].metadata).toMatchObject({ source: 'doc.md', chunkLevel: 'child' });
+  });
+
+  it('should locate children relative to the original source text', async () => {
+    const { children } = await createSplitter().split([source]);
+
+    for (const child of children) {
+      expect(TEXT.slice(child.metadata.startOffset, child.metadata.endOffset)).toBe(child.pageContent);
+    }
+  });
+
+  it('should use each input document as a parent without a parent splitter', async () => {
+    const splitter = new ParentDocumentSplitter({
+      childSplitter: new RecursiveCharacterTextSplitter({ chunkSize: 10, chunkOverlap: 0, separators: [' '] }),
+    });
+
+    const { parents, children } = await splitter.split([source]);
+
+    expect(parents).toHaveLength(1);
+    expect(parents[0]).toMatchObject({ id: source.id, pageContent: TEXT });
+    expect(children.every(child => child.metadata.parentId === source.id)).toBe(true);
+  });
+
+  describe('Docstore', () => {
+    it('should resolve each child parentId to its parent text', async () => {
+      const docstore = new InMemoryDocStore();
+      const children = await createSplitter(docstore).transformDocuments([source]);
+
+      const parents = await docstore.mget(children.map(child => child.metadata.parentId));
+
+      expect(docstore.size).toBe(3);
+      expect(parents.map(parent => parent!.pageContent)).toEqual([
+        'Alpha one two.',
+        'Alpha one two.',
+        'Beta three four.',
+        'Beta three four.',
+        'Gamma five.',
+        'Gamma five.',
+      ]);
+    });
+
+    it('should expand children to deduplicated parents in first-seen order', async () => {
+      const docstore = new InMemoryDocStore();
+      const splitter = createSplitter(docstore);
+      const children = await splitter.transformDocuments([source]);
+
+      const parents = await splitter.expand([children[4], children[0], children[5], children[1]]);
+
+      expect(parents.map(parent => parent.pageContent)).toEqual(['Gamma five.', 'Alpha one two.']);
+    });
+
+    it('should skip parents missing from the docstore', async () => {
+      const docstore = new InMemoryDocStore();
+      const splitter = createSplitter(docstore);
+      const children = await splitter.transformDocuments([source]);
+
+      await docstore.mdelete([children[0].metadata.parentId]);
+
+      expect((await splitter.expand(children)).map(parent => parent.pageContent)).toEqual([
+        'Beta three four.',
+        'Gamma five.',
+      ]);
+    });
+
+    it('should return parents before children with includeParents', async () => {
+      const docs = await createSplitter(undefined, true).transformDocuments([source]);
+
+      expect(docs.map(doc => doc.metadata.chunkLevel)).toEqual([
+        'parent',
+        'parent',
+        'parent',
+        'child',
+        'child',
+        'child',
+        'child',
+        'child',
+        'child',
+      ]);
+    });
+
+    it('should require a docstore to expand', async () => {
+      await expect(createSplitter().expand([])).rejects.toThrow('ParentDocumentSplitter.expand requires a docstore');
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { Logger } from '@nestjs/common';
+import { Document } from '../models/document.model';
+import { IDocStore } from '../common/interfaces/docstore.interface';
+import { IDocumentProcessor } from '../common/interfaces/processor.interface';
+import { IDocumentTransformer } from '../common/interfaces/transformer.interface';
+import { TextSplitter } from './text-splitter';
+
+/**
+ * ParentDocumentSplitter 配置参数
+ */
+export interface ParentDocumentSplitterParams {
+  /**
+   * 子块切分器（生成用于检索的小块）
+   */
+  childSplitter: TextSplitter;
+
+  /**
+   * 父块切分器（生成提供给 LLM 的大块），未提供时每个输入文档整体作为父块
+   */
+  parentSplitter?: TextSplitter;
+
+  /**
+   * 父块存储，提供时 transformDocuments 会保存父块，并可通过 expand 取回
+   */
+  docstore?: IDocStore;
+
+  /**
+   * transformDocuments 的输出是否包含父块（父块在前，子块在后）
+   * @default false
+   */
+  includeParents?: boolean;
+}
+
+/**
+ * 父子块切分结果
+ */
+export interface ParentChildChunks {
+  parents: Document[];
+  children: Document[];
+}
+
+/**
+ * 父子文档分割器（small-to-big 检索）
+ *
+ * 一次切分同时生成父块和子块：
+ * - 父块 metadata 包含 chunkLevel: 'parent' 和 childIds（子块 ID 列表）
+ * - 子块 metadata 包含 chunkLevel: 'child' 和 parentId（父块 ID），并继承父块的 metadata
+ * - 子块的源位置（startOffset / lineStart 等）相对于最初的源文本
+ *
+ * 检索时对子块做向量匹配，再用 expand 从 docstore 取回去重后的父块作为上下文。
+ *
+ * @example
+ * ```typescript
+ * const docstore = new InMemoryDocStore();
+ * const splitter = new ParentDocumentSplitter({
+ *   parentSplitter: new MarkdownHeaderTextSplitter({ headersToSplitOn: [{ marker: '##', name: 'Header 2' }] }),
+ *   childSplitter: new RecursiveCharacterTextSplitter({ chunkSize: 300, chunkOverlap: 50 }),
+ *   docstore,
+ * });
+ *
+ * // 索引子块（父块已写入 docstore）
+ * const children = await splitter.transformDocuments(docs);
+ *
+ * // 检索后扩展为父块
+ * const parents = await splitter.expand(retrievedChildren);
+ * ```
+ */
+export class ParentDocumentSplitter implements IDocumentTransformer, IDocumentProcessor {
+  private static readonly logger = new Logger(ParentDocumentSplitter.name);
+
+  private readonly childSplitter: TextSplitter;
+  private readonly parentSplitter?: TextSplitter;
+  private readonly docstore?: IDocStore;
+  private readonly includeParents: boolean;
+
+  constructor(params: ParentDocumentSplitterParams) {
+    this.childSplitter = params.childSplitter;
+    this.parentSplitter = params.parentSplitter;
+    this.docstore = params.docstore;
+    this.includeParents = params.includeParents ?? false;
+  }
+
+  getName(): string {
+    return 'ParentDocumentSplitter';
+  }
+
+  getDescription(): string {
+    return '生成父块和子块，并通过 parentId / childIds 关联';
+  }
+
+  /**
+   * 切分文档为父块和子块（不写入 docstore）
+   */
+  async split(documents: Document[]): Promise<ParentChildChunks> {
+    const sources = this.parentSplitter ? await this.parentSplitter.splitDocuments(documents) : documents;
+    const parents: Document[] = [];
+    const children: Document[] = [];
+
+    for (const source of sources) {
+      const parent = new Document({ pageContent: source.pageContent, metadata: source.metadata, id: source.id });
+      const parentChildren = (await this.childSplitter.splitDocuments([parent])).map(
+        child =>
+          new Document({
+            pageContent: child.pageContent,
+            id: child.id,
+            metadata: { ...child.metadata, chunkLevel: 'child', parentId: parent.id },
+          })
+      );
+
+      parent.metadata = {
+        ...parent.metadata,
+        chunkLevel: 'parent',
+        childIds: parentChildren.map(child => child.id),
+      };
+      parents.push(parent);
+      children.push(...parentChildren);
+    }
+
+    return { parents, children };
+  }
+
+  /**
+   * 切分文档，将父块写入 docstore（如已配置），返回子块（includeParents 时包含父块）
+   */
+  async transformDocuments(documents: Document[]): Promise<Document[]> {
+    const { parents, children } = await this.split(documents);
+
+    if (this.docstore) {
+      await this.docstore.mset(parents.map(parent => [parent.id!, parent]));
+    }
+
+    ParentDocumentSplitter.logger.debug('父子块切分完成', {
+      documents: documents.length,
+      parents: parents.length,
+      children: children.length,
+    });
+
+    return this.includeParents ? [...parents, ...children] : children;
+  }
+
+  /**
+   * 实现 IDocumentProcessor 接口，可直接放入处理器管道
+   */
+  async process(documents: Document[]): Promise<Document[]> {
+    return this.transformDocuments(documents);
+  }
+
+  /**
+   * 将检索到的子块扩展为父块（按首次出现顺序去重）
+   *
+   * @throws Error 未配置 docstore 时
+   */
+  async expand(children: Document[]): Promise<Document[]> {
+    if (!this.docstore) {
+      throw new Error('ParentDocumentSplitter.expand requires a docstore');
+    }
+
+    const parentIds = [
+      ...new Set(children.map(child => child.metadata.parentId).filter((id): id is string => typeof id === 'string')),
+    ];
+    const parents = await this.docstore.mget(parentIds);
+
+    return parents.filter((parent, i): parent is Document => {
+      if (!parent) {
+        ParentDocumentSplitter.logger.warn(`Parent document ${parentIds[i]} not found in docstore`);
+      }
+      return parent !== undefined;
+    });
+  }
+}
@@ -1,4 +1,5 @@
 import { Document } from '../models/document.model';
+import { toJsonPointer } from '../loaders/utils/json-path';
 
 /**
  * RecursiveJsonSplitter 配置参数
@@ -22,6 +23,9 @@ export interface RecursiveJsonSplitterParams {
  *
  * 将 JSON 数据分割成更小的结构化块，同时保留层级结构
  *
+ * 每个块的 metadata.jsonPointer 为块内所有字段的公共路径（RFC 6901，如 "/users/3"），
+ * 输入文档带有 jsonPointer（如 JSONLoader 的输出）时以其为前缀
+ *
  * @example
  * ```typescript
  * const splitter = new RecursiveJsonSplitter({
@@ -59,13 +63,8 @@ export class RecursiveJsonSplitter {
    * 分割文本（JSON 字符串）
    */
   async splitText(text: string): Promise<string[]> {
-    try {
-      const jsonData = JSON.parse(text);
-      const chunks = await this.splitJson(jsonData);
-      return chunks.map((chunk) => JSON.stringify(chunk, null, 2));
-    } catch (error) {
-      throw new Error(`Invalid JSON: ${error}`);
-    }
+    const chunks = this.splitTextWithPointers(text);
+    return chunks.map(({ content }) => content);
   }
 
   /**
@@ -75,14 +74,15 @@ export class RecursiveJsonSplitter {
     const documents: Document[] = [];
 
     for (const text of texts) {
-      const chunks = await this.splitText(text);
+      const chunks = this.splitTextWithPointers(text);
       for (let i = 0; i < chunks.length; i++) {
         documents.push(
           new Document({
-            pageContent: chunks[i],
+            pageContent: chunks[i].content,
             metadata: {
               chunkIndex: i.toString(),
               totalChunks: chunks.length.toString(),
+              jsonPointer: chunks[i].pointer,
             },
           })
         );
@@ -99,16 +99,18 @@ export class RecursiveJsonSplitter {
     const allDocs: Document[] = [];
 
     for (const doc of documents) {
-      const chunks = await this.splitText(doc.pageContent);
+      const chunks = this.splitTextWithPointers(doc.pageContent);
+      const basePointer = typeof doc.metadata.jsonPointer === 'string' ? doc.metadata.jsonPointer : '';
 
       for (let i = 0; i < chunks.length; i++) {
         allDocs.push(
           new Document({
-            pageContent: chunks[i],
+            pageContent: chunks[i].content,
             metadata: {
               ...doc.metadata,
               chunkIndex: i.toString(),
               totalChunks: chunks.length.toString(),
+              jsonPointer: basePointer + chunks[i].pointer,
             },
           })
         );
@@ -118,6 +120,43 @@ export class RecursiveJsonSplitter {
     return allDocs;
   }
 
+  /**
+   * 分割 JSON 字符串，返回块内容及其 JSON Pointer（块内所有字段的公共路径）
+   */
+  private splitTextWithPointers(text: string): Array<{ content: string; pointer: string }> {
+    let jsonData: any;
+    try {
+      jsonData = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error}`);
+    }
+
+    const chunks: any[] = [{}];
+    const paths: string[][][] = [[]];
+    this.jsonSplit(this.listToDictPreprocessing(jsonData), [], chunks, paths);
+
+    return chunks.map((chunk, i) => ({
+      content: JSON.stringify(chunk, null, 2),
+      pointer: toJsonPointer(this.commonPrefix(paths[i])),
+    }));
+  }
+
+  /**
+   * 多个路径的公共前缀
+   */
+  private commonPrefix(paths: string[][]): string[] {
+    if (paths.length === 0) {
+      return [];
+    }
+    const prefix = [...paths[0]];
+    for (const path of paths.slice(1)) {
+      let i = 0;
+      while (i < prefix.length && i < path.length && prefix[i] === path[i]) i++;
+      prefix.length = i;
+    }
+    return prefix;
+  }
+
   /**
    * 计算 JSON 大小
    */
@@ -165,8 +204,15 @@ export class RecursiveJsonSplitter {
 
   /**
    * 递归分割 JSON
+   *
+   * paths 提供时记录每个块中写入的字段路径（与 chunks 一一对应）
    */
-  private jsonSplit(data: any, currentPath: string[] = [], chunks: any[] = [{}]): any[] {
+  private jsonSplit(data: any, currentPath: string[] = [], chunks: any[] = [{}], paths?: string[][][]): any[] {
+    const setValue = (path: string[], value: any) => {
+      this.setNestedDict(chunks[chunks.length - 1], path, value);
+      paths?.[chunks.length - 1].push(path);
+    };
+
     if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
       for (const [key, value] of Object.entries(data)) {
         const newPath = [...currentPath, key];
@@ -176,25 +222,26 @@ export class RecursiveJsonSplitter {
 
         if (size < remaining) {
           // 可以添加到当前块
-          this.setNestedDict(chunks[chunks.length - 1], newPath, value);
+          setValue(newPath, value);
         } else {
           // 需要新块
           if (chunkSize > this.minChunkSize) {
             // 当前块已经足够大，创建新块
             chunks.push({});
+            paths?.push([]);
           }
 
           // 递归处理值
           if (typeof value === 'object' && value !== null) {
-            this.jsonSplit(value, newPath, chunks);
+            this.jsonSplit(value, newPath, chunks, paths);
           } else {
-            this.setNestedDict(chunks[chunks.length - 1], newPath, value);
+            setValue(newPath, value);
           }
         }
       }
     } else {
       // 非对象类型，直接设置
-      this.setNestedDict(chunks[chunks.length - 1], currentPath, data);
+      setValue(currentPath, data);
     }
 
     return chunks;
@@ -0,0 +1,145 @@
+import { SemanticTextSplitter, SemanticTextSplitterParams } from './semantic-text-splitter';
+import { IEmbeddingService } from '../common/interfaces/embedding-service.interface';
+
+// 每个句子对应固定向量（bufferSize 为 0 时窗口即句子本身）
+const VECTORS: Record<string, number[]> = {
+  'Cats purr.': [1, 0],
+  'Cats nap.': [1, 0],
+  'Cars honk.': [0, 1],
+  'Cars race.': [0, 1],
+  'Both move.': [1, 1],
+};
+
+// Helper function to create an embedding service that returns fixed vectors
+function createEmbeddingService(vectors: Record<string, number[]> = VECTORS): IEmbeddingService & { calls: string[][] } {
+  const calls: string[][] = [];
+  return {
+    calls,
+    async embed(text: string) {
+      return vectors[text];
+    },
+    async embedMany(texts: string[]) {
+      calls.push(texts);
+      return texts.map(text => {
+        if (!vectors[text]) {
+          throw new Error(`No vector for "${text}"`);
+        }
+        return vectors[text];
+      });
+    },
+  };
+}
+
+// Helper function to create a splitter with bufferSize 0 and the fixed vectors
+function createSplitter(params: Partial<SemanticTextSplitterParams> = {}): SemanticTextSplitter {
+  return new SemanticTextSplitter({
+    embeddingService: createEmbeddingService(),
+    bufferSize: 0,
+    locale: 'en',
+    ...params,
+  });
+}
+
+describe('SemanticTextSplitter', () => {
+  // 相邻距离：[0, 1, 0, 1 - cos45°≈0.29]
+  const text = 'Cats purr. Cats nap. Cars honk. Cars race. Both move.';
+
+  it('should split at distance peaks', async () => {
+    const splitter = createSplitter({ breakpointThresholdAmount: 50 });
+
+    expect(await splitter.splitText('Cats purr. Cats nap. Cars honk. Cars race.')).toEqual([
+      'Cats purr. Cats nap.',
+      'Cars honk. Cars race.',
+    ]);
+  });
+
+  describe('Thresholds', () => {
+    it('should only split at the largest distance with the default 95th percentile', async () => {
+      expect(await createSplitter().splitText(text)).toEqual([
+        'Cats purr. Cats nap.',
+        'Cars honk. Cars race. Both move.',
+      ]);
+    });
+
+    it('should split at more boundaries with a lower percentile', async () => {
+      // 50 分位数为 0.15，0.29 的边界也超过阈值
+      expect(await createSplitter({ breakpointThresholdAmount: 50 }).splitText(text)).toEqual([
+        'Cats purr. Cats nap.',
+        'Cars honk. Cars race.',
+        'Both move.',
+      ]);
+    });
+
+    it('should compare distances with mean plus standard deviations', async () => {
+      // 均值 0.32，标准差 0.41
+      const oneStd = createSplitter({ breakpointThresholdType: 'standard_deviation', breakpointThresholdAmount: 1 });
+      const defaultStd = createSplitter({ breakpointThresholdType: 'standard_deviation' });
+
+      expect(await oneStd.splitText(text)).toEqual(['Cats purr. Cats nap.', 'Cars honk. Cars race. Both move.']);
+      expect(await defaultStd.splitText(text)).toEqual([text]);
+    });
+  });
+
+  describe('Chunk size', () => {
+    it('should split oversized chunks at the largest inner distance', async () => {
+      const splitter = createSplitter({ breakpointThresholdType: 'standard_deviation', chunkSize: 25 });
+
+      expect(await splitter.splitText(text)).toEqual([
+        'Cats purr. Cats nap.',
+        'Cars honk. Cars race.',
+        'Both move.',
+      ]);
+    });
+
+    it('should merge chunks smaller than minChunkSize into a neighbouring chunk', async () => {
+      const splitter = createSplitter({ breakpointThresholdAmount: 50, minChunkSize: 15 });
+
+      expect(await splitter.splitText(text)).toEqual(['Cats purr. Cats nap.', 'Cars honk. Cars race. Both move.']);
+    });
+  });
+
+  it('should embed sentence windows in batches', async () => {
+    const embeddingService = createEmbeddingService({
+      ...VECTORS,
+      'Cats purr. Cats nap.': [1, 0],
+      'Cats purr. Cats nap. Cars honk.': [1, 0],
+      'Cats nap. Cars honk. Cars race.': [0, 1],
+      'Cars honk. Cars race. Both move.': [0, 1],
+      'Cars race. Both move.': [0, 1],
+    });
+    const splitter = new SemanticTextSplitter({ embeddingService, bufferSize: 1, batchSize: 2, locale: 'en' });
+
+    await splitter.splitText(text);
+
+    expect(embeddingService.calls).toEqual([
+      ['Cats purr. Cats nap.', 'Cats purr. Cats nap. Cars honk.'],
+      ['Cats nap. Cars honk. Cars race.', 'Cars honk. Cars race. Both move.'],
+      ['Cars race. Both move.'],
+    ]);
+  });
+
+  it('should return a single sentence without embedding', async () => {
+    const embeddingService = createEmbeddingService();
+    const splitter = new SemanticTextSplitter({ embeddingService });
+
+    expect(await splitter.splitText('  Cats purr.  ')).toEqual(['Cats purr.']);
+    expect(embeddingService.calls).toEqual([]);
+  });
+
+  it('should return no chunks for empty input', async () => {
+    const embeddingService = createEmbeddingService();
+    const splitter = new SemanticTextSplitter({ embeddingService });
+
+    expect(await splitter.splitText('')).toEqual([]);
+    expect(await splitter.splitText('   ')).toEqual([]);
+    expect(embeddingService.calls).toEqual([]);
+  });
+
+  it('should reject a vector count mismatch', async () => {
+    const splitter = createSplitter({
+      embeddingService: { embed: async () => [1, 0], embedMany: async () => [[1, 0]] },
+    });
+
+    await expect(splitter.splitText(text)).rejects.toThrow('Embedding service returned 1 vectors for 5 texts');
+  });
+});
@@ -0,0 +1,303 @@
+import { Logger } from '@nestjs/common';
+import { IEmbeddingService } from '../common/interfaces/embedding-service.interface';
+import { TextSplitter, TextSplitterParams } from './text-splitter';
+import { SentenceSegmenter, SentenceSegmenterOptions } from './sentence-segmenter';
+
+/**
+ * 断点阈值计算方式
+ * - percentile: 相邻距离超过 N 分位数处切分
+ * - standard_deviation: 相邻距离超过 均值 + N 倍标准差 处切分
+ * - gradient: 对距离序列求梯度后按 N 分位数切分（适合整体相关度高、距离差异小的文本）
+ */
+export type SemanticBreakpointThresholdType = 'percentile' | 'standard_deviation' | 'gradient';
+
+/**
+ * 各阈值计算方式的默认阈值
+ */
+const DEFAULT_THRESHOLD_AMOUNT: Record<SemanticBreakpointThresholdType, number> = {
+  percentile: 95,
+  standard_deviation: 3,
+  gradient: 95,
+};
+
+/**
+ * SemanticTextSplitter 配置参数
+ */
+export interface SemanticTextSplitterParams extends TextSplitterParams, SentenceSegmenterOptions {
+  /**
+   * Embedding 服务实例
+   */
+  embeddingService: IEmbeddingService;
+
+  /**
+   * 每次调用 embedMany 的句子窗口数量
+   * @default 32
+   */
+  batchSize?: number;
+
+  /**
+   * 计算句子向量时前后各合并的句子数（平滑单句噪声）
+   * @default 1
+   */
+  bufferSize?: number;
+
+  /**
+   * 断点阈值计算方式
+   * @default "percentile"
+   */
+  breakpointThresholdType?: SemanticBreakpointThresholdType;
+
+  /**
+   * 阈值参数（percentile / gradient 为分位数 0-100，standard_deviation 为标准差倍数）
+   * @default 95（percentile、gradient）/ 3（standard_deviation）
+   */
+  breakpointThresholdAmount?: number;
+
+  /**
+   * 最小块大小（按 lengthFunction 计算），更小的块会与相邻块合并
+   * @default 0
+   */
+  minChunkSize?: number;
+}
+
+/**
+ * 语义文本分割器
+ *
+ * 使用 {@link SentenceSegmenter} 将文本切分为句子，对每个句子（连同前后 bufferSize 个句子）的窗口批量生成嵌入向量，
+ * 在相邻窗口余弦距离超过阈值的位置切分，使块边界落在话题转换处：
+ * - 超过 chunkSize 的块在其内部距离最大的位置继续切分，直到满足大小（单个超长句子保持完整）
+ * - 小于 minChunkSize 的块与相邻块合并（合并后不超过 chunkSize）
+ * - 块由原文中连续的句子组成，不做重叠（chunkOverlap 不生效）
+ *
+ * @example
+ * ```typescript
+ * const splitter = new SemanticTextSplitter({
+ *   embeddingService,
+ *   breakpointThresholdType: 'percentile',
+ *   breakpointThresholdAmount: 90,
+ *   minChunkSize: 200,
+ *   chunkSize: 2000
+ * });
+ *
+ * const chunks = await splitter.splitText(text);
+ * ```
+ */
+export class SemanticTextSplitter extends TextSplitter {
+  private static readonly logger = new Logger(SemanticTextSplitter.name);
+
+  private readonly segmenter: SentenceSegmenter;
+  private readonly embeddingService: IEmbeddingService;
+  private readonly batchSize: number;
+  private readonly bufferSize: number;
+  private readonly breakpointThresholdType: SemanticBreakpointThresholdType;
+  private readonly breakpointThresholdAmount: number;
+  private readonly minChunkSize: number;
+
+  constructor(params: SemanticTextSplitterParams) {
+    super({ ...params, chunkOverlap: params.chunkOverlap ?? 0 });
+    this.segmenter = new SentenceSegmenter(params);
+    this.embeddingService = params.embeddingService;
+    this.batchSize = Math.max(1, params.batchSize ?? 32);
+    this.bufferSize = Math.max(0, params.bufferSize ?? 1);
+    this.breakpointThresholdType = params.breakpointThresholdType ?? 'percentile';
+    this.breakpointThresholdAmount =
+      params.breakpointThresholdAmount ?? DEFAULT_THRESHOLD_AMOUNT[this.breakpointThresholdType];
+    this.minChunkSize = params.minChunkSize ?? 0;
+  }
+
+  /**
+   * 分割文本
+   */
+  async splitText(text: string): Promise<string[]> {
+    const sentences = this.segmenter.segment(text);
+    if (sentences.length <= 1) {
+      return sentences.map(sentence => sentence.trim()).filter(Boolean);
+    }
+
+    const distances = await this.computeDistances(sentences);
+    const threshold = this.computeThreshold(distances);
+    const values = this.breakpointThresholdType === 'gradient' ? this.gradient(distances) : distances;
+
+    // 按阈值切分为句子区间 [start, end)
+    let groups: Array<[number, number]> = [];
+    let start = 0;
+    values.forEach((value, i) => {
+      if (value > threshold) {
+        groups.push([start, i + 1]);
+        start = i + 1;
+      }
+    });
+    groups.push([start, sentences.length]);
+
+    groups = await this.enforceMaxSize(groups, sentences, distances);
+    groups = await this.enforceMinSize(groups, sentences);
+
+    SemanticTextSplitter.logger.debug('语义切分完成', {
+      sentences: sentences.length,
+      threshold,
+      chunks: groups.length,
+    });
+
+    return groups
+      .map(([from, to]) => sentences.slice(from, to).join('').trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * 计算相邻句子窗口之间的余弦距离（distances[i] 为第 i 句与第 i + 1 句之间的距离）
+   */
+  private async computeDistances(sentences: string[]): Promise<number[]> {
+    const windows = sentences.map((_, i) =>
+      sentences.slice(Math.max(0, i - this.bufferSize), i + this.bufferSize + 1).join('').trim()
+    );
+
+    const embeddings: number[][] = [];
+    for (let i = 0; i < windows.length; i += this.batchSize) {
+      embeddings.push(...(await this.embeddingService.embedMany(windows.slice(i, i + this.batchSize))));
+    }
+
+    if (embeddings.length !== windows.length) {
+      throw new Error(`Embedding service returned ${embeddings.length} vectors for ${windows.length} texts`);
+    }
+
+    return embeddings.slice(0, -1).map((embedding, i) => 1 - cosineSimilarity(embedding, embeddings[i + 1]));
+  }
+
+  /**
+   * 根据阈值计算方式计算断点阈值
+   */
+  private computeThreshold(distances: number[]): number {
+    switch (this.breakpointThresholdType) {
+      case 'standard_deviation': {
+        const mean = distances.reduce((sum, d) => sum + d, 0) / distances.length;
+        const variance = distances.reduce((sum, d) => sum + (d - mean) ** 2, 0) / distances.length;
+        return mean + this.breakpointThresholdAmount * Math.sqrt(variance);
+      }
+      case 'gradient':
+        return percentile(this.gradient(distances), this.breakpointThresholdAmount);
+      case 'percentile':
+        return percentile(distances, this.breakpointThresholdAmount);
+      default:
+        throw new Error(`Unsupported breakpointThresholdType: ${this.breakpointThresholdType}`);
+    }
+  }
+
+  /**
+   * 距离序列的梯度（内部为中心差分，两端为单侧差分）
+   */
+  private gradient(values: number[]): number[] {
+    if (values.length < 2) {
+      return values.map(() => 0);
+    }
+    return values.map((_, i) => {
+      if (i === 0) return values[1] - values[0];
+      if (i === values.length - 1) return values[i] - values[i - 1];
+      return (values[i + 1] - values[i - 1]) / 2;
+    });
+  }
+
+  /**
+   * 拆分超过 chunkSize 的区间：在区间内部距离最大的句子边界处二分，直到满足大小
+   */
+  private async enforceMaxSize(
+    groups: Array<[number, number]>,
+    sentences: string[],
+    distances: number[],
+  ): Promise<Array<[number, number]>> {
+    const result: Array<[number, number]> = [];
+    const pending = [...groups].reverse();
+
+    while (pending.length > 0) {
+      const [from, to] = pending.pop()!;
+      const length = await this.groupLength(sentences, from, to);
+      if (length <= this.chunkSize || to - from <= 1) {
+        if (length > this.chunkSize) {
+          SemanticTextSplitter.logger.warn(
+            `Created a chunk of size ${length}, which is longer than the specified ${this.chunkSize}`
+          );
+        }
+        result.push([from, to]);
+        continue;
+      }
+
+      // 边界 i 位于第 i 句与第 i + 1 句之间
+      let split = from;
+      for (let i = from; i < to - 1; i++) {
+        if (distances[i] > distances[split]) {
+          split = i;
+        }
+      }
+      pending.push([split + 1, to], [from, split + 1]);
+    }
+
+    return result;
+  }
+
+  /**
+   * 合并小于 minChunkSize 的区间：优先并入后一个区间，否则并入前一个区间（合并后不超过 chunkSize）
+   */
+  private async enforceMinSize(
+    groups: Array<[number, number]>,
+    sentences: string[],
+  ): Promise<Array<[number, number]>> {
+    if (this.minChunkSize <= 0) {
+      return groups;
+    }
+
+    const result = [...groups];
+    for (let i = 0; i < result.length; i++) {
+      const [from, to] = result[i];
+      if ((await this.groupLength(sentences, from, to)) >= this.minChunkSize) {
+        continue;
+      }
+
+      const next = result[i + 1];
+      if (next && (await this.groupLength(sentences, from, next[1])) <= this.chunkSize) {
+        result.splice(i, 2, [from, next[1]]);
+        i--;
+        continue;
+      }
+
+      const prev = result[i - 1];
+      if (prev && (await this.groupLength(sentences, prev[0], to)) <= this.chunkSize) {
+        result.splice(i - 1, 2, [prev[0], to]);
+        i--;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 句子区间 [from, to) 拼接后的长度
+   */
+  private async groupLength(sentences: string[], from: number, to: number): Promise<number> {
+    return this.lengthFunction(sentences.slice(from, to).join('').trim());
+  }
+}
+
+/**
+ * 余弦相似度（任一向量为零向量时返回 0）
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * 线性插值分位数（与 numpy.percentile 默认行为一致）
+ */
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
@@ -0,0 +1,78 @@
+import { SentenceSegmenter } from './sentence-segmenter';
+
+describe('SentenceSegmenter', () => {
+  const segmenter = new SentenceSegmenter({ locale: 'zh' });
+
+  describe('Chinese', () => {
+    it('should split after CJK sentence punctuation', () => {
+      expect(segmenter.segment('今天天气很好。我们去公园吧！你来吗？先吃饭；再出发')).toEqual([
+        '今天天气很好。',
+        '我们去公园吧！',
+        '你来吗？',
+        '先吃饭；',
+        '再出发',
+      ]);
+    });
+
+    it('should move opening quotes and brackets after 。 to the next sentence', () => {
+      expect(segmenter.segment('我点头。（完）')).toEqual(['我点头。', '（完）']);
+      expect(segmenter.segment('他走了。“再见！”她说。')).toEqual(['他走了。', '“再见！”', '她说。']);
+    });
+
+    it('should keep closing quotes and brackets after 。 with the sentence', () => {
+      expect(segmenter.segment('他说：“我们走吧。”然后离开了。')).toEqual(['他说：“我们走吧。”', '然后离开了。']);
+      expect(segmenter.segment('她问：「真的吗？」我点头。')).toEqual(['她问：「真的吗？」', '我点头。']);
+    });
+
+    it('should not split at commas or colons', () => {
+      expect(segmenter.segment('首先，打开文件：然后保存。')).toEqual(['首先，打开文件：然后保存。']);
+    });
+  });
+
+  describe('English', () => {
+    const english = new SentenceSegmenter({ locale: 'en' });
+
+    it('should not split after abbreviations', () => {
+      expect(english.segment('Dr. Smith arrived. He sat down.')).toEqual(['Dr. Smith arrived. ', 'He sat down.']);
+      expect(english.segment('Bring tools, e.g. Hammers and saws. Then rest.')).toEqual([
+        'Bring tools, e.g. Hammers and saws. ',
+        'Then rest.',
+      ]);
+      expect(english.segment('See Fig. 3 for details. Done.')).toEqual(['See Fig. 3 for details. ', 'Done.']);
+    });
+
+    it('should not split inside decimals', () => {
+      expect(english.segment('Prices rose 3.5 percent. Version 2.0 shipped.')).toEqual([
+        'Prices rose 3.5 percent. ',
+        'Version 2.0 shipped.',
+      ]);
+    });
+
+    it('should not split after single capital initials', () => {
+      expect(english.segment('J. K. Rowling wrote it. Fans loved it.')).toEqual([
+        'J. K. Rowling wrote it. ',
+        'Fans loved it.',
+      ]);
+    });
+
+    it('should treat a lowercase start as a continuation', () => {
+      expect(english.segment('It costs approx. ten dollars. Okay.')).toEqual(['It costs approx. ten dollars. ', 'Okay.']);
+    });
+
+    it('should split after abbreviations that are not configured', () => {
+      const noAbbreviations = new SentenceSegmenter({ locale: 'en', abbreviations: [] });
+
+      expect(noAbbreviations.segment('Dr. Smith arrived.')).toEqual(['Dr. ', 'Smith arrived.']);
+    });
+  });
+
+  it('should split mixed Chinese and English text', () => {
+    expect(segmenter.segment('我喜欢 Node.js。It is fast! 你呢？')).toEqual(['我喜欢 Node.js。', 'It is fast! ', '你呢？']);
+  });
+
+  it('should keep whitespace so sentences join back to the original text', () => {
+    const text = '  第一句。\n\nDr. Who? Yes.  第二句！  ';
+
+    expect(segmenter.segment(text).join('')).toBe(text);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * SentenceSegmenter 配置选项
+ */
+export interface SentenceSegmenterOptions {
+  /**
+   * Intl.Segmenter 使用的语言（如 "zh"、"en"、"ja"），默认使用运行环境的语言
+   */
+  locale?: string | string[];
+
+  /**
+   * 不作为句末的缩写（不含末尾的点，大小写不敏感）
+   * @default DEFAULT_ABBREVIATIONS
+   */
+  abbreviations?: string[];
+}
+
+/**
+ * 默认缩写列表
+ */
+export const DEFAULT_ABBREVIATIONS = [
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'vs', 'etc', 'e.g', 'i.e', 'cf', 'al',
+  'inc', 'ltd', 'co', 'corp', 'no', 'vol', 'fig', 'figs', 'eq', 'ch', 'sec', 'p', 'pp', 'approx',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+];
+
+/**
+ * 中文句末标点（。！？；）及其后的闭合引号、括号
+ */
+const CJK_SENTENCE_END = /[。！？；]+[”’」』）》】]*/g;
+
+/**
+ * 仅由开引号、开括号组成的片段
+ */
+const OPENING_PUNCTUATION = /^[“‘「『（《【(\[]+$/;
+
+/**
+ * Intl.Segmenter 不可用时的句末规则：. ! ? 后跟空白，或换行
+ */
+const FALLBACK_SENTENCE_END = /[.!?]+["'”’)\]]*\s+|\n\s*/g;
+
+/**
+ * 句子分割器
+ *
+ * 使用 Intl.Segmenter（ICU 句子边界规则）分割多语言文本，并补充以下规则：
+ * - 在中文句末标点 。！？；后切分（含其后的闭合引号，开引号、开括号归入下一句）
+ * - 以缩写（Mr.、e.g.、Fig. 等）或单个大写字母缩写（J. K.）结尾的片段与下一句合并
+ * - 以小写拉丁字母开头的片段视为上一句的延续
+ *
+ * 返回的句子保留句后空白，按顺序拼接后与原文完全一致。
+ *
+ * @example
+ * ```typescript
+ * const segmenter = new SentenceSegmenter({ locale: 'zh' });
+ * segmenter.segment('今天天气很好。我们去公园吧！Mr. Smith went home.');
+ * // ['今天天气很好。', '我们去公园吧！', 'Mr. Smith went home.']
+ * ```
+ */
+export class SentenceSegmenter {
+  private readonly segmenter?: Intl.Segmenter;
+  private readonly abbreviations: Set<string>;
+
+  constructor(options: SentenceSegmenterOptions = {}) {
+    this.segmenter = typeof Intl.Segmenter === 'function'
+      ? new Intl.Segmenter(options.locale, { granularity: 'sentence' })
+      : undefined;
+    this.abbreviations = new Set((options.abbreviations ?? DEFAULT_ABBREVIATIONS).map(abbr => abbr.toLowerCase()));
+  }
+
+  /**
+   * 将文本分割为句子
+   */
+  segment(text: string): string[] {
+    const pieces = this.segmenter
+      ? Array.from(this.segmenter.segment(text), ({ segment }) => segment)
+      : splitAfter(text, FALLBACK_SENTENCE_END);
+
+    const sentences: string[] = [];
+    let opening = '';
+    for (const part of pieces.flatMap(segment => splitAfter(segment, CJK_SENTENCE_END))) {
+      // ICU 将句末标点后的开引号、开括号（如 。（）归入上一句，移到下一句开头
+      if (OPENING_PUNCTUATION.test(part)) {
+        opening += part;
+        continue;
+      }
+
+      const piece = opening + part;
+      opening = '';
+      const previous = sentences[sentences.length - 1];
+      if (previous !== undefined && (!piece.trim() || this.isContinuation(previous, piece))) {
+        sentences[sentences.length - 1] = previous + piece;
+      } else {
+        sentences.push(piece);
+      }
+    }
+
+    if (opening) {
+      if (sentences.length > 0) {
+        sentences[sentences.length - 1] += opening;
+      } else {
+        sentences.push(opening);
+      }
+    }
+
+    return sentences;
+  }
+
+  /**
+   * 判断 next 是否为 previous 的延续（previous 并未真正结束）
+   */
+  private isContinuation(previous: string, next: string): boolean {
+    const tail = previous.trimEnd();
+    if (/\n\s*$/.test(previous) || /[。！？；][”’」』）》】]*$/.test(tail)) {
+      return false;
+    }
+
+    if (/^\s*[a-z]/.test(next)) {
+      return true;
+    }
+
+    const word = /(?:^|[\s(（"“'‘])([\p{L}.]+)\.$/u.exec(tail)?.[1];
+    return word !== undefined && (this.abbreviations.has(word.toLowerCase()) || /^\p{Lu}$/u.test(word));
+  }
+}
+
+/**
+ * 在每个匹配结束处切分文本（保留匹配内容和全部字符）
+ */
+function splitAfter(text: string, pattern: RegExp): string[] {
+  const pieces: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    const end = match.index! + match[0].length;
+    if (end > start && end < text.length) {
+      pieces.push(text.slice(start, end));
+      start = end;
+    }
+  }
+
+  if (start < text.length || pieces.length === 0) {
+    pieces.push(text.slice(start));
+  }
+
+  return pieces;
+}
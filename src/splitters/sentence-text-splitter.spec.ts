@@ -0,0 +1,40 @@
+import { SentenceTextSplitter } from './sentence-text-splitter';
+
+describe('SentenceTextSplitter', () => {
+  const text = '第一句话。第二句话。第三句话。';
+
+  it('should merge whole sentences up to chunkSize', async () => {
+    const splitter = new SentenceTextSplitter({ locale: 'zh', chunkSize: 12, chunkOverlap: 0 });
+
+    expect(await splitter.splitText(text)).toEqual(['第一句话。第二句话。', '第三句话。']);
+  });
+
+  it('should overlap by whole sentences within chunkOverlap', async () => {
+    const splitter = new SentenceTextSplitter({ locale: 'zh', chunkSize: 12, chunkOverlap: 5 });
+
+    expect(await splitter.splitText(text)).toEqual(['第一句话。第二句话。', '第二句话。第三句话。']);
+  });
+
+  it('should split sentences longer than chunkSize at clause separators', async () => {
+    const splitter = new SentenceTextSplitter({ locale: 'zh', chunkSize: 8, chunkOverlap: 0 });
+
+    expect(await splitter.splitText('短句。这是第一部分，这是第二部分。')).toEqual([
+      '短句。',
+      '这是第一部分',
+      '，这是第二部分。',
+    ]);
+  });
+
+  it('should keep English abbreviations and decimals inside chunks', async () => {
+    const splitter = new SentenceTextSplitter({ locale: 'en', chunkSize: 30, chunkOverlap: 0 });
+
+    expect(await splitter.splitText('Dr. Smith paid 3.5 dollars. He left, e.g. Quickly. Bye.')).toEqual([
+      'Dr. Smith paid 3.5 dollars.',
+      'He left, e.g. Quickly. Bye.',
+    ]);
+  });
+
+  it('should return no chunks for empty input', async () => {
+    expect(await new SentenceTextSplitter().splitText('  ')).toEqual([]);
+  });
+});
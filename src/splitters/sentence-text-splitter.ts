@@ -0,0 +1,95 @@
+import { TextSplitter, TextSplitterParams } from './text-splitter';
+import { RecursiveCharacterTextSplitter } from './recursive-character-text-splitter';
+import { SentenceSegmenter, SentenceSegmenterOptions } from './sentence-segmenter';
+
+/**
+ * SentenceTextSplitter 配置参数
+ */
+export interface SentenceTextSplitterParams extends TextSplitterParams, SentenceSegmenterOptions {
+  /**
+   * 超长句子的分隔符（句子超过 chunkSize 时按从句继续切分）
+   * @default ["，", "、", "：", ",", ":", " ", ""]
+   */
+  clauseSeparators?: string[];
+}
+
+/**
+ * 句子文本分割器
+ *
+ * 使用 {@link SentenceSegmenter} 将文本切分为句子，再将连续的句子合并到 chunkSize 以内，
+ * 块边界总是落在句子边界上，适合没有空格分隔的中文、日文等文本：
+ * - 重叠以整句为单位：新块以上一块末尾的若干完整句子开头，这些句子的总长度不超过 chunkOverlap
+ * - 超过 chunkSize 的单个句子按 clauseSeparators（逗号、顿号等）继续切分
+ *
+ * @example
+ * ```typescript
+ * const splitter = new SentenceTextSplitter({
+ *   locale: 'zh',
+ *   chunkSize: 500,
+ *   chunkOverlap: 100
+ * });
+ *
+ * const chunks = await splitter.splitText(text);
+ *
+ * // 作为 ChunkSizeControlProcessor 的切分器
+ * new ChunkSizeControlProcessor(500, 100, false, splitter);
+ * ```
+ */
+export class SentenceTextSplitter extends TextSplitter {
+  private readonly segmenter: SentenceSegmenter;
+  private readonly clauseSplitter: RecursiveCharacterTextSplitter;
+
+  constructor(params: SentenceTextSplitterParams = {}) {
+    super(params);
+    this.segmenter = new SentenceSegmenter(params);
+    this.clauseSplitter = new RecursiveCharacterTextSplitter({
+      chunkSize: this.chunkSize,
+      chunkOverlap: this.chunkOverlap,
+      lengthFunction: this.lengthFunction,
+      separators: params.clauseSeparators ?? ['，', '、', '：', ',', ':', ' ', ''],
+    });
+  }
+
+  /**
+   * 分割文本
+   */
+  async splitText(text: string): Promise<string[]> {
+    const chunks: string[] = [];
+    let current: Array<{ sentence: string; length: number }> = [];
+    let total = 0;
+
+    const flush = () => {
+      const chunk = current.map(item => item.sentence).join('').trim();
+      if (chunk) {
+        chunks.push(chunk);
+      }
+    };
+
+    for (const sentence of this.segmenter.segment(text)) {
+      const length = await this.lengthFunction(sentence);
+
+      if (length > this.chunkSize) {
+        flush();
+        chunks.push(...(await this.clauseSplitter.splitText(sentence)));
+        current = [];
+        total = 0;
+        continue;
+      }
+
+      if (current.length > 0 && total + length > this.chunkSize) {
+        flush();
+
+        // 保留末尾的完整句子作为重叠
+        while (current.length > 0 && (total > this.chunkOverlap || total + length > this.chunkSize)) {
+          total -= current.shift()!.length;
+        }
+      }
+
+      current.push({ sentence, length });
+      total += length;
+    }
+
+    flush();
+    return chunks;
+  }
+}
@@ -0,0 +1,44 @@
+import { SourceLocator } from './source-locator';
+
+const TEXT = 'page one\n\npage two';
+const PARENT = {
+  source: 'merged.pdf',
+  pageRange: [1, 2],
+  pageSpans: [
+    { pageNumber: 1, startOffset: 0, endOffset: 8, pageOffset: 0 },
+    { pageNumber: 2, startOffset: 10, endOffset: 18, pageOffset: 0 },
+  ],
+};
+
+describe('SourceLocator', () => {
+  it('should strip every location key including pageRange', () => {
+    expect(
+      SourceLocator.stripLocation({ ...PARENT, startOffset: 0, endOffset: 18, lineStart: 1, lineEnd: 3 })
+    ).toEqual({ source: 'merged.pdf' });
+  });
+
+  it('should compose offsets and lines with the parent location', () => {
+    const locator = new SourceLocator('a\nb\nc', { startOffset: 100, lineStart: 5 });
+
+    expect(locator.locate(2, 5)).toEqual({ startOffset: 102, endOffset: 105, lineStart: 6, lineEnd: 7 });
+  });
+
+  it('should narrow page spans and range to the chunk', () => {
+    const locator = new SourceLocator(TEXT, PARENT);
+
+    expect(locator.locate(10, 18)).toEqual({
+      startOffset: 10,
+      endOffset: 18,
+      lineStart: 3,
+      lineEnd: 3,
+      pageSpans: [{ pageNumber: 2, startOffset: 0, endOffset: 8, pageOffset: 0 }],
+      pageRange: [2, 2],
+    });
+  });
+
+  it('should not report a page range for chunks outside every page span', () => {
+    const locator = new SourceLocator(TEXT, PARENT);
+
+    expect(locator.locate(8, 10)).not.toHaveProperty('pageRange');
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * 页面片段：Document 文本中属于某一页的区间
+ */
+export interface PageSpan {
+  /**
+   * 页码
+   */
+  pageNumber: number;
+
+  /**
+   * 在当前 Document pageContent 中的起始偏移
+   */
+  startOffset: number;
+
+  /**
+   * 在当前 Document pageContent 中的结束偏移（不包含）
+   */
+  endOffset: number;
+
+  /**
+   * 片段在该页原始文本中的起始偏移（用于在页面上高亮）
+   */
+  pageOffset: number;
+}
+
+/**
+ * 块在源文本中的位置（写入切分结果的 metadata）
+ */
+export interface SourceLocation {
+  /**
+   * 在源文本中的起始偏移（字符）
+   */
+  startOffset: number;
+
+  /**
+   * 在源文本中的结束偏移（不包含）
+   */
+  endOffset: number;
+
+  /**
+   * 起始行号（从 1 开始）
+   */
+  lineStart: number;
+
+  /**
+   * 结束行号（包含）
+   */
+  lineEnd: number;
+
+  /**
+   * 块内各页的区间（仅当被切分的 Document 带有 pageSpans 时，如 PageMergeProcessor 的输出）
+   */
+  pageSpans?: PageSpan[];
+
+  /**
+   * 块覆盖的页码范围 [起始页, 结束页]（仅当存在 pageSpans 时）
+   */
+  pageRange?: [number, number];
+}
+
+/**
+ * 位置相关的 metadata 字段（切分时不从父文档继承，由 SourceLocator 重新计算）
+ */
+const LOCATION_KEYS = ['startOffset', 'endOffset', 'lineStart', 'lineEnd', 'pageSpans', 'pageRange'] as const;
+
+/**
+ * 源位置定位器
+ *
+ * 计算切分块在被切分文本中的位置，并与父文档的位置信息组合：
+ * - 父文档带有 startOffset / lineStart（本身是切分块）时，结果相对于最初的源文本，
+ *   因此对切分结果再次切分时位置仍然有效
+ * - 父文档带有 pageSpans（如合并后的多页文本）时，截取块覆盖的页面区间
+ *
+ * @example
+ * ```typescript
+ * const locator = new SourceLocator(doc.pageContent, doc.metadata);
+ * const start = locator.find(chunk, 0);
+ * const location = locator.locate(start, start + chunk.length);
+ * // { startOffset, endOffset, lineStart, lineEnd, pageSpans?, pageRange? }
+ * ```
+ */
+export class SourceLocator {
+  private readonly lineStarts: number[] = [0];
+  private readonly baseOffset: number;
+  private readonly baseLine: number;
+  private readonly pageSpans?: PageSpan[];
+
+  constructor(
+    private readonly text: string,
+    parentMetadata: Record<string, any> = {},
+  ) {
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+      this.lineStarts.push(i + 1);
+    }
+
+    this.baseOffset = typeof parentMetadata.startOffset === 'number' ? parentMetadata.startOffset : 0;
+    this.baseLine = typeof parentMetadata.lineStart === 'number' ? parentMetadata.lineStart : 1;
+    this.pageSpans = Array.isArray(parentMetadata.pageSpans) ? parentMetadata.pageSpans : undefined;
+  }
+
+  /**
+   * 移除 metadata 中的位置字段，避免切分块继承父文档的位置
+   */
+  static stripLocation(metadata: Record<string, any>): Record<string, any> {
+    const result = { ...metadata };
+    for (const key of LOCATION_KEYS) {
+      delete result[key];
+    }
+    return result;
+  }
+
+  /**
+   * 在文本中查找块的起始位置
+   *
+   * @param chunk - 切分块文本
+   * @param fromIndex - 开始查找的位置（通常为上一个块的起始位置 + 1）
+   * @returns 起始偏移，找不到时返回 -1（如切分器改写了文本）
+   */
+  find(chunk: string, fromIndex: number): number {
+    return this.text.indexOf(chunk, fromIndex);
+  }
+
+  /**
+   * 计算区间 [start, end) 的源位置
+   *
+   * @param start - 在被切分文本中的起始偏移
+   * @param end - 在被切分文本中的结束偏移（不包含）
+   */
+  locate(start: number, end: number): SourceLocation {
+    const location: SourceLocation = {
+      startOffset: this.baseOffset + start,
+      endOffset: this.baseOffset + end,
+      lineStart: this.baseLine + this.lineIndexAt(start),
+      lineEnd: this.baseLine + this.lineIndexAt(Math.max(start, end - 1)),
+    };
+
+    if (this.pageSpans) {
+      const pageSpans = this.pageSpans
+        .filter(span => span.endOffset > start && span.startOffset < end)
+        .map(span => {
+          const spanStart = Math.max(span.startOffset, start);
+          return {
+            pageNumber: span.pageNumber,
+            startOffset: spanStart - start,
+            endOffset: Math.min(span.endOffset, end) - start,
+            pageOffset: span.pageOffset + spanStart - span.startOffset,
+          };
+        });
+
+      if (pageSpans.length > 0) {
+        const pageNumbers = pageSpans.map(span => span.pageNumber);
+        location.pageSpans = pageSpans;
+        location.pageRange = [Math.min(...pageNumbers), Math.max(...pageNumbers)];
+      }
+    }
+
+    return location;
+  }
+
+  /**
+   * 计算整行区间的源位置
+   *
+   * @param firstLine - 首行索引（从 0 开始）
+   * @param lastLine - 末行索引（包含）
+   */
+  locateLines(firstLine: number, lastLine: number): SourceLocation {
+    const start = this.lineStarts[firstLine] ?? this.text.length;
+    const end = lastLine + 1 < this.lineStarts.length ? this.lineStarts[lastLine + 1] - 1 : this.text.length;
+    return this.locate(start, Math.max(start, end));
+  }
+
+  /**
+   * 偏移所在行的索引（从 0 开始，二分查找）
+   */
+  private lineIndexAt(offset: number): number {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+}
@@ -0,0 +1,104 @@
+import { TableAwareTextSplitter } from './table-aware-text-splitter';
+
+// Helper function to build a GFM table with the given number of data rows
+function markdownTable(rows: number): string {
+  return [
+    '| id | name |',
+    '| --- | --- |',
+    ...Array.from({ length: rows }, (_, i) => `| ${i + 1} | item-${i + 1} |`),
+  ].join('\n');
+}
+
+// Helper function to build an HTML table; closeRows=false omits every </tr>
+function htmlTable(rows: number, closeRows = true): string {
+  const row = (cells: string) => `<tr>${cells}${closeRows ? '</tr>' : ''}`;
+  return [
+    '<table>',
+    `<thead>${row('<th>id</th><th>name</th>')}</thead>`,
+    '<tbody>',
+    ...Array.from({ length: rows }, (_, i) => row(`<td>${i + 1}</td><td>item-${i + 1}</td>`)),
+    '</tbody>',
+    '</table>',
+  ].join('\n');
+}
+
+// Helper function to count occurrences of a substring
+function count(text: string, search: string): number {
+  return text.split(search).length - 1;
+}
+
+describe('TableAwareTextSplitter', () => {
+  it('should keep small tables whole and merge them with surrounding text', async () => {
+    const text = `Intro paragraph.\n\n${markdownTable(2)}\n\nOutro paragraph.`;
+    const splitter = new TableAwareTextSplitter({ chunkSize: 500, chunkOverlap: 0 });
+
+    const chunks = await splitter.splitText(text);
+
+    expect(chunks).toEqual([text]);
+  });
+
+  it('should split large Markdown tables on row boundaries and repeat the header', async () => {
+    const splitter = new TableAwareTextSplitter({ chunkSize: 80, chunkOverlap: 0 });
+
+    const chunks = await splitter.splitText(markdownTable(8));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.startsWith('| id | name |\n| --- | --- |\n')).toBe(true);
+    }
+    expect(chunks.flatMap(chunk => chunk.match(/item-\d+/g) ?? [])).toEqual(
+      Array.from({ length: 8 }, (_, i) => `item-${i + 1}`)
+    );
+  });
+
+  it('should mark table parts and source offsets in documents', async () => {
+    const text = markdownTable(8);
+    const splitter = new TableAwareTextSplitter({ chunkSize: 80, chunkOverlap: 0 });
+
+    const docs = await splitter.createDocuments([text]);
+
+    expect(docs.map(doc => doc.metadata.tablePart)).toEqual(docs.map((_, i) => i + 1));
+    const last = docs[docs.length - 1];
+    expect(text.slice(last.metadata.startOffset, last.metadata.endOffset)).toBe(
+      last.pageContent.replace('| id | name |\n| --- | --- |\n', '')
+    );
+  });
+
+  it('should split HTML tables and repeat the head in every part', async () => {
+    const splitter = new TableAwareTextSplitter({ chunkSize: 160, chunkOverlap: 0 });
+
+    const chunks = await splitter.splitText(htmlTable(8));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.startsWith('<table>\n<thead>')).toBe(true);
+      expect(chunk.endsWith('</tbody>\n</table>')).toBe(true);
+    }
+    expect(chunks.flatMap(chunk => chunk.match(/item-\d+/g) ?? [])).toEqual(
+      Array.from({ length: 8 }, (_, i) => `item-${i + 1}`)
+    );
+  });
+
+  it('should treat the last row as data when </tr> is omitted', async () => {
+    const splitter = new TableAwareTextSplitter({ chunkSize: 150, chunkOverlap: 0 });
+
+    const chunks = await splitter.splitText(htmlTable(8, false));
+    const joined = chunks.join('\n');
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(count(joined, 'item-8')).toBe(1);
+    expect(count(joined, '<th>id</th>')).toBe(chunks.length);
+    for (const chunk of chunks) {
+      expect(chunk.endsWith('</tbody>\n</table>')).toBe(true);
+    }
+  });
+
+  it('should not detect tables inside code fences', async () => {
+    const text = ['```', markdownTable(8), '```'].join('\n');
+    const splitter = new TableAwareTextSplitter({ chunkSize: 80, chunkOverlap: 0 });
+
+    const docs = await splitter.createDocuments([text]);
+
+    expect(docs.every(doc => doc.metadata.tablePart === undefined)).toBe(true);
+  });
+});
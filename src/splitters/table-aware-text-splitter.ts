@@ -0,0 +1,417 @@
+import { Logger } from '@nestjs/common';
+import { Document } from '../models/document.model';
+import { TextSplitter, TextSplitterParams } from './text-splitter';
+import { RecursiveCharacterTextSplitter } from './recursive-character-text-splitter';
+import { SourceLocator } from './source-locator';
+
+/**
+ * TableAwareTextSplitter 配置参数
+ */
+export interface TableAwareTextSplitterParams extends TextSplitterParams {
+  /**
+   * 表格之外文本的切分器
+   * @default 使用相同 chunkSize / chunkOverlap / lengthFunction 的 RecursiveCharacterTextSplitter
+   */
+  textSplitter?: TextSplitter;
+
+  /**
+   * 是否识别 HTML 表格（<table>）
+   * @default true
+   */
+  htmlTables?: boolean;
+}
+
+/**
+ * 文本中的表格区间
+ */
+interface TableRange {
+  start: number;
+  end: number;
+  /** 数据行区间（表头、分隔行、<thead> 等不包含在内） */
+  rows: Array<{ start: number; end: number }>;
+}
+
+/**
+ * 切分单元（文本块或表格分段），start / end 为在源文本中的区间
+ */
+interface Piece {
+  text: string;
+  start?: number;
+  end?: number;
+  /** 是否以表格开头 / 结尾（用于和相邻文本合并） */
+  startsWithTable: boolean;
+  endsWithTable: boolean;
+  tablePart?: number;
+}
+
+/**
+ * 表格感知的文本分割器
+ *
+ * 识别 GFM Markdown 表格和 HTML 表格（XLSXLoader、markitdown 等的输出），表格不会在行中间被切断：
+ * - 不超过 chunkSize 的表格整体保留，并尽量与前后的文本合并在同一块中
+ * - 超过 chunkSize 的表格只在行边界切分，每个后续分段重复表头（Markdown 的表头行和分隔行，
+ *   HTML 第一行数据之前的 <table>、<caption>、<thead> 等，并补全结尾的 </tbody></table>），
+ *   metadata.tablePart 标记分段序号（从 1 开始）
+ * - 表头加单行仍超过 chunkSize 时该行单独成块（不切分行内容）
+ * - 表格之外的文本使用 textSplitter 切分，chunkOverlap 只作用于这部分文本
+ * - 代码块（``` / ~~~）中的内容不识别为表格
+ *
+ * 块的源位置（startOffset / endOffset 等）覆盖块内的原始内容，重复的表头不计入。
+ *
+ * @example
+ * ```typescript
+ * const splitter = new TableAwareTextSplitter({ chunkSize: 1000, chunkOverlap: 100 });
+ * const docs = await new XLSXLoader('report.xlsx').loadAndSplit(splitter);
+ *
+ * // 作为 ChunkSizeControlProcessor 的切分器
+ * new ChunkSizeControlProcessor(1000, 100, false, splitter);
+ * ```
+ */
+export class TableAwareTextSplitter extends TextSplitter {
+  private static readonly logger = new Logger(TableAwareTextSplitter.name);
+
+  private readonly textSplitter: TextSplitter;
+  private readonly htmlTables: boolean;
+
+  constructor(params: TableAwareTextSplitterParams = {}) {
+    super(params);
+    this.htmlTables = params.htmlTables ?? true;
+    this.textSplitter = params.textSplitter ?? new RecursiveCharacterTextSplitter({
+      chunkSize: this.chunkSize,
+      chunkOverlap: this.chunkOverlap,
+      lengthFunction: this.lengthFunction,
+    });
+  }
+
+  /**
+   * 分割文本
+   */
+  async splitText(text: string): Promise<string[]> {
+    const pieces = await this.splitPieces(text);
+    return pieces.map(piece => piece.text);
+  }
+
+  /**
+   * 从文本数组创建文档（表格分段带有 tablePart 和源位置）
+   */
+  async createDocuments(
+    texts: string[],
+    metadatas: Record<string, any>[] = []
+  ): Promise<Document[]> {
+    const documents: Document[] = [];
+
+    for (let i = 0; i < texts.length; i++) {
+      const text = texts[i];
+      const metadata = metadatas[i] ?? {};
+      const locator = new SourceLocator(text, metadata);
+      const baseMetadata = SourceLocator.stripLocation(metadata);
+      const pieces = await this.splitPieces(text);
+
+      pieces.forEach(({ text: content, start, end, tablePart }, chunkIndex) => {
+        documents.push(
+          new Document({
+            pageContent: content,
+            metadata: {
+              ...baseMetadata,
+              ...(tablePart !== undefined && { tablePart }),
+              chunkIndex,
+              ...(start !== undefined && end !== undefined && locator.locate(start, end)),
+            },
+          })
+        );
+      });
+    }
+
+    return documents;
+  }
+
+  /**
+   * 切分文本为块
+   */
+  private async splitPieces(text: string): Promise<Piece[]> {
+    const pieces: Piece[] = [];
+    let cursor = 0;
+
+    for (const table of findTables(text, this.htmlTables)) {
+      pieces.push(...(await this.splitProse(text, cursor, table.start)));
+      pieces.push(...(await this.splitTable(text, table)));
+      cursor = table.end;
+    }
+    pieces.push(...(await this.splitProse(text, cursor, text.length)));
+
+    return this.mergePieces(text, pieces);
+  }
+
+  /**
+   * 使用 textSplitter 切分表格之间的文本
+   */
+  private async splitProse(text: string, start: number, end: number): Promise<Piece[]> {
+    const segment = text.slice(start, end);
+    if (!segment.trim()) {
+      return [];
+    }
+
+    const pieces: Piece[] = [];
+    let searchFrom = 0;
+    for (const chunk of await this.textSplitter.splitText(segment)) {
+      const offset = segment.indexOf(chunk, searchFrom);
+      if (offset >= 0) {
+        searchFrom = offset + 1;
+        pieces.push({
+          text: chunk,
+          start: start + offset,
+          end: start + offset + chunk.length,
+          startsWithTable: false,
+          endsWithTable: false,
+        });
+      } else {
+        pieces.push({ text: chunk, startsWithTable: false, endsWithTable: false });
+      }
+    }
+    return pieces;
+  }
+
+  /**
+   * 按行边界切分表格，后续分段重复表头
+   */
+  private async splitTable(text: string, table: TableRange): Promise<Piece[]> {
+    const whole = text.slice(table.start, table.end);
+    if (table.rows.length <= 1 || (await this.lengthFunction(whole)) <= this.chunkSize) {
+      return [{ text: whole, start: table.start, end: table.end, startsWithTable: true, endsWithTable: true }];
+    }
+
+    const first = table.rows[0];
+    const last = table.rows[table.rows.length - 1];
+    const header = text.slice(table.start, first.start);
+    const footer = text.slice(last.end, table.end);
+
+    // 行分组：[起始行, 结束行]
+    const groups: Array<[number, number]> = [];
+    let groupStart = 0;
+    for (let i = 1; i <= table.rows.length; i++) {
+      if (i < table.rows.length) {
+        const candidate = header + text.slice(table.rows[groupStart].start, table.rows[i].end) + footer;
+        if ((await this.lengthFunction(candidate)) <= this.chunkSize) {
+          continue;
+        }
+      }
+
+      if (i - groupStart === 1) {
+        const single = header + text.slice(table.rows[groupStart].start, table.rows[groupStart].end) + footer;
+        if ((await this.lengthFunction(single)) > this.chunkSize) {
+          TableAwareTextSplitter.logger.warn(
+            `Table row at offset ${table.rows[groupStart].start} exceeds chunkSize ${this.chunkSize} and is kept as a single chunk`
+          );
+        }
+      }
+      groups.push([groupStart, i - 1]);
+      groupStart = i;
+    }
+
+    return groups.map(([from, to], i) => {
+      // 第一段从表格开头开始，最后一段到表格结尾结束，其余部分补充表头 / 表尾
+      const start = i === 0 ? table.start : table.rows[from].start;
+      const end = i === groups.length - 1 ? table.end : table.rows[to].end;
+      return {
+        text: (i === 0 ? '' : header) + text.slice(start, end) + (i === groups.length - 1 ? '' : footer),
+        start,
+        end,
+        startsWithTable: true,
+        endsWithTable: true,
+        tablePart: i + 1,
+      };
+    });
+  }
+
+  /**
+   * 将表格与相邻的文本块合并到 chunkSize 以内（文本块之间已由 textSplitter 处理，不再合并）
+   */
+  private async mergePieces(text: string, pieces: Piece[]): Promise<Piece[]> {
+    const merged: Piece[] = [];
+
+    for (const piece of pieces) {
+      const previous = merged[merged.length - 1];
+      const located = previous?.end !== undefined && piece.start !== undefined;
+      if (
+        previous
+        && (previous.endsWithTable || piece.startsWithTable)
+        && (!located || piece.start! >= previous.end!)
+      ) {
+        const gap = located ? text.slice(previous.end, piece.start) : '\n\n';
+        const candidate = previous.text + gap + piece.text;
+
+        if ((await this.lengthFunction(candidate)) <= this.chunkSize) {
+          merged[merged.length - 1] = {
+            text: candidate,
+            start: located ? previous.start : undefined,
+            end: located ? piece.end : undefined,
+            startsWithTable: previous.startsWithTable,
+            endsWithTable: piece.endsWithTable,
+            tablePart: previous.tablePart ?? piece.tablePart,
+          };
+          continue;
+        }
+      }
+      merged.push(piece);
+    }
+
+    return merged;
+  }
+}
+
+/**
+ * 查找文本中的 GFM 表格和 HTML 表格（按位置排序，忽略代码块内的内容）
+ */
+function findTables(text: string, htmlTables: boolean): TableRange[] {
+  const lines: Array<{ text: string; start: number; end: number }> = [];
+  const linePattern = /[^\n]*(\n|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = linePattern.exec(text)) !== null && match.index < text.length) {
+    const end = match.index + match[0].length - match[1].length;
+    lines.push({ text: text.slice(match.index, end).replace(/\r$/, ''), start: match.index, end });
+  }
+
+  // 代码块
+  const fences: Array<[number, number]> = [];
+  let fence: { marker: string; start: number } | undefined;
+  for (const line of lines) {
+    const marker = /^ {0,3}(`{3,}|~{3,})/.exec(line.text)?.[1];
+    if (!fence && marker) {
+      fence = { marker, start: line.start };
+    } else if (fence && marker && marker[0] === fence.marker[0] && marker.length >= fence.marker.length
+      && !line.text.trim().slice(marker.length).trim()) {
+      fences.push([fence.start, line.end]);
+      fence = undefined;
+    }
+  }
+  if (fence) {
+    fences.push([fence.start, text.length]);
+  }
+  const inFence = (offset: number) => fences.some(([start, end]) => offset >= start && offset < end);
+
+  const tables: TableRange[] = [];
+
+  // GFM 表格：表头行 + 分隔行（列数一致） + 连续的非空数据行
+  for (let i = 0; i + 1 < lines.length; i++) {
+    const header = lines[i];
+    const delimiter = lines[i + 1];
+    if (inFence(header.start) || !header.text.includes('|') || !isDelimiterRow(delimiter.text)) {
+      continue;
+    }
+    if (splitRow(header.text).length !== splitRow(delimiter.text).length) {
+      continue;
+    }
+
+    const rows: TableRange['rows'] = [];
+    let j = i + 2;
+    while (j < lines.length && lines[j].text.trim() && lines[j].text.includes('|') && !inFence(lines[j].start)) {
+      rows.push({ start: lines[j].start, end: lines[j].end });
+      j++;
+    }
+
+    tables.push({ start: header.start, end: rows.length > 0 ? rows[rows.length - 1].end : delimiter.end, rows });
+    i = j - 1;
+  }
+
+  if (htmlTables) {
+    for (const table of findHtmlTables(text)) {
+      if (!inFence(table.start) && !tables.some(other => table.start < other.end && other.start < table.end)) {
+        tables.push(table);
+      }
+    }
+  }
+
+  return tables.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * 是否为 GFM 表格分隔行（如 "| --- | :---: |"）
+ */
+function isDelimiterRow(line: string): boolean {
+  const cells = splitRow(line);
+  return (line.includes('|') || cells.length > 1)
+    && cells.length > 0
+    && cells.every(cell => /^:?-+:?$/.test(cell));
+}
+
+/**
+ * 拆分 GFM 表格行的单元格（忽略首尾的 | 和转义的 \|）
+ */
+function splitRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim());
+}
+
+/**
+ * 查找顶层 HTML 表格（嵌套表格作为外层表格行的一部分）
+ *
+ * 数据行为外层表格的 <tr>；<thead> 中的行，以及没有 <thead> 时只含 <th> 的第一行视为表头
+ */
+function findHtmlTables(text: string): TableRange[] {
+  const tables: TableRange[] = [];
+  const tagPattern = /<(\/?)(table|thead|tr)\b[^>]*>/gi;
+  let depth = 0;
+  let current: { start: number; rows: TableRange['rows']; inHead: boolean; hasHead: boolean; rowStart?: number } | undefined;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(text)) !== null) {
+    const closing = match[1] === '/';
+    const tag = match[2].toLowerCase();
+    const tagEnd = match.index + match[0].length;
+
+    if (tag === 'table') {
+      if (!closing) {
+        if (depth === 0) {
+          current = { start: match.index, rows: [], inHead: false, hasHead: false };
+        }
+        depth++;
+      } else if (depth > 0) {
+        depth--;
+        if (depth === 0 && current) {
+          const rows = current.rows;
+          // 省略了 </tr> 的最后一行在 </tbody> / </table> 处结束
+          if (current.rowStart !== undefined && !current.inHead) {
+            const rowText = text.slice(current.rowStart, match.index);
+            rows.push({ start: current.rowStart, end: current.rowStart + /(?:\s*<\/tbody\s*>)?\s*$/i.exec(rowText)!.index });
+          }
+          // 没有 <thead> 时，只含 <th> 的第一行作为表头
+          if (!current.hasHead && rows.length > 1) {
+            const firstRow = text.slice(rows[0].start, rows[0].end);
+            if (/<th\b/i.test(firstRow) && !/<td\b/i.test(firstRow)) {
+              rows.shift();
+            }
+          }
+          tables.push({ start: current.start, end: tagEnd, rows });
+          current = undefined;
+        }
+      }
+      continue;
+    }
+
+    if (depth !== 1 || !current) {
+      continue;
+    }
+
+    if (tag === 'thead') {
+      // 表头中省略了 </tr> 的行在 </thead> 处结束
+      if (closing && current.inHead) {
+        current.rowStart = undefined;
+      }
+      current.inHead = !closing;
+      current.hasHead = true;
+    } else if (!closing) {
+      // 省略了 </tr> 的行在下一个 <tr> 处结束
+      if (current.rowStart !== undefined && !current.inHead) {
+        current.rows.push({ start: current.rowStart, end: match.index });
+      }
+      current.rowStart = match.index;
+    } else if (current.rowStart !== undefined) {
+      if (!current.inHead) {
+        current.rows.push({ start: current.rowStart, end: tagEnd });
+      }
+      current.rowStart = undefined;
+    }
+  }
+
+  return tables;
+}
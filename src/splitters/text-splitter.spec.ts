@@ -0,0 +1,67 @@
+import { RecursiveCharacterTextSplitter } from './recursive-character-text-splitter';
+import { ElementPartitioner } from '../loaders/elements/element-partitioner';
+import { Document } from '../models/document.model';
+
+// Helper function to partition markdown pages into elements
+function partition(...pages: string[]) {
+  return ElementPartitioner.partition(
+    pages.map((pageContent, i) => new Document({ pageContent, metadata: { source: 'guide.md', pageNumber: i + 1 } }))
+  );
+}
+
+describe('TextSplitter', () => {
+  describe('splitElements', () => {
+    it('should merge consecutive elements and start a new chunk at each heading', async () => {
+      const elements = partition('# Guide\n\nIntro\n\n## Install\n\nStep one\n\nStep two');
+      const splitter = new RecursiveCharacterTextSplitter({ chunkSize: 100, chunkOverlap: 0 });
+
+      const chunks = await splitter.splitElements(elements);
+
+      expect(chunks.map(chunk => chunk.pageContent)).toEqual(['Guide\n\nIntro', 'Install\n\nStep one\n\nStep two']);
+      expect(chunks[1].metadata).toEqual({
+        source: 'guide.md',
+        pageNumber: 1,
+        sectionPath: ['Guide', 'Install'],
+        elementTypes: ['title', 'narrative_text'],
+        elementIds: elements.slice(2).map(element => element.id),
+        chunkIndex: 1,
+      });
+    });
+
+    it('should not split elements that fit and flush when the next one would overflow', async () => {
+      const elements = partition('aaaaaaaaaa\n\nbbbbbbbbbb\n\ncccccccccc');
+      const splitter = new RecursiveCharacterTextSplitter({ chunkSize: 25, chunkOverlap: 0 });
+
+      const chunks = await splitter.splitElements(elements);
+
+      expect(chunks.map(chunk => chunk.pageContent)).toEqual(['aaaaaaaaaa\n\nbbbbbbbbbb', 'cccccccccc']);
+      expect(chunks[1].metadata.sectionPath).toEqual([]);
+    });
+
+    it('should split oversized elements with splitText', async () => {
+      const elements = partition('# Title\n\none two three four five six');
+      const splitter = new RecursiveCharacterTextSplitter({ chunkSize: 10, chunkOverlap: 0 });
+
+      const chunks = await splitter.splitElements(elements);
+
+      expect(chunks.map(chunk => chunk.pageContent)).toEqual(['Title', 'one two', 'three', 'four five', 'six']);
+      expect(chunks.slice(1).every(chunk => chunk.metadata.sectionPath[0] === 'Title')).toBe(true);
+    });
+
+    it('should use the first element page and restart chunkIndex per source', async () => {
+      const elements = [
+        ...partition('# Guide', 'Page two text'),
+        ...ElementPartitioner.partition([new Document({ pageContent: 'Other', metadata: { source: 'other.md' } })]),
+      ];
+      const splitter = new RecursiveCharacterTextSplitter({ chunkSize: 100, chunkOverlap: 0 });
+
+      const chunks = await splitter.splitElements(elements);
+
+      expect(chunks.map(chunk => [chunk.metadata.source, chunk.metadata.pageNumber, chunk.metadata.chunkIndex])).toEqual([
+        ['guide.md', 1, 0],
+        ['other.md', undefined, 0],
+      ]);
+      expect(chunks[0].metadata.sectionPath).toEqual(['Guide']);
+    });
+  });
+});
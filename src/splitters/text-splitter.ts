@@ -1,6 +1,8 @@
 import { Logger } from '@nestjs/common';
 import { Document } from '../models/document.model';
+import { DocumentElement, ElementType } from '../models/document-element.model';
 import { IDocumentTransformer } from '../common/interfaces/transformer.interface';
+import { SourceLocator } from './source-locator';
 
 /**
  * TextSplitter 配置参数
@@ -76,6 +78,13 @@ export abstract class TextSplitter implements IDocumentTransformer {
     return this.constructor.name;
   }
 
+  /**
+   * 按 lengthFunction 判断文本是否不超过 chunkSize（无需切分）
+   */
+  async fitsChunkSize(text: string): Promise<boolean> {
+    return (await this.lengthFunction(text)) <= this.chunkSize;
+  }
+
   /**
    * 分割文档数组
    */
@@ -87,6 +96,9 @@ export abstract class TextSplitter implements IDocumentTransformer {
 
   /**
    * 从文本数组创建文档
+   *
+   * 每个块的 metadata 记录 chunkIndex 和源位置（startOffset / endOffset / lineStart / lineEnd，
+   * 源文本带 pageSpans 时还包括块内的 pageSpans 和 pageRange），详见 {@link SourceLocator}
    */
   async createDocuments(
     texts: string[],
@@ -101,15 +113,25 @@ export abstract class TextSplitter implements IDocumentTransformer {
 
     for (let i = 0; i < texts.length; i++) {
       const text = texts[i];
+      const locator = new SourceLocator(text, _metadatas[i]);
+      const baseMetadata = SourceLocator.stripLocation(_metadatas[i] ?? {});
       let chunkIndex = 0;
+      let searchFrom = 0;
 
       for (const chunk of await this.splitText(text)) {
+        // 块按顺序排列且起点严格递增（重叠部分位于上一块末尾）
+        const start = locator.find(chunk, searchFrom);
+        if (start >= 0) {
+          searchFrom = start + 1;
+        }
+
         documents.push(
           new Document({
             pageContent: chunk,
             metadata: {
-              ..._metadatas[i],
+              ...baseMetadata,
               chunkIndex: chunkIndex++,
+              ...(start >= 0 && locator.locate(start, start + chunk.length)),
             },
           })
         );
@@ -119,6 +141,89 @@ export abstract class TextSplitter implements IDocumentTransformer {
     return documents;
   }
 
+  /**
+   * 按元素边界切分文档元素（见 ElementPartitioner / BaseDocumentLoader.loadElements）
+   *
+   * - 连续元素以空行连接并合并到 chunkSize 以内，单个元素不会被拆开
+   * - 标题开始新的块，因此块不跨越章节；来源不同的元素不合并
+   * - 超过 chunkSize 的元素（长段落、大表格）单独使用 splitText 切分
+   * - 元素边界处不做重叠（chunkOverlap 只作用于 splitText）
+   *
+   * 块的 metadata 包含 source、pageNumber（首个元素所在页）、sectionPath（上级标题路径）、
+   * elementTypes、elementIds 和 chunkIndex
+   */
+  async splitElements(elements: DocumentElement[]): Promise<Document[]> {
+    const byId = new Map(elements.map(element => [element.id, element]));
+    const separator = '\n\n';
+    const documents: Document[] = [];
+    let current: DocumentElement[] = [];
+    let total = 0;
+    let chunkIndex = 0;
+
+    const sectionPath = (group: DocumentElement[]): string[] => {
+      const anchor = group.find(element => element.type !== ElementType.TITLE) ?? group[group.length - 1];
+      const path = anchor.type === ElementType.TITLE ? [anchor.text] : [];
+      for (let parent = byId.get(anchor.parentId ?? ''); parent; parent = byId.get(parent.parentId ?? '')) {
+        path.unshift(parent.text);
+      }
+      return path;
+    };
+
+    const emit = (text: string, group: DocumentElement[]) => {
+      const { source, pageNumber } = group[0].location;
+      documents.push(
+        new Document({
+          pageContent: text,
+          metadata: {
+            ...(source !== undefined && { source }),
+            ...(pageNumber !== undefined && { pageNumber }),
+            sectionPath: sectionPath(group),
+            elementTypes: [...new Set(group.map(element => element.type))],
+            elementIds: group.map(element => element.id),
+            chunkIndex: chunkIndex++,
+          },
+        })
+      );
+    };
+
+    const flush = () => {
+      if (current.length > 0) {
+        emit(current.map(element => element.text).join(separator), current);
+      }
+      current = [];
+      total = 0;
+    };
+
+    for (const element of elements) {
+      if (current.length > 0 && current[0].location.source !== element.location.source) {
+        flush();
+        chunkIndex = 0;
+      }
+
+      const len = await this.lengthFunction(element.text);
+      const startsSection = element.type === ElementType.TITLE
+        && current.some(item => item.type !== ElementType.TITLE);
+
+      if (startsSection || (current.length > 0 && total + len + current.length * separator.length > this.chunkSize)) {
+        flush();
+      }
+
+      if (len > this.chunkSize) {
+        flush();
+        for (const chunk of await this.splitText(element.text)) {
+          emit(chunk, [element]);
+        }
+        continue;
+      }
+
+      current.push(element);
+      total += len;
+    }
+
+    flush();
+    return documents;
+  }
+
   /**
    * 根据分隔符分割文本
    */
@@ -0,0 +1,349 @@
+import { readFile } from 'fs/promises';
+
+/**
+ * 内置支持的 tiktoken 编码
+ */
+export type TiktokenEncodingName =
+  | 'gpt2'
+  | 'r50k_base'
+  | 'p50k_base'
+  | 'p50k_edit'
+  | 'cl100k_base'
+  | 'o200k_base';
+
+/**
+ * 分词器接口
+ *
+ * TokenTextSplitter 可接收任意实现（如 HuggingFace tokenizer 的包装）
+ */
+export interface Tokenizer {
+  /**
+   * 文本编码为 token ID
+   */
+  encode(text: string, allowedSpecial?: 'all' | string[], disallowedSpecial?: 'all' | string[]): number[];
+
+  /**
+   * token ID 解码为文本
+   */
+  decode(tokens: number[]): string;
+
+  /**
+   * token ID 解码为 UTF-8 字节（可选，提供时 TokenTextSplitter 按完整字符对齐窗口边界）
+   */
+  decodeBytes?(tokens: number[]): Buffer;
+}
+
+/**
+ * tiktoken 分词器加载选项
+ */
+export interface TiktokenLoadOptions {
+  /**
+   * 编码名称
+   * @default "cl100k_base"
+   */
+  encodingName?: TiktokenEncodingName;
+
+  /**
+   * 本地 .tiktoken 词表文件路径（每行 "base64(token) rank"，与 OpenAI 发布的格式相同）
+   *
+   * 例如 cl100k_base.tiktoken、o200k_base.tiktoken；gpt2 使用 r50k_base.tiktoken
+   */
+  ranksPath?: string;
+
+  /**
+   * .tiktoken 词表内容（与 ranksPath 二选一，适合词表随应用打包的场景）
+   */
+  ranks?: string | Buffer;
+}
+
+/**
+ * 编码规格：预分词正则与特殊 token
+ */
+interface EncodingSpec {
+  pattern: RegExp;
+  specialTokens: Record<string, number>;
+}
+
+const ENDOFTEXT = '<|endoftext|>';
+const FIM_PREFIX = '<|fim_prefix|>';
+const FIM_MIDDLE = '<|fim_middle|>';
+const FIM_SUFFIX = '<|fim_suffix|>';
+const ENDOFPROMPT = '<|endofprompt|>';
+
+const R50K_PATTERN = /'s|'t|'re|'ve|'m|'ll|'d| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+// JS 正则不支持局部 (?i:)，缩写后缀以大小写枚举表示
+const CL100K_PATTERN =
+  /'(?:[sSdDmMtT]|[lL][lL]|[vV][eE]|[rR][eE])|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+const O200K_PATTERN = new RegExp(
+  [
+    "[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:'(?:[sSdDmMtT]|[lL][lL]|[vV][eE]|[rR][eE]))?",
+    "[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:'(?:[sSdDmMtT]|[lL][lL]|[vV][eE]|[rR][eE]))?",
+    '\\p{N}{1,3}',
+    ' ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*',
+    '\\s*[\\r\\n]+',
+    '\\s+(?!\\S)',
+    '\\s+',
+  ].join('|'),
+  'gu',
+);
+
+const ENCODING_SPECS: Record<TiktokenEncodingName, EncodingSpec> = {
+  gpt2: { pattern: R50K_PATTERN, specialTokens: { [ENDOFTEXT]: 50256 } },
+  r50k_base: { pattern: R50K_PATTERN, specialTokens: { [ENDOFTEXT]: 50256 } },
+  p50k_base: { pattern: R50K_PATTERN, specialTokens: { [ENDOFTEXT]: 50256 } },
+  p50k_edit: {
+    pattern: R50K_PATTERN,
+    specialTokens: { [ENDOFTEXT]: 50256, [FIM_PREFIX]: 50281, [FIM_MIDDLE]: 50282, [FIM_SUFFIX]: 50283 },
+  },
+  cl100k_base: {
+    pattern: CL100K_PATTERN,
+    specialTokens: {
+      [ENDOFTEXT]: 100257,
+      [FIM_PREFIX]: 100258,
+      [FIM_MIDDLE]: 100259,
+      [FIM_SUFFIX]: 100260,
+      [ENDOFPROMPT]: 100276,
+    },
+  },
+  o200k_base: { pattern: O200K_PATTERN, specialTokens: { [ENDOFTEXT]: 199999, [ENDOFPROMPT]: 200018 } },
+};
+
+/**
+ * tiktoken 兼容的字节级 BPE 分词器（纯 TypeScript，离线运行）
+ *
+ * 词表从本地 .tiktoken 文件加载，预分词正则和特殊 token 与 OpenAI tiktoken 一致，
+ * 编码结果与 tiktoken 相同，可用于按嵌入模型的 token 上限精确切分文本
+ *
+ * @example
+ * ```typescript
+ * const tokenizer = await TiktokenTokenizer.load({
+ *   encodingName: 'cl100k_base',
+ *   ranksPath: './models/cl100k_base.tiktoken',
+ * });
+ * tokenizer.encode('hello world'); // [15339, 1917]
+ * ```
+ */
+export class TiktokenTokenizer implements Tokenizer {
+  private static readonly cache = new Map<string, Promise<TiktokenTokenizer>>();
+  private readonly specialTokenDecoder = new Map<number, string>();
+
+  private constructor(
+    readonly encodingName: TiktokenEncodingName,
+    private readonly encoder: Map<string, number>,
+    private readonly decoder: Map<number, Buffer>,
+    private readonly spec: EncodingSpec,
+  ) {
+    for (const [token, rank] of Object.entries(spec.specialTokens)) {
+      this.specialTokenDecoder.set(rank, token);
+    }
+  }
+
+  /**
+   * 加载分词器（按编码名称和词表路径缓存，Promise 缓存防止并发重复加载）
+   *
+   * @throws Error 编码名称不受支持，或未提供词表时
+   */
+  static load(options: TiktokenLoadOptions = {}): Promise<TiktokenTokenizer> {
+    const encodingName = options.encodingName ?? 'cl100k_base';
+    const spec = ENCODING_SPECS[encodingName];
+    if (!spec) {
+      return Promise.reject(new Error(
+        `Unsupported encoding "${encodingName}". Supported encodings: ${Object.keys(ENCODING_SPECS).join(', ')}`
+      ));
+    }
+
+    if (options.ranks !== undefined) {
+      return Promise.resolve(TiktokenTokenizer.fromRanks(encodingName, options.ranks));
+    }
+
+    if (!options.ranksPath) {
+      return Promise.reject(new Error(
+        `No BPE ranks provided for "${encodingName}". ` +
+        `Please set ranksPath to a local ${TiktokenTokenizer.ranksFileName(encodingName)} file`
+      ));
+    }
+
+    const cacheKey = `${encodingName}:${options.ranksPath}`;
+    let promise = TiktokenTokenizer.cache.get(cacheKey);
+    if (!promise) {
+      promise = readFile(options.ranksPath).then(data => TiktokenTokenizer.fromRanks(encodingName, data));
+      // 加载失败时清除缓存，允许重试
+      promise.catch(() => TiktokenTokenizer.cache.delete(cacheKey));
+      TiktokenTokenizer.cache.set(cacheKey, promise);
+    }
+    return promise;
+  }
+
+  /**
+   * 由 .tiktoken 词表内容创建分词器
+   */
+  static fromRanks(encodingName: TiktokenEncodingName, ranks: string | Buffer): TiktokenTokenizer {
+    const encoder = new Map<string, number>();
+    const decoder = new Map<number, Buffer>();
+
+    for (const line of ranks.toString().split('\n')) {
+      const [token, rank] = line.trim().split(/\s+/);
+      if (!token || rank === undefined) {
+        continue;
+      }
+      const bytes = Buffer.from(token, 'base64');
+      encoder.set(bytes.toString('latin1'), Number(rank));
+      decoder.set(Number(rank), bytes);
+    }
+
+    if (encoder.size === 0) {
+      throw new Error(`BPE ranks for "${encodingName}" are empty or malformed`);
+    }
+
+    return new TiktokenTokenizer(encodingName, encoder, decoder, ENCODING_SPECS[encodingName]);
+  }
+
+  /**
+   * 编码的标准词表文件名（gpt2 与 r50k_base、p50k_edit 与 p50k_base 共用词表）
+   */
+  static ranksFileName(encodingName: TiktokenEncodingName): string {
+    if (encodingName === 'gpt2') return 'r50k_base.tiktoken';
+    if (encodingName === 'p50k_edit') return 'p50k_base.tiktoken';
+    return `${encodingName}.tiktoken`;
+  }
+
+  /**
+   * 编码文本
+   *
+   * @param text - 文本
+   * @param allowedSpecial - 允许按特殊 token 编码的特殊 token 文本
+   * @param disallowedSpecial - 出现即报错的特殊 token 文本（默认除 allowedSpecial 外的全部）
+   * @throws Error 文本包含不允许的特殊 token 时
+   */
+  encode(text: string, allowedSpecial: 'all' | string[] = [], disallowedSpecial: 'all' | string[] = 'all'): number[] {
+    const specials = Object.keys(this.spec.specialTokens);
+    const allowed = new Set(allowedSpecial === 'all' ? specials : allowedSpecial);
+    const disallowed = disallowedSpecial === 'all'
+      ? specials.filter(token => !allowed.has(token))
+      : disallowedSpecial;
+
+    for (const token of disallowed) {
+      if (text.includes(token)) {
+        throw new Error(
+          `Encountered text corresponding to disallowed special token "${token}". ` +
+          'Pass it in allowedSpecial to encode it as a special token, or remove it from disallowedSpecial to encode it as normal text'
+        );
+      }
+    }
+
+    const tokens: number[] = [];
+    const allowedList = [...allowed].filter(token => token in this.spec.specialTokens);
+    const segments = allowedList.length > 0
+      ? text.split(new RegExp(`(${allowedList.map(token => token.replace(/[|\\{}()[\]^$+*?.]/g, '\\$&')).join('|')})`))
+      : [text];
+
+    segments.forEach((segment, index) => {
+      // split 捕获分组使特殊 token 位于奇数下标
+      if (index % 2 === 1) {
+        tokens.push(this.spec.specialTokens[segment]);
+        return;
+      }
+      for (const match of segment.matchAll(this.spec.pattern)) {
+        this.encodePiece(Buffer.from(match[0], 'utf8'), tokens);
+      }
+    });
+
+    return tokens;
+  }
+
+  /**
+   * 解码 token ID（在多字节字符中间截断时输出替换字符）
+   */
+  decode(tokens: number[]): string {
+    return this.decodeBytes(tokens).toString('utf8');
+  }
+
+  /**
+   * 解码 token ID 为 UTF-8 字节
+   */
+  decodeBytes(tokens: number[]): Buffer {
+    return Buffer.concat(
+      tokens.map(token => {
+        const bytes = this.decoder.get(token);
+        if (bytes) return bytes;
+        const special = this.specialTokenDecoder.get(token);
+        if (special !== undefined) return Buffer.from(special, 'utf8');
+        throw new Error(`Unknown token id ${token} for encoding "${this.encodingName}"`);
+      })
+    );
+  }
+
+  /**
+   * 计算文本的 token 数（特殊 token 按普通文本计）
+   */
+  count(text: string): number {
+    return this.encode(text, [], []).length;
+  }
+
+  /**
+   * 对预分词片段执行字节对合并
+   */
+  private encodePiece(piece: Buffer, output: number[]): void {
+    const direct = this.encoder.get(piece.toString('latin1'));
+    if (direct !== undefined) {
+      output.push(direct);
+      return;
+    }
+
+    const rankOf = (start: number, end: number) =>
+      this.encoder.get(piece.toString('latin1', start, end)) ?? Infinity;
+
+    // boundaries[i] 为第 i 个部分的起点，pairRanks[i] 为合并第 i、i+1 部分后的 rank
+    const boundaries = Array.from({ length: piece.length + 1 }, (_, i) => i);
+    const pairRanks = boundaries.slice(0, -2).map(i => rankOf(i, i + 2));
+
+    while (pairRanks.length > 0) {
+      let minIndex = 0;
+      for (let i = 1; i < pairRanks.length; i++) {
+        if (pairRanks[i] < pairRanks[minIndex]) {
+          minIndex = i;
+        }
+      }
+      if (pairRanks[minIndex] === Infinity) {
+        break;
+      }
+
+      boundaries.splice(minIndex + 1, 1);
+      pairRanks.splice(minIndex, 1);
+      if (minIndex < pairRanks.length) {
+        pairRanks[minIndex] = rankOf(boundaries[minIndex], boundaries[minIndex + 2]);
+      }
+      if (minIndex > 0) {
+        pairRanks[minIndex - 1] = rankOf(boundaries[minIndex - 1], boundaries[minIndex + 1]);
+      }
+    }
+
+    for (let i = 0; i + 1 < boundaries.length; i++) {
+      const rank = this.encoder.get(piece.toString('latin1', boundaries[i], boundaries[i + 1]));
+      if (rank === undefined) {
+        throw new Error(`BPE ranks for "${this.encodingName}" do not cover all byte values`);
+      }
+      output.push(rank);
+    }
+  }
+}
+
+/**
+ * 创建按 token 计数的长度函数，可作为任意 TextSplitter 的 lengthFunction
+ *
+ * 分词器在首次调用时加载并缓存
+ *
+ * @example
+ * ```typescript
+ * const splitter = new RecursiveCharacterTextSplitter({
+ *   chunkSize: 512,
+ *   chunkOverlap: 64,
+ *   lengthFunction: tokenLength({ encodingName: 'cl100k_base', ranksPath: './cl100k_base.tiktoken' }),
+ * });
+ * ```
+ */
+export function tokenLength(options: TiktokenLoadOptions = {}): (text: string) => Promise<number> {
+  return async (text: string) => (await TiktokenTokenizer.load(options)).count(text);
+}
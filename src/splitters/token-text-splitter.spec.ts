@@ -0,0 +1,100 @@
+import { TokenTextSplitter } from './token-text-splitter';
+import { TiktokenTokenizer } from './tiktoken-tokenizer';
+
+// Helper function to build a .tiktoken ranks file: all single bytes followed by the given merges
+function createRanks(merges: string[]): string {
+  const tokens = [
+    ...Array.from({ length: 256 }, (_, byte) => Buffer.from([byte])),
+    ...merges.map(merge => Buffer.from(merge, 'utf8')),
+  ];
+  return tokens.map((token, rank) => `${token.toString('base64')} ${rank}`).join('\n');
+}
+
+const MERGES = ['he', 'll', 'hell', 'hello', ' w', 'or', ' wor', 'ld', ' world'];
+const HELLO = 256 + MERGES.indexOf('hello');
+const WORLD = 256 + MERGES.indexOf(' world');
+
+describe('TiktokenTokenizer', () => {
+  const tokenizer = TiktokenTokenizer.fromRanks('gpt2', createRanks(MERGES));
+
+  it('should merge byte pairs by rank', () => {
+    expect(tokenizer.encode('hello world')).toEqual([HELLO, WORLD]);
+  });
+
+  it('should fall back to single bytes for unknown pieces', () => {
+    expect(tokenizer.encode('hi')).toEqual([0x68, 0x69]);
+  });
+
+  it('should round-trip multi-byte text', () => {
+    const text = 'hello 世界 🌍';
+
+    expect(tokenizer.decode(tokenizer.encode(text))).toBe(text);
+  });
+
+  it('should reject disallowed special tokens', () => {
+    expect(() => tokenizer.encode('a<|endoftext|>')).toThrow('disallowed special token');
+  });
+
+  it('should encode allowed special tokens', () => {
+    expect(tokenizer.encode('hello<|endoftext|>', 'all')).toEqual([HELLO, 50256]);
+  });
+
+  it('should reject load without ranks', async () => {
+    await expect(TiktokenTokenizer.load({ encodingName: 'gpt2' })).rejects.toThrow('No BPE ranks provided');
+  });
+
+  it('should reject empty ranks', () => {
+    expect(() => TiktokenTokenizer.fromRanks('gpt2', '')).toThrow('empty or malformed');
+  });
+});
+
+describe('TokenTextSplitter', () => {
+  const tokenizer = TiktokenTokenizer.fromRanks('gpt2', createRanks(MERGES));
+
+  it('should split by token windows with overlap', async () => {
+    const splitter = new TokenTextSplitter({ tokenizer, chunkSize: 2, chunkOverlap: 1 });
+
+    const chunks = await splitter.splitText('hello world hello');
+
+    expect(chunks).toEqual(['hello world', ' world ', ' hello']);
+  });
+
+  it('should snap window edges to whole characters', async () => {
+    // Each CJK character is three byte-level tokens, so windows of 4 cut characters
+    const splitter = new TokenTextSplitter({ tokenizer, chunkSize: 4, chunkOverlap: 0 });
+
+    const chunks = await splitter.splitText('你好世界');
+
+    expect(chunks.join('')).toBe('你好世界');
+    expect(chunks.some(chunk => chunk.includes('\uFFFD'))).toBe(false);
+  });
+
+  it('should keep non-empty chunks when a window is smaller than a character', async () => {
+    const splitter = new TokenTextSplitter({ tokenizer, chunkSize: 2, chunkOverlap: 0 });
+
+    const chunks = await splitter.splitText('🌍a');
+
+    expect(chunks.every(chunk => chunk.length > 0 && !chunk.includes('\uFFFD'))).toBe(true);
+    expect(chunks.join('')).toContain('🌍');
+  });
+
+  it('should approximate tokens by characters without ranks or tokenizer', async () => {
+    const splitter = new TokenTextSplitter({ chunkSize: 4, chunkOverlap: 1 });
+
+    const chunks = await splitter.splitText('abcdefghij');
+
+    expect(chunks).toEqual(['abcd', 'defg', 'ghij']);
+  });
+
+  it('should reject without ranks or tokenizer when approximate is false', async () => {
+    const splitter = new TokenTextSplitter({ chunkSize: 4, chunkOverlap: 1, approximate: false });
+
+    await expect(splitter.splitText('abcdefghij')).rejects.toThrow('No BPE ranks provided for "gpt2"');
+  });
+
+  it('should prefer the tokenizer over the approximation', async () => {
+    const splitter = new TokenTextSplitter({ tokenizer, chunkSize: 1, chunkOverlap: 0, approximate: true });
+
+    expect(await splitter.splitText('hello world')).toEqual(['hello', ' world']);
+  });
+});
@@ -1,14 +1,26 @@
+import { Logger } from '@nestjs/common';
 import { TextSplitter, TextSplitterParams } from './text-splitter';
+import { TiktokenEncodingName, TiktokenTokenizer, Tokenizer } from './tiktoken-tokenizer';
 
 /**
  * TokenTextSplitter 配置参数
  */
 export interface TokenTextSplitterParams extends TextSplitterParams {
   /**
-   * 编码名称
+   * 编码名称（gpt2、r50k_base、p50k_base、p50k_edit、cl100k_base、o200k_base）
    * @default "gpt2"
    */
-  encodingName?: string;
+  encodingName?: TiktokenEncodingName;
+
+  /**
+   * 本地 .tiktoken 词表文件路径（gpt2 使用 r50k_base.tiktoken）
+   */
+  ranksPath?: string;
+
+  /**
+   * 自定义分词器（提供时忽略 encodingName 和 ranksPath）
+   */
+  tokenizer?: Tokenizer;
 
   /**
    * 允许的特殊 token
@@ -21,49 +33,104 @@ export interface TokenTextSplitterParams extends TextSplitterParams {
    * @default "all"
    */
   disallowedSpecial?: 'all' | string[];
+
+  /**
+   * 未提供 ranksPath 和 tokenizer 时是否按字符切分，以字符长度作为 token 的近似值
+   * （encodingName、allowedSpecial 和 disallowedSpecial 不生效）
+   *
+   * 未设置时按字符切分并输出一次警告；设置为 false 时缺少词表会抛出错误
+   */
+  approximate?: boolean;
 }
 
 /**
  * Token 文本分割器
  *
- * 基于 token 计数分割文本，适用于需要精确控制 token 数量的场景
+ * 使用 tiktoken 兼容的 BPE 分词器将文本编码为 token，
+ * 按 chunkSize 个 token 的窗口切分，相邻窗口重叠 chunkOverlap 个 token。
+ * chunkSize / chunkOverlap 的单位是 token 而不是字符。
  *
- * 注意：此实现使用字符长度作为 token 的近似值。
- * 如需精确的 token 计数，请使用 tiktoken 或类似的 tokenizer 库。
+ * 词表从本地 .tiktoken 文件加载（离线运行），也可以通过 tokenizer 传入其他分词器。
+ * 窗口边界落在多字节字符中间时，边界对齐到该字符的起点，字符完整地归入后一个块。
+ *
+ * 未提供 ranksPath 和 tokenizer 时按字符切分，以字符长度作为 token 的近似值（与旧版本行为一致），
+ * 设置 approximate: false 后改为抛出错误（与 tokenLength 一致）。
  *
  * @example
  * ```typescript
  * const splitter = new TokenTextSplitter({
- *   chunkSize: 1000,
- *   chunkOverlap: 200
+ *   encodingName: 'cl100k_base',
+ *   ranksPath: './models/cl100k_base.tiktoken',
+ *   chunkSize: 512,
+ *   chunkOverlap: 64
  * });
  *
  * const chunks = await splitter.splitText(text);
  * ```
  */
 export class TokenTextSplitter extends TextSplitter {
-  encodingName: string;
+  private static readonly logger = new Logger(TokenTextSplitter.name);
+  private static approximationWarned = false;
+
+  encodingName: TiktokenEncodingName;
+  ranksPath?: string;
   allowedSpecial: 'all' | string[];
   disallowedSpecial: 'all' | string[];
+  approximate?: boolean;
+  private tokenizer?: Tokenizer;
 
   constructor(params?: Partial<TokenTextSplitterParams>) {
     super(params);
     this.encodingName = params?.encodingName ?? 'gpt2';
+    this.ranksPath = params?.ranksPath;
+    this.tokenizer = params?.tokenizer;
     this.allowedSpecial = params?.allowedSpecial ?? [];
     this.disallowedSpecial = params?.disallowedSpecial ?? 'all';
+    this.approximate = params?.approximate;
   }
 
   /**
    * 分割文本
    *
-   * 注意：此实现使用简单的字符分割作为 token 的近似。
-   * 实际的 token 计数可能与此不同。
+   * @throws Error 未提供词表（且 approximate 为 false）、词表加载失败，或文本包含不允许的特殊 token 时
    */
   async splitText(text: string): Promise<string[]> {
+    if (this.approximate !== false && !this.tokenizer && !this.ranksPath) {
+      if (this.approximate === undefined && !TokenTextSplitter.approximationWarned) {
+        TokenTextSplitter.approximationWarned = true;
+        TokenTextSplitter.logger.warn(
+          'No BPE ranks or tokenizer provided, approximating tokens by characters. ' +
+          'Pass ranksPath or tokenizer for exact token counts, or approximate: true to silence this warning.'
+        );
+      }
+      return this.splitByCharacters(text);
+    }
+
+    const tokenizer = await this.getTokenizer();
+    const tokens = tokenizer.encode(text, this.allowedSpecial, this.disallowedSpecial);
+    const decodeWindow = tokenizer.decodeBytes
+      ? TokenTextSplitter.createByteDecoder(tokenizer.decodeBytes.bind(tokenizer), tokens)
+      : (start: number, end: number) => tokenizer.decode(tokens.slice(start, end));
     const splits: string[] = [];
 
-    // 简单实现：按字符分割
-    // 在实际应用中，应该使用 tiktoken 等库进行精确的 token 计数
+    // chunkOverlap < chunkSize 由基类保证，窗口起点严格递增
+    for (let start = 0; start < tokens.length; start += this.chunkSize - this.chunkOverlap) {
+      const end = Math.min(start + this.chunkSize, tokens.length);
+      splits.push(decodeWindow(start, end));
+
+      if (end === tokens.length) {
+        break;
+      }
+    }
+
+    return splits;
+  }
+
+  /**
+   * 按字符近似切分（未配置词表且 approximate 不为 false 时使用）
+   */
+  private splitByCharacters(text: string): string[] {
+    const splits: string[] = [];
     let startIdx = 0;
     const textLength = text.length;
 
@@ -74,12 +141,58 @@ export class TokenTextSplitter extends TextSplitter {
       }
 
       const endIdx = Math.min(startIdx + this.chunkSize, textLength);
-      const chunk = text.slice(startIdx, endIdx);
-      splits.push(chunk);
+      splits.push(text.slice(startIdx, endIdx));
 
       startIdx = endIdx;
     }
 
     return splits;
   }
+
+  /**
+   * 创建按字节解码窗口的函数，窗口边界对齐到完整的 UTF-8 字符
+   *
+   * 两侧边界都向前对齐到字符起点，相邻窗口在同一位置对齐，跨边界的字符完整地出现在后一个块中；
+   * 窗口小于一个字符时结束边界向后对齐，保证每个块非空
+   */
+  private static createByteDecoder(
+    decodeBytes: (tokens: number[]) => Buffer,
+    tokens: number[]
+  ): (start: number, end: number) => string {
+    const bytes = decodeBytes(tokens);
+    const offsets = [0];
+    for (const token of tokens) {
+      offsets.push(offsets[offsets.length - 1] + decodeBytes([token]).length);
+    }
+
+    const isContinuation = (pos: number) => pos < bytes.length && (bytes[pos] & 0xc0) === 0x80;
+    const snapBackward = (pos: number) => {
+      while (pos > 0 && isContinuation(pos)) pos--;
+      return pos;
+    };
+    const snapForward = (pos: number) => {
+      while (isContinuation(pos)) pos++;
+      return pos;
+    };
+
+    return (start, end) => {
+      const byteStart = snapBackward(offsets[start]);
+      let byteEnd = snapBackward(offsets[end]);
+      if (byteEnd <= byteStart) {
+        byteEnd = snapForward(offsets[end]);
+      }
+      return bytes.toString('utf8', byteStart, byteEnd);
+    };
+  }
+
+  /**
+   * 获取分词器（首次调用时加载）
+   */
+  private async getTokenizer(): Promise<Tokenizer> {
+    this.tokenizer ??= await TiktokenTokenizer.load({
+      encodingName: this.encodingName,
+      ranksPath: this.ranksPath,
+    });
+    return this.tokenizer;
+  }
 }